@@ -0,0 +1,286 @@
+import { DynamoDBDataLoader } from '../../../data-loader/dynamo-db';
+
+describe('DynamoDBDataLoader', () => {
+  const client = {
+    batchGetItem: jest.fn(),
+    batchWriteItem: jest.fn(),
+    transactGetItems: jest.fn(),
+    transactWriteItems: jest.fn(),
+  };
+  let loader: DynamoDBDataLoader;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    loader = new DynamoDBDataLoader({
+      config: {
+        endpoint: 'http://localhost:62224',
+        region: 'us-fake-1',
+        accessKeyId: 'fake',
+        secretAccessKey: 'fake',
+        tableName: 'PostTable',
+      },
+      options: {},
+    });
+    (loader as any).client = client;
+  });
+
+  describe('BatchGetItem', () => {
+    it('should return items in the order of the requested keys across tables', async () => {
+      client.batchGetItem.mockReturnValue({
+        promise: () =>
+          Promise.resolve({
+            Responses: {
+              PostTable: [
+                { id: { S: '2' }, title: { S: 'second' } },
+                { id: { S: '1' }, title: { S: 'first' } },
+              ],
+              AuthorTable: [],
+            },
+            UnprocessedKeys: {
+              AuthorTable: { Keys: [{ id: { S: 'a1' } }] },
+            },
+          }),
+      });
+
+      const result = await loader.load({
+        operation: 'BatchGetItem',
+        tables: {
+          PostTable: { keys: [{ id: { S: '1' } }, { id: { S: '3' } }, { id: { S: '2' } }], consistentRead: true },
+          AuthorTable: { keys: [{ id: { S: 'a1' } }] },
+        },
+      });
+
+      expect(client.batchGetItem).toHaveBeenCalledWith({
+        RequestItems: {
+          PostTable: { Keys: [{ id: { S: '1' } }, { id: { S: '3' } }, { id: { S: '2' } }], ConsistentRead: true },
+          AuthorTable: { Keys: [{ id: { S: 'a1' } }], ConsistentRead: false },
+        },
+      });
+      expect(result).toEqual({
+        data: {
+          PostTable: [{ id: '1', title: 'first' }, null, { id: '2', title: 'second' }],
+          AuthorTable: [null],
+        },
+        unprocessedKeys: {
+          PostTable: [],
+          AuthorTable: [{ id: 'a1' }],
+        },
+      });
+    });
+
+    it('should reject more than 100 keys', async () => {
+      const keys = Array.from({ length: 101 }, (_, i) => ({ id: { S: `${i}` } }));
+      await expect(loader.load({ operation: 'BatchGetItem', tables: { PostTable: { keys } } })).rejects.toThrowError(
+        'Too many items requested for the BatchGetItem call',
+      );
+      expect(client.batchGetItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('BatchPutItem', () => {
+    it('should write items and report unprocessed items', async () => {
+      const first = { id: { S: '1' }, title: { S: 'first' } };
+      const second = { id: { S: '2' }, title: { S: 'second' } };
+      client.batchWriteItem.mockReturnValue({
+        promise: () => Promise.resolve({ UnprocessedItems: { PostTable: [{ PutRequest: { Item: second } }] } }),
+      });
+
+      const result = await loader.load({ operation: 'BatchPutItem', tables: { PostTable: [first, second] } });
+
+      expect(client.batchWriteItem).toHaveBeenCalledWith({
+        RequestItems: {
+          PostTable: [{ PutRequest: { Item: first } }, { PutRequest: { Item: second } }],
+        },
+      });
+      expect(result).toEqual({
+        data: { PostTable: [{ id: '1', title: 'first' }, null] },
+        unprocessedItems: { PostTable: [{ id: '2', title: 'second' }] },
+      });
+    });
+
+    it('should reject more than 25 items', async () => {
+      const items = Array.from({ length: 26 }, (_, i) => ({ id: { S: `${i}` } }));
+      await expect(loader.load({ operation: 'BatchPutItem', tables: { PostTable: items } })).rejects.toThrowError(
+        'Too many items requested for the BatchWriteItem call',
+      );
+      expect(client.batchWriteItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('BatchDeleteItem', () => {
+    it('should delete items and return the deleted keys', async () => {
+      client.batchWriteItem.mockReturnValue({
+        promise: () => Promise.resolve({ UnprocessedItems: {} }),
+      });
+
+      const result = await loader.load({
+        operation: 'BatchDeleteItem',
+        tables: { PostTable: [{ id: { S: '1' } }], AuthorTable: [{ id: { S: 'a1' } }] },
+      });
+
+      expect(client.batchWriteItem).toHaveBeenCalledWith({
+        RequestItems: {
+          PostTable: [{ DeleteRequest: { Key: { id: { S: '1' } } } }],
+          AuthorTable: [{ DeleteRequest: { Key: { id: { S: 'a1' } } } }],
+        },
+      });
+      expect(result).toEqual({
+        data: { PostTable: [{ id: '1' }], AuthorTable: [{ id: 'a1' }] },
+        unprocessedKeys: { PostTable: [], AuthorTable: [] },
+      });
+    });
+  });
+
+  describe('TransactGetItems', () => {
+    it('should return the items in the order of the transact items', async () => {
+      client.transactGetItems.mockReturnValue({
+        on: jest.fn(),
+        promise: () => Promise.resolve({ Responses: [{ Item: { id: { S: '1' }, title: { S: 'first' } } }, {}] }),
+      });
+
+      const result = await loader.load({
+        operation: 'TransactGetItems',
+        transactItems: [
+          { table: 'PostTable', key: { id: { S: '1' } } },
+          { table: 'AuthorTable', key: { id: { S: 'a1' } }, projection: { expression: '#name', expressionNames: { '#name': 'name' } } },
+        ],
+      });
+
+      expect(client.transactGetItems).toHaveBeenCalledWith({
+        TransactItems: [
+          { Get: { TableName: 'PostTable', Key: { id: { S: '1' } } } },
+          {
+            Get: {
+              TableName: 'AuthorTable',
+              Key: { id: { S: 'a1' } },
+              ProjectionExpression: '#name',
+              ExpressionAttributeNames: { '#name': 'name' },
+            },
+          },
+        ],
+      });
+      expect(result).toEqual({ items: [{ id: '1', title: 'first' }, null], cancellationReasons: null });
+    });
+  });
+
+  describe('TransactWriteItems', () => {
+    const transactItems = [
+      {
+        table: 'PostTable',
+        operation: 'PutItem',
+        key: { id: { S: '1' } },
+        attributeValues: { title: { S: 'first' } },
+        condition: { expression: 'attribute_not_exists(#id)', expressionNames: { '#id': 'id' } },
+      },
+      {
+        table: 'CounterTable',
+        operation: 'UpdateItem',
+        key: { id: { S: 'posts' } },
+        update: { expression: 'ADD #count :one', expressionNames: { '#count': 'count' }, expressionValues: { ':one': { N: '1' } } },
+      },
+      { table: 'PostTable', operation: 'DeleteItem', key: { id: { S: '2' } } },
+      {
+        table: 'AuthorTable',
+        operation: 'ConditionCheck',
+        key: { id: { S: 'a1' } },
+        condition: { expression: 'attribute_exists(id)', returnValuesOnConditionCheckFailure: false },
+      },
+    ];
+
+    it('should convert the transact items and return the keys', async () => {
+      client.transactWriteItems.mockReturnValue({
+        on: jest.fn(),
+        promise: () => Promise.resolve({}),
+      });
+
+      const result = await loader.load({ operation: 'TransactWriteItems', transactItems });
+
+      expect(client.transactWriteItems).toHaveBeenCalledWith({
+        TransactItems: [
+          {
+            Put: {
+              TableName: 'PostTable',
+              Item: { id: { S: '1' }, title: { S: 'first' } },
+              ConditionExpression: 'attribute_not_exists(#id)',
+              ExpressionAttributeNames: { '#id': 'id' },
+              ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+            },
+          },
+          {
+            Update: {
+              TableName: 'CounterTable',
+              Key: { id: { S: 'posts' } },
+              UpdateExpression: 'ADD #count :one',
+              ExpressionAttributeNames: { '#count': 'count' },
+              ExpressionAttributeValues: { ':one': { N: '1' } },
+            },
+          },
+          { Delete: { TableName: 'PostTable', Key: { id: { S: '2' } } } },
+          { ConditionCheck: { TableName: 'AuthorTable', Key: { id: { S: 'a1' } }, ConditionExpression: 'attribute_exists(id)' } },
+        ],
+      });
+      expect(result).toEqual({
+        keys: [{ id: '1' }, { id: 'posts' }, { id: '2' }, { id: 'a1' }],
+        cancellationReasons: null,
+      });
+    });
+
+    it('should attach the cancellation reasons to the error when the transaction is cancelled', async () => {
+      const error: any = new Error(
+        'Transaction cancelled, please refer cancellation reasons for specific reasons [ConditionalCheckFailed, None]',
+      );
+      error.code = 'TransactionCanceledException';
+      client.transactWriteItems.mockReturnValue({
+        on: (event, handler) => {
+          handler({
+            httpResponse: {
+              body: JSON.stringify({
+                CancellationReasons: [
+                  { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed', Item: { id: { S: '1' } } },
+                  { Code: 'None' },
+                  { Code: 'None' },
+                  { Code: 'None' },
+                ],
+              }),
+            },
+          });
+        },
+        promise: () => Promise.reject(error),
+      });
+
+      await expect(loader.load({ operation: 'TransactWriteItems', transactItems })).rejects.toMatchObject({
+        extensions: { errorType: 'DynamoDB:TransactionCanceledException' },
+        result: {
+          keys: null,
+          cancellationReasons: [
+            { type: 'ConditionalCheckFailed', message: 'The conditional request failed', item: { id: '1' } },
+            { type: 'None', message: null },
+            { type: 'None', message: null },
+            { type: 'None', message: null },
+          ],
+        },
+      });
+    });
+
+    it('should use the reasons from the error message when the response has no cancellation reasons', async () => {
+      const error: any = new Error(
+        'Transaction cancelled, please refer cancellation reasons for specific reasons [None, ConditionalCheckFailed]',
+      );
+      error.code = 'TransactionCanceledException';
+      client.transactWriteItems.mockReturnValue({
+        on: jest.fn(),
+        promise: () => Promise.reject(error),
+      });
+
+      await expect(loader.load({ operation: 'TransactWriteItems', transactItems })).rejects.toMatchObject({
+        result: {
+          keys: null,
+          cancellationReasons: [
+            { type: 'None', message: null },
+            { type: 'ConditionalCheckFailed', message: null },
+          ],
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { ElasticsearchDataLoader, InMemoryElasticsearchDomain } from '../../../data-loader/elasticsearch';
+
+describe('ElasticsearchDataLoader', () => {
+  let domain: InMemoryElasticsearchDomain;
+  let loader: ElasticsearchDataLoader;
+
+  beforeEach(() => {
+    domain = new InMemoryElasticsearchDomain();
+    domain.indexDocument('post', '1', { id: '1', title: 'Hello World', upvotes: 5, tags: ['news'] });
+    domain.indexDocument('post', '2', { id: '2', title: 'Another post', upvotes: 20, tags: ['misc', 'news'] });
+    domain.indexDocument('post', '3', { id: '3', title: 'hello again', upvotes: 12 });
+    domain.indexDocument('comment', '1', { id: '1', content: 'Hello' });
+    loader = new ElasticsearchDataLoader({ name: 'ElasticSearchDomain', config: { domain } });
+  });
+
+  const search = body => loader.load({ operation: 'GET', path: '/post/doc/_search', params: { body } }) as Promise<any>;
+
+  it('should return all the documents of the index for match_all', async () => {
+    const result = await search({ size: 10, query: { match_all: {} } });
+    expect(result.hits.total).toEqual(3);
+    expect(result.hits.hits.map(hit => hit._id).sort()).toEqual(['1', '2', '3']);
+    expect(result.hits.hits[0]).toMatchObject({ _index: 'post', _type: 'doc' });
+  });
+
+  it('should filter documents with term, match, range and bool queries', async () => {
+    const ids = async query => (await search({ query, sort: [{ id: { order: 'asc' } }] })).hits.hits.map(hit => hit._id);
+
+    expect(await ids({ term: { title: 'hello' } })).toEqual(['1', '3']);
+    expect(await ids({ term: { title: 'Hello' } })).toEqual([]);
+    expect(await ids({ term: { 'title.keyword': 'Hello World' } })).toEqual(['1']);
+    expect(await ids({ match: { title: 'world again' } })).toEqual(['1', '3']);
+    expect(await ids({ match_phrase: { title: 'hello world' } })).toEqual(['1']);
+    expect(await ids({ match_phrase_prefix: { title: 'another po' } })).toEqual(['2']);
+    expect(await ids({ range: { upvotes: { gte: 10, lte: 15 } } })).toEqual(['3']);
+    expect(await ids({ wildcard: { title: 'hel*' } })).toEqual(['1', '3']);
+    expect(await ids({ exists: { field: 'tags' } })).toEqual(['1', '2']);
+    expect(await ids({ term: { tags: 'misc' } })).toEqual(['2']);
+    expect(
+      await ids({
+        bool: {
+          should: [{ term: { upvotes: 5 } }, { term: { upvotes: 20 } }],
+          must_not: { term: { tags: 'misc' } },
+        },
+      }),
+    ).toEqual(['1']);
+  });
+
+  it('should sort and paginate with search_after', async () => {
+    const body = { size: 2, sort: [{ upvotes: { order: 'desc' } }], version: true, query: { match_all: {} } };
+    const firstPage = await search(body);
+    expect(firstPage.hits.total).toEqual(3);
+    expect(firstPage.hits.hits.map(hit => hit._id)).toEqual(['2', '3']);
+    expect(firstPage.hits.hits[1].sort).toEqual([12]);
+    expect(firstPage.hits.hits[1]._version).toEqual(1);
+
+    const secondPage = await search({ ...body, search_after: ['12'] });
+    expect(secondPage.hits.hits.map(hit => hit._id)).toEqual(['1']);
+  });
+
+  it('should index, get and delete documents', async () => {
+    const indexed: any = await loader.load({ operation: 'PUT', path: '/post/doc/4', params: { body: { id: '4', title: 'new' } } });
+    expect(indexed).toEqual({ _index: 'post', _type: 'doc', _id: '4', _version: 1, result: 'created' });
+
+    const doc: any = await loader.load({ operation: 'GET', path: '/post/doc/4' });
+    expect(doc).toMatchObject({ found: true, _source: { id: '4', title: 'new' } });
+
+    const deleted: any = await loader.load({ operation: 'DELETE', path: '/post/doc/4' });
+    expect(deleted.result).toEqual('deleted');
+    expect(await loader.load({ operation: 'GET', path: '/post/doc/4' })).toMatchObject({ found: false });
+  });
+
+  it('should reject unsupported requests', async () => {
+    await expect(loader.load({ operation: 'GET', path: '/post' })).rejects.toMatchObject({
+      extensions: { errorType: 'Elasticsearch:BadRequest' },
+    });
+    await expect(search({ query: { fuzzy: { title: 'helo' } } })).rejects.toThrowError('Query type fuzzy is not supported');
+  });
+});
@@ -0,0 +1,83 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HTTPDataLoader } from '../../../data-loader/http';
+
+describe('HTTPDataLoader', () => {
+  let server: http.Server;
+  let endpoint: string;
+  const requests = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString() });
+        res.setHeader('content-type', 'application/json');
+        res.setHeader('x-custom-header', 'custom');
+        res.statusCode = req.method === 'POST' ? 201 : 200;
+        res.end(JSON.stringify({ ok: true }));
+      });
+    });
+    await new Promise(resolve => server.listen(0, 'localhost', resolve));
+    endpoint = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('should throw when the endpoint is missing', () => {
+    expect(() => new HTTPDataLoader({ name: 'HttpDataSource', config: { endpoint: undefined } })).toThrowError('Invalid HTTPConfig');
+  });
+
+  it('should send the query parameters and headers and return the response in AppSync shape', async () => {
+    const loader = new HTTPDataLoader({ name: 'HttpDataSource', config: { endpoint } });
+    const result = await loader.load({
+      method: 'GET',
+      resourcePath: '/posts/1',
+      params: {
+        query: { limit: '10', tags: ['a', 'b'] },
+        headers: { Authorization: 'token' },
+      },
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toEqual('GET');
+    expect(requests[0].url).toEqual('/posts/1?limit=10&tags=a&tags=b');
+    expect(requests[0].headers.authorization).toEqual('token');
+    expect(result.statusCode).toEqual(200);
+    expect(result.headers['x-custom-header']).toEqual('custom');
+    expect(result.body).toEqual('{"ok":true}');
+  });
+
+  it('should send the body and append the resource path to the endpoint path', async () => {
+    const loader = new HTTPDataLoader({ name: 'HttpDataSource', config: { endpoint: `${endpoint}/dev/` } });
+    const result = await loader.load({
+      method: 'post',
+      resourcePath: '/posts',
+      params: {
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"title":"hello"}',
+      },
+    });
+
+    expect(requests[0].method).toEqual('POST');
+    expect(requests[0].url).toEqual('/dev/posts');
+    expect(requests[0].body).toEqual('{"title":"hello"}');
+    expect(result.statusCode).toEqual(201);
+  });
+
+  it('should reject invalid requests', async () => {
+    const loader = new HTTPDataLoader({ name: 'HttpDataSource', config: { endpoint } });
+    await expect(loader.load({ method: 'TRACE', resourcePath: '/posts' })).rejects.toMatchObject({
+      extensions: { errorType: 'HTTP:BadRequest' },
+    });
+    await expect(loader.load({ method: 'GET', resourcePath: 'posts' })).rejects.toThrowError('The resourcePath must start with /');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { createPool } from 'mysql2/promise';
+import { closeRDSConnectionPools, RDSDataLoader, substituteVariables } from '../../../data-loader/rds';
+
+jest.mock('mysql2/promise');
+
+describe('substituteVariables', () => {
+  const escape = value => (typeof value === 'string' ? `'${value}'` : `${value}`);
+
+  it('replaces the placeholders with escaped values', () => {
+    expect(substituteVariables('SELECT * FROM Post WHERE id=:ID AND rating > :rating', { ':ID': 'p1', rating: 3 }, escape)).toEqual(
+      "SELECT * FROM Post WHERE id='p1' AND rating > 3",
+    );
+  });
+
+  it('does not replace placeholders inside quoted strings or unknown placeholders', () => {
+    expect(substituteVariables("SELECT ':ID' AS label, `:ID` FROM Post WHERE id=:OTHER", { ':ID': 'p1' }, escape)).toEqual(
+      "SELECT ':ID' AS label, `:ID` FROM Post WHERE id=:OTHER",
+    );
+  });
+});
+
+describe('RDSDataLoader', () => {
+  const connection = { host: 'localhost', user: 'root', password: 'password' };
+  const queryMock = jest.fn();
+  const releaseMock = jest.fn();
+  const endMock = jest.fn();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (createPool as jest.Mock).mockReturnValue({
+      getConnection: jest.fn().mockResolvedValue({
+        query: queryMock,
+        escape: value => `'${value}'`,
+        release: releaseMock,
+      }),
+      end: endMock,
+    });
+  });
+
+  afterEach(async () => {
+    await closeRDSConnectionPools();
+  });
+
+  it('returns the results in the Data API format', async () => {
+    queryMock.mockResolvedValueOnce([{ affectedRows: 1, insertId: 0 }, undefined]);
+    queryMock.mockResolvedValueOnce([
+      [{ id: 'p1', title: null, rating: 4, score: 1.5 }],
+      [
+        { name: 'id', orgName: 'id', orgTable: 'Post', columnType: 0xfd, flags: 1 },
+        { name: 'title', orgName: 'title', orgTable: 'Post', columnType: 0xfc, flags: 0 },
+        { name: 'rating', orgName: 'rating', orgTable: 'Post', columnType: 0x03, flags: 0 },
+        { name: 'score', orgName: 'score', orgTable: 'Post', columnType: 0x05, flags: 0 },
+      ],
+    ]);
+    const loader = new RDSDataLoader({ name: 'PostRDS', config: { databaseName: 'blog', connection } });
+    const result = await loader.load({
+      statements: ['INSERT INTO Post (id) VALUES (:ID)', 'SELECT * FROM Post WHERE id=:ID'],
+      variableMap: { ':ID': 'p1' },
+    });
+
+    expect(queryMock).toHaveBeenNthCalledWith(1, "INSERT INTO Post (id) VALUES ('p1')");
+    expect(queryMock).toHaveBeenNthCalledWith(2, "SELECT * FROM Post WHERE id='p1'");
+    expect(releaseMock).toHaveBeenCalled();
+    expect(JSON.parse(result)).toEqual({
+      sqlStatementResults: [
+        { numberOfRecordsUpdated: 1, generatedFields: [] },
+        {
+          numberOfRecordsUpdated: 0,
+          records: [[{ stringValue: 'p1' }, { isNull: true }, { longValue: 4 }, { doubleValue: 1.5 }]],
+          columnMetadata: [
+            { name: 'id', label: 'id', tableName: 'Post', typeName: 'VARCHAR', nullable: 0 },
+            { name: 'title', label: 'title', tableName: 'Post', typeName: 'TEXT', nullable: 1 },
+            { name: 'rating', label: 'rating', tableName: 'Post', typeName: 'INT', nullable: 1 },
+            { name: 'score', label: 'score', tableName: 'Post', typeName: 'DOUBLE', nullable: 1 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('throws when the local database connection is not configured', async () => {
+    const loader = new RDSDataLoader({ name: 'PostRDS', config: { databaseName: 'blog' } });
+    await expect(loader.load({ statements: ['SELECT 1'] })).rejects.toMatchObject({
+      extensions: { errorType: 'RDS:BadRequest' },
+    });
+  });
+
+  it('reports database errors with the error code', async () => {
+    const error: any = new Error("Table 'blog.Post' doesn't exist");
+    error.code = 'ER_NO_SUCH_TABLE';
+    queryMock.mockRejectedValueOnce(error);
+    const loader = new RDSDataLoader({ name: 'PostRDS', config: { databaseName: 'blog', connection } });
+    await expect(loader.load({ statements: ['SELECT * FROM Post'] })).rejects.toMatchObject({
+      extensions: { errorType: 'RDS:ER_NO_SUCH_TABLE' },
+    });
+    expect(releaseMock).toHaveBeenCalled();
+  });
+
+  it('ends the connection pools when they are closed', async () => {
+    queryMock.mockResolvedValue([[], []]);
+    const loader = new RDSDataLoader({ name: 'PostRDS', config: { databaseName: 'blog', connection } });
+    await loader.load({ statements: ['SELECT 1'] });
+    await loader.load({ statements: ['SELECT 2'] });
+
+    await closeRDSConnectionPools();
+    expect(endMock).toHaveBeenCalledTimes(1);
+
+    await loader.load({ statements: ['SELECT 3'] });
+    expect(createPool).toHaveBeenCalledTimes(2);
+  });
+});
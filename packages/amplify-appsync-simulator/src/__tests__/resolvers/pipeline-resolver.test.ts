@@ -1,6 +1,7 @@
 import { AppSyncPipelineResolver } from '../../resolvers/pipeline-resolver';
 import { AmplifyAppSyncSimulator } from '../..';
 import { RESOLVER_KIND, AppSyncSimulatorPipelineResolverConfig } from '../../type-definition';
+import { NOOP_TRACE_RECORDER, RequestTracer } from '../../utils/graphql-runner/tracing';
 describe('Pipeline Resolvers', () => {
   const getFunction = jest.fn();
   const getMappingTemplate = jest.fn();
@@ -140,6 +141,7 @@ describe('Pipeline Resolvers', () => {
         'REQUEST_TEMPLATE_RESULT',
         context,
         info,
+        NOOP_TRACE_RECORDER,
       );
 
       expect(fnImpl.fn2.resolve).toHaveBeenLastCalledWith(
@@ -149,6 +151,7 @@ describe('Pipeline Resolvers', () => {
         'FN1-RESULT',
         context,
         info,
+        NOOP_TRACE_RECORDER,
       );
 
       expect(templates['response'].render).toHaveBeenCalledWith(
@@ -199,5 +202,35 @@ describe('Pipeline Resolvers', () => {
       expect(result).toEqual('RESPONSE_TEMPLATE_RESULT');
       expect(context.appsyncErrors).toEqual(['REQUEST_TEMPLATE_ERROR', 'RESPONSE_TEMPLATE_ERROR']);
     });
+
+    it('should record the trace of the templates and functions when the request is traced', async () => {
+      const tracer = new RequestTracer();
+      const context = {
+        appsyncErrors: [],
+        tracer,
+      };
+      const info = { fieldName: 'fn1' };
+      await resolver.resolve('SOURCE', { arg1: 'val' }, context, info);
+      const [trace] = tracer.toJSON().execution.resolvers;
+      expect(trace).toMatchObject({
+        fieldName: 'fn1',
+        kind: 'PIPELINE',
+        requestMapping: { result: 'REQUEST_TEMPLATE_RESULT', stash: { exeSeq: ['REQUEST-MAPPING-TEMPLATE'] } },
+        responseMapping: { result: 'RESPONSE_TEMPLATE_RESULT' },
+        functions: [
+          {
+            name: 'fn1',
+            stashBefore: { exeSeq: ['REQUEST-MAPPING-TEMPLATE'] },
+            stashAfter: { exeSeq: ['REQUEST-MAPPING-TEMPLATE', 'fn1'] },
+          },
+          {
+            name: 'fn2',
+            stashBefore: { exeSeq: ['REQUEST-MAPPING-TEMPLATE', 'fn1'] },
+            stashAfter: { exeSeq: ['REQUEST-MAPPING-TEMPLATE', 'fn1', 'fn2'] },
+          },
+        ],
+      });
+      expect(trace.duration).toBeGreaterThanOrEqual(0);
+    });
   });
 });
@@ -1,6 +1,8 @@
 import { AppSyncUnitResolver } from '../../resolvers/unit-resolver';
 import { AmplifyAppSyncSimulator } from '../..';
 import { RESOLVER_KIND, AppSyncSimulatorUnitResolverConfig } from '../../type-definition';
+import { RequestTracer } from '../../utils/graphql-runner/tracing';
+import { ResolverCache } from '../../utils/resolver-cache';
 
 describe('Unit resolver', () => {
   const getDataLoader = jest.fn();
@@ -77,6 +79,13 @@ describe('Unit resolver', () => {
       appsyncErrors: [],
     };
 
+    // resolvers with a simulator context of their own, the shared one is left as it is
+    const createResolver = (simulatorConfig: object, resolverConfig: object = {}) =>
+      new AppSyncUnitResolver(
+        { ...baseConfig, requestMappingTemplateLocation: 'request', responseMappingTemplateLocation: 'response', ...resolverConfig },
+        ({ getDataLoader, getMappingTemplate, ...simulatorConfig } as unknown) as AmplifyAppSyncSimulator,
+      );
+
     beforeEach(() => {
       context.appsyncErrors = [];
       templates = {
@@ -172,5 +181,92 @@ describe('Unit resolver', () => {
       expect(result).toEqual(REQUEST_TEMPLATE_RESULT.result);
       expect(context.appsyncErrors).toEqual(['request error', 'response error']);
     });
+
+    it('should record the trace of the templates and the data source when the request is traced', async () => {
+      const tracer = new RequestTracer();
+      const error: any = new Error('Conditional check failed');
+      error.extensions = { errorType: 'DynamoDB:ConditionalCheckFailedException' };
+      const requestResult = { version: '2018-05-29', result: 'REQUEST' };
+      templates.request.render.mockReturnValue({ result: requestResult, errors: [] });
+      dataFetcher.mockRejectedValue(error);
+      await resolver.resolve(source, args, { ...context, tracer }, info);
+      const [trace] = tracer.toJSON().execution.resolvers;
+      expect(trace).toMatchObject({
+        kind: 'UNIT',
+        requestMapping: { result: requestResult, errors: [] },
+        dataSource: {
+          name: 'TodoTable',
+          request: requestResult,
+          result: null,
+          error: { message: 'Conditional check failed', errorType: 'DynamoDB:ConditionalCheckFailedException' },
+        },
+        responseMapping: { result: RESPONSE_TEMPLATE_RESULT, errors: [] },
+      });
+      expect(trace.duration).toBeGreaterThanOrEqual(trace.dataSource.duration);
+    });
+
+    it('should fail the field when the data source response is too large and strict AppSync parity is enabled', async () => {
+      const fieldInfo = { fieldName: 'getPost', path: { key: 'getPost', prev: null }, fieldNodes: [] };
+      templates.request.render.mockReturnValue({ result: { version: '2017-02-29', result: 'REQUEST' }, errors: [] });
+      dataFetcher.mockResolvedValue('x'.repeat(6 * 1024 * 1024));
+      await expect(resolver.resolve(source, args, context, fieldInfo)).resolves.toEqual(RESPONSE_TEMPLATE_RESULT);
+
+      const strictResolver = createResolver({ strictAppSyncParity: true });
+      await expect(strictResolver.resolve(source, args, context, fieldInfo)).rejects.toMatchObject({
+        extensions: { errorType: 'ResponseTooLargeException' },
+      });
+      expect(templates.response.render).toHaveBeenCalledTimes(1);
+    });
+
+    describe('caching', () => {
+      const queryInfo = { fieldName: 'getPost', parentType: { name: 'Query' }, operation: { operation: 'query' } };
+      const fullRequestCaching = { apiCaching: { type: 'FULL_REQUEST_CACHING', ttl: 60 } };
+      let resolverCache: ResolverCache;
+
+      beforeEach(() => {
+        templates.request.render.mockReturnValue({ result: { version: '2017-02-29', result: 'REQUEST' }, errors: [] });
+        resolverCache = new ResolverCache();
+      });
+
+      it('should serve the result from the cache with full request caching', async () => {
+        const cachingResolver = createResolver({ resolverCache, appSyncConfig: fullRequestCaching });
+        const tracer = new RequestTracer();
+        await cachingResolver.resolve(source, args, context, queryInfo);
+        const result = await cachingResolver.resolve(source, args, { ...context, tracer }, queryInfo);
+        expect(result).toEqual(RESPONSE_TEMPLATE_RESULT);
+        expect(dataFetcher).toHaveBeenCalledTimes(1);
+        expect(tracer.toJSON().execution.resolvers[0].cache).toEqual(expect.objectContaining({ hit: true, ttl: 60 }));
+        expect(resolverCache.stats).toEqual({ hits: 1, misses: 1, entries: 1 });
+
+        await cachingResolver.resolve(source, { key: 'other value' }, context, queryInfo);
+        expect(dataFetcher).toHaveBeenCalledTimes(2);
+      });
+
+      it('should only cache the resolvers with a caching config with per resolver caching', async () => {
+        const simulatorConfig = { resolverCache, appSyncConfig: { apiCaching: { type: 'PER_RESOLVER_CACHING', ttl: 60 } } };
+        const uncachedResolver = createResolver(simulatorConfig);
+        await uncachedResolver.resolve(source, args, context, queryInfo);
+        await uncachedResolver.resolve(source, args, context, queryInfo);
+        expect(dataFetcher).toHaveBeenCalledTimes(2);
+
+        const cachedResolver = createResolver(simulatorConfig, { cachingConfig: { ttl: 30, cachingKeys: ['$context.arguments.key'] } });
+        await cachedResolver.resolve(source, args, context, queryInfo);
+        await cachedResolver.resolve('OTHER SOURCE', args, context, queryInfo);
+        expect(dataFetcher).toHaveBeenCalledTimes(3);
+      });
+
+      it('should not cache mutations or results with errors', async () => {
+        const cachingResolver = createResolver({ resolverCache, appSyncConfig: fullRequestCaching });
+        const mutationInfo = { ...queryInfo, parentType: { name: 'Mutation' }, operation: { operation: 'mutation' } };
+        await cachingResolver.resolve(source, args, context, mutationInfo);
+        await cachingResolver.resolve(source, args, context, mutationInfo);
+        expect(dataFetcher).toHaveBeenCalledTimes(2);
+
+        templates.response.render.mockReturnValue({ result: RESPONSE_TEMPLATE_RESULT, errors: ['response error'] });
+        await cachingResolver.resolve(source, args, context, queryInfo);
+        await cachingResolver.resolve(source, args, context, queryInfo);
+        expect(dataFetcher).toHaveBeenCalledTimes(4);
+      });
+    });
   });
 });
@@ -243,7 +243,14 @@ describe('WebsocketSubscriptionServer', () => {
       const msg = await waitForMessage(client, MESSAGE_TYPES.GQL_START_ACK);
       expect(msg.id).toEqual(id);
       expect(onSubscribeHandler).toHaveBeenCalledTimes(1);
-      expect(onSubscribeHandler).toHaveBeenCalledWith(parse(query), variables, headers, connectionContext.request);
+      expect(onSubscribeHandler).toHaveBeenCalledWith(
+        parse(query),
+        variables,
+        headers,
+        connectionContext.request,
+        undefined,
+        JSON.stringify({ query, variables }),
+      );
       expect(connectionContext.subscriptions.get(id)).toEqual({
         id,
         variables,
@@ -273,7 +280,14 @@ describe('WebsocketSubscriptionServer', () => {
       const msg = await waitForMessage(client, MESSAGE_TYPES.GQL_START_ACK);
       expect(msg.id).toEqual(id);
       expect(onSubscribeHandler).toHaveBeenCalledTimes(1);
-      expect(onSubscribeHandler).toHaveBeenCalledWith(parse(query), variables, headers, connectionContext.request);
+      expect(onSubscribeHandler).toHaveBeenCalledWith(
+        parse(query),
+        variables,
+        headers,
+        connectionContext.request,
+        undefined,
+        req.payload.data,
+      );
       expect(connectionContext.subscriptions.get(id)).toEqual({
         id,
         variables,
@@ -285,7 +299,14 @@ describe('WebsocketSubscriptionServer', () => {
       const msg2 = await waitForMessage(client, MESSAGE_TYPES.GQL_START_ACK);
       expect(msg2.id).toEqual(id2);
       expect(onSubscribeHandler).toHaveBeenCalledTimes(2);
-      expect(onSubscribeHandler).toHaveBeenLastCalledWith(parse(query), variables, headers, connectionContext.request);
+      expect(onSubscribeHandler).toHaveBeenLastCalledWith(
+        parse(query),
+        variables,
+        headers,
+        connectionContext.request,
+        undefined,
+        req.payload.data,
+      );
       expect(connectionContext.subscriptions.size).toEqual(2);
       expect(connectionContext.subscriptions.get(id2)).toEqual({
         id: id2,
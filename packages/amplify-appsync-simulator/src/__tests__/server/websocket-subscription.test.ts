@@ -98,7 +98,7 @@ describe('websocket subscription', () => {
         authorization: 'token here',
       };
       expect(subsServer.onConnect(connectionContext, header)).toBeUndefined();
-      expect(getAuthorizationMode).toHaveBeenCalledWith(header, appSyncConfig);
+      expect(getAuthorizationMode).toHaveBeenCalledWith(header, appSyncConfig, undefined);
     });
 
     it('should throw error when authCheck fails', () => {
@@ -115,7 +115,7 @@ describe('websocket subscription', () => {
         authorization: 'token here',
       };
       expect(() => subsServer.onConnect(connectionContext, header)).toThrowError('UnAuthorized');
-      expect(getAuthorizationMode).toHaveBeenCalledWith(header, appSyncConfig);
+      expect(getAuthorizationMode).toHaveBeenCalledWith(header, appSyncConfig, undefined);
     });
   });
 
@@ -1,5 +1,6 @@
 import { getAuthorizationMode } from '../../../utils/auth-helpers/current-auth-mode';
-import { extractHeader, getAllowedAuthTypes, isValidOIDCToken, extractJwtToken } from '../../../utils/auth-helpers/helpers';
+import { extractHeader, getAllowedAuthTypes, isValidOIDCToken, extractJwtToken, verifyJwtToken } from '../../../utils/auth-helpers/helpers';
+import { LocalTokenIssuer } from '../../../utils/auth-helpers/local-token-issuer';
 import { AmplifyAppSyncSimulatorAuthenticationType, AmplifyAppSyncAPIConfig } from '../../../type-definition';
 
 jest.mock('../../../utils/auth-helpers/helpers');
@@ -102,6 +103,22 @@ describe('getAuthorizationMode', () => {
       expect(() => getAuthorizationMode({}, APPSYNC_CONFIG)).toThrow('UnauthorizedException: Invalid JWT token');
     });
 
+    it('should verify the token when a token verifier is passed', () => {
+      const verifyJwtTokenMock = verifyJwtToken as jest.Mock;
+      const tokenVerifier = new LocalTokenIssuer();
+      extractJwtTokenMock.mockReturnValue({
+        iss: 'https://cognito-idp.aws.amazon.com',
+      });
+      expect(getAuthorizationMode({}, APPSYNC_CONFIG)).toEqual(AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS);
+      expect(verifyJwtTokenMock).not.toHaveBeenCalled();
+
+      verifyJwtTokenMock.mockImplementation(() => {
+        throw new Error('UnauthorizedException: Token has expired.');
+      });
+      expect(() => getAuthorizationMode({}, APPSYNC_CONFIG, tokenVerifier)).toThrow('UnauthorizedException: Token has expired.');
+      expect(verifyJwtTokenMock).toHaveBeenCalledWith(AUTHORIZATION, APPSYNC_CONFIG, tokenVerifier);
+    });
+
     it('should throw error when the COGNITO is not allowed auth type', () => {
       extractJwtTokenMock.mockReturnValue({
         iss: 'https://cognito-idp.aws.amazon.com',
@@ -144,6 +161,47 @@ describe('getAuthorizationMode', () => {
     });
   });
 
+  describe('Lambda', () => {
+    beforeEach(() => {
+      // Ensure API Key auth does not match
+      API_KEY = undefined;
+      AUTHORIZATION = 'custom-authorized';
+      extractJwtTokenMock.mockReturnValue(undefined);
+      getAllowedAuthTypesMock.mockReturnValue([
+        AmplifyAppSyncSimulatorAuthenticationType.API_KEY,
+        AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
+      ]);
+      APPSYNC_CONFIG.additionalAuthenticationProviders = [
+        {
+          authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
+          lambdaAuthorizerConfig: { IdentityValidationExpression: '^custom-' },
+        },
+      ];
+    });
+
+    it('should return AWS_LAMBDA for the tokens that do not match the other auth types', () => {
+      expect(getAuthorizationMode({}, APPSYNC_CONFIG)).toEqual(AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA);
+    });
+
+    it('should pass JWT tokens that are not issued by an identity provider of the API to the Lambda authorizer', () => {
+      const verifyJwtTokenMock = verifyJwtToken as jest.Mock;
+      verifyJwtTokenMock.mockClear();
+      extractJwtTokenMock.mockReturnValue({ iss: 'https://custom-issuer.example.com' });
+      isValidOIDCTokenMock.mockReturnValue(false);
+      expect(getAuthorizationMode({}, APPSYNC_CONFIG, new LocalTokenIssuer())).toEqual(
+        AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
+      );
+      expect(verifyJwtTokenMock).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when the token does not match the IdentityValidationExpression', () => {
+      AUTHORIZATION = 'other-token';
+      expect(() => getAuthorizationMode({}, APPSYNC_CONFIG)).toThrow(
+        'UnauthorizedException: Token does not match the IdentityValidationExpression of the Lambda authorizer',
+      );
+    });
+  });
+
   it('should throw error when not auth type matches', () => {
     API_KEY = undefined;
     AUTHORIZATION = undefined;
@@ -0,0 +1,108 @@
+import { getFieldArn, getIAMAuthorization, isAllowedByPolicies } from '../../../utils/auth-helpers/iam-policy';
+
+describe('IAM policies', () => {
+  const apiArn = 'arn:aws:appsync:us-east-1:123456789012:apis/amplify-test-api-id';
+  const authPolicy = {
+    Version: '2012-10-17',
+    Statement: [
+      {
+        Effect: 'Allow' as const,
+        Action: ['appsync:GraphQL'],
+        Resource: [`${apiArn}/types/Query/fields/getPost`, `${apiArn}/types/Mutation/*`],
+      },
+    ],
+  };
+  const unauthPolicy = {
+    Version: '2012-10-17',
+    Statement: [{ Effect: 'Allow' as const, Action: 'appsync:GraphQL', Resource: `${apiArn}/types/Query/fields/getPost` }],
+  };
+  const rolePolicies = [
+    { roles: ['authRole'], policyDocument: authPolicy },
+    { roles: ['unAuthRole'], policyDocument: unauthPolicy },
+  ];
+
+  describe('getIAMAuthorization', () => {
+    it('should map authenticated credentials to the auth role', () => {
+      const { iamIdentity, iamPolicies } = getIAMAuthorization(
+        { accessKeyId: 'AKIDAUTH', secretAccessKey: 'secret', cognitoIdentityId: 'us-east-1:user1' },
+        rolePolicies,
+      );
+      expect(iamIdentity).toEqual(
+        expect.objectContaining({
+          cognitoIdentityId: 'us-east-1:user1',
+          cognitoIdentityAuthType: 'authenticated',
+          userArn: 'arn:aws:sts::123456789012:assumed-role/authRole/CognitoIdentityCredentials',
+        }),
+      );
+      expect(iamPolicies).toEqual([authPolicy]);
+    });
+
+    it('should map unauthenticated credentials to the unauth role', () => {
+      const { iamIdentity, iamPolicies } = getIAMAuthorization(
+        { accessKeyId: 'AKIDUNAUTH', secretAccessKey: 'secret', identityType: 'unauthenticated' },
+        rolePolicies,
+      );
+      expect(iamIdentity.cognitoIdentityAuthType).toEqual('unauthenticated');
+      expect(iamPolicies).toEqual([unauthPolicy]);
+    });
+  });
+
+  describe('isAllowedByPolicies', () => {
+    it('should allow the resources of the policies', () => {
+      expect(isAllowedByPolicies([authPolicy], 'appsync:GraphQL', getFieldArn(apiArn, 'Query', 'getPost'))).toBeTruthy();
+      expect(isAllowedByPolicies([authPolicy], 'appsync:GraphQL', getFieldArn(apiArn, 'Mutation', 'createPost'))).toBeTruthy();
+    });
+
+    it('should deny resources that are not allowed', () => {
+      expect(isAllowedByPolicies([unauthPolicy], 'appsync:GraphQL', getFieldArn(apiArn, 'Mutation', 'createPost'))).toBeFalsy();
+      expect(isAllowedByPolicies([], 'appsync:GraphQL', getFieldArn(apiArn, 'Query', 'getPost'))).toBeFalsy();
+    });
+
+    it('should prefer an explicit deny', () => {
+      const denyPolicy = {
+        Statement: { Effect: 'Deny' as const, Action: 'appsync:*', Resource: `${apiArn}/types/Mutation/fields/delete*` },
+      };
+      expect(isAllowedByPolicies([authPolicy, denyPolicy], 'appsync:GraphQL', getFieldArn(apiArn, 'Mutation', 'deletePost'))).toBeFalsy();
+      expect(isAllowedByPolicies([authPolicy, denyPolicy], 'appsync:GraphQL', getFieldArn(apiArn, 'Mutation', 'updatePost'))).toBeTruthy();
+    });
+
+    it('should replace the policy variables and evaluate the conditions with the context', () => {
+      const bucketArn = 'arn:aws:s3:::bucket';
+      const policy = {
+        Statement: [
+          { Effect: 'Allow' as const, Action: 's3:GetObject', Resource: `${bucketArn}/private/\${cognito-identity.amazonaws.com:sub}/*` },
+          {
+            Effect: 'Allow' as const,
+            Action: 's3:ListBucket',
+            Resource: bucketArn,
+            Condition: { StringLike: { 's3:prefix': ['public/*', 'private/${cognito-identity.amazonaws.com:sub}/*'] } },
+          },
+        ],
+      };
+      const context = { 'cognito-identity.amazonaws.com:sub': 'us-east-1:user1' };
+      expect(isAllowedByPolicies([policy], 's3:GetObject', `${bucketArn}/private/us-east-1:user1/a.txt`, context)).toBeTruthy();
+      expect(isAllowedByPolicies([policy], 's3:GetObject', `${bucketArn}/private/us-east-1:user2/a.txt`, context)).toBeFalsy();
+      expect(
+        isAllowedByPolicies([policy], 's3:ListBucket', bucketArn, { ...context, 's3:prefix': 'private/us-east-1:user1/' }),
+      ).toBeTruthy();
+      expect(isAllowedByPolicies([policy], 's3:ListBucket', bucketArn, { ...context, 's3:prefix': 'private/' })).toBeFalsy();
+      expect(isAllowedByPolicies([policy], 's3:ListBucket', bucketArn, context)).toBeFalsy();
+    });
+
+    it('should ignore the statements with unsupported condition operators and warn about them once', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const policy = {
+        Statement: {
+          Effect: 'Allow' as const,
+          Action: 's3:ListBucket',
+          Resource: '*',
+          Condition: { NumericLessThan: { 's3:max-keys': '10' } },
+        },
+      };
+      expect(isAllowedByPolicies([policy], 's3:ListBucket', 'arn:aws:s3:::bucket', { 's3:max-keys': '5' })).toBeFalsy();
+      expect(isAllowedByPolicies([policy], 's3:ListBucket', 'arn:aws:s3:::bucket', { 's3:max-keys': '5' })).toBeFalsy();
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { AmplifyAppSyncAPIConfig, AmplifyAppSyncSimulatorAuthenticationType } from '../../../type-definition';
+import { isFieldDenied, LambdaAuthorizer } from '../../../utils/auth-helpers/lambda-authorizer';
+
+describe('LambdaAuthorizer', () => {
+  const request = { queryString: 'query { listPosts { items { id } } }', operationName: 'ListPosts', variables: { limit: 10 } };
+  let invoke: jest.Mock;
+  let appSyncConfig: AmplifyAppSyncAPIConfig;
+  let authorizer: LambdaAuthorizer;
+
+  beforeEach(() => {
+    invoke = jest.fn().mockResolvedValue({
+      isAuthorized: true,
+      resolverContext: { userId: 'user1' },
+      deniedFields: ['Post.secret'],
+    });
+    appSyncConfig = {
+      name: 'AppSync API',
+      defaultAuthenticationType: {
+        authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
+        lambdaAuthorizerConfig: { AuthorizerResultTtlInSeconds: 60, invoke },
+      },
+      additionalAuthenticationProviders: [],
+    };
+    authorizer = new LambdaAuthorizer();
+  });
+
+  it('should invoke the authorizer function with the token and the request', async () => {
+    await expect(authorizer.authorize('token', appSyncConfig, request)).resolves.toEqual({
+      resolverContext: { userId: 'user1' },
+      deniedFields: ['Post.secret'],
+    });
+    expect(invoke).toHaveBeenCalledWith({
+      authorizationToken: 'token',
+      requestContext: expect.objectContaining({
+        queryString: request.queryString,
+        operationName: 'ListPosts',
+        variables: { limit: 10 },
+      }),
+    });
+  });
+
+  it('should throw when the request is not authorized', async () => {
+    invoke.mockResolvedValue({ isAuthorized: false });
+    await expect(authorizer.authorize('token', appSyncConfig, request)).rejects.toThrow(
+      'UnauthorizedException: You are not authorized to make this call.',
+    );
+    invoke.mockRejectedValue(new Error('Function timed out'));
+    await expect(authorizer.authorize('token', appSyncConfig, request)).rejects.toThrow(
+      'UnauthorizedException: Lambda authorizer failed. Function timed out',
+    );
+  });
+
+  it('should cache the result for the TTL of the authorizer', async () => {
+    const now = Date.now();
+    const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    try {
+      await authorizer.authorize('token', appSyncConfig, request);
+      await authorizer.authorize('token', appSyncConfig, request);
+      expect(invoke).toHaveBeenCalledTimes(1);
+      await authorizer.authorize('other-token', appSyncConfig, request);
+      expect(invoke).toHaveBeenCalledTimes(2);
+
+      dateNowSpy.mockReturnValue(now + 61 * 1000);
+      await authorizer.authorize('token', appSyncConfig, request);
+      expect(invoke).toHaveBeenCalledTimes(3);
+    } finally {
+      dateNowSpy.mockRestore();
+    }
+  });
+
+  it('should honor the ttlOverride returned by the authorizer', async () => {
+    invoke.mockResolvedValue({ isAuthorized: true, ttlOverride: 0 });
+    await authorizer.authorize('token', appSyncConfig, request);
+    await authorizer.authorize('token', appSyncConfig, request);
+    expect(invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it('should match denied fields by name and by ARN', () => {
+    const fieldArn = 'arn:aws:appsync:us-east-1:123456789012:apis/api-id/types/Post/fields/secret';
+    expect(isFieldDenied(['Post.secret'], 'Post', 'secret')).toBe(true);
+    expect(isFieldDenied([fieldArn], 'Post', 'secret')).toBe(true);
+    expect(isFieldDenied([fieldArn], 'Post', 'title')).toBe(false);
+    expect(isFieldDenied(undefined, 'Post', 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { decode, sign, verify } from 'jsonwebtoken';
+import { AmplifyAppSyncAPIConfig, AmplifyAppSyncSimulatorAuthenticationType } from '../../../type-definition';
+import { getTokenIssuer, verifyJwtToken } from '../../../utils/auth-helpers/helpers';
+import { LocalTokenIssuer } from '../../../utils/auth-helpers/local-token-issuer';
+
+describe('LocalTokenIssuer', () => {
+  const USER_POOL_ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_local';
+  const OIDC_ISSUER = 'https://oidc.example.com';
+  const issuer = new LocalTokenIssuer([
+    { username: 'user1', groups: ['Admin'], claims: { email: 'user1@example.com', 'custom:tenant': 'tenant1' } },
+  ]);
+  let appSyncConfig: AmplifyAppSyncAPIConfig;
+
+  beforeEach(() => {
+    appSyncConfig = {
+      name: 'AppSync API',
+      defaultAuthenticationType: {
+        authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS,
+        cognitoUserPoolConfig: { AppIdClientRegex: '^web-client$' },
+      },
+      additionalAuthenticationProviders: [
+        {
+          authenticationType: AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT,
+          openIDConnectConfig: { Issuer: `${OIDC_ISSUER}/`, ClientId: 'oidc-client' },
+        },
+      ],
+    };
+  });
+
+  it('should issue Cognito id tokens with the groups and the custom claims of the user', () => {
+    const token = issuer.issueToken('user1', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'web-client' });
+    expect(decode(token)).toMatchObject({
+      iss: USER_POOL_ISSUER,
+      aud: 'web-client',
+      token_use: 'id',
+      'cognito:username': 'user1',
+      'cognito:groups': ['Admin'],
+      email: 'user1@example.com',
+      'custom:tenant': 'tenant1',
+    });
+  });
+
+  it('should issue Cognito access tokens with the client id', () => {
+    const token = issuer.issueToken('user1', { tokenType: 'access', issuer: USER_POOL_ISSUER, audience: 'web-client' });
+    expect(decode(token)).toMatchObject({ client_id: 'web-client', token_use: 'access', username: 'user1' });
+  });
+
+  it('should throw when the user is not a test user', () => {
+    expect(() => issuer.issueToken('user2', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'web-client' })).toThrow(
+      'Unknown test user user2',
+    );
+  });
+
+  it('should publish the public key of the tokens as a JWKS', () => {
+    const token = issuer.issueToken('user1', { tokenType: 'oidc', issuer: OIDC_ISSUER, audience: 'oidc-client' });
+    const [jwk] = issuer.jwks.keys;
+    expect(jwk).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig', e: 'AQAB' });
+    expect((decode(token, { complete: true }) as any).header.kid).toEqual(jwk.kid);
+
+    const publicKey = issuer.getPublicKey(jwk.kid);
+    expect(verify(token, publicKey, { algorithms: ['RS256'] })).toMatchObject({ iss: OIDC_ISSUER, groups: ['Admin'] });
+    const publicKeyDer = Buffer.from(publicKey.replace(/-----[A-Z ]+-----|\n/g, ''), 'base64');
+    const modulus = Buffer.from(jwk.n.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+    expect(modulus).toHaveLength(256);
+    expect(publicKeyDer.includes(modulus)).toBe(true);
+  });
+
+  describe('getTokenIssuer', () => {
+    it('should use the user pool of the API for Cognito tokens', () => {
+      expect(getTokenIssuer(appSyncConfig.defaultAuthenticationType)).toEqual(USER_POOL_ISSUER);
+      expect(
+        getTokenIssuer({
+          authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS,
+          cognitoUserPoolConfig: { UserPoolId: 'eu-west-1_pool', AwsRegion: 'eu-west-1' },
+        }),
+      ).toEqual('https://cognito-idp.eu-west-1.amazonaws.com/eu-west-1_pool');
+    });
+
+    it('should use the issuer of the OpenID Connect provider without a trailing slash', () => {
+      expect(getTokenIssuer(appSyncConfig.additionalAuthenticationProviders[0])).toEqual(OIDC_ISSUER);
+    });
+  });
+
+  describe('verifyJwtToken', () => {
+    it('should accept the tokens issued for the API', () => {
+      const cognitoToken = issuer.issueToken('user1', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'web-client' });
+      expect(verifyJwtToken(cognitoToken, appSyncConfig, issuer)).toMatchObject({ 'cognito:username': 'user1' });
+      const oidcToken = issuer.issueToken('user1', { tokenType: 'oidc', issuer: OIDC_ISSUER, audience: 'oidc-client' });
+      expect(verifyJwtToken(oidcToken, appSyncConfig, issuer)).toMatchObject({ iss: OIDC_ISSUER });
+    });
+
+    it('should reject expired tokens', () => {
+      const token = issuer.issueToken('user1', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'web-client', expiresIn: -10 });
+      expect(() => verifyJwtToken(token, appSyncConfig, issuer)).toThrow('UnauthorizedException: Token has expired.');
+    });
+
+    it('should reject tampered and unsigned tokens', () => {
+      const token = issuer.issueToken('user1', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'web-client' });
+      const [header, , signature] = token.split('.');
+      const payload = Buffer.from(JSON.stringify({ ...(decode(token) as object), 'cognito:groups': ['SuperAdmin'] }))
+        .toString('base64')
+        .replace(/=+$/, '');
+      expect(() => verifyJwtToken(`${header}.${payload}.${signature}`, appSyncConfig, issuer)).toThrow(
+        'UnauthorizedException: Invalid JWT token. invalid signature',
+      );
+      const unsignedToken = sign({ iss: USER_POOL_ISSUER, aud: 'web-client' }, 'open-secrete');
+      expect(() => verifyJwtToken(unsignedToken, appSyncConfig, issuer)).toThrow(
+        'UnauthorizedException: JWT token is not signed by the local token issuer',
+      );
+    });
+
+    it('should reject tokens of other app clients', () => {
+      const idToken = issuer.issueToken('user1', { tokenType: 'id', issuer: USER_POOL_ISSUER, audience: 'other-client' });
+      expect(() => verifyJwtToken(idToken, appSyncConfig, issuer)).toThrow(
+        'UnauthorizedException: Client id other-client does not match the AppIdClientRegex of the user pool',
+      );
+      const accessToken = issuer.issueToken('user1', { tokenType: 'access', issuer: USER_POOL_ISSUER, audience: 'other-client' });
+      expect(() => verifyJwtToken(accessToken, appSyncConfig, issuer)).toThrow('does not match the AppIdClientRegex');
+      const oidcToken = issuer.issueToken('user1', { tokenType: 'oidc', issuer: OIDC_ISSUER, audience: 'other-client' });
+      expect(() => verifyJwtToken(oidcToken, appSyncConfig, issuer)).toThrow(
+        'UnauthorizedException: Token audience does not match the ClientId of the OpenID Connect provider',
+      );
+    });
+
+    it('should reject the tokens of issuers that are not identity providers of the API', () => {
+      const otherUserPoolIssuer = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_other';
+      const token = issuer.issueToken('user1', { tokenType: 'id', issuer: otherUserPoolIssuer, audience: 'web-client' });
+      expect(() => verifyJwtToken(token, appSyncConfig, issuer)).toThrow(
+        `UnauthorizedException: Token issuer ${otherUserPoolIssuer} is not an identity provider of the API`,
+      );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import * as AWS from 'aws-sdk';
+import { verifySignatureV4 } from '../../../utils/auth-helpers/signature-v4';
+
+describe('verifySignatureV4', () => {
+  const credentials = [
+    { accessKeyId: 'AKIDAUTH', secretAccessKey: 'auth-secret' },
+    { accessKeyId: 'AKIDUNAUTH', secretAccessKey: 'unauth-secret', identityType: 'unauthenticated' as const },
+  ];
+  const body = JSON.stringify({ query: 'query { listPosts { items { id } } }', variables: {} });
+
+  // signs the request the same way the Amplify and AWS SDK clients do
+  const signRequest = (accessKeyId: string, secretAccessKey: string, signedAt: Date = new Date()) => {
+    const httpRequest = new AWS.HttpRequest(new AWS.Endpoint('http://localhost:20002/graphql'), 'us-east-1');
+    httpRequest.method = 'POST';
+    httpRequest.body = body;
+    httpRequest.headers = { host: 'localhost:20002', 'content-type': 'application/json' };
+    const signer = new (AWS as any).Signers.V4(httpRequest, 'appsync', true);
+    signer.addAuthorization(new AWS.Credentials({ accessKeyId, secretAccessKey }), signedAt);
+    return { method: 'POST', path: '/graphql', headers: httpRequest.headers, body };
+  };
+
+  it('should return the credentials the request was signed with', () => {
+    expect(verifySignatureV4(signRequest('AKIDUNAUTH', 'unauth-secret'), credentials)).toEqual(credentials[1]);
+  });
+
+  it('should reject unknown access keys', () => {
+    expect(() => verifySignatureV4(signRequest('AKIDOTHER', 'auth-secret'), credentials)).toThrowError(
+      'UnauthorizedException: The security token included in the request is invalid.',
+    );
+  });
+
+  it('should reject requests signed with another secret', () => {
+    expect(() => verifySignatureV4(signRequest('AKIDAUTH', 'other-secret'), credentials)).toThrowError(
+      'UnauthorizedException: The request signature we calculated does not match the signature you provided.',
+    );
+  });
+
+  it('should reject requests whose body changed after signing', () => {
+    const request = signRequest('AKIDAUTH', 'auth-secret');
+    expect(() => verifySignatureV4({ ...request, body: JSON.stringify({ query: 'mutation { deletePost }' }) }, credentials)).toThrowError(
+      'does not match the signature you provided',
+    );
+  });
+
+  it('should reject expired signatures', () => {
+    const request = signRequest('AKIDAUTH', 'auth-secret', new Date(Date.now() - 10 * 60 * 1000));
+    expect(() => verifySignatureV4(request, credentials)).toThrowError('UnauthorizedException: Signature expired');
+  });
+
+  it('should reject malformed authorization headers', () => {
+    const request = { method: 'POST', path: '/graphql', headers: { authorization: 'AWS4-HMAC-SHA256 Signature=abc' }, body };
+    expect(() => verifySignatureV4(request, credentials)).toThrowError(
+      'UnauthorizedException: Invalid Signature Version 4 authorization header',
+    );
+  });
+});
@@ -1,4 +1,7 @@
-import { filterSubscriptions } from '../../../utils/graphql-runner/subscriptions-filter';
+import { parse, subscribe } from 'graphql';
+import { AmplifyAppSyncSimulator } from '../../..';
+import { AmplifyAppSyncSimulatorAuthenticationType } from '../../../type-definition';
+import { filterSubscriptions, validateSubscriptionFilter } from '../../../utils/graphql-runner/subscriptions-filter';
 
 describe('filterSubscriptions', () => {
   it('should return true if there  are no filters', () => {
@@ -20,4 +23,140 @@ describe('filterSubscriptions', () => {
   it('should return false when filter does not match', () => {
     expect(filterSubscriptions({ a: 1, b: 2 }, { a: 1, b: 3 })).toBeFalsy();
   });
+
+  it('should match nested input objects against nested payload fields', () => {
+    const payload = { id: 1, author: { name: 'jane', address: { city: 'Seattle' } } };
+    expect(filterSubscriptions(payload, { author: { address: { city: 'Seattle' } } })).toBeTruthy();
+    expect(filterSubscriptions(payload, { author: { address: { city: 'Portland' } } })).toBeFalsy();
+    expect(filterSubscriptions({ id: 1 }, { author: { name: 'jane' } })).toBeFalsy();
+  });
+
+  it('should only match null fields when an argument is null', () => {
+    expect(filterSubscriptions({ a: 1, b: null }, { b: null })).toBeTruthy();
+    expect(filterSubscriptions({ a: 1 }, { b: null })).toBeTruthy();
+    expect(filterSubscriptions({ a: 1, b: 2 }, { b: null })).toBeFalsy();
+    expect(filterSubscriptions({ a: 1, b: 2 }, { b: undefined })).toBeTruthy();
+  });
+
+  describe('subscription filter', () => {
+    const payload = { id: 'p1', title: 'Hello world', rating: 4, tags: ['news', 'tech'], author: { name: 'jane' } };
+    const filterWith = (...filters) => ({ subscriptionFilter: { filterGroup: [{ filters }] } } as any);
+
+    it('should deliver the event when all the filters of a group match', () => {
+      const context = filterWith(
+        { fieldName: 'rating', operator: 'between', value: [3, 5] },
+        { fieldName: 'title', operator: 'beginsWith', value: 'Hello' },
+        { fieldName: 'tags', operator: 'contains', value: 'tech' },
+        { fieldName: 'author.name', operator: 'in', value: ['jane', 'john'] },
+        { fieldName: 'id', operator: 'ne', value: 'p2' },
+      );
+      expect(filterSubscriptions(payload, {}, context)).toBeTruthy();
+    });
+
+    it('should skip the event when a filter does not match', () => {
+      expect(filterSubscriptions(payload, {}, filterWith({ fieldName: 'author.name', operator: 'eq', value: 'john' }))).toBeFalsy();
+      expect(filterSubscriptions(payload, {}, filterWith({ fieldName: 'rating', operator: 'gt', value: 4 }))).toBeFalsy();
+      expect(filterSubscriptions(payload, {}, filterWith({ fieldName: 'title', operator: 'contains', value: 'bye' }))).toBeFalsy();
+    });
+
+    it('should deliver the event when any of the filter groups match', () => {
+      const context = {
+        subscriptionFilter: {
+          filterGroup: [
+            { filters: [{ fieldName: 'rating', operator: 'lt', value: 2 }] },
+            { filters: [{ fieldName: 'tags', operator: 'notContains', value: 'sports' }] },
+          ],
+        },
+      } as any;
+      expect(filterSubscriptions(payload, {}, context)).toBeTruthy();
+    });
+
+    it('should apply the variables along with the filter', () => {
+      const context = filterWith({ fieldName: 'rating', operator: 'ge', value: 4 });
+      expect(filterSubscriptions(payload, { id: 'p2' }, context)).toBeFalsy();
+      expect(filterSubscriptions(payload, { id: 'p1' }, context)).toBeTruthy();
+    });
+
+    it('should reject invalid filters', () => {
+      expect(() => validateSubscriptionFilter({ filterGroup: [] })).toThrow('Subscription filter must have a non empty filterGroup');
+      expect(() =>
+        validateSubscriptionFilter({ filterGroup: [{ filters: [{ fieldName: 'a', operator: 'like' as any, value: 1 }] }] }),
+      ).toThrow('Unsupported subscription filter operator like for field a');
+      expect(() =>
+        validateSubscriptionFilter({ filterGroup: [{ filters: [{ fieldName: 'a', operator: 'between', value: [1] }] }] }),
+      ).toThrow('Subscription filter operator between for field a expects a list of 2 values');
+    });
+  });
+});
+
+describe('subscribe', () => {
+  let simulator: AmplifyAppSyncSimulator;
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    simulator = new AmplifyAppSyncSimulator();
+    simulator.init({
+      appSync: {
+        name: 'test',
+        defaultAuthenticationType: { authenticationType: AmplifyAppSyncSimulatorAuthenticationType.API_KEY },
+        additionalAuthenticationProviders: [],
+      },
+      schema: {
+        content: `
+          type Query {
+            noop: String
+          }
+          type Post {
+            id: ID!
+            title: String
+            rating: Int
+          }
+          type Subscription {
+            onCreatePost(title: String): Post
+          }
+        `,
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const subscribeToPosts = async (title: string, context: object = {}) =>
+    (await subscribe({
+      schema: simulator.schema,
+      document: parse('subscription onCreatePost($title: String) { onCreatePost(title: $title) { id } }'),
+      variableValues: { title },
+      contextValue: { requestAuthorizationMode: AmplifyAppSyncSimulatorAuthenticationType.API_KEY, appsyncErrors: [], ...context },
+    })) as AsyncIterableIterator<any>;
+
+  // the events are only received once the first value is requested
+  const nextEvent = async (iterator: AsyncIterableIterator<any>, ...payloads: object[]) => {
+    const next = iterator.next();
+    await new Promise(resolve => setImmediate(resolve));
+    for (const payload of payloads) {
+      await simulator.pubsub.publish('onCreatePost', payload);
+    }
+    return next;
+  };
+
+  it('should not deliver the events that do not match the arguments of the subscription', async () => {
+    const iterator = await subscribeToPosts('hello');
+    expect(await nextEvent(iterator, { id: 'p1', title: 'bye' }, { id: 'p2', title: 'hello' })).toEqual({
+      done: false,
+      value: { data: { onCreatePost: { id: 'p2' } } },
+    });
+    await iterator.return();
+  });
+
+  it('should not deliver the events rejected by the filter of the subscription', async () => {
+    const iterator = await subscribeToPosts(undefined, {
+      subscriptionFilter: { filterGroup: [{ filters: [{ fieldName: 'rating', operator: 'ge', value: 4 }] }] },
+    });
+    expect(await nextEvent(iterator, { id: 'p1', rating: 2 }, { id: 'p2', rating: 5 })).toEqual({
+      done: false,
+      value: { data: { onCreatePost: { id: 'p2' } } },
+    });
+    await iterator.return();
+  });
 });
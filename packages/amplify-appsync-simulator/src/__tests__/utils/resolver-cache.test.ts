@@ -0,0 +1,69 @@
+import { getCachingKey, ResolverCache } from '../../utils/resolver-cache';
+
+describe('ResolverCache', () => {
+  let cache: ResolverCache;
+  let now: number;
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    cache = new ResolverCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return cached values until their ttl expires', () => {
+    cache.set('key', { id: 1 }, 60);
+    expect(cache.get('key')).toEqual(expect.objectContaining({ value: { id: 1 } }));
+    now += 60 * 1000;
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('should cache null results', () => {
+    cache.set('key', null, 60);
+    expect(cache.get('key')).toEqual(expect.objectContaining({ value: null }));
+  });
+
+  it('should count hits and misses', () => {
+    cache.get('key');
+    cache.set('key', 'value', 60);
+    cache.get('key');
+    cache.get('key');
+    expect(cache.stats).toEqual({ hits: 2, misses: 1, entries: 1 });
+  });
+
+  it('should remove all the entries when flushed', () => {
+    cache.set('key1', 'value', 60);
+    cache.set('key2', 'value', 60);
+    cache.flush();
+    expect(cache.get('key1')).toBeUndefined();
+    expect(cache.stats.entries).toEqual(0);
+  });
+});
+
+describe('getCachingKey', () => {
+  const values = {
+    arguments: { id: 'post-1', limit: 10 },
+    source: null,
+    identity: { sub: 'user-1', username: 'user1' },
+  };
+
+  it('should use the arguments, source and identity when there are no caching keys', () => {
+    const key = getCachingKey('Query', 'getPost', undefined, values);
+    expect(key).toEqual(getCachingKey('Query', 'getPost', undefined, { ...values }));
+    expect(key).not.toEqual(getCachingKey('Query', 'getPost', undefined, { ...values, identity: { sub: 'user-2' } }));
+    expect(key).not.toEqual(getCachingKey('Query', 'listPosts', undefined, values));
+  });
+
+  it('should only use the values of the caching keys', () => {
+    const cachingKeys = ['$context.arguments.id', '$ctx.identity.sub'];
+    const key = getCachingKey('Query', 'getPost', cachingKeys, values);
+    expect(key).toEqual(getCachingKey('Query', 'getPost', cachingKeys, { ...values, arguments: { id: 'post-1', limit: 20 } }));
+    expect(key).not.toEqual(getCachingKey('Query', 'getPost', cachingKeys, { ...values, identity: { sub: 'user-2' } }));
+  });
+
+  it('should throw when a caching key does not reference the context', () => {
+    expect(() => getCachingKey('Query', 'getPost', ['arguments.id'], values)).toThrowError('Invalid caching key arguments.id');
+  });
+});
@@ -0,0 +1,112 @@
+import { FieldNode, FragmentDefinitionNode, GraphQLResolveInfo, Kind, OperationDefinitionNode, parse } from 'graphql';
+import { AmplifyAppSyncSimulator } from '../..';
+import { AmplifyAppSyncSimulatorAuthenticationType } from '../../type-definition';
+import { AppSyncGraphQLExecutionContext } from '../../utils/graphql-runner';
+import { VelocityTemplate } from '../../velocity';
+
+describe('VelocityTemplate strict AppSync parity', () => {
+  const info = ({
+    fieldName: 'listPosts',
+    path: { key: 'listPosts', prev: null },
+    fieldNodes: [],
+  } as unknown) as GraphQLResolveInfo;
+  const requestContext: AppSyncGraphQLExecutionContext = {
+    headers: {},
+    requestAuthorizationMode: AmplifyAppSyncSimulatorAuthenticationType.API_KEY,
+    appsyncErrors: [],
+  };
+  const foreachTemplate = { path: 'foreach.vtl', content: '[#foreach($i in $ctx.args.items)$i#if($foreach.hasNext),#end#end]' };
+  const getSimulator = (strictAppSyncParity: boolean) => (({ strictAppSyncParity } as unknown) as AmplifyAppSyncSimulator);
+  const items = Array.from({ length: 1001 }, (_, i) => i);
+
+  it('should not limit #foreach iterations by default', () => {
+    const template = new VelocityTemplate(foreachTemplate, getSimulator(false));
+    const { result } = template.render({ arguments: { items }, source: {} }, requestContext, info);
+    expect(result).toHaveLength(1001);
+  });
+
+  it('should limit #foreach to 1000 iterations', () => {
+    const template = new VelocityTemplate(foreachTemplate, getSimulator(true));
+    const { result } = template.render({ arguments: { items: items.slice(1) }, source: {} }, requestContext, info);
+    expect(result).toHaveLength(1000);
+    expect(() => template.render({ arguments: { items }, source: {} }, requestContext, info)).toThrow(
+      expect.objectContaining({
+        extensions: expect.objectContaining({ errorType: 'MappingTemplate' }),
+      }),
+    );
+  });
+
+  it('should reject mapping templates larger than 64KB', () => {
+    const content = `{"payload": "${'x'.repeat(64 * 1024)}"}`;
+    expect(() => new VelocityTemplate({ path: 'large.vtl', content }, getSimulator(false))).not.toThrow();
+    expect(() => new VelocityTemplate({ path: 'large.vtl', content }, getSimulator(true))).toThrow(
+      'Mapping template large.vtl exceeds the maximum size of 65536 bytes',
+    );
+  });
+
+  describe('error data', () => {
+    const errorTemplate = { path: 'error.vtl', content: '$util.error("Partial result", "PartialError", $ctx.source.items)' };
+    const source = {
+      items: [{ id: 'p1', title: 'first', content: 'c1', author: { name: 'jane', email: 'jane@example.com' }, secret: 's' }, null],
+    };
+
+    // builds the resolve info of the first field of the query
+    const getInfo = (query: string): GraphQLResolveInfo => {
+      const document = parse(query);
+      const operation = document.definitions.find(d => d.kind === Kind.OPERATION_DEFINITION) as OperationDefinitionNode;
+      const fieldNode = operation.selectionSet.selections[0] as FieldNode;
+      const fragments = document.definitions
+        .filter(d => d.kind === Kind.FRAGMENT_DEFINITION)
+        .reduce((acc, fragment: FragmentDefinitionNode) => ({ ...acc, [fragment.name.value]: fragment }), {});
+      return ({
+        fieldName: fieldNode.name.value,
+        path: { key: fieldNode.name.value, prev: null },
+        fieldNodes: [fieldNode],
+        fragments,
+        operation,
+      } as unknown) as GraphQLResolveInfo;
+    };
+
+    const renderError = (query: string) => {
+      const template = new VelocityTemplate(errorTemplate, getSimulator(true));
+      try {
+        template.render({ arguments: {}, source }, requestContext, getInfo(query));
+      } catch (e) {
+        return JSON.parse(JSON.stringify(e.data));
+      }
+      throw new Error('Expected the template to fail');
+    };
+
+    it('should keep the selected fields of the items of a list', () => {
+      expect(renderError('{ listPosts { id author { name } } }')).toEqual([{ id: 'p1', author: { name: 'jane' } }, null]);
+    });
+
+    it('should keep the fields selected through fragments', () => {
+      const query = `
+        query {
+          listPosts {
+            id
+            ... on Post {
+              title
+              author {
+                name
+              }
+            }
+            ...PostContent
+          }
+        }
+
+        fragment PostContent on Post {
+          content
+          author {
+            email
+          }
+        }
+      `;
+      expect(renderError(query)).toEqual([
+        { id: 'p1', title: 'first', content: 'c1', author: { name: 'jane', email: 'jane@example.com' } },
+        null,
+      ]);
+    });
+  });
+});
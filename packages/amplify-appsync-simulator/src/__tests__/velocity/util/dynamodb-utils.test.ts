@@ -0,0 +1,24 @@
+import { dynamodbUtils } from '../../../velocity/util/dynamodb-utils';
+
+describe('$util.dynamodb S3 objects', () => {
+  it('toS3Object', () => {
+    expect(dynamodbUtils.toS3Object('foo', 'bar', 'baz')).toEqual({
+      S: '{"s3":{"key":"foo","bucket":"bar","region":"baz"}}',
+    });
+    expect(dynamodbUtils.toS3Object('foo', 'bar', 'baz', 'beep')).toEqual({
+      S: '{"s3":{"key":"foo","bucket":"bar","region":"baz","version":"beep"}}',
+    });
+  });
+
+  it('toS3ObjectJson', () => {
+    expect(JSON.parse(dynamodbUtils.toS3ObjectJson('foo', 'bar', 'baz'))).toEqual({
+      S: '{"s3":{"key":"foo","bucket":"bar","region":"baz"}}',
+    });
+  });
+
+  it('fromS3ObjectJson', () => {
+    const s3Object = dynamodbUtils.fromS3ObjectJson('{ "s3" : { "key" : "foo", "bucket" : "bar", "region" : "baz", "version" : "beep" } }');
+    expect(s3Object.toJSON()).toEqual({ key: 'foo', bucket: 'bar', region: 'baz', version: 'beep' });
+    expect(() => dynamodbUtils.fromS3ObjectJson('{"key": "foo"}')).toThrow('is not a valid S3 object');
+  });
+});
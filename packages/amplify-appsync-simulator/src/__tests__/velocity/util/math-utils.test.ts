@@ -0,0 +1,33 @@
+import { mathUtils } from '../../../velocity/util/math-utils';
+
+describe('$util.math', () => {
+  it('roundNum', () => {
+    expect(mathUtils.roundNum(2.5)).toEqual(3);
+    expect(mathUtils.roundNum(2.4)).toEqual(2);
+    expect(mathUtils.roundNum(-2.5)).toEqual(-2);
+  });
+
+  it('minVal and maxVal', () => {
+    expect(mathUtils.minVal(10.5, 2.3)).toEqual(2.3);
+    expect(mathUtils.maxVal(10.5, 2.3)).toEqual(10.5);
+  });
+
+  it('randomDouble', () => {
+    const value = mathUtils.randomDouble();
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+
+  it('randomWithinRange includes both bounds', () => {
+    const randomSpy = jest.spyOn(Math, 'random');
+    randomSpy.mockReturnValueOnce(0).mockReturnValueOnce(0.9999);
+    expect(mathUtils.randomWithinRange(1, 5)).toEqual(1);
+    expect(mathUtils.randomWithinRange(1, 5)).toEqual(5);
+    randomSpy.mockRestore();
+    for (let i = 0; i < 20; i++) {
+      const value = mathUtils.randomWithinRange(3, 4);
+      expect(Number.isInteger(value)).toBeTruthy();
+      expect([3, 4]).toContain(value);
+    }
+  });
+});
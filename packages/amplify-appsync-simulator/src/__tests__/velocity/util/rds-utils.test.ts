@@ -0,0 +1,35 @@
+import { rdsUtils } from '../../../velocity/util/rds-utils';
+
+describe('$util.rds', () => {
+  const result = JSON.stringify({
+    sqlStatementResults: [
+      { numberOfRecordsUpdated: 1, generatedFields: [] },
+      {
+        numberOfRecordsUpdated: 0,
+        records: [
+          [{ stringValue: 'p1' }, { longValue: 4 }, { booleanValue: true }],
+          [{ stringValue: 'p2' }, { isNull: true }, { booleanValue: false }],
+        ],
+        columnMetadata: [
+          { name: 'id', label: 'id' },
+          { name: 'rating', label: 'rating' },
+          { name: 'published', label: 'isPublished' },
+        ],
+      },
+    ],
+  });
+
+  it('toJsonObject converts the statement results to rows', () => {
+    expect(rdsUtils.toJsonObject(result).toJSON()).toEqual([
+      [],
+      [
+        { id: 'p1', rating: 4, isPublished: true },
+        { id: 'p2', rating: null, isPublished: false },
+      ],
+    ]);
+  });
+
+  it('toJsonString serializes the rows', () => {
+    expect(JSON.parse(rdsUtils.toJsonString(result))).toEqual(rdsUtils.toJsonObject(result).toJSON());
+  });
+});
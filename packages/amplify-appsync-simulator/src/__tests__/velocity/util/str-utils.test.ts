@@ -0,0 +1,22 @@
+import { strUtils } from '../../../velocity/util/str-utils';
+import { JavaString } from '../../../velocity/value-mapper/string';
+
+describe('$util.str', () => {
+  it('toUpper and toLower', () => {
+    expect(strUtils.toUpper('hello World')).toEqual('HELLO WORLD');
+    expect(strUtils.toLower(new JavaString('Hello World') as any)).toEqual('hello world');
+  });
+
+  it('toReplace replaces every occurrence', () => {
+    expect(strUtils.toReplace('hello world world', 'world', 'there')).toEqual('hello there there');
+    expect(strUtils.toReplace('a.b.c', '.', '-')).toEqual('a-b-c');
+  });
+
+  it('normalize', () => {
+    const decomposed = 'é';
+    expect(strUtils.normalize(decomposed, 'nfc')).toEqual('é');
+    expect(strUtils.normalize('é', 'NFD')).toEqual(decomposed);
+    expect(strUtils.normalize('ﬁ', 'nfkc')).toEqual('fi');
+    expect(() => strUtils.normalize('foo', 'nfx')).toThrow('Unsupported normalization form nfx');
+  });
+});
@@ -0,0 +1,50 @@
+import { generateElasticsearchQueryDSL } from '../../../../velocity/util/transform/elasticsearch-query-dsl';
+
+describe('generateElasticsearchQueryDSL', () => {
+  it('should convert field conditions', () => {
+    expect(
+      generateElasticsearchQueryDSL({
+        upvotes: { ne: 15, range: [10, 20] },
+        title: { eq: 'hihihi', wildcard: 'h*i' },
+      }),
+    ).toEqual({
+      bool: {
+        must: [
+          {
+            bool: {
+              must: [{ bool: { must_not: { term: { upvotes: 15 } } } }, { range: { upvotes: { gte: 10, lte: 20 } } }],
+            },
+          },
+          {
+            bool: {
+              must: [{ term: { title: 'hihihi' } }, { wildcard: { title: 'h*i' } }],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should convert and, or and not', () => {
+    expect(
+      generateElasticsearchQueryDSL({
+        or: [{ title: { matchPhrase: 'hello world' } }, { upvotes: { gt: 5 } }],
+        not: { title: { exists: false } },
+      }),
+    ).toEqual({
+      bool: {
+        must: [
+          {
+            bool: {
+              should: [
+                { bool: { must: [{ bool: { must: [{ match_phrase: { title: 'hello world' } }] } }] } },
+                { bool: { must: [{ bool: { must: [{ range: { upvotes: { gt: 5 } } }] } }] } },
+              ],
+            },
+          },
+          { bool: { must_not: { bool: { must: [{ bool: { must: [{ bool: { must_not: { exists: { field: 'title' } } } }] } }] } } } },
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { transformUtils } from '../../../../velocity/util/transform';
+import { map } from '../../../../velocity/value-mapper/mapper';
+
+describe('$util.transform.toSubscriptionFilter', () => {
+  it('converts the fields to the filters of a single group', () => {
+    const filter = map({ title: { contains: 'Hello World' }, rating: { ge: 3, lt: 5 } });
+    expect(transformUtils.toSubscriptionFilter(filter).toJSON()).toEqual({
+      filterGroup: [
+        {
+          filters: [
+            { fieldName: 'title', operator: 'contains', value: 'Hello World' },
+            { fieldName: 'rating', operator: 'ge', value: 3 },
+            { fieldName: 'rating', operator: 'lt', value: 5 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('creates a filter group for every "or" condition', () => {
+    const filter = map({
+      rating: { ge: 3 },
+      or: [{ status: { eq: 'PUBLISHED' } }, { and: [{ status: { eq: 'DRAFT' } }, { owner: { eq: 'jane' } }] }],
+    });
+    expect(transformUtils.toSubscriptionFilter(filter).toJSON()).toEqual({
+      filterGroup: [
+        {
+          filters: [
+            { fieldName: 'rating', operator: 'ge', value: 3 },
+            { fieldName: 'status', operator: 'eq', value: 'PUBLISHED' },
+          ],
+        },
+        {
+          filters: [
+            { fieldName: 'rating', operator: 'ge', value: 3 },
+            { fieldName: 'status', operator: 'eq', value: 'DRAFT' },
+            { fieldName: 'owner', operator: 'eq', value: 'jane' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('skips the ignored fields and adds the rules to every group', () => {
+    const filter = map({ title: { beginsWith: 'Hello' }, createdAt: { gt: '2020-01-01' }, or: [{ a: { eq: 1 } }, { b: { eq: 2 } }] });
+    const result = transformUtils.toSubscriptionFilter(filter, map(['createdAt']), map({ owner: { eq: 'jane' } })).toJSON();
+    expect(result.filterGroup).toHaveLength(2);
+    result.filterGroup.forEach(group => {
+      expect(group.filters.map(f => f.fieldName)).not.toContain('createdAt');
+      expect(group.filters).toContainEqual({ fieldName: 'owner', operator: 'eq', value: 'jane' });
+    });
+  });
+
+  it('throws when the filter exceeds the AppSync limits', () => {
+    const filter = map({ a: { eq: 1 }, b: { eq: 2 }, c: { eq: 3 }, d: { eq: 4 }, e: { eq: 5 }, f: { eq: 6 } });
+    expect(() => transformUtils.toSubscriptionFilter(filter)).toThrow('Subscription filter group can have at most 5 filters');
+  });
+});
@@ -1,4 +1,5 @@
 import { DynamoDB } from 'aws-sdk';
+import { isEqual } from 'lodash';
 import { unmarshall, nullIfEmpty } from './utils';
 import { AmplifyAppSyncSimulatorDataLoader } from '..';
 
@@ -13,6 +14,12 @@ type DynamoDBLoaderConfig = {
   config: DynamoDBConnectionConfig;
   options: object;
 };
+
+// Limits enforced by AppSync and DynamoDB on the number of items in a single batch request
+const BATCH_GET_ITEM_LIMIT = 100;
+const BATCH_WRITE_ITEM_LIMIT = 25;
+const TRANSACT_ITEM_LIMIT = 25;
+
 export class DynamoDBDataLoader implements AmplifyAppSyncSimulatorDataLoader {
   private client: DynamoDB;
   private tableName: string;
@@ -43,9 +50,15 @@ export class DynamoDBDataLoader implements AmplifyAppSyncSimulatorDataLoader {
           return await this.scan(payload);
 
         case 'BatchGetItem':
+          return await this.batchGetItem(payload);
         case 'BatchPutItem':
+          return await this.batchPutItem(payload);
         case 'BatchDeleteItem':
-          throw new Error(`Operation  ${payload.operation} not implemented`);
+          return await this.batchDeleteItem(payload);
+        case 'TransactGetItems':
+          return await this.transactGetItems(payload);
+        case 'TransactWriteItems':
+          return await this.transactWriteItems(payload);
         default:
           throw new Error(`Unknown operation name: ${payload.operation}`);
       }
@@ -212,4 +225,222 @@ export class DynamoDBDataLoader implements AmplifyAppSyncSimulatorDataLoader {
       nextToken: resultNextToken ? Buffer.from(JSON.stringify(resultNextToken)).toString('base64') : null,
     };
   }
+
+  private async batchGetItem(payload) {
+    const { tables = {} } = payload;
+    const keyCount = Object.values(tables).reduce((sum: number, table: any) => sum + (table.keys || []).length, 0);
+    if (keyCount > BATCH_GET_ITEM_LIMIT) {
+      throw createValidationError(`Too many items requested for the BatchGetItem call. Maximum of ${BATCH_GET_ITEM_LIMIT} keys allowed`);
+    }
+
+    const requestItems = Object.entries(tables).reduce((sum, [tableName, table]: [string, any]) => {
+      const { keys = [], consistentRead = false, projection = null } = table;
+      if (!keys.length) {
+        return sum;
+      }
+      return {
+        ...sum,
+        [tableName]: {
+          Keys: keys,
+          ConsistentRead: consistentRead,
+          ...(projection
+            ? {
+                ProjectionExpression: projection.expression,
+                ExpressionAttributeNames: projection.expressionNames,
+              }
+            : {}),
+        },
+      };
+    }, {});
+
+    const { Responses: responses = {}, UnprocessedKeys: unprocessed = {} } = Object.keys(requestItems).length
+      ? await this.client.batchGetItem({ RequestItems: requestItems }).promise()
+      : {};
+
+    // AppSync returns the items in the same order as the keys in the request, with null for keys which were not found
+    // or not processed
+    return Object.entries(tables).reduce(
+      (result, [tableName, table]: [string, any]) => {
+        const keys = table.keys || [];
+        const items = responses[tableName] || [];
+        const unprocessedKeys = unprocessed[tableName] ? unprocessed[tableName].Keys : [];
+        result.data[tableName] = keys.map(key => {
+          const item = items.find(i => matchesKey(i, key));
+          return item ? unmarshall(item) : null;
+        });
+        result.unprocessedKeys[tableName] = unprocessedKeys.map(key => unmarshall(key));
+        return result;
+      },
+      { data: {}, unprocessedKeys: {} },
+    );
+  }
+
+  private async batchPutItem(payload) {
+    const { tables = {} } = payload;
+    const unprocessed = await this.batchWriteItem(tables, item => ({ PutRequest: { Item: item } }));
+    return Object.entries(tables).reduce(
+      (result, [tableName, items]: [string, any[]]) => {
+        const unprocessedItems = (unprocessed[tableName] || []).map(request => request.PutRequest.Item);
+        result.data[tableName] = items.map(item => (unprocessedItems.some(i => isEqual(i, item)) ? null : unmarshall(item)));
+        result.unprocessedItems[tableName] = unprocessedItems.map(item => unmarshall(item));
+        return result;
+      },
+      { data: {}, unprocessedItems: {} },
+    );
+  }
+
+  private async batchDeleteItem(payload) {
+    const { tables = {} } = payload;
+    const unprocessed = await this.batchWriteItem(tables, key => ({ DeleteRequest: { Key: key } }));
+    return Object.entries(tables).reduce(
+      (result, [tableName, keys]: [string, any[]]) => {
+        const unprocessedKeys = (unprocessed[tableName] || []).map(request => request.DeleteRequest.Key);
+        result.data[tableName] = keys.map(key => (unprocessedKeys.some(k => isEqual(k, key)) ? null : unmarshall(key)));
+        result.unprocessedKeys[tableName] = unprocessedKeys.map(key => unmarshall(key));
+        return result;
+      },
+      { data: {}, unprocessedKeys: {} },
+    );
+  }
+
+  private async batchWriteItem(tables: object, toWriteRequest: (value: object) => object) {
+    const itemCount = Object.values(tables).reduce((sum: number, items: any[]) => sum + (items || []).length, 0);
+    if (itemCount > BATCH_WRITE_ITEM_LIMIT) {
+      throw createValidationError(
+        `Too many items requested for the BatchWriteItem call. Maximum of ${BATCH_WRITE_ITEM_LIMIT} items allowed`,
+      );
+    }
+    const requestItems = Object.entries(tables).reduce((sum, [tableName, items]: [string, any[]]) => {
+      if (!items || !items.length) {
+        return sum;
+      }
+      return { ...sum, [tableName]: items.map(toWriteRequest) };
+    }, {});
+
+    if (!Object.keys(requestItems).length) {
+      return {};
+    }
+    const { UnprocessedItems: unprocessedItems = {} } = await this.client.batchWriteItem({ RequestItems: requestItems }).promise();
+    return unprocessedItems;
+  }
+
+  private async transactGetItems(payload) {
+    const { transactItems = [] } = payload;
+    validateTransactItemCount('TransactGetItems', transactItems);
+    const request = this.client.transactGetItems({
+      TransactItems: transactItems.map(({ table, key, projection = null }) => ({
+        Get: {
+          TableName: table,
+          Key: key,
+          ...(projection
+            ? {
+                ProjectionExpression: projection.expression,
+                ExpressionAttributeNames: projection.expressionNames,
+              }
+            : {}),
+        },
+      })),
+    });
+    const { Responses: responses = [] } = await executeTransaction(request, 'items');
+    return {
+      items: responses.map(response => (response.Item ? unmarshall(response.Item) : null)),
+      cancellationReasons: null,
+    };
+  }
+
+  private async transactWriteItems(payload) {
+    const { transactItems = [] } = payload;
+    validateTransactItemCount('TransactWriteItems', transactItems);
+    const request = this.client.transactWriteItems({
+      TransactItems: transactItems.map(transactItem => {
+        const { table, operation, key, attributeValues, update = {}, condition = {} } = transactItem;
+        const conditionParams = getTransactConditionParams(condition, update);
+        switch (operation) {
+          case 'PutItem':
+            return { Put: { TableName: table, Item: { ...attributeValues, ...key }, ...conditionParams } };
+          case 'UpdateItem':
+            return { Update: { TableName: table, Key: key, UpdateExpression: update.expression, ...conditionParams } };
+          case 'DeleteItem':
+            return { Delete: { TableName: table, Key: key, ...conditionParams } };
+          case 'ConditionCheck':
+            return { ConditionCheck: { TableName: table, Key: key, ...conditionParams } };
+          default:
+            throw createValidationError(`Unknown operation name in TransactWriteItems: ${operation}`);
+        }
+      }),
+    });
+    await executeTransaction(request, 'keys');
+    return {
+      keys: transactItems.map(({ key }) => unmarshall(key)),
+      cancellationReasons: null,
+    };
+  }
+}
+
+function matchesKey(item: object, key: object): boolean {
+  return Object.entries(key).every(([attributeName, value]) => isEqual(item[attributeName], value));
+}
+
+function createValidationError(message: string): Error {
+  const error: any = new Error(message);
+  error.code = 'ValidationException';
+  return error;
+}
+
+function validateTransactItemCount(operation: string, transactItems: object[]): void {
+  if (transactItems.length > TRANSACT_ITEM_LIMIT) {
+    throw createValidationError(`Too many items in the ${operation} call. Maximum of ${TRANSACT_ITEM_LIMIT} items allowed`);
+  }
+}
+
+function getTransactConditionParams(condition, update): object {
+  const { expression, expressionNames, expressionValues, returnValuesOnConditionCheckFailure = true } = condition;
+  const attributeNames = nullIfEmpty({ ...(expressionNames || {}), ...(update.expressionNames || {}) });
+  const attributeValues = nullIfEmpty({ ...(expressionValues || {}), ...(update.expressionValues || {}) });
+  return {
+    ...(expression ? { ConditionExpression: expression } : {}),
+    ...(attributeNames ? { ExpressionAttributeNames: attributeNames } : {}),
+    ...(attributeValues ? { ExpressionAttributeValues: attributeValues } : {}),
+    ...(expression && returnValuesOnConditionCheckFailure ? { ReturnValuesOnConditionCheckFailure: 'ALL_OLD' } : {}),
+  };
+}
+
+/**
+ * Runs a transaction request and when the transaction gets cancelled, attaches the cancellation reasons to the error
+ * as the result of the data source, the same way AppSync exposes them in $ctx.result.cancellationReasons
+ */
+async function executeTransaction(request, resultKey: 'items' | 'keys'): Promise<any> {
+  let cancellationReasons = null;
+  request.on('extractError', response => {
+    try {
+      const body = JSON.parse(response.httpResponse.body.toString());
+      cancellationReasons = body.CancellationReasons || null;
+    } catch (e) {
+      // error body is not JSON, fallback to the reasons listed in the error message
+    }
+  });
+  try {
+    return await request.promise();
+  } catch (e) {
+    if (e.code === 'TransactionCanceledException') {
+      const reasons = cancellationReasons || parseCancellationReasons(e.message);
+      e.result = {
+        [resultKey]: null,
+        cancellationReasons: reasons.map(reason => ({
+          type: reason.Code,
+          message: reason.Message || null,
+          ...(reason.Item ? { item: unmarshall(reason.Item) } : {}),
+        })),
+      };
+    }
+    throw e;
+  }
+}
+
+function parseCancellationReasons(message: string = ''): { Code: string; Message?: string }[] {
+  const match = message.match(/\[([^\]]*)\]\s*$/);
+  if (!match) {
+    return [];
+  }
+  return match[1].split(',').map(code => ({ Code: code.trim() }));
 }
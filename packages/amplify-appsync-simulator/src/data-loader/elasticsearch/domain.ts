@@ -0,0 +1,182 @@
+import { get, isNil, isPlainObject } from 'lodash';
+import { compareValues, matchesQuery } from './query';
+
+const DOC_TYPE = 'doc';
+const DEFAULT_SEARCH_SIZE = 10;
+const KEYWORD_SUFFIX = '.keyword';
+
+export type ElasticsearchDocument = {
+  _id: string;
+  _version: number;
+  _source: object;
+};
+
+export type ElasticsearchSearchHit = {
+  _index: string;
+  _type: string;
+  _id: string;
+  _score: number | null;
+  _source: object;
+  _version?: number;
+  sort?: any[];
+};
+
+export type ElasticsearchSearchResult = {
+  took: number;
+  timed_out: boolean;
+  hits: {
+    total: number;
+    max_score: number | null;
+    hits: ElasticsearchSearchHit[];
+  };
+};
+
+type SortClause = {
+  field: string;
+  order: 'asc' | 'desc';
+};
+
+/**
+ * An in-memory stand-in for an Elasticsearch domain used by the simulator. It supports indexing documents
+ * and searching them with the subset of the query DSL used by the @searchable resolvers
+ */
+export class InMemoryElasticsearchDomain {
+  private indices: Map<string, Map<string, ElasticsearchDocument>> = new Map();
+
+  indexDocument(indexName: string, id: string, source: object, externalVersion?: number): ElasticsearchDocument {
+    const index = this.getOrCreateIndex(indexName);
+    const existing = index.get(id);
+    if (!isNil(externalVersion) && existing && existing._version >= externalVersion) {
+      throw new Error(
+        `[${DOC_TYPE}][${id}]: version conflict, current version [${existing._version}] is higher or equal to the one provided [${externalVersion}]`,
+      );
+    }
+    const doc: ElasticsearchDocument = {
+      _id: id,
+      _version: isNil(externalVersion) ? (existing ? existing._version + 1 : 1) : externalVersion,
+      _source: source,
+    };
+    index.set(id, doc);
+    return doc;
+  }
+
+  getDocument(indexName: string, id: string): ElasticsearchDocument | null {
+    const index = this.indices.get(indexName);
+    return (index && index.get(id)) || null;
+  }
+
+  deleteDocument(indexName: string, id: string): boolean {
+    const index = this.indices.get(indexName);
+    return index ? index.delete(id) : false;
+  }
+
+  deleteIndex(indexName: string): void {
+    this.indices.delete(indexName);
+  }
+
+  clear(): void {
+    this.indices.clear();
+  }
+
+  search(indexName: string | null, body: any = {}): ElasticsearchSearchResult {
+    const startTime = Date.now();
+    if (body.aggs || body.aggregations) {
+      throw new Error('Aggregations are not supported by the local Elasticsearch simulator');
+    }
+    const indexNames = indexName && indexName !== '_all' ? indexName.split(',') : Array.from(this.indices.keys());
+    const documents = indexNames.reduce((acc, name) => {
+      const index = this.indices.get(name);
+      if (!index) {
+        return acc;
+      }
+      return [...acc, ...Array.from(index.values()).map(doc => ({ indexName: name, doc }))];
+    }, []);
+
+    const matched = documents.filter(({ doc }) => matchesQuery(doc._source, body.query));
+    const sort = parseSort(body.sort);
+    const sorted = sort.length
+      ? [...matched].sort((a, b) => compareSortValues(getSortValues(a.doc, sort), getSortValues(b.doc, sort), sort))
+      : matched;
+
+    let page = sorted;
+    if (Array.isArray(body.search_after) && sort.length) {
+      page = page.filter(({ doc }) => compareSortValues(getSortValues(doc, sort), body.search_after, sort) > 0);
+    }
+    const from = body.from || 0;
+    const size = isNil(body.size) ? DEFAULT_SEARCH_SIZE : body.size;
+    page = page.slice(from, from + size);
+
+    const score = sort.length ? null : 1.0;
+    return {
+      took: Date.now() - startTime,
+      timed_out: false,
+      hits: {
+        total: matched.length,
+        max_score: matched.length ? score : null,
+        hits: page.map(({ indexName: name, doc }) => ({
+          _index: name,
+          _type: DOC_TYPE,
+          _id: doc._id,
+          _score: score,
+          _source: doc._source,
+          ...(body.version ? { _version: doc._version } : {}),
+          ...(sort.length ? { sort: getSortValues(doc, sort) } : {}),
+        })),
+      },
+    };
+  }
+
+  private getOrCreateIndex(indexName: string): Map<string, ElasticsearchDocument> {
+    if (!this.indices.has(indexName)) {
+      this.indices.set(indexName, new Map());
+    }
+    return this.indices.get(indexName);
+  }
+}
+
+function parseSort(sort: any): SortClause[] {
+  if (isNil(sort)) {
+    return [];
+  }
+  return (Array.isArray(sort) ? sort : [sort]).map(clause => {
+    if (typeof clause === 'string') {
+      return { field: clause, order: clause === '_score' ? 'desc' : 'asc' };
+    }
+    const [field, options] = Object.entries(clause)[0] as [string, any];
+    const order = isPlainObject(options) ? options.order : options;
+    return { field, order: `${order || 'asc'}`.toLowerCase() === 'desc' ? 'desc' : 'asc' };
+  });
+}
+
+function getSortValues(doc: ElasticsearchDocument, sort: SortClause[]): any[] {
+  return sort.map(({ field }) => {
+    if (field === '_id') {
+      return doc._id;
+    }
+    if (field === '_score') {
+      return 1.0;
+    }
+    const path = field.endsWith(KEYWORD_SUFFIX) ? field.substr(0, field.length - KEYWORD_SUFFIX.length) : field;
+    const value = get(doc._source, path);
+    return isNil(value) ? null : value;
+  });
+}
+
+function compareSortValues(first: any[], second: any[], sort: SortClause[]): number {
+  for (let i = 0; i < sort.length; i += 1) {
+    const a = first[i];
+    const b = second[i];
+    if (isNil(a) || isNil(b)) {
+      // documents missing the sort field are always sorted last
+      if (isNil(a) !== isNil(b)) {
+        return isNil(a) ? 1 : -1;
+      }
+      continue;
+    }
+    const result = compareValues(a, b);
+    if (result !== 0) {
+      return sort[i].order === 'desc' ? -result : result;
+    }
+  }
+  return 0;
+}
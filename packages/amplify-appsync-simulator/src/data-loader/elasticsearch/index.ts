@@ -0,0 +1,120 @@
+import { AmplifyAppSyncSimulatorDataLoader } from '..';
+import { InMemoryElasticsearchDomain } from './domain';
+import nanoid from 'nanoid';
+
+export { InMemoryElasticsearchDomain } from './domain';
+
+type ElasticsearchLoaderConfig = {
+  name: string;
+  config?: {
+    domain?: InMemoryElasticsearchDomain;
+  };
+};
+
+type ElasticsearchRequestPayload = {
+  operation: string;
+  path: string;
+  params?: {
+    body?: string | object;
+    queryString?: object;
+    headers?: object;
+  };
+};
+
+export class ElasticsearchDataLoader implements AmplifyAppSyncSimulatorDataLoader {
+  private domain: InMemoryElasticsearchDomain;
+
+  constructor(private esConfig: ElasticsearchLoaderConfig) {
+    this.domain = (esConfig.config && esConfig.config.domain) || new InMemoryElasticsearchDomain();
+  }
+
+  async load(payload: ElasticsearchRequestPayload): Promise<object | null> {
+    try {
+      const operation = (payload.operation || '').toUpperCase();
+      const pathParts = (payload.path || '').split('/').filter(part => part.length);
+      const body = parseBody(payload.params && payload.params.body);
+
+      if (pathParts[pathParts.length - 1] === '_search' && ['GET', 'POST'].includes(operation)) {
+        // supported paths: /_search, /{index}/_search and /{index}/{type}/_search
+        const indexName = pathParts.length > 1 ? pathParts[0] : null;
+        return this.domain.search(indexName, body);
+      }
+
+      const [indexName, type, id] = pathParts;
+      if (!indexName || !type || pathParts.length > 3) {
+        throw createElasticsearchError(`Unsupported Elasticsearch request ${operation} ${payload.path}`, 'BadRequest');
+      }
+      switch (operation) {
+        case 'GET':
+        case 'HEAD':
+          return this.getDocument(indexName, type, id);
+        case 'PUT':
+        case 'POST':
+          return this.indexDocument(indexName, type, id || nanoid(), body);
+        case 'DELETE':
+          return this.deleteDocument(indexName, type, id);
+        default:
+          throw createElasticsearchError(`Unsupported Elasticsearch operation ${payload.operation}`, 'BadRequest');
+      }
+    } catch (e) {
+      if (!e.extensions) {
+        console.log('Error while executing local Elasticsearch request');
+        console.log(JSON.stringify(payload, null, 4));
+        console.log(e);
+        e.extensions = { errorType: 'Elasticsearch:BadRequest' };
+      }
+      throw e;
+    }
+  }
+
+  private getDocument(indexName: string, type: string, id: string): object {
+    const doc = this.domain.getDocument(indexName, id);
+    return {
+      _index: indexName,
+      _type: type,
+      _id: id,
+      found: !!doc,
+      ...(doc ? { _version: doc._version, _source: doc._source } : {}),
+    };
+  }
+
+  private indexDocument(indexName: string, type: string, id: string, source: object): object {
+    const existing = this.domain.getDocument(indexName, id);
+    const doc = this.domain.indexDocument(indexName, id, source);
+    return {
+      _index: indexName,
+      _type: type,
+      _id: id,
+      _version: doc._version,
+      result: existing ? 'updated' : 'created',
+    };
+  }
+
+  private deleteDocument(indexName: string, type: string, id: string): object {
+    if (!id) {
+      throw createElasticsearchError('Deleting an index is not supported by the local Elasticsearch simulator', 'BadRequest');
+    }
+    const existing = this.domain.getDocument(indexName, id);
+    const deleted = this.domain.deleteDocument(indexName, id);
+    return {
+      _index: indexName,
+      _type: type,
+      _id: id,
+      _version: existing ? existing._version + 1 : 1,
+      result: deleted ? 'deleted' : 'not_found',
+    };
+  }
+}
+
+function parseBody(body: string | object | undefined): any {
+  if (typeof body === 'string') {
+    return body.trim().length ? JSON.parse(body) : {};
+  }
+  return body || {};
+}
+
+function createElasticsearchError(message: string, errorType: string): Error {
+  const error: any = new Error(message);
+  error.extensions = { errorType: `Elasticsearch:${errorType}` };
+  return error;
+}
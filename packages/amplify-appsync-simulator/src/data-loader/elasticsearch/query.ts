@@ -0,0 +1,209 @@
+import { get, isEqual, isNil, isPlainObject } from 'lodash';
+
+const KEYWORD_SUFFIX = '.keyword';
+const TOKEN_SEPARATOR = new RegExp('[^\\p{L}\\p{N}_]+', 'u');
+
+/**
+ * Splits text into lower cased tokens, similar to the standard analyzer Elasticsearch applies to text fields
+ */
+export function analyze(text: string): string[] {
+  return `${text}`
+    .toLowerCase()
+    .split(TOKEN_SEPARATOR)
+    .filter(token => token.length);
+}
+
+type FieldValue = {
+  value: any;
+  isKeyword: boolean;
+};
+
+function getFieldValues(source: object, field: string): FieldValue[] {
+  const isKeyword = field.endsWith(KEYWORD_SUFFIX);
+  const fieldPath = isKeyword ? field.substr(0, field.length - KEYWORD_SUFFIX.length) : field;
+  const value = get(source, fieldPath);
+  if (isNil(value)) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).filter(v => !isNil(v)).map(v => ({ value: v, isKeyword }));
+}
+
+function isTextValue(fieldValue: FieldValue): boolean {
+  return typeof fieldValue.value === 'string' && !fieldValue.isKeyword;
+}
+
+// term level queries are not analyzed and match a single token of text fields or the whole value of other fields
+function matchesTermLevel(source: object, field: string, predicate: (value: any) => boolean): boolean {
+  return getFieldValues(source, field).some(fieldValue =>
+    isTextValue(fieldValue) ? analyze(fieldValue.value).some(predicate) : predicate(fieldValue.value),
+  );
+}
+
+function getQueryValue(queryValue: any, key: string = 'value'): any {
+  return isPlainObject(queryValue) ? queryValue[key] : queryValue;
+}
+
+function getSingleField(query: object, queryType: string): [string, any] {
+  const entries = Object.entries(query || {});
+  if (entries.length !== 1) {
+    throw new Error(`[${queryType}] query must have exactly one field`);
+  }
+  return entries[0] as [string, any];
+}
+
+function isSameValue(fieldValue: any, queryValue: any): boolean {
+  if (typeof fieldValue === 'string' || typeof queryValue === 'string') {
+    return `${fieldValue}` === `${queryValue}`;
+  }
+  return isEqual(fieldValue, queryValue);
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+export function compareValues(a: any, b: any): number {
+  // search_after values and range bounds are often passed as strings for numeric fields
+  if ((typeof a === 'number' || typeof b === 'number') && isNumeric(a) && isNumeric(b)) {
+    return Number(a) - Number(b);
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  const first = `${a}`;
+  const second = `${b}`;
+  return first < second ? -1 : first > second ? 1 : 0;
+}
+
+function matchesRange(value: any, range: { gt?: any; gte?: any; lt?: any; lte?: any }): boolean {
+  return (
+    (isNil(range.gt) || compareValues(value, range.gt) > 0) &&
+    (isNil(range.gte) || compareValues(value, range.gte) >= 0) &&
+    (isNil(range.lt) || compareValues(value, range.lt) < 0) &&
+    (isNil(range.lte) || compareValues(value, range.lte) <= 0)
+  );
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+function containsPhrase(tokens: string[], phrase: string[], prefixLastToken: boolean = false): boolean {
+  if (!phrase.length) {
+    return false;
+  }
+  for (let start = 0; start <= tokens.length - phrase.length; start += 1) {
+    const matched = phrase.every((token, idx) => {
+      const candidate = tokens[start + idx];
+      return prefixLastToken && idx === phrase.length - 1 ? candidate.startsWith(token) : candidate === token;
+    });
+    if (matched) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesFullText(source: object, field: string, queryValue: any, type: 'match' | 'match_phrase' | 'match_phrase_prefix'): boolean {
+  const query = getQueryValue(queryValue, 'query');
+  const operator = isPlainObject(queryValue) && queryValue.operator ? `${queryValue.operator}`.toLowerCase() : 'or';
+  return getFieldValues(source, field).some(fieldValue => {
+    if (!isTextValue(fieldValue)) {
+      return isSameValue(fieldValue.value, query);
+    }
+    const tokens = analyze(fieldValue.value);
+    const queryTokens = analyze(query);
+    if (type === 'match') {
+      return operator === 'and' ? queryTokens.every(t => tokens.includes(t)) : queryTokens.some(t => tokens.includes(t));
+    }
+    return containsPhrase(tokens, queryTokens, type === 'match_phrase_prefix');
+  });
+}
+
+function asArray<T>(value: T | T[]): T[] {
+  if (isNil(value)) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function matchesBool(source: object, bool: any): boolean {
+  const must = [...asArray(bool.must), ...asArray(bool.filter)];
+  const should = asArray(bool.should);
+  const mustNot = asArray(bool.must_not);
+  if (!must.every(q => matchesQuery(source, q))) {
+    return false;
+  }
+  if (mustNot.some(q => matchesQuery(source, q))) {
+    return false;
+  }
+  if (should.length) {
+    const defaultMinimumShouldMatch = must.length ? 0 : 1;
+    const minimumShouldMatch = isNil(bool.minimum_should_match) ? defaultMinimumShouldMatch : parseInt(bool.minimum_should_match, 10);
+    return should.filter(q => matchesQuery(source, q)).length >= minimumShouldMatch;
+  }
+  return true;
+}
+
+/**
+ * Evaluates an Elasticsearch query DSL object against a document source
+ */
+export function matchesQuery(source: object, query: any): boolean {
+  if (isNil(query)) {
+    return true;
+  }
+  const entries = Object.entries(query);
+  if (entries.length !== 1) {
+    throw new Error(`Invalid query ${JSON.stringify(query)}. A query must have exactly one query type`);
+  }
+  const [queryType, queryBody]: [string, any] = entries[0] as [string, any];
+  switch (queryType) {
+    case 'match_all':
+      return true;
+    case 'match_none':
+      return false;
+    case 'bool':
+      return matchesBool(source, queryBody);
+    case 'term': {
+      const [field, value] = getSingleField(queryBody, queryType);
+      return matchesTermLevel(source, field, v => isSameValue(v, getQueryValue(value)));
+    }
+    case 'terms': {
+      const [field, values] = getSingleField(queryBody, queryType);
+      return matchesTermLevel(source, field, v => asArray(values).some(value => isSameValue(v, value)));
+    }
+    case 'prefix': {
+      const [field, value] = getSingleField(queryBody, queryType);
+      return matchesTermLevel(source, field, v => `${v}`.startsWith(getQueryValue(value)));
+    }
+    case 'wildcard': {
+      const [field, value] = getSingleField(queryBody, queryType);
+      const pattern = wildcardToRegExp(getQueryValue(value));
+      return matchesTermLevel(source, field, v => pattern.test(`${v}`));
+    }
+    case 'regexp': {
+      const [field, value] = getSingleField(queryBody, queryType);
+      const pattern = new RegExp(`^(?:${getQueryValue(value)})$`);
+      return matchesTermLevel(source, field, v => pattern.test(`${v}`));
+    }
+    case 'range': {
+      const [field, range] = getSingleField(queryBody, queryType);
+      return getFieldValues(source, field).some(fieldValue => matchesRange(fieldValue.value, range));
+    }
+    case 'exists':
+      return getFieldValues(source, queryBody.field).length > 0;
+    case 'match':
+    case 'match_phrase':
+    case 'match_phrase_prefix': {
+      const [field, value] = getSingleField(queryBody, queryType);
+      return matchesFullText(source, field, value, queryType);
+    }
+    case 'multi_match':
+      return asArray(queryBody.fields).some(field =>
+        matchesFullText(source, field, { query: queryBody.query, operator: queryBody.operator }, 'match'),
+      );
+    default:
+      throw new Error(`Query type ${queryType} is not supported by the local Elasticsearch simulator`);
+  }
+}
@@ -0,0 +1,111 @@
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { AmplifyAppSyncSimulatorDataLoader } from '..';
+
+type HTTPLoaderConfig = {
+  name: string;
+  config: {
+    endpoint: string;
+  };
+};
+
+type HTTPRequestPayload = {
+  method: string;
+  resourcePath: string;
+  params?: {
+    query?: Record<string, string | string[]>;
+    headers?: Record<string, string>;
+    body?: string | object;
+  };
+};
+
+export type HTTPDataSourceResult = {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  body: string;
+};
+
+const SUPPORTED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export class HTTPDataLoader implements AmplifyAppSyncSimulatorDataLoader {
+  private endpoint: URL;
+
+  constructor(private httpConfig: HTTPLoaderConfig) {
+    const { endpoint } = httpConfig.config || ({} as any);
+    if (!endpoint) {
+      throw new Error(`Invalid HTTPConfig ${JSON.stringify(httpConfig, null, 4)}`);
+    }
+    this.endpoint = new URL(endpoint);
+  }
+
+  async load(payload: HTTPRequestPayload): Promise<HTTPDataSourceResult> {
+    try {
+      const method = (payload.method || '').toUpperCase();
+      if (!SUPPORTED_METHODS.includes(method)) {
+        throw createHTTPError(`Unsupported HTTP method ${payload.method}`, 'BadRequest');
+      }
+      if (!payload.resourcePath || !payload.resourcePath.startsWith('/')) {
+        throw createHTTPError(`Invalid resourcePath ${payload.resourcePath}. The resourcePath must start with /`, 'BadRequest');
+      }
+      return await this.request(method, payload);
+    } catch (e) {
+      if (!e.extensions) {
+        console.log('Error while executing HTTP request');
+        console.log(JSON.stringify(payload, null, 4));
+        console.log(e);
+        e.extensions = { errorType: `HTTP:${e.code || 'RequestFailed'}` };
+      }
+      throw e;
+    }
+  }
+
+  private request(method: string, payload: HTTPRequestPayload): Promise<HTTPDataSourceResult> {
+    const { query = {}, headers = {}, body } = payload.params || {};
+    const url = new URL(this.endpoint.toString());
+    url.pathname = `${url.pathname.replace(/\/$/, '')}${payload.resourcePath}`;
+    Object.entries(query).forEach(([name, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(v => url.searchParams.append(name, `${v}`));
+    });
+
+    const requestBody = typeof body === 'undefined' || body === null ? null : typeof body === 'string' ? body : JSON.stringify(body);
+    const requestHeaders = { ...headers };
+    if (requestBody !== null) {
+      requestHeaders['content-length'] = `${Buffer.byteLength(requestBody)}`;
+    }
+
+    const transport = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = transport.request(
+        url.toString(),
+        {
+          method,
+          headers: requestHeaders,
+        },
+        res => {
+          const chunks = [];
+          res.on('data', chunk => chunks.push(chunk));
+          res.on('error', reject);
+          res.on('end', () => {
+            resolve({
+              statusCode: res.statusCode,
+              headers: res.headers as Record<string, string | string[]>,
+              body: Buffer.concat(chunks).toString(),
+            });
+          });
+        },
+      );
+      req.on('error', reject);
+      if (requestBody !== null) {
+        req.write(requestBody);
+      }
+      req.end();
+    });
+  }
+}
+
+function createHTTPError(message: string, errorType: string): Error {
+  const error: any = new Error(message);
+  error.extensions = { errorType: `HTTP:${errorType}` };
+  return error;
+}
@@ -1,9 +1,12 @@
 import { DynamoDBDataLoader } from './dynamo-db';
 import { NoneDataLoader } from './none';
 import { LambdaDataLoader } from './lambda';
+import { HTTPDataLoader } from './http';
+import { ElasticsearchDataLoader } from './elasticsearch';
+import { RDSDataLoader } from './rds';
 
 export interface AmplifyAppSyncSimulatorDataLoader {
-  load(payload: any, extraData?: any): Promise<object | null>;
+  load(payload: any, extraData?: any): Promise<object | string | null>;
 }
 const DATA_LOADER_MAP = new Map();
 export function getDataLoader(sourceType) {
@@ -32,3 +35,6 @@ export function removeDataLoader(sourceType: string) {
 addDataLoader('AMAZON_DYNAMODB', DynamoDBDataLoader);
 addDataLoader('NONE', NoneDataLoader);
 addDataLoader('AWS_LAMBDA', LambdaDataLoader);
+addDataLoader('HTTP', HTTPDataLoader);
+addDataLoader('AMAZON_ELASTICSEARCH', ElasticsearchDataLoader);
+addDataLoader('RELATIONAL_DATABASE', RDSDataLoader);
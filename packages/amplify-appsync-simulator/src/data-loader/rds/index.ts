@@ -0,0 +1,212 @@
+import { createPool, Pool, FieldPacket } from 'mysql2/promise';
+import { AmplifyAppSyncSimulatorDataLoader } from '..';
+
+export type RDSConnectionConfig = {
+  host: string;
+  port?: number;
+  user: string;
+  password?: string;
+  database?: string;
+};
+
+type RDSLoaderConfig = {
+  name: string;
+  config: {
+    databaseName?: string;
+    connection?: RDSConnectionConfig;
+  };
+};
+
+type RDSRequestPayload = {
+  statements: string[];
+  variableMap?: Record<string, any>;
+};
+
+type DataAPIField = {
+  isNull?: boolean;
+  booleanValue?: boolean;
+  longValue?: number;
+  doubleValue?: number;
+  stringValue?: string;
+  blobValue?: string;
+};
+
+type DataAPIColumnMetadata = {
+  name: string;
+  label: string;
+  tableName: string;
+  typeName: string;
+  nullable: number;
+};
+
+type DataAPIStatementResult = {
+  numberOfRecordsUpdated: number;
+  records?: DataAPIField[][];
+  columnMetadata?: DataAPIColumnMetadata[];
+  generatedFields?: DataAPIField[];
+};
+
+// AppSync supports at most 2 statements in a single request
+const MAX_STATEMENTS = 2;
+
+// Type names reported by the Data API for the MySQL column types
+const COLUMN_TYPE_NAMES = {
+  0x00: 'DECIMAL',
+  0x01: 'TINYINT',
+  0x02: 'SMALLINT',
+  0x03: 'INT',
+  0x04: 'FLOAT',
+  0x05: 'DOUBLE',
+  0x07: 'TIMESTAMP',
+  0x08: 'BIGINT',
+  0x09: 'MEDIUMINT',
+  0x0a: 'DATE',
+  0x0b: 'TIME',
+  0x0c: 'DATETIME',
+  0x0d: 'YEAR',
+  0x0f: 'VARCHAR',
+  0x10: 'BIT',
+  0xf5: 'JSON',
+  0xf6: 'DECIMAL',
+  0xf7: 'ENUM',
+  0xf8: 'SET',
+  0xfc: 'TEXT',
+  0xfd: 'VARCHAR',
+  0xfe: 'CHAR',
+};
+
+const NOT_NULL_FLAG = 1;
+
+const POOLS: Map<string, Pool> = new Map();
+
+function getPool(connection: RDSConnectionConfig): Pool {
+  const poolKey = JSON.stringify(connection);
+  if (!POOLS.has(poolKey)) {
+    POOLS.set(
+      poolKey,
+      createPool({
+        ...connection,
+        // keep the values the way the Data API returns them
+        dateStrings: true,
+        supportBigNumbers: true,
+        bigNumberStrings: false,
+        connectionLimit: 5,
+      }),
+    );
+  }
+  return POOLS.get(poolKey);
+}
+
+/**
+ * Ends the connection pools of the local databases so that their sockets do not keep the process alive.
+ * Pools are created again by the next request
+ */
+export async function closeRDSConnectionPools(): Promise<void> {
+  const pools = Array.from(POOLS.values());
+  POOLS.clear();
+  await Promise.all(pools.map(pool => pool.end()));
+}
+
+export class RDSDataLoader implements AmplifyAppSyncSimulatorDataLoader {
+  constructor(private rdsConfig: RDSLoaderConfig) {}
+
+  async load(payload: RDSRequestPayload): Promise<string> {
+    const { connection, databaseName } = this.rdsConfig.config || ({} as any);
+    try {
+      if (!connection) {
+        throw createRDSError(
+          `Missing local database connection for data source ${this.rdsConfig.name}. Configure the relationalDatabase section of amplify/mock.json`,
+          'BadRequest',
+        );
+      }
+      const statements = payload.statements || [];
+      if (!statements.length || statements.length > MAX_STATEMENTS) {
+        throw createRDSError(`A relational database request must contain 1 to ${MAX_STATEMENTS} statements`, 'BadRequest');
+      }
+      const pool = getPool({ database: databaseName, ...connection });
+      const sqlStatementResults: DataAPIStatementResult[] = [];
+      // statements of a request share a connection so that session state like LAST_INSERT_ID() is kept
+      const dbConnection = await pool.getConnection();
+      try {
+        for (const statement of statements) {
+          const sql = substituteVariables(statement, payload.variableMap || {}, value => dbConnection.escape(value));
+          const [result, fields] = await dbConnection.query(sql);
+          sqlStatementResults.push(toDataAPIResult(result, fields));
+        }
+      } finally {
+        dbConnection.release();
+      }
+      // AppSync passes the result of the Data API as a JSON string to the response mapping template
+      return JSON.stringify({ sqlStatementResults });
+    } catch (e) {
+      if (!e.extensions) {
+        console.log('Error while executing statements against the local relational database');
+        console.log(JSON.stringify(payload, null, 4));
+        console.log(e);
+        e.extensions = { errorType: `RDS:${e.code || 'BadRequest'}` };
+      }
+      throw e;
+    }
+  }
+}
+
+/**
+ * Replaces the :name placeholders of the statement with the escaped values of the variable map.
+ * Placeholders inside quoted strings and identifiers are left untouched
+ */
+export function substituteVariables(statement: string, variableMap: Record<string, any>, escape: (value: any) => string): string {
+  return statement.replace(/('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`)|:([A-Za-z_][A-Za-z0-9_]*)/g, (match, quoted, name) => {
+    if (quoted) {
+      return quoted;
+    }
+    const key = `:${name}` in variableMap ? `:${name}` : name;
+    return key in variableMap ? escape(variableMap[key]) : match;
+  });
+}
+
+function toDataAPIResult(result: any, fields: FieldPacket[]): DataAPIStatementResult {
+  if (!Array.isArray(result)) {
+    return {
+      numberOfRecordsUpdated: result.affectedRows || 0,
+      generatedFields: result.insertId ? [{ longValue: result.insertId }] : [],
+    };
+  }
+  const columns = fields || [];
+  return {
+    numberOfRecordsUpdated: 0,
+    records: result.map(row => columns.map(column => toDataAPIField(row[column.name]))),
+    columnMetadata: columns.map((column: any) => ({
+      name: column.orgName || column.name,
+      label: column.name,
+      tableName: column.orgTable || column.table,
+      typeName: COLUMN_TYPE_NAMES[column.columnType] || 'VARCHAR',
+      // eslint-disable-next-line no-bitwise
+      nullable: column.flags & NOT_NULL_FLAG ? 0 : 1,
+    })),
+  };
+}
+
+function toDataAPIField(value: any): DataAPIField {
+  if (value === null || typeof value === 'undefined') {
+    return { isNull: true };
+  }
+  if (typeof value === 'boolean') {
+    return { booleanValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { longValue: value } : { doubleValue: value };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { blobValue: value.toString('base64') };
+  }
+  if (typeof value === 'object') {
+    return { stringValue: JSON.stringify(value) };
+  }
+  return { stringValue: `${value}` };
+}
+
+function createRDSError(message: string, errorType: string): Error {
+  const error: any = new Error(message);
+  error.extensions = { errorType: `RDS:${errorType}` };
+  return error;
+}
@@ -1,11 +1,14 @@
-import { Source, GraphQLSchema } from 'graphql';
+import { Source, GraphQLResolveInfo, GraphQLSchema } from 'graphql';
 import slash from 'slash';
 import { generateResolvers } from './schema';
 import { VelocityTemplate } from './velocity';
 import { getDataLoader, AmplifyAppSyncSimulatorDataLoader } from './data-loader';
+import { closeRDSConnectionPools } from './data-loader/rds';
 import { AppSyncUnitResolver } from './resolvers';
 import { AppSyncSimulatorServer } from './server';
 export { addDataLoader, removeDataLoader } from './data-loader';
+export { InMemoryElasticsearchDomain } from './data-loader/elasticsearch/domain';
+export { RDSConnectionConfig } from './data-loader/rds';
 import { PubSub, withFilter } from 'graphql-subscriptions';
 import { AmplifySimulatorFunction } from './resolvers/function';
 import { AppSyncPipelineResolver } from './resolvers/pipeline-resolver';
@@ -17,9 +20,38 @@ import {
   AppSyncSimulatorUnitResolverConfig,
   AmplifyAppSyncAPIConfig,
   AppSyncSimulatorMappingTemplate,
+  AmplifyAppSyncSimulatorAuthenticationType,
+  AmplifyAppSyncAuthenticationProviderCognitoConfig,
+  AmplifyAppSyncAuthenticationProviderOIDCConfig,
+  AppSyncSimulatorTokenType,
 } from './type-definition';
 import { filterSubscriptions } from './utils/graphql-runner/subscriptions-filter';
+import { ResolverCache } from './utils/resolver-cache';
+import {
+  DEFAULT_API_ARN,
+  getIAMAuthorization,
+  getTokenIssuer,
+  IAMAuthorization,
+  LambdaAuthorizer,
+  LocalTokenIssuer,
+  SignedRequest,
+  verifySignatureV4,
+} from './utils/auth-helpers';
 export * from './type-definition';
+// the IAM policy evaluation and the Signature Version 4 helpers are shared with the storage simulator
+export {
+  IAMPolicyContext,
+  isAllowedByPolicies,
+  SIGNATURE_V4_ALGORITHM,
+  SignatureV4Authorization,
+  SignatureV4Credential,
+  calculateSignatureV4,
+  encodeRFC3986,
+  isSameSignature,
+  parseAmzDate,
+  parseSignatureV4Authorization,
+  sha256,
+} from './utils/auth-helpers';
 
 const DEFAULT_SCHEMA = `
 type Query {
@@ -39,6 +71,9 @@ export class AmplifyAppSyncSimulator {
   private _server: AppSyncSimulatorServer;
   private _config: AmplifyAppSyncSimulatorConfig;
   private _appSyncConfig: AmplifyAppSyncAPIConfig;
+  private _tokenIssuer: LocalTokenIssuer;
+  private _lambdaAuthorizer: LambdaAuthorizer = new LambdaAuthorizer();
+  private _resolverCache: ResolverCache = new ResolverCache();
   constructor(
     serverConfig: AppSyncSimulatorServerConfig = {
       port: 0,
@@ -47,6 +82,7 @@ export class AmplifyAppSyncSimulator {
   ) {
     this._serverConfig = serverConfig;
     this._pubsub = new PubSub();
+    this._tokenIssuer = new LocalTokenIssuer((serverConfig.auth && serverConfig.auth.users) || []);
     try {
       this._server = new AppSyncSimulatorServer(serverConfig, this);
     } catch (e) {
@@ -105,6 +141,10 @@ export class AmplifyAppSyncSimulator {
 
       this._schema = generateResolvers(new Source(config.schema.content, config.schema.path), config.resolvers, this);
       this._config = config;
+      // the authorizer function may have changed
+      this._lambdaAuthorizer.clearCache();
+      // cached results may have been produced by the previous resolvers
+      this._resolverCache.flush();
     } catch (e) {
       this._schema = lastSchema;
       this.resolvers = lastResolverMap;
@@ -118,8 +158,9 @@ export class AmplifyAppSyncSimulator {
     await this._server.start();
   }
 
-  stop() {
+  async stop() {
     this._server.stop();
+    await closeRDSConnectionPools();
   }
 
   getMappingTemplate(path: string): VelocityTemplate {
@@ -156,8 +197,12 @@ export class AmplifyAppSyncSimulator {
   get pubsub(): PubSub {
     return this._pubsub;
   }
-  asyncIterator(trigger: string): AsyncIterator<any> {
-    return withFilter(() => this._pubsub.asyncIterator(trigger), filterSubscriptions)();
+  /**
+   * Returns the events published for a subscription field, filtered with the arguments of the subscription and the
+   * filter its resolver set on the request context. Takes the arguments of the subscribe resolver of the field
+   */
+  asyncIterator(trigger: string, source: any, args: Record<string, any>, context: any, info: GraphQLResolveInfo): AsyncIterator<any> {
+    return withFilter(() => this._pubsub.asyncIterator(trigger), filterSubscriptions)(source, args, context, info);
   }
 
   get url(): string {
@@ -169,4 +214,69 @@ export class AmplifyAppSyncSimulator {
   get appSyncConfig(): AmplifyAppSyncAPIConfig {
     return this._appSyncConfig;
   }
+  get strictAppSyncParity(): boolean {
+    return !!this._serverConfig.strictAppSyncParity;
+  }
+  get apiArn(): string {
+    return (this._appSyncConfig && this._appSyncConfig.arn) || DEFAULT_API_ARN;
+  }
+  get lambdaAuthorizer(): LambdaAuthorizer {
+    return this._lambdaAuthorizer;
+  }
+  get resolverCache(): ResolverCache {
+    return this._resolverCache;
+  }
+  get tokenIssuer(): LocalTokenIssuer {
+    return this._tokenIssuer;
+  }
+  // issuer whose keys are used to verify JWT tokens, undefined when tokens are only decoded
+  get tokenVerifier(): LocalTokenIssuer | undefined {
+    return this._serverConfig.auth && this._serverConfig.auth.verifyTokens ? this._tokenIssuer : undefined;
+  }
+
+  /**
+   * Verifies the signature of an AWS_IAM request when IAM credentials are configured and returns the identity and the
+   * role policies of the credentials. Without credentials any signed request is accepted and no policy is evaluated
+   */
+  authorizeIAMRequest(request: SignedRequest): IAMAuthorization | undefined {
+    const { iamCredentials } = this._serverConfig.auth || {};
+    if (!iamCredentials) {
+      return undefined;
+    }
+    const credentials = verifySignatureV4(request, iamCredentials);
+    return getIAMAuthorization(credentials, (this._config && this._config.rolePolicies) || []);
+  }
+
+  /**
+   * Issues a token for a test user of the mock config. Cognito tokens (id and access) use the user pool of the API and
+   * OIDC tokens the issuer and client id of its OpenID Connect provider
+   */
+  issueToken(username: string, tokenType: AppSyncSimulatorTokenType = 'id', clientId?: string): string {
+    const providers = [this._appSyncConfig.defaultAuthenticationType, ...this._appSyncConfig.additionalAuthenticationProviders];
+    if (tokenType === 'oidc') {
+      const oidcProvider = providers.find(
+        p => p.authenticationType === AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT,
+      ) as AmplifyAppSyncAuthenticationProviderOIDCConfig;
+      if (!oidcProvider || !oidcProvider.openIDConnectConfig.Issuer) {
+        throw new Error('The API does not have an OpenID Connect authorization provider');
+      }
+      return this._tokenIssuer.issueToken(username, {
+        tokenType,
+        issuer: getTokenIssuer(oidcProvider),
+        audience: clientId || oidcProvider.openIDConnectConfig.ClientId,
+      });
+    }
+    const cognitoProvider = providers.find(
+      p => p.authenticationType === AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS,
+    ) as AmplifyAppSyncAuthenticationProviderCognitoConfig;
+    if (!cognitoProvider) {
+      throw new Error('The API does not have a Cognito user pool authorization provider');
+    }
+    const { cognitoClientId = 'local-client-id' } = this._serverConfig.auth || {};
+    return this._tokenIssuer.issueToken(username, {
+      tokenType,
+      issuer: getTokenIssuer(cognitoProvider),
+      audience: clientId || cognitoClientId,
+    });
+  }
 }
@@ -1,6 +1,10 @@
 import { AmplifyAppSyncSimulator } from '..';
-import { AppSyncSimulatorBaseResolverConfig } from '../type-definition';
-import { VelocityTemplate } from '../velocity';
+import { AppSyncSimulatorBaseResolverConfig, AppSyncSimulatorCachingConfig } from '../type-definition';
+import { getIdentity, VelocityTemplate } from '../velocity';
+import { TemplateSentError } from '../velocity/util';
+import { getPayloadSize, MAX_RESPONSE_SIZE, RESPONSE_TOO_LARGE_ERROR_TYPE } from '../utils/appsync-limits';
+import { TraceRecorder } from '../utils/graphql-runner/tracing';
+import { getCachingKey } from '../utils/resolver-cache';
 
 export abstract class AppSyncBaseResolver {
   constructor(protected config: AppSyncSimulatorBaseResolverConfig, protected simulatorContext: AmplifyAppSyncSimulator) {
@@ -43,4 +47,70 @@ export abstract class AppSyncBaseResolver {
     }
     return this.simulatorContext.getMappingTemplate(this.config.requestMappingTemplateLocation);
   }
+
+  // AppSync fails the field when the data source returns more than it accepts
+  protected checkResponseSize(result, info): void {
+    if (!this.simulatorContext.strictAppSyncParity) {
+      return;
+    }
+    const size = getPayloadSize(result);
+    if (size > MAX_RESPONSE_SIZE) {
+      throw new TemplateSentError(
+        `Response payload size (${size} bytes) exceeded the maximum allowed payload size (${MAX_RESPONSE_SIZE} bytes)`,
+        RESPONSE_TOO_LARGE_ERROR_TYPE,
+        null,
+        null,
+        info,
+      );
+    }
+  }
+
+  // serves the result from the resolver cache when caching applies to the field and caches it otherwise
+  protected async resolveWithCache(
+    cachingConfig: AppSyncSimulatorCachingConfig | undefined,
+    source,
+    args,
+    context,
+    info,
+    trace: TraceRecorder,
+    resolve: () => Promise<any>,
+  ): Promise<any> {
+    const fieldCachingConfig = this.getFieldCachingConfig(cachingConfig, info);
+    if (!fieldCachingConfig) {
+      return resolve();
+    }
+    const { ttl, cachingKeys } = fieldCachingConfig;
+    const key = getCachingKey(info.parentType.name, info.fieldName, cachingKeys, {
+      arguments: args,
+      source,
+      identity: getIdentity(context, this.simulatorContext),
+    });
+    const cache = this.simulatorContext.resolverCache;
+    const entry = cache.get(key);
+    trace.cache(key, !!entry, ttl);
+    if (entry) {
+      return entry.value;
+    }
+
+    const errorCount = context.appsyncErrors.length;
+    const result = await resolve();
+    // like AppSync, results with errors are not cached
+    if (context.appsyncErrors.length === errorCount) {
+      cache.set(key, result, ttl);
+    }
+    return result;
+  }
+
+  // AppSync only caches queries. Full request caching applies to every field with the TTL of the API cache, per
+  // resolver caching only to the resolvers that have a caching config
+  private getFieldCachingConfig(cachingConfig: AppSyncSimulatorCachingConfig | undefined, info): AppSyncSimulatorCachingConfig | undefined {
+    const apiCaching = this.simulatorContext.appSyncConfig && this.simulatorContext.appSyncConfig.apiCaching;
+    if (!apiCaching || !info.operation || info.operation.operation !== 'query') {
+      return undefined;
+    }
+    if (apiCaching.type === 'FULL_REQUEST_CACHING') {
+      return { ttl: apiCaching.ttl };
+    }
+    return cachingConfig;
+  }
 }
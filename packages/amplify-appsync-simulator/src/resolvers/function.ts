@@ -2,6 +2,7 @@ import { AmplifyAppSyncSimulator } from '..';
 import { AppSyncSimulatorFunctionResolverConfig } from '../type-definition';
 import { VelocityTemplate } from '../velocity';
 import { AppSyncBaseResolver } from './base-resolver';
+import { NOOP_TRACE_RECORDER, TraceRecorder } from '../utils/graphql-runner/tracing';
 
 export class AmplifySimulatorFunction extends AppSyncBaseResolver {
   constructor(protected config: AppSyncSimulatorFunctionResolverConfig, simulatorContext: AmplifyAppSyncSimulator) {
@@ -17,7 +18,15 @@ export class AmplifySimulatorFunction extends AppSyncBaseResolver {
     }
   }
 
-  async resolve(source, args, stash, prevResult, context, info): Promise<{ result: any; stash: any }> {
+  async resolve(
+    source,
+    args,
+    stash,
+    prevResult,
+    context,
+    info,
+    trace: TraceRecorder = NOOP_TRACE_RECORDER,
+  ): Promise<{ result: any; stash: any }> {
     let result = null;
     let error = null;
     const requestMappingTemplate = this.getRequestMappingTemplate();
@@ -26,6 +35,7 @@ export class AmplifySimulatorFunction extends AppSyncBaseResolver {
 
     const requestTemplateResult = await requestMappingTemplate.render({ source, arguments: args, stash, prevResult }, context, info);
     context.appsyncErrors = [...context.appsyncErrors, ...requestTemplateResult.errors];
+    trace.requestMapping(requestMappingTemplate.path, requestTemplateResult);
 
     if (requestTemplateResult.isReturn) {
       // #return was used in template, bail and don't run data invoker
@@ -36,11 +46,14 @@ export class AmplifySimulatorFunction extends AppSyncBaseResolver {
     }
     try {
       result = await dataLoader.load(requestTemplateResult.result);
+      this.checkResponseSize(result, info);
     } catch (e) {
       // pipeline resolver does not throw error
       // https://docs.aws.amazon.com/appsync/latest/devguide/resolver-mapping-template-changelog.html#aws-appsync-resolver-mapping-template-version-2018-05-29
       error = e;
+      result = typeof e.result === 'undefined' ? null : e.result;
     }
+    trace.dataSource(this.config.dataSourceName, requestTemplateResult.result, result, error);
 
     const responseMappingResult = await responseMappingTemplate.render(
       { source, arguments: args, result, stash: requestTemplateResult.stash, prevResult, error },
@@ -48,6 +61,7 @@ export class AmplifySimulatorFunction extends AppSyncBaseResolver {
       info,
     );
     context.appsyncErrors = [...context.appsyncErrors, ...responseMappingResult.errors];
+    trace.responseMapping(responseMappingTemplate.path, responseMappingResult);
     return {
       stash: responseMappingResult.stash,
       result: responseMappingResult.result,
@@ -1,6 +1,7 @@
 import { AmplifyAppSyncSimulator } from '..';
 import { AppSyncSimulatorPipelineResolverConfig } from '../type-definition';
 import { AppSyncBaseResolver } from './base-resolver';
+import { startResolverTrace, TraceRecorder } from '../utils/graphql-runner/tracing';
 
 export class AppSyncPipelineResolver extends AppSyncBaseResolver {
   constructor(protected config: AppSyncSimulatorPipelineResolverConfig, simulatorContext: AmplifyAppSyncSimulator) {
@@ -18,6 +19,17 @@ export class AppSyncPipelineResolver extends AppSyncBaseResolver {
   }
 
   async resolve(source, args, context, info) {
+    const trace = startResolverTrace(context.tracer, info, 'PIPELINE');
+    try {
+      return await this.resolveWithCache(this.config.cachingConfig, source, args, context, info, trace, () =>
+        this.resolveWithTrace(source, args, context, info, trace),
+      );
+    } finally {
+      trace.end();
+    }
+  }
+
+  private async resolveWithTrace(source, args, context, info, trace: TraceRecorder) {
     const requestMappingTemplate = this.getRequestMappingTemplate();
     const responseMappingTemplate = this.getResponseMappingTemplate();
 
@@ -27,11 +39,9 @@ export class AppSyncPipelineResolver extends AppSyncBaseResolver {
     let isReturn;
 
     // Pipeline request mapping template
-    ({ result, stash, errors: templateErrors, isReturn } = requestMappingTemplate.render(
-      { source, arguments: args, stash },
-      context,
-      info,
-    ));
+    const requestTemplateResult = requestMappingTemplate.render({ source, arguments: args, stash }, context, info);
+    ({ result, stash, errors: templateErrors, isReturn } = requestTemplateResult);
+    trace.requestMapping(requestMappingTemplate.path, requestTemplateResult);
 
     context.appsyncErrors = [...context.appsyncErrors, ...(templateErrors || [])];
 
@@ -43,15 +53,22 @@ export class AppSyncPipelineResolver extends AppSyncBaseResolver {
     let prevResult = result;
     for (let fnName of this.config.functions) {
       const fnResolver = this.simulatorContext.getFunction(fnName);
-      ({ result: prevResult, stash } = await fnResolver.resolve(source, args, stash, prevResult, context, info));
+      const fnTrace = trace.startFunction(fnName, stash);
+      try {
+        ({ result: prevResult, stash } = await fnResolver.resolve(source, args, stash, prevResult, context, info, fnTrace));
+      } finally {
+        fnTrace.end(stash);
+      }
     }
 
     // pipeline response mapping template
-    ({ result, errors: templateErrors } = responseMappingTemplate.render(
+    const responseTemplateResult = responseMappingTemplate.render(
       { source, arguments: args, result: prevResult, prevResult, stash },
       context,
       info,
-    ));
+    );
+    ({ result, errors: templateErrors } = responseTemplateResult);
+    trace.responseMapping(responseMappingTemplate.path, responseTemplateResult);
     context.appsyncErrors = [...context.appsyncErrors, ...(templateErrors || [])];
     return result;
   }
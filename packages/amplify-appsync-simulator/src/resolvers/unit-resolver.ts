@@ -1,6 +1,7 @@
 import { AmplifyAppSyncSimulator } from '..';
 import { AppSyncSimulatorUnitResolverConfig } from '../type-definition';
 import { AppSyncBaseResolver } from './base-resolver';
+import { startResolverTrace, TraceRecorder } from '../utils/graphql-runner/tracing';
 
 export class AppSyncUnitResolver extends AppSyncBaseResolver {
   protected config: AppSyncSimulatorUnitResolverConfig;
@@ -19,14 +20,23 @@ export class AppSyncUnitResolver extends AppSyncBaseResolver {
   }
 
   async resolve(source, args, context, info): Promise<any> {
+    const trace = startResolverTrace(context.tracer, info, 'UNIT');
+    try {
+      return await this.resolveWithCache(this.config.cachingConfig, source, args, context, info, trace, () =>
+        this.resolveWithTrace(source, args, context, info, trace),
+      );
+    } finally {
+      trace.end();
+    }
+  }
+
+  private async resolveWithTrace(source, args, context, info, trace: TraceRecorder): Promise<any> {
     const requestMappingTemplate = this.getRequestMappingTemplate();
     const responseMappingTemplate = this.getResponseMappingTemplate();
     const dataLoader = this.simulatorContext.getDataLoader(this.config.dataSourceName);
-    const { result: requestPayload, errors: requestTemplateErrors, isReturn } = requestMappingTemplate.render(
-      { source, arguments: args },
-      context,
-      info,
-    );
+    const requestTemplateResult = requestMappingTemplate.render({ source, arguments: args }, context, info);
+    const { result: requestPayload, errors: requestTemplateErrors, isReturn } = requestTemplateResult;
+    trace.requestMapping(requestMappingTemplate.path, requestTemplateResult);
     context.appsyncErrors = [...context.appsyncErrors, ...requestTemplateErrors];
     let result = null;
     let error;
@@ -36,23 +46,26 @@ export class AppSyncUnitResolver extends AppSyncBaseResolver {
     }
     try {
       result = await dataLoader.load(requestPayload, { source, args, context, info });
+      this.checkResponseSize(result, info);
     } catch (e) {
       if (requestPayload && requestPayload.version === '2018-05-29') {
         // https://docs.aws.amazon.com/appsync/latest/devguide/resolver-mapping-template-changelog.html#aws-appsync-resolver-mapping-template-version-2018-05-29
         error = e;
+        // data sources can return a result along with the error (i.e. cancellation reasons of a DynamoDB transaction)
+        result = typeof e.result === 'undefined' ? null : e.result;
       } else {
+        trace.dataSource(this.config.dataSourceName, requestPayload, null, e);
         throw e;
       }
     }
+    trace.dataSource(this.config.dataSourceName, requestPayload, result, error);
     if (requestPayload && requestPayload.version !== '2018-05-29' && result === null) {
       return;
     }
 
-    const { result: responseTemplateResult, errors: responseTemplateErrors } = responseMappingTemplate.render(
-      { source, arguments: args, result, error },
-      context,
-      info,
-    );
+    const responseRenderResult = responseMappingTemplate.render({ source, arguments: args, result, error }, context, info);
+    const { result: responseTemplateResult, errors: responseTemplateErrors } = responseRenderResult;
+    trace.responseMapping(responseMappingTemplate.path, responseRenderResult);
     context.appsyncErrors = [...context.appsyncErrors, ...responseTemplateErrors];
 
     return responseTemplateResult;
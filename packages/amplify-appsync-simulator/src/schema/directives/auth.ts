@@ -3,12 +3,14 @@ import { buildSchemaFromTypeDefinitions, forEachField } from 'graphql-tools';
 import { AmplifyAppSyncSimulator } from '../..';
 import { AmplifyAppSyncSimulatorAuthenticationType, AmplifyAppSyncSimulatorRequestContext } from '../../type-definition';
 import { Unauthorized } from '../../velocity/util';
+import { getFieldArn, isAllowedByPolicies, isFieldDenied } from '../../utils/auth-helpers';
 import { AppSyncSimulatorDirectiveBase } from './directive-base';
 
 const AUTH_DIRECTIVES = {
   aws_api_key: 'directive @aws_api_key on FIELD_DEFINITION | OBJECT',
   aws_iam: 'directive @aws_iam on FIELD_DEFINITION | OBJECT',
   aws_oidc: 'directive @aws_oidc on FIELD_DEFINITION | OBJECT',
+  aws_lambda: 'directive @aws_lambda on FIELD_DEFINITION | OBJECT',
   aws_cognito_user_pools: 'directive @aws_cognito_user_pools(cognito_groups: [String!]) on FIELD_DEFINITION | OBJECT',
   aws_auth: 'directive @aws_auth(cognito_groups: [String!]!) on FIELD_DEFINITION',
 };
@@ -21,6 +23,7 @@ const AUTH_TYPE_TO_DIRECTIVE_MAP: {
   aws_auth: AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS,
   aws_cognito_user_pools: AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS,
   aws_oidc: AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT,
+  aws_lambda: AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
 };
 
 export class AwsAuth extends AppSyncSimulatorDirectiveBase {
@@ -91,6 +94,9 @@ function getDirectiveArgumentValues(directives: DirectiveNode, argName: string)
 export function protectResolversWithAuthRules(typeDef, existingResolvers, simulator: AmplifyAppSyncSimulator) {
   const schema = buildSchemaFromTypeDefinitions(typeDef);
   const newResolverMap = {};
+  const rootTypeNames = [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()]
+    .filter(type => type)
+    .map(type => type.name);
   forEachField(schema, (field, typeName, fieldName) => {
     const fieldResolver = getResolver(existingResolvers, typeName, fieldName);
     const allowedAuthTypes = getAuthDirectiveForField(schema, field, typeName, simulator);
@@ -102,6 +108,21 @@ export function protectResolversWithAuthRules(typeDef, existingResolvers, simula
         const err = new Unauthorized(`Not Authorized to access ${fieldName} on type ${typeName}`, info);
         throw err;
       }
+      if (
+        ctx.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA &&
+        isFieldDenied(ctx.deniedFields, typeName, fieldName)
+      ) {
+        throw new Unauthorized(`Not Authorized to access ${fieldName} on type ${typeName}`, info);
+      }
+      // the role policies of signed requests are evaluated against the operation fields
+      if (
+        ctx.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM &&
+        ctx.iamPolicies &&
+        rootTypeNames.includes(typeName) &&
+        !isAllowedByPolicies(ctx.iamPolicies, 'appsync:GraphQL', getFieldArn(simulator.apiArn, typeName, fieldName))
+      ) {
+        throw new Unauthorized(`Not Authorized to access ${fieldName} on type ${typeName}`, info);
+      }
       if (
         ctx.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS &&
         allowedCognitoGroups.length
@@ -66,7 +66,7 @@ export function generateResolvers(
                 if (context.appsyncErrors.length) {
                   throw new Error('Subscription failed');
                 }
-                return simulatorContext.asyncIterator(fieldName);
+                return simulatorContext.asyncIterator(fieldName, source, args, context, info);
               },
             }
           : {}),
@@ -120,7 +120,7 @@ function generateDefaultSubscriptions(
         .reduce((acc, sub) => {
           const resolver = {
             resolve: data => data,
-            subscribe: () => simulatorContext.asyncIterator(sub),
+            subscribe: (source, args, context, info) => simulatorContext.asyncIterator(sub, source, args, context, info),
           };
           return { ...acc, [sub]: resolver };
         }, {});
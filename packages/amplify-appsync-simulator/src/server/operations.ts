@@ -4,16 +4,18 @@ import { ExecutionResult, parse } from 'graphql';
 import { Server } from 'http';
 import { join } from 'path';
 import { AmplifyAppSyncSimulator } from '..';
-import { AppSyncSimulatorServerConfig } from '../type-definition';
-import { extractHeader, extractJwtToken, getAuthorizationMode } from '../utils/auth-helpers';
+import { AmplifyAppSyncSimulatorAuthenticationType, AppSyncSimulatorServerConfig } from '../type-definition';
+import { extractHeader, extractJwtToken, getAuthorizationMode, IAMAuthorization, LambdaAuthorization } from '../utils/auth-helpers';
 import { AppSyncGraphQLExecutionContext } from '../utils/graphql-runner';
 import { getOperationType } from '../utils/graphql-runner/helpers';
 import { runQueryOrMutation } from '../utils/graphql-runner/query-and-mutation';
 import { runSubscription, SubscriptionResult } from '../utils/graphql-runner/subscriptions';
+import { RequestTracer, TRACING_HEADER } from '../utils/graphql-runner/tracing';
 import { AppSyncSimulatorSubscriptionServer } from './websocket-subscription';
 import { SubscriptionServer } from './subscription';
 
 const MAX_BODY_SIZE = '10mb';
+const RAW_BODY = 'rawBody';
 
 const STATIC_ROOT = join(__dirname, '..', '..', 'public');
 export class OperationServer {
@@ -25,10 +27,23 @@ export class OperationServer {
     private subscriptionServer: SubscriptionServer,
   ) {
     this._app = express();
-    this._app.use(express.json({ limit: MAX_BODY_SIZE }));
+    this._app.use(
+      express.json({
+        limit: MAX_BODY_SIZE,
+        // the signature of AWS_IAM requests is calculated over the raw body
+        verify: (request, response, body) => {
+          request[RAW_BODY] = body.toString();
+        },
+      }),
+    );
     this._app.use(cors());
     this._app.post('/graphql', this.handleRequest);
     this._app.get('/api-config', this.handleAPIInfoRequest);
+    this._app.get('/.well-known/openid-configuration', this.handleOpenIDConfigurationRequest);
+    this._app.get('/.well-known/jwks.json', this.handleJWKSRequest);
+    this._app.post('/auth/token', this.handleTokenRequest);
+    this._app.get('/cache', this.handleCacheStatsRequest);
+    this._app.delete('/cache', this.handleCacheFlushRequest);
     this._app.use('/', express.static(STATIC_ROOT));
   }
 
@@ -36,12 +51,67 @@ export class OperationServer {
     return response.send(this.simulatorContext.appSyncConfig);
   };
 
+  private handleOpenIDConfigurationRequest = (request: express.Request, response: express.Response) => {
+    const issuer = this.simulatorContext.url;
+    return response.send({
+      issuer,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      id_token_signing_alg_values_supported: ['RS256'],
+    });
+  };
+
+  private handleJWKSRequest = (request: express.Request, response: express.Response) => {
+    return response.send(this.simulatorContext.tokenIssuer.jwks);
+  };
+
+  private handleTokenRequest = (request: express.Request, response: express.Response) => {
+    const { username, tokenType = 'id', clientId } = request.body || {};
+    if (!['id', 'access', 'oidc'].includes(tokenType)) {
+      return response.status(400).send({ errorMessage: `Unsupported token type ${tokenType}` });
+    }
+    try {
+      const token = this.simulatorContext.issueToken(username, tokenType, clientId);
+      return response.send({ token });
+    } catch (e) {
+      return response.status(400).send({ errorMessage: e.message });
+    }
+  };
+
+  private handleCacheStatsRequest = (request: express.Request, response: express.Response) => {
+    return response.send(this.simulatorContext.resolverCache.stats);
+  };
+
+  // local counterpart of FlushApiCache
+  private handleCacheFlushRequest = (request: express.Request, response: express.Response) => {
+    this.simulatorContext.resolverCache.flush();
+    return response.send(this.simulatorContext.resolverCache.stats);
+  };
+
   private handleRequest = async (request: express.Request, response: express.Response) => {
     try {
       const { headers } = request;
+      const { variables = {}, query, operationName } = request.body;
       let requestAuthorizationMode;
+      let lambdaAuthorization: LambdaAuthorization;
+      let iamAuthorization: IAMAuthorization;
       try {
-        requestAuthorizationMode = getAuthorizationMode(headers, this.simulatorContext.appSyncConfig);
+        requestAuthorizationMode = getAuthorizationMode(headers, this.simulatorContext.appSyncConfig, this.simulatorContext.tokenVerifier);
+        if (requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA) {
+          lambdaAuthorization = await this.simulatorContext.lambdaAuthorizer.authorize(
+            extractHeader(headers, 'Authorization'),
+            this.simulatorContext.appSyncConfig,
+            { queryString: query, operationName, variables },
+          );
+        }
+        if (requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM) {
+          iamAuthorization = this.simulatorContext.authorizeIAMRequest({
+            method: request.method,
+            path: request.path,
+            query: request.query as Record<string, string | string[]>,
+            headers,
+            body: request[RAW_BODY],
+          });
+        }
       } catch (e) {
         return response.status(401).send({
           errors: [
@@ -53,7 +123,6 @@ export class OperationServer {
         });
       }
 
-      const { variables = {}, query, operationName } = request.body;
       const doc = parse(query);
 
       if (!this.simulatorContext.schema) {
@@ -71,11 +140,17 @@ export class OperationServer {
         sourceIp,
         headers: request.headers,
         appsyncErrors: [],
+        ...(lambdaAuthorization || {}),
+        ...(iamAuthorization || {}),
+        ...(extractHeader(headers, TRACING_HEADER) === 'true' ? { tracer: new RequestTracer() } : {}),
       };
       switch (getOperationType(doc, operationName)) {
         case 'query':
         case 'mutation':
           const gqlResult = await runQueryOrMutation(this.simulatorContext.schema, doc, variables, operationName, context);
+          if (context.tracer) {
+            return response.send({ ...gqlResult, extensions: { tracing: context.tracer.toJSON() } });
+          }
           return response.send(gqlResult);
 
         case 'subscription':
@@ -42,6 +42,9 @@ export type WebsocketSubscriptionServerOptions = {
     variable: Record<string, any>,
     headers: Record<string, any>,
     request: IncomingMessage,
+    operationName?: string,
+    // the data of the start message as sent by the client, AWS_IAM authorization headers are signed over it
+    rawData?: string,
   ) => Promise<AsyncIterableIterator<ExecutionResult<ExecutionResultDataDefault>> | ExecutionResult<ExecutionResultDataDefault>>;
   keepAlive?: number;
   connectionTimeoutDuration?: number;
@@ -241,7 +244,14 @@ export class WebsocketSubscriptionServer {
     if (connectionContext.subscriptions && connectionContext.subscriptions.has(id)) {
       this.stopAsyncIterator(connectionContext, id);
     }
-    const asyncIterator = await this.options.onSubscribeHandler(query, variables, headers, connectionContext.request);
+    const asyncIterator = await this.options.onSubscribeHandler(
+      query,
+      variables,
+      headers,
+      connectionContext.request,
+      data.operationName,
+      message.payload.data,
+    );
     if ((asyncIterator as ExecutionResult).errors) {
       const error = {
         errors: (asyncIterator as ExecutionResult).errors,
@@ -1,6 +1,7 @@
-import { DocumentNode } from 'graphql';
+import { DocumentNode, print } from 'graphql';
 import { IncomingMessage, Server } from 'http';
 import { AmplifyAppSyncSimulator } from '..';
+import { AmplifyAppSyncSimulatorAuthenticationType } from '../type-definition';
 import { extractHeader, extractJwtToken, getAuthorizationMode } from '../utils/auth-helpers';
 import { AppSyncGraphQLExecutionContext } from '../utils/graphql-runner';
 import { runSubscription, SubscriptionResult } from '../utils/graphql-runner/subscriptions';
@@ -35,17 +36,36 @@ export class AppSyncSimulatorSubscriptionServer {
     headers: Record<string, any>,
     request: IncomingMessage,
     operationName?: string,
+    rawData?: string,
   ) => {
     const ipAddress = request.socket.remoteAddress;
     const authorization = extractHeader(headers, 'Authorization');
     const jwt = extractJwtToken(authorization);
-    const requestAuthorizationMode = getAuthorizationMode(headers, this.simulatorContext.appSyncConfig);
+    const requestAuthorizationMode = getAuthorizationMode(
+      headers,
+      this.simulatorContext.appSyncConfig,
+      this.simulatorContext.tokenVerifier,
+    );
+    const lambdaAuthorization =
+      requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA
+        ? await this.simulatorContext.lambdaAuthorizer.authorize(authorization, this.simulatorContext.appSyncConfig, {
+            queryString: print(doc),
+            operationName,
+            variables: variable,
+          })
+        : {};
+    const iamAuthorization =
+      requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM
+        ? this.simulatorContext.authorizeIAMRequest({ method: 'POST', path: this.subscriptionPath, headers, body: rawData })
+        : undefined;
     const executionContext: AppSyncGraphQLExecutionContext = {
       jwt,
       sourceIp: ipAddress,
       headers,
       requestAuthorizationMode,
       appsyncErrors: [],
+      ...lambdaAuthorization,
+      ...(iamAuthorization || {}),
     };
     const subscriptionResult = await runSubscription(this.simulatorContext.schema, doc, variable, operationName, executionContext);
     if ((subscriptionResult as SubscriptionResult).asyncIterator) {
@@ -55,10 +75,14 @@ export class AppSyncSimulatorSubscriptionServer {
   };
 
   onConnect = (message: ConnectionContext, headers: Record<string, any>) => {
-    this.authorizeRequest(headers);
+    const requestAuthorizationMode = this.authorizeRequest(headers);
+    if (requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM) {
+      // clients sign the connection request with an empty payload
+      this.simulatorContext.authorizeIAMRequest({ method: 'POST', path: `${this.subscriptionPath}/connect`, headers, body: '{}' });
+    }
   };
 
   authorizeRequest = (headers: Record<string, string>) => {
-    return getAuthorizationMode(headers, this.simulatorContext.appSyncConfig);
+    return getAuthorizationMode(headers, this.simulatorContext.appSyncConfig, this.simulatorContext.tokenVerifier);
   };
 }
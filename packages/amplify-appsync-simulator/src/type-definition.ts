@@ -1,4 +1,6 @@
 import { Request } from 'express';
+import { InMemoryElasticsearchDomain } from './data-loader/elasticsearch/domain';
+import { RDSConnectionConfig } from './data-loader/rds';
 export type AppSyncMockFile = {
   path?: string;
   content: string;
@@ -26,13 +28,21 @@ export interface AppSyncSimulatorUnitResolverConfig extends AppSyncSimulatorBase
   fieldName: string;
   typeName: string;
   dataSourceName: string;
+  cachingConfig?: AppSyncSimulatorCachingConfig;
 }
 export interface AppSyncSimulatorPipelineResolverConfig extends AppSyncSimulatorBaseResolverConfig {
   kind: RESOLVER_KIND.PIPELINE;
   typeName: string;
   fieldName: string;
   functions: string[];
+  cachingConfig?: AppSyncSimulatorCachingConfig;
 }
+export type AppSyncSimulatorCachingConfig = {
+  // time to live of the cached results in seconds
+  ttl: number;
+  // $context.arguments, $context.source and $context.identity values the cached results are keyed on, i.e. $context.arguments.id
+  cachingKeys?: string[];
+};
 export interface AppSyncSimulatorFunctionResolverConfig extends AppSyncSimulatorBaseResolverConfig {
   dataSourceName: string;
 }
@@ -66,10 +76,32 @@ export interface AppSyncSimulatorDataSourceLambdaConfig extends AppSyncSimulator
   type: 'AWS_LAMBDA';
   invoke: Function;
 }
+export interface AppSyncSimulatorDataSourceHTTPConfig extends AppSyncSimulatorDataSourceBaseConfig {
+  type: 'HTTP';
+  config: {
+    endpoint: string;
+  };
+}
+export interface AppSyncSimulatorDataSourceElasticsearchConfig extends AppSyncSimulatorDataSourceBaseConfig {
+  type: 'AMAZON_ELASTICSEARCH';
+  config?: {
+    domain?: InMemoryElasticsearchDomain;
+  };
+}
+export interface AppSyncSimulatorDataSourceRDSConfig extends AppSyncSimulatorDataSourceBaseConfig {
+  type: 'RELATIONAL_DATABASE';
+  config: {
+    databaseName?: string;
+    connection?: RDSConnectionConfig;
+  };
+}
 export type AppSyncSimulatorDataSourceConfig =
   | AppSyncSimulatorDataSourceDDBConfig
   | AppSyncSimulatorDataSourceNoneConfig
-  | AppSyncSimulatorDataSourceLambdaConfig;
+  | AppSyncSimulatorDataSourceLambdaConfig
+  | AppSyncSimulatorDataSourceHTTPConfig
+  | AppSyncSimulatorDataSourceElasticsearchConfig
+  | AppSyncSimulatorDataSourceRDSConfig;
 
 export type AppSyncSimulatorSchemaConfig = AppSyncMockFile;
 
@@ -78,6 +110,7 @@ export enum AmplifyAppSyncSimulatorAuthenticationType {
   AWS_IAM = 'AWS_IAM',
   AMAZON_COGNITO_USER_POOLS = 'AMAZON_COGNITO_USER_POOLS',
   OPENID_CONNECT = 'OPENID_CONNECT',
+  AWS_LAMBDA = 'AWS_LAMBDA',
 }
 
 export type AmplifyAppSyncAuthenticationProviderAPIConfig = {
@@ -92,6 +125,8 @@ export type AmplifyAppSyncAuthenticationProviderCognitoConfig = {
   authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS;
   cognitoUserPoolConfig: {
     AppIdClientRegex?: string;
+    UserPoolId?: string;
+    AwsRegion?: string;
   };
 };
 
@@ -103,17 +138,58 @@ export type AmplifyAppSyncAuthenticationProviderOIDCConfig = {
   };
 };
 
+export type AppSyncSimulatorLambdaAuthorizerEvent = {
+  authorizationToken: string;
+  requestContext: {
+    apiId: string;
+    accountId: string;
+    requestId: string;
+    queryString: string;
+    operationName?: string;
+    variables: Record<string, any>;
+  };
+};
+
+export type AppSyncSimulatorLambdaAuthorizerResult = {
+  isAuthorized: boolean;
+  resolverContext?: Record<string, any>;
+  // fields the request is not allowed to access, either as TypeName.fieldName or as the ARN of the field
+  deniedFields?: string[];
+  ttlOverride?: number;
+};
+
+export type AmplifyAppSyncAuthenticationProviderLambdaConfig = {
+  authenticationType: AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA;
+  lambdaAuthorizerConfig: {
+    AuthorizerUri?: string;
+    AuthorizerResultTtlInSeconds?: number;
+    IdentityValidationExpression?: string;
+    // runs the authorizer function, provided by the host of the simulator
+    invoke?: (event: AppSyncSimulatorLambdaAuthorizerEvent) => Promise<AppSyncSimulatorLambdaAuthorizerResult>;
+  };
+};
+
 export type AmplifyAppSyncAuthenticationProviderConfig =
   | AmplifyAppSyncAuthenticationProviderAPIConfig
   | AmplifyAppSyncAuthenticationProviderIAMConfig
   | AmplifyAppSyncAuthenticationProviderCognitoConfig
-  | AmplifyAppSyncAuthenticationProviderOIDCConfig;
+  | AmplifyAppSyncAuthenticationProviderOIDCConfig
+  | AmplifyAppSyncAuthenticationProviderLambdaConfig;
 
 export type AmplifyAppSyncAPIConfig = {
   name: string;
   defaultAuthenticationType: AmplifyAppSyncAuthenticationProviderConfig;
   apiKey?: string;
   additionalAuthenticationProviders: AmplifyAppSyncAuthenticationProviderConfig[];
+  // IAM policies are evaluated against the ARNs of the fields under the ARN of the API
+  arn?: string;
+  apiCaching?: AppSyncSimulatorAPICachingConfig;
+};
+
+export type AppSyncSimulatorAPICachingConfig = {
+  // FULL_REQUEST_CACHING caches every query field, PER_RESOLVER_CACHING only the resolvers with a caching config
+  type: 'FULL_REQUEST_CACHING' | 'PER_RESOLVER_CACHING';
+  ttl: number;
 };
 
 export type AmplifyAppSyncSimulatorConfig = {
@@ -124,16 +200,76 @@ export type AmplifyAppSyncSimulatorConfig = {
   mappingTemplates?: AppSyncSimulatorMappingTemplate[];
   tables?: AppSyncSimulatorTable[];
   appSync: AmplifyAppSyncAPIConfig;
+  // policies of the IAM roles allowed to call the API, i.e. the auth and unauth role policies of the auth transformer
+  rolePolicies?: AppSyncSimulatorRolePolicy[];
+};
+
+export type AppSyncSimulatorIAMPolicyStatement = {
+  Sid?: string;
+  Effect: 'Allow' | 'Deny';
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  NotResource?: string | string[];
+  // condition operator, i.e. StringLike, to the values of the condition keys
+  Condition?: Record<string, Record<string, string | string[]>>;
+};
+
+export type AppSyncSimulatorIAMPolicyDocument = {
+  Version?: string;
+  Statement: AppSyncSimulatorIAMPolicyStatement | AppSyncSimulatorIAMPolicyStatement[];
+};
+
+export type AppSyncSimulatorRolePolicy = {
+  roles: string[];
+  policyDocument: AppSyncSimulatorIAMPolicyDocument;
 };
 
 export type AppSyncSimulatorServerConfig = {
   port?: number;
   wsPort?: number;
+  // enforce the limits of the AppSync service (i.e. #foreach iterations, mapping template and response sizes)
+  strictAppSyncParity?: boolean;
+  auth?: AppSyncSimulatorAuthConfig;
+};
+
+export type AppSyncSimulatorTestUser = {
+  username: string;
+  groups?: string[];
+  // additional claims added to the tokens of the user, i.e. email or custom:tenant
+  claims?: Record<string, any>;
+};
+
+export type AppSyncSimulatorIAMCredentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  // identities of signed in users assume the auth role, guests the unauth role
+  identityType?: 'authenticated' | 'unauthenticated';
+  // defaults to authRole or unAuthRole based on the identityType
+  roleName?: string;
+  cognitoIdentityId?: string;
+  cognitoIdentityPoolId?: string;
+  cognitoIdentityAuthProvider?: string;
+};
+
+export type AppSyncSimulatorAuthConfig = {
+  // verify the signature, the expiry and the audience of JWT tokens instead of only decoding them. Only the tokens
+  // issued by the local token issuer of the simulator can be verified
+  verifyTokens?: boolean;
+  // app client id used as the audience of the Cognito tokens issued by the simulator
+  cognitoClientId?: string;
+  users?: AppSyncSimulatorTestUser[];
+  // verify the Signature Version 4 of AWS_IAM requests against these credentials and evaluate the policies of their role
+  iamCredentials?: AppSyncSimulatorIAMCredentials[];
 };
 
+export type AppSyncSimulatorTokenType = 'id' | 'access' | 'oidc';
+
 export type AmplifyAppSyncSimulatorRequestContext = {
   jwt?: object;
   requestAuthorizationMode: AmplifyAppSyncSimulatorAuthenticationType;
   request: Request;
   appsyncErrors: {};
+  deniedFields?: string[];
+  iamPolicies?: AppSyncSimulatorIAMPolicyDocument[];
 };
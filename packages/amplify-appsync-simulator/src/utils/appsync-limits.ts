@@ -0,0 +1,15 @@
+/**
+ * Limits of the AppSync service applied by the simulator when strict AppSync parity is enabled
+ * https://docs.aws.amazon.com/general/latest/gr/appsync.html#limits_appsync
+ */
+export const MAX_FOREACH_ITERATIONS = 1000;
+export const MAX_MAPPING_TEMPLATE_SIZE = 64 * 1024;
+export const MAX_RESPONSE_SIZE = 5 * 1024 * 1024;
+
+export const MAPPING_TEMPLATE_ERROR_TYPE = 'MappingTemplate';
+export const RESPONSE_TOO_LARGE_ERROR_TYPE = 'ResponseTooLargeException';
+
+export function getPayloadSize(payload: any): number {
+  const serialized = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  return serialized ? Buffer.byteLength(serialized, 'utf8') : 0;
+}
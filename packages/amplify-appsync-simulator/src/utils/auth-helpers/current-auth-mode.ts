@@ -1,9 +1,16 @@
 import { AmplifyAppSyncAPIConfig, AmplifyAppSyncSimulatorAuthenticationType } from '../../type-definition';
-import { extractHeader, getAllowedAuthTypes, isValidOIDCToken, extractJwtToken } from './helpers';
+import { extractHeader, getAllowedAuthTypes, isValidOIDCToken, extractJwtToken, verifyJwtToken } from './helpers';
+import { LocalTokenIssuer } from './local-token-issuer';
+import { getLambdaAuthProvider } from './lambda-authorizer';
+import { isSignatureV4Authorization } from './signature-v4';
 
+/**
+ * Returns the authorization mode of the request. JWT tokens are verified against the keys of tokenVerifier when one is passed
+ */
 export function getAuthorizationMode(
   headers: Record<string, string | string[]>,
   appSyncConfig: AmplifyAppSyncAPIConfig,
+  tokenVerifier?: LocalTokenIssuer,
 ): AmplifyAppSyncSimulatorAuthenticationType {
   const apiKey = extractHeader(headers, 'x-api-key');
   const rawAuthHeader = extractHeader(headers, 'Authorization');
@@ -14,6 +21,7 @@ export function getAuthorizationMode(
   const isIamAllowed = allowedAuthTypes.includes(AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM);
   const isCupAllowed = allowedAuthTypes.includes(AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS);
   const isOidcAllowed = allowedAuthTypes.includes(AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT);
+  const isLambdaAllowed = allowedAuthTypes.includes(AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA);
 
   if (isApiKeyAllowed) {
     if (apiKey) {
@@ -27,29 +35,35 @@ export function getAuthorizationMode(
 
   if (authorization) {
     if (isIamAllowed) {
-      const isSignatureV4Token = authorization.startsWith('AWS4-HMAC-SHA256');
-      if (isSignatureV4Token) {
+      if (isSignatureV4Authorization(authorization)) {
         return AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM;
       }
     }
 
     if (jwtToken) {
-      if (isCupAllowed) {
-        const isCupToken = jwtToken.iss.startsWith('https://cognito-idp.');
-        if (isCupToken) {
-          return AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS;
+      const isCupToken = isCupAllowed && !!jwtToken.iss && jwtToken.iss.startsWith('https://cognito-idp.');
+      const isOidcToken =
+        isOidcAllowed &&
+        isValidOIDCToken(jwtToken, [appSyncConfig.defaultAuthenticationType, ...appSyncConfig.additionalAuthenticationProviders]);
+      // only the tokens of the identity providers of the API are verified, Lambda authorization tokens can be JWTs too
+      if (isCupToken || isOidcToken) {
+        if (tokenVerifier) {
+          verifyJwtToken(authorization, appSyncConfig, tokenVerifier);
         }
+        return isCupToken
+          ? AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS
+          : AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT;
       }
+    }
 
-      if (isOidcAllowed) {
-        const isOidcToken = isValidOIDCToken(jwtToken, [
-          appSyncConfig.defaultAuthenticationType,
-          ...appSyncConfig.additionalAuthenticationProviders,
-        ]);
-        if (isOidcToken) {
-          return AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT;
-        }
+    // any other token is passed to the Lambda authorizer, the request gets authorized when the operation runs
+    if (isLambdaAllowed) {
+      const lambdaProvider = getLambdaAuthProvider(appSyncConfig);
+      const validationExpression = lambdaProvider && lambdaProvider.lambdaAuthorizerConfig.IdentityValidationExpression;
+      if (validationExpression && !new RegExp(validationExpression).test(authorization)) {
+        throw new Error('UnauthorizedException: Token does not match the IdentityValidationExpression of the Lambda authorizer');
       }
+      return AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA;
     }
     throw new Error('UnauthorizedException: Invalid JWT token');
   }
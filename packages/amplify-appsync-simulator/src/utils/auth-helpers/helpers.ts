@@ -1,10 +1,13 @@
 import jwtDecode from 'jwt-decode';
+import { decode, verify } from 'jsonwebtoken';
 import {
   AmplifyAppSyncAPIConfig,
+  AmplifyAppSyncAuthenticationProviderCognitoConfig,
   AmplifyAppSyncAuthenticationProviderConfig,
   AmplifyAppSyncAuthenticationProviderOIDCConfig,
   AmplifyAppSyncSimulatorAuthenticationType,
 } from '../../type-definition';
+import { LocalTokenIssuer } from './local-token-issuer';
 
 export type JWTToken = {
   iss: string;
@@ -15,8 +18,34 @@ export type JWTToken = {
   nbf: number;
   username?: string;
   'cognito:username'?: string;
+  client_id?: string;
+  token_use?: string;
 };
 
+// user pool of the tokens issued to the test users when the user pool config of the API has no id
+const DEFAULT_USER_POOL_ID = 'us-east-1_local';
+const DEFAULT_USER_POOL_REGION = 'us-east-1';
+
+/**
+ * Returns the iss claim of the tokens of a Cognito user pool or OpenID Connect provider of the API. The local token
+ * issuer signs the tokens of the test users with it and the token verifier only accepts tokens that carry it
+ */
+export function getTokenIssuer(provider: AmplifyAppSyncAuthenticationProviderConfig): string | undefined {
+  switch (provider.authenticationType) {
+    case AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS: {
+      const { UserPoolId: userPoolId = DEFAULT_USER_POOL_ID, AwsRegion: region = DEFAULT_USER_POOL_REGION } =
+        provider.cognitoUserPoolConfig || {};
+      return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+    }
+    case AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT: {
+      const { Issuer: issuer } = provider.openIDConnectConfig || {};
+      return issuer ? issuer.replace(/\/$/, '') : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
 export function extractJwtToken(authorization: string): JWTToken {
   try {
     return jwtDecode(authorization);
@@ -25,14 +54,72 @@ export function extractJwtToken(authorization: string): JWTToken {
   }
 }
 
+/**
+ * Verifies the signature, the expiry and the audience of the token the same way AppSync does before accepting it.
+ * Tokens have to be signed with the key of the local token issuer
+ */
+export function verifyJwtToken(authorization: string, appSyncConfig: AmplifyAppSyncAPIConfig, tokenIssuer: LocalTokenIssuer): JWTToken {
+  const decodedToken = decode(authorization, { complete: true });
+  if (!decodedToken || typeof decodedToken !== 'object') {
+    throw new Error('UnauthorizedException: Invalid JWT token');
+  }
+  const publicKey = tokenIssuer.getPublicKey(decodedToken.header.kid);
+  if (!publicKey) {
+    throw new Error('UnauthorizedException: JWT token is not signed by the local token issuer');
+  }
+
+  let token: JWTToken;
+  try {
+    token = verify(authorization, publicKey, { algorithms: ['RS256'] });
+  } catch (e) {
+    switch (e.name) {
+      case 'TokenExpiredError':
+        throw new Error('UnauthorizedException: Token has expired.');
+      case 'NotBeforeError':
+        throw new Error('UnauthorizedException: Token is not active yet.');
+      default:
+        throw new Error(`UnauthorizedException: Invalid JWT token. ${e.message}`);
+    }
+  }
+
+  const providers = [appSyncConfig.defaultAuthenticationType, ...appSyncConfig.additionalAuthenticationProviders].filter(
+    provider => getTokenIssuer(provider) === token.iss,
+  );
+  if (!providers.length) {
+    throw new Error(`UnauthorizedException: Token issuer ${token.iss} is not an identity provider of the API`);
+  }
+  if (providers[0].authenticationType === AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS) {
+    verifyCognitoTokenAudience(token, providers as AmplifyAppSyncAuthenticationProviderCognitoConfig[]);
+  } else {
+    verifyOIDCTokenAudience(token, providers as AmplifyAppSyncAuthenticationProviderOIDCConfig[]);
+  }
+  return token;
+}
+
+function verifyCognitoTokenAudience(token: JWTToken, providers: AmplifyAppSyncAuthenticationProviderCognitoConfig[]) {
+  const clientId = token.token_use === 'access' ? token.client_id : token.aud;
+  const isValidAudience = providers.some(
+    ({ cognitoUserPoolConfig }) =>
+      !(cognitoUserPoolConfig && cognitoUserPoolConfig.AppIdClientRegex) ||
+      new RegExp(cognitoUserPoolConfig.AppIdClientRegex).test(clientId),
+  );
+  if (!isValidAudience) {
+    throw new Error(`UnauthorizedException: Client id ${clientId} does not match the AppIdClientRegex of the user pool`);
+  }
+}
+
+function verifyOIDCTokenAudience(token: JWTToken, providers: AmplifyAppSyncAuthenticationProviderOIDCConfig[]) {
+  const audience = Array.isArray(token.aud) ? token.aud : [token.aud];
+  const isValidAudience = providers.some(({ openIDConnectConfig: { ClientId: clientId } }) => !clientId || audience.includes(clientId));
+  if (!isValidAudience) {
+    throw new Error(`UnauthorizedException: Token audience does not match the ClientId of the OpenID Connect provider`);
+  }
+}
+
 export function isValidOIDCToken(token: JWTToken, configuredAuthTypes: AmplifyAppSyncAuthenticationProviderConfig[]): boolean {
   const oidcIssuers = configuredAuthTypes
     .filter(authType => authType.authenticationType === AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT)
-    .map((auth: AmplifyAppSyncAuthenticationProviderOIDCConfig) =>
-      auth.openIDConnectConfig.Issuer && auth.openIDConnectConfig.Issuer.endsWith('/')
-        ? auth.openIDConnectConfig.Issuer.substring(0, auth.openIDConnectConfig.Issuer.length - 1)
-        : auth.openIDConnectConfig.Issuer,
-    );
+    .map(getTokenIssuer);
 
   return oidcIssuers.length > 0 && oidcIssuers.includes(token.iss);
 }
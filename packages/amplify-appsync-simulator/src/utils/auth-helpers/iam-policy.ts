@@ -0,0 +1,144 @@
+import {
+  AppSyncSimulatorIAMCredentials,
+  AppSyncSimulatorIAMPolicyDocument,
+  AppSyncSimulatorIAMPolicyStatement,
+  AppSyncSimulatorRolePolicy,
+} from '../../type-definition';
+
+export const AUTH_ROLE_NAME = 'authRole';
+export const UNAUTH_ROLE_NAME = 'unAuthRole';
+export const DEFAULT_API_ARN = 'arn:aws:appsync:us-east-1:123456789012:apis/amplify-test-api-id';
+const MOCK_ACCOUNT_ID = '123456789012';
+const MOCK_IDENTITY_POOL_ID = 'us-east-1:00000000-0000-0000-0000-000000000000';
+
+export type IAMIdentity = {
+  accountId: string;
+  cognitoIdentityPoolId: string;
+  cognitoIdentityId: string;
+  cognitoIdentityAuthType: 'authenticated' | 'unauthenticated';
+  cognitoIdentityAuthProvider?: string;
+  username: string;
+  userArn: string;
+};
+
+export type IAMAuthorization = {
+  iamIdentity: IAMIdentity;
+  iamPolicies: AppSyncSimulatorIAMPolicyDocument[];
+};
+
+/**
+ * Maps the credentials a request was signed with to the identity of the Cognito identity pool role they belong to,
+ * along with the policies attached to the role
+ */
+export function getIAMAuthorization(
+  credentials: AppSyncSimulatorIAMCredentials,
+  rolePolicies: AppSyncSimulatorRolePolicy[] = [],
+): IAMAuthorization {
+  const authType = credentials.identityType || 'authenticated';
+  const roleName = credentials.roleName || (authType === 'authenticated' ? AUTH_ROLE_NAME : UNAUTH_ROLE_NAME);
+  const cognitoIdentityId = credentials.cognitoIdentityId || `us-east-1:${credentials.accessKeyId}`;
+  return {
+    iamIdentity: {
+      accountId: MOCK_ACCOUNT_ID,
+      cognitoIdentityPoolId: credentials.cognitoIdentityPoolId || MOCK_IDENTITY_POOL_ID,
+      cognitoIdentityId,
+      cognitoIdentityAuthType: authType,
+      ...(credentials.cognitoIdentityAuthProvider ? { cognitoIdentityAuthProvider: credentials.cognitoIdentityAuthProvider } : {}),
+      username: `${credentials.accessKeyId}:CognitoIdentityCredentials`,
+      userArn: `arn:aws:sts::${MOCK_ACCOUNT_ID}:assumed-role/${roleName}/CognitoIdentityCredentials`,
+    },
+    iamPolicies: rolePolicies.filter(policy => policy.roles.includes(roleName)).map(policy => policy.policyDocument),
+  };
+}
+
+// values of the condition keys and policy variables of a request, i.e. s3:prefix or cognito-identity.amazonaws.com:sub
+export type IAMPolicyContext = Record<string, string | undefined>;
+
+const CONDITION_OPERATORS: Record<string, (value: string, conditionValues: string[]) => boolean> = {
+  StringEquals: (value, conditionValues) => conditionValues.includes(value),
+  StringNotEquals: (value, conditionValues) => !conditionValues.includes(value),
+  StringLike: (value, conditionValues) => matchesAny(conditionValues, value, false),
+  StringNotLike: (value, conditionValues) => !matchesAny(conditionValues, value, false),
+};
+
+// unsupported condition operators are only reported the first time a policy uses them
+const reportedConditionOperators = new Set<string>();
+
+/**
+ * Evaluates the policies like IAM does: an explicit deny wins over an allow and anything not allowed is denied.
+ * Policy variables in the resources and condition values are replaced with the values of the context
+ */
+export function isAllowedByPolicies(
+  policies: AppSyncSimulatorIAMPolicyDocument[],
+  action: string,
+  resource: string,
+  context: IAMPolicyContext = {},
+): boolean {
+  const statements = policies.reduce(
+    (acc, policy) => [...acc, ...[].concat(policy.Statement || [])],
+    [] as AppSyncSimulatorIAMPolicyStatement[],
+  );
+  const matchingStatements = statements.filter(statement => isMatchingStatement(statement, action, resource, context));
+  if (matchingStatements.some(statement => statement.Effect === 'Deny')) {
+    return false;
+  }
+  return matchingStatements.some(statement => statement.Effect === 'Allow');
+}
+
+export function getFieldArn(apiArn: string, typeName: string, fieldName: string): string {
+  return `${apiArn}/types/${typeName}/fields/${fieldName}`;
+}
+
+function isMatchingStatement(
+  statement: AppSyncSimulatorIAMPolicyStatement,
+  action: string,
+  resource: string,
+  context: IAMPolicyContext,
+): boolean {
+  const matchesAction = statement.NotAction
+    ? !matchesAny(statement.NotAction, action, true)
+    : matchesAny(statement.Action || [], action, true);
+  const matchesResource = statement.NotResource
+    ? !matchesAny(replaceVariables(statement.NotResource, context), resource, false)
+    : matchesAny(replaceVariables(statement.Resource || [], context), resource, false);
+  return matchesAction && matchesResource && matchesConditions(statement.Condition || {}, context);
+}
+
+// every condition has to match. A missing condition key only satisfies the negated operators
+function matchesConditions(conditions: Record<string, Record<string, string | string[]>>, context: IAMPolicyContext): boolean {
+  return Object.entries(conditions).every(([operator, conditionKeys]) => {
+    const evaluate = CONDITION_OPERATORS[operator];
+    if (!evaluate) {
+      if (!reportedConditionOperators.has(operator)) {
+        reportedConditionOperators.add(operator);
+        console.warn(`The IAM condition operator ${operator} is not supported by the mock. Statements using it are ignored.`);
+      }
+      return false;
+    }
+    return Object.entries(conditionKeys).every(([conditionKey, conditionValues]) => {
+      const value = context[conditionKey];
+      if (value === undefined) {
+        return operator.includes('Not');
+      }
+      return evaluate(value, replaceVariables(conditionValues, context));
+    });
+  });
+}
+
+// ${cognito-identity.amazonaws.com:sub} is replaced with the identity id, unknown variables are kept as is
+function replaceVariables(values: string | string[], context: IAMPolicyContext): string[] {
+  return []
+    .concat(values)
+    .map((value: string) => value.replace(/\${([^}]+)}/g, (variable, name) => (context[name] !== undefined ? context[name] : variable)));
+}
+
+// * matches any sequence of characters and ? a single one. Actions are case insensitive, resources are not
+function matchesAny(patterns: string | string[], value: string, ignoreCase: boolean): boolean {
+  return [].concat(patterns).some(pattern => {
+    const regex = pattern
+      .split('')
+      .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+      .join('');
+    return new RegExp(`^${regex}$`, ignoreCase ? 'i' : '').test(value);
+  });
+}
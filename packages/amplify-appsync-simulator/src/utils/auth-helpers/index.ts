@@ -1,2 +1,29 @@
-export { extractHeader, extractJwtToken, getAllowedAuthTypes, isValidOIDCToken, JWTToken } from './helpers';
+export { extractHeader, extractJwtToken, getAllowedAuthTypes, getTokenIssuer, isValidOIDCToken, JWTToken, verifyJwtToken } from './helpers';
+export { LocalTokenIssuer } from './local-token-issuer';
+export { LambdaAuthorizer, LambdaAuthorization, getLambdaAuthProvider, isFieldDenied } from './lambda-authorizer';
+export {
+  IAMAuthorization,
+  IAMIdentity,
+  IAMPolicyContext,
+  AUTH_ROLE_NAME,
+  UNAUTH_ROLE_NAME,
+  DEFAULT_API_ARN,
+  getFieldArn,
+  getIAMAuthorization,
+  isAllowedByPolicies,
+} from './iam-policy';
+export {
+  SIGNATURE_V4_ALGORITHM,
+  SignatureV4Authorization,
+  SignatureV4Credential,
+  SignedRequest,
+  calculateSignatureV4,
+  encodeRFC3986,
+  isSameSignature,
+  isSignatureV4Authorization,
+  parseAmzDate,
+  parseSignatureV4Authorization,
+  sha256,
+  verifySignatureV4,
+} from './signature-v4';
 export { getAuthorizationMode } from './current-auth-mode';
@@ -0,0 +1,105 @@
+import uuid from 'uuid/v4';
+import {
+  AmplifyAppSyncAPIConfig,
+  AmplifyAppSyncAuthenticationProviderLambdaConfig,
+  AmplifyAppSyncSimulatorAuthenticationType,
+  AppSyncSimulatorLambdaAuthorizerResult,
+} from '../../type-definition';
+
+const DEFAULT_TTL_IN_SECONDS = 300;
+const MAX_TTL_IN_SECONDS = 3600;
+const MOCK_API_ID = 'amplify-test-api-id';
+const MOCK_ACCOUNT_ID = '123456789012';
+
+export type LambdaAuthorizerRequest = {
+  queryString: string;
+  operationName?: string;
+  variables?: Record<string, any>;
+};
+
+export type LambdaAuthorization = {
+  resolverContext: Record<string, any>;
+  deniedFields: string[];
+};
+
+type CachedAuthorization = LambdaAuthorization & { expiresAt: number };
+
+/**
+ * Authorizes AWS_LAMBDA requests by invoking the authorizer function of the API. Like AppSync, the results are cached
+ * per token for AuthorizerResultTtlInSeconds unless the function returns a ttlOverride
+ */
+export class LambdaAuthorizer {
+  private cache: Map<string, CachedAuthorization> = new Map();
+
+  async authorize(token: string, appSyncConfig: AmplifyAppSyncAPIConfig, request: LambdaAuthorizerRequest): Promise<LambdaAuthorization> {
+    const cached = this.cache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { resolverContext: cached.resolverContext, deniedFields: cached.deniedFields };
+    }
+    this.cache.delete(token);
+
+    const { lambdaAuthorizerConfig: config } =
+      getLambdaAuthProvider(appSyncConfig) || ({} as AmplifyAppSyncAuthenticationProviderLambdaConfig);
+    if (!config || !config.invoke) {
+      throw new Error('UnauthorizedException: The Lambda authorizer of the API is not available');
+    }
+
+    let result: AppSyncSimulatorLambdaAuthorizerResult;
+    try {
+      result = await config.invoke({
+        authorizationToken: token,
+        requestContext: {
+          apiId: MOCK_API_ID,
+          accountId: MOCK_ACCOUNT_ID,
+          requestId: uuid(),
+          queryString: request.queryString,
+          operationName: request.operationName,
+          variables: request.variables || {},
+        },
+      });
+    } catch (e) {
+      throw new Error(`UnauthorizedException: Lambda authorizer failed. ${e.message}`);
+    }
+
+    if (!result || result.isAuthorized !== true) {
+      throw new Error('UnauthorizedException: You are not authorized to make this call.');
+    }
+    const authorization: LambdaAuthorization = {
+      resolverContext: result.resolverContext || {},
+      deniedFields: result.deniedFields || [],
+    };
+
+    const ttl = Math.min(
+      typeof result.ttlOverride === 'number'
+        ? result.ttlOverride
+        : typeof config.AuthorizerResultTtlInSeconds === 'number'
+        ? config.AuthorizerResultTtlInSeconds
+        : DEFAULT_TTL_IN_SECONDS,
+      MAX_TTL_IN_SECONDS,
+    );
+    if (ttl > 0) {
+      this.cache.set(token, { ...authorization, expiresAt: Date.now() + ttl * 1000 });
+    }
+    return authorization;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+}
+
+export function getLambdaAuthProvider(
+  appSyncConfig: AmplifyAppSyncAPIConfig,
+): AmplifyAppSyncAuthenticationProviderLambdaConfig | undefined {
+  return [appSyncConfig.defaultAuthenticationType, ...appSyncConfig.additionalAuthenticationProviders].find(
+    provider => provider.authenticationType === AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA,
+  ) as AmplifyAppSyncAuthenticationProviderLambdaConfig;
+}
+
+/**
+ * Denied fields can be listed as TypeName.fieldName or with the ARN of the field
+ * (arn:aws:appsync:<region>:<account>:apis/<api id>/types/<type name>/fields/<field name>)
+ */
+export function isFieldDenied(deniedFields: string[] = [], typeName: string, fieldName: string): boolean {
+  return deniedFields.some(field => field === `${typeName}.${fieldName}` || field.endsWith(`/types/${typeName}/fields/${fieldName}`));
+}
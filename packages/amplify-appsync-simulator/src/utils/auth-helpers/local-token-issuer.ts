@@ -0,0 +1,174 @@
+import { generateKeyPairSync } from 'crypto';
+import { sign } from 'jsonwebtoken';
+import uuid from 'uuid/v4';
+import uuidV5 from 'uuid/v5';
+import { AppSyncSimulatorTestUser, AppSyncSimulatorTokenType } from '../../type-definition';
+
+const TOKEN_TTL_IN_SECONDS = 60 * 60;
+const SIGNING_ALGORITHM = 'RS256';
+
+export type IssueTokenOptions = {
+  tokenType: AppSyncSimulatorTokenType;
+  issuer: string;
+  audience: string;
+  expiresIn?: number;
+};
+
+type SigningKey = {
+  kid: string;
+  privateKey: string;
+  publicKey: string;
+  publicKeyDer: Buffer;
+};
+
+/**
+ * Signs Cognito and OIDC shaped tokens for the test users of the mock config. The public key is published as a JWKS
+ * so the tokens can be verified like the ones issued by a real identity provider
+ */
+export class LocalTokenIssuer {
+  private signingKey: SigningKey;
+
+  constructor(private users: AppSyncSimulatorTestUser[] = []) {}
+
+  get jwks() {
+    const { kid, publicKeyDer } = this.getSigningKey();
+    const { modulus, exponent } = readRSAPublicKey(publicKeyDer);
+    return {
+      keys: [
+        {
+          kid,
+          alg: SIGNING_ALGORITHM,
+          kty: 'RSA',
+          use: 'sig',
+          n: toBase64Url(modulus),
+          e: toBase64Url(exponent),
+        },
+      ],
+    };
+  }
+
+  get usernames(): string[] {
+    return this.users.map(user => user.username);
+  }
+
+  getPublicKey(kid: string): string | undefined {
+    const signingKey = this.getSigningKey();
+    return signingKey.kid === kid ? signingKey.publicKey : undefined;
+  }
+
+  issueToken(username: string, options: IssueTokenOptions): string {
+    const user = this.users.find(u => u.username === username);
+    if (!user) {
+      throw new Error(`Unknown test user ${username}. Test users need to be defined in the auth section of the mock config`);
+    }
+    const { kid, privateKey } = this.getSigningKey();
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      ...getTokenClaims(user, options),
+      iss: options.issuer,
+      iat: now,
+      exp: now + (options.expiresIn || TOKEN_TTL_IN_SECONDS),
+      ...(user.claims || {}),
+    };
+    return sign(payload, privateKey, { algorithm: SIGNING_ALGORITHM, keyid: kid });
+  }
+
+  // key generation is slow, the key is only created when the first token is issued
+  private getSigningKey(): SigningKey {
+    if (!this.signingKey) {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'pkcs1', format: 'der' },
+        privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+      });
+      this.signingKey = {
+        kid: uuid(),
+        privateKey,
+        publicKey: toPem(publicKey, 'RSA PUBLIC KEY'),
+        publicKeyDer: publicKey,
+      };
+    }
+    return this.signingKey;
+  }
+}
+
+function getTokenClaims(user: AppSyncSimulatorTestUser, { tokenType, audience }: IssueTokenOptions) {
+  const sub = uuidV5(user.username, uuidV5.URL);
+  const groups = user.groups || [];
+  const authTime = Math.floor(Date.now() / 1000);
+  switch (tokenType) {
+    case 'id':
+      return {
+        sub,
+        aud: audience,
+        'cognito:groups': groups,
+        'cognito:username': user.username,
+        event_id: uuid(),
+        token_use: 'id',
+        auth_time: authTime,
+      };
+    case 'access':
+      return {
+        sub,
+        client_id: audience,
+        'cognito:groups': groups,
+        username: user.username,
+        event_id: uuid(),
+        token_use: 'access',
+        scope: 'aws.cognito.signin.user.admin',
+        auth_time: authTime,
+        jti: uuid(),
+      };
+    case 'oidc':
+      return {
+        sub,
+        aud: audience,
+        groups,
+        username: user.username,
+      };
+    default:
+      throw new Error(`Unsupported token type ${tokenType}`);
+  }
+}
+
+// RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+function readRSAPublicKey(der: Buffer): { modulus: Buffer; exponent: Buffer } {
+  const sequence = readDERElement(der, 0);
+  const modulus = readDERElement(der, sequence.contentOffset);
+  const exponent = readDERElement(der, modulus.contentOffset + modulus.length);
+  return {
+    modulus: stripLeadingZeros(der.slice(modulus.contentOffset, modulus.contentOffset + modulus.length)),
+    exponent: stripLeadingZeros(der.slice(exponent.contentOffset, exponent.contentOffset + exponent.length)),
+  };
+}
+
+function readDERElement(der: Buffer, offset: number): { contentOffset: number; length: number } {
+  const lengthByte = der[offset + 1];
+  if (lengthByte < 0x80) {
+    return { contentOffset: offset + 2, length: lengthByte };
+  }
+  // long form, the low bits are the number of bytes encoding the length
+  const lengthBytes = lengthByte & 0x7f; // eslint-disable-line no-bitwise
+  return { contentOffset: offset + 2 + lengthBytes, length: der.readUIntBE(offset + 2, lengthBytes) };
+}
+
+function stripLeadingZeros(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start++;
+  }
+  return value.slice(start);
+}
+
+function toBase64Url(value: Buffer): string {
+  return value
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+function toPem(der: Buffer, label: string): string {
+  const body = der.toString('base64').match(/.{1,64}/g);
+  return [`-----BEGIN ${label}-----`, ...body, `-----END ${label}-----`, ''].join('\n');
+}
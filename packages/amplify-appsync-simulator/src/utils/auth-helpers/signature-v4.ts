@@ -0,0 +1,183 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { AppSyncSimulatorIAMCredentials } from '../../type-definition';
+import { extractHeader } from './helpers';
+
+export const SIGNATURE_V4_ALGORITHM = 'AWS4-HMAC-SHA256';
+const MAX_CLOCK_SKEW_IN_MS = 5 * 60 * 1000;
+
+export type SignedRequest = {
+  method: string;
+  path: string;
+  query?: Record<string, string | string[]>;
+  headers: Record<string, string | string[]>;
+  body: string;
+};
+
+// the scope of the signature is the date, region and service of the credential
+export type SignatureV4Credential = {
+  accessKeyId: string;
+  date: string;
+  region: string;
+  service: string;
+};
+
+export type SignatureV4Authorization = SignatureV4Credential & {
+  signedHeaders: string[];
+  signature: string;
+};
+
+export function isSignatureV4Authorization(authorization: string = ''): boolean {
+  return authorization.startsWith(SIGNATURE_V4_ALGORITHM);
+}
+
+/**
+ * Verifies the Signature Version 4 of the request against the configured credentials and returns the credentials the
+ * request was signed with
+ */
+export function verifySignatureV4(request: SignedRequest, credentials: AppSyncSimulatorIAMCredentials[]): AppSyncSimulatorIAMCredentials {
+  const authorization = parseSignatureV4Authorization(extractHeader(request.headers, 'Authorization'));
+  if (!authorization) {
+    throw new Error('UnauthorizedException: Invalid Signature Version 4 authorization header');
+  }
+  const signingCredentials = credentials.find(c => c.accessKeyId === authorization.accessKeyId);
+  if (!signingCredentials) {
+    throw new Error('UnauthorizedException: The security token included in the request is invalid.');
+  }
+
+  const amzDate = extractHeader(request.headers, 'x-amz-date') || '';
+  const signedAt = parseAmzDate(amzDate);
+  if (isNaN(signedAt) || !amzDate.startsWith(authorization.date)) {
+    throw new Error('UnauthorizedException: The request has to include a valid X-Amz-Date header.');
+  }
+  if (Math.abs(Date.now() - signedAt) > MAX_CLOCK_SKEW_IN_MS) {
+    throw new Error(`UnauthorizedException: Signature expired: ${amzDate} is not within 5 minutes of the current time.`);
+  }
+
+  const canonicalRequest = getCanonicalRequest(request, authorization.signedHeaders);
+  const signature = calculateSignatureV4(signingCredentials.secretAccessKey, authorization, amzDate, canonicalRequest);
+  if (!isSameSignature(signature, authorization.signature)) {
+    throw new Error(
+      'UnauthorizedException: The request signature we calculated does not match the signature you provided. ' +
+        'Check your AWS Secret Access Key and signing method.',
+    );
+  }
+  return signingCredentials;
+}
+
+/**
+ * Parses an Authorization header of the form
+ * AWS4-HMAC-SHA256 Credential=<access key>/<date>/<region>/<service>/aws4_request, SignedHeaders=<headers>, Signature=<signature>
+ * and returns undefined when it is malformed
+ */
+export function parseSignatureV4Authorization(authorization: string = ''): SignatureV4Authorization | undefined {
+  const fields = authorization
+    .substring(SIGNATURE_V4_ALGORITHM.length)
+    .split(',')
+    .reduce((acc, part) => {
+      const [key, ...value] = part.trim().split('=');
+      return { ...acc, [key]: value.join('=') };
+    }, {} as Record<string, string>);
+  const [accessKeyId, date, region, service] = (fields.Credential || '').split('/');
+  if (
+    !isSignatureV4Authorization(authorization) ||
+    !accessKeyId ||
+    !date ||
+    !region ||
+    !service ||
+    !fields.SignedHeaders ||
+    !fields.Signature
+  ) {
+    return undefined;
+  }
+  return {
+    accessKeyId,
+    date,
+    region,
+    service,
+    signedHeaders: fields.SignedHeaders.split(';'),
+    signature: fields.Signature,
+  };
+}
+
+function getCanonicalRequest(request: SignedRequest, signedHeaders: string[]): string {
+  const canonicalHeaders = signedHeaders.map(name => {
+    const value = extractHeader(request.headers, name) || '';
+    return `${name}:${value.trim().replace(/\s+/g, ' ')}\n`;
+  });
+  return [
+    request.method.toUpperCase(),
+    request.path
+      .split('/')
+      .map(segment => encodeRFC3986(decodeURIComponent(segment)))
+      .join('/'),
+    getCanonicalQueryString(request.query || {}),
+    canonicalHeaders.join(''),
+    signedHeaders.join(';'),
+    sha256(request.body || ''),
+  ].join('\n');
+}
+
+/**
+ * Signs the canonical request with the key derived from the secret access key and the scope of the credential
+ */
+export function calculateSignatureV4(
+  secretAccessKey: string,
+  credential: SignatureV4Credential,
+  amzDate: string,
+  canonicalRequest: string,
+): string {
+  const scope = [credential.date, credential.region, credential.service, 'aws4_request'];
+  const stringToSign = [SIGNATURE_V4_ALGORITHM, amzDate, scope.join('/'), sha256(canonicalRequest)].join('\n');
+  const signingKey = scope.reduce((key: Buffer | string, value) => hmac(key, value), `AWS4${secretAccessKey}`);
+  return hmac(signingKey, stringToSign).toString('hex');
+}
+
+function getCanonicalQueryString(query: Record<string, string | string[]>): string {
+  return Object.keys(query)
+    .sort()
+    .reduce(
+      (acc, key) => [
+        ...acc,
+        ...[]
+          .concat(query[key])
+          .sort()
+          .map(value => `${encodeRFC3986(key)}=${encodeRFC3986(value)}`),
+      ],
+      [],
+    )
+    .join('&');
+}
+
+// RFC 3986 encoding, encodeURIComponent leaves !'()* unescaped
+export function encodeRFC3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    c =>
+      `%${c
+        .charCodeAt(0)
+        .toString(16)
+        .toUpperCase()}`,
+  );
+}
+
+// 20150830T123600Z
+export function parseAmzDate(amzDate: string): number {
+  const [, year, month, day, hours, minutes, seconds] = amzDate.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/) || [];
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+}
+
+export function isSameSignature(expected: string, actual: string): boolean {
+  return expected.length === actual.length && timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+}
+
+export function sha256(value: Buffer | string): string {
+  return createHash('sha256')
+    .update(value)
+    .digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac('sha256', key)
+    .update(value, 'utf8')
+    .digest();
+}
@@ -1,5 +1,8 @@
 import { JWTToken } from '../auth-helpers/helpers';
-import { AmplifyAppSyncSimulatorAuthenticationType } from '../../type-definition';
+import { AmplifyAppSyncSimulatorAuthenticationType, AppSyncSimulatorIAMPolicyDocument } from '../../type-definition';
+import { IAMIdentity } from '../auth-helpers/iam-policy';
+import { SubscriptionFilter } from './subscriptions-filter';
+import { RequestTracer } from './tracing';
 
 export type AppSyncGraphQLExecutionContext = {
   readonly jwt?: JWTToken;
@@ -7,4 +10,14 @@ export type AppSyncGraphQLExecutionContext = {
   headers: Record<string, string | string[]>;
   appsyncErrors?: Error[];
   requestAuthorizationMode: AmplifyAppSyncSimulatorAuthenticationType;
+  // filter set by the subscription resolver with $extensions.setSubscriptionFilter
+  subscriptionFilter?: SubscriptionFilter;
+  // present when the client asked for the resolver trace of the request
+  tracer?: RequestTracer;
+  // returned by the Lambda authorizer of requests using AWS_LAMBDA authorization
+  resolverContext?: Record<string, any>;
+  deniedFields?: string[];
+  // identity and role policies of AWS_IAM requests signed with the credentials of the mock config
+  iamIdentity?: IAMIdentity;
+  iamPolicies?: AppSyncSimulatorIAMPolicyDocument[];
 };
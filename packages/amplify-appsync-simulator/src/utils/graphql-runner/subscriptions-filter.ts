@@ -1,30 +1,169 @@
 import { inspect } from 'util';
+import { isEqual } from 'lodash';
+import { AppSyncGraphQLExecutionContext } from './index';
 
 const log = console;
 
-export function filterSubscriptions(payload: object | null, variables: object) {
+export type SubscriptionFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le'
+  | 'in'
+  | 'notIn'
+  | 'between'
+  | 'beginsWith'
+  | 'contains'
+  | 'notContains';
+
+export type SubscriptionFilterRule = {
+  fieldName: string;
+  operator: SubscriptionFilterOperator;
+  value: any;
+};
+
+// Shape accepted by $extensions.setSubscriptionFilter. Filters of a group are combined with AND and groups with OR
+export type SubscriptionFilter = {
+  filterGroup: { filters: SubscriptionFilterRule[] }[];
+};
+
+const MAX_FILTER_GROUPS = 10;
+const MAX_FILTERS_PER_GROUP = 5;
+
+export function filterSubscriptions(payload: object | null, variables: object, context?: AppSyncGraphQLExecutionContext) {
   if (payload == null) {
     log.warn('Subscription payload is null; Publishing will be skipped');
     return false;
   }
 
-  const variableEntries = Object.entries(variables || {});
-
-  if (!variableEntries.length) {
-    return true;
-  }
-
-  // every variable key/value pair must match corresponding payload key/value pair
-  const variableResult = variableEntries.every(([variableKey, variableValue]) => payload[variableKey] === variableValue);
-
-  if (!variableResult) {
-    log.warn('Subscription payload did not match variables');
-    log.warn('Payload:');
-    log.warn(inspect(payload));
+  const mismatches = getVariableMismatches(payload, variables || {});
+  if (mismatches.length) {
+    logMismatches('Subscription payload did not match variables', payload, mismatches);
     log.warn('Variables:');
     log.warn(inspect(variables));
     return false;
   }
 
+  const subscriptionFilter = context && context.subscriptionFilter;
+  if (subscriptionFilter) {
+    const filterMismatches = getFilterMismatches(payload, subscriptionFilter);
+    if (filterMismatches.length) {
+      logMismatches('Subscription payload did not match the subscription filter', payload, filterMismatches);
+      log.warn('Filter:');
+      log.warn(inspect(subscriptionFilter, { depth: null }));
+      return false;
+    }
+  }
+
   return true;
 }
+
+/**
+ * Validates the filter set by a subscription resolver, throwing when it does not have the shape AppSync accepts
+ */
+export function validateSubscriptionFilter(filter: SubscriptionFilter): void {
+  if (!filter || !Array.isArray(filter.filterGroup) || !filter.filterGroup.length) {
+    throw new Error('Subscription filter must have a non empty filterGroup');
+  }
+  if (filter.filterGroup.length > MAX_FILTER_GROUPS) {
+    throw new Error(`Subscription filter can have at most ${MAX_FILTER_GROUPS} filter groups`);
+  }
+  filter.filterGroup.forEach(group => {
+    if (!group || !Array.isArray(group.filters) || !group.filters.length) {
+      throw new Error('Every subscription filter group must have a non empty list of filters');
+    }
+    if (group.filters.length > MAX_FILTERS_PER_GROUP) {
+      throw new Error(`Subscription filter group can have at most ${MAX_FILTERS_PER_GROUP} filters`);
+    }
+    group.filters.forEach(rule => {
+      if (!rule || typeof rule.fieldName !== 'string' || !rule.fieldName) {
+        throw new Error('Subscription filter is missing the fieldName');
+      }
+      if (!(rule.operator in OPERATORS)) {
+        throw new Error(`Unsupported subscription filter operator ${rule.operator} for field ${rule.fieldName}`);
+      }
+      if (['in', 'notIn'].includes(rule.operator) && !Array.isArray(rule.value)) {
+        throw new Error(`Subscription filter operator ${rule.operator} for field ${rule.fieldName} expects a list of values`);
+      }
+      if (rule.operator === 'between' && (!Array.isArray(rule.value) || rule.value.length !== 2)) {
+        throw new Error(`Subscription filter operator between for field ${rule.fieldName} expects a list of 2 values`);
+      }
+    });
+  });
+}
+
+/**
+ * Variables are matched against the fields of the payload with the same name. An argument explicitly passed as null only
+ * matches a null field, input objects are matched field by field against the nested object of the payload
+ */
+function getVariableMismatches(payload: object, variables: object, pathPrefix: string = ''): string[] {
+  return Object.entries(variables).reduce((mismatches, [variableKey, variableValue]) => {
+    const path = `${pathPrefix}${variableKey}`;
+    const payloadValue = payload ? payload[variableKey] : undefined;
+    if (typeof variableValue === 'undefined') {
+      return mismatches;
+    }
+    if (variableValue === null) {
+      return payloadValue == null ? mismatches : [...mismatches, `${path}: expected null, received ${inspect(payloadValue)}`];
+    }
+    if (typeof variableValue === 'object' && !Array.isArray(variableValue)) {
+      if (payloadValue == null || typeof payloadValue !== 'object') {
+        return [...mismatches, `${path}: expected an object, received ${inspect(payloadValue)}`];
+      }
+      return [...mismatches, ...getVariableMismatches(payloadValue, variableValue, `${path}.`)];
+    }
+    return isEqual(payloadValue, variableValue)
+      ? mismatches
+      : [...mismatches, `${path}: expected ${inspect(variableValue)}, received ${inspect(payloadValue)}`];
+  }, []);
+}
+
+function getFilterMismatches(payload: object, filter: SubscriptionFilter): string[] {
+  const groupMismatches = filter.filterGroup.map(group =>
+    group.filters
+      .filter(rule => !OPERATORS[rule.operator](getValueAtPath(payload, rule.fieldName), rule.value))
+      .map(
+        rule =>
+          `${rule.fieldName}: expected ${rule.operator} ${inspect(rule.value)}, received ${inspect(
+            getValueAtPath(payload, rule.fieldName),
+          )}`,
+      ),
+  );
+  // a single matching group is enough to deliver the event
+  return groupMismatches.some(mismatches => !mismatches.length) ? [] : [].concat(...groupMismatches);
+}
+
+function getValueAtPath(payload: object, fieldPath: string): any {
+  return fieldPath.split('.').reduce((value, key) => (value == null ? undefined : value[key]), payload);
+}
+
+function compare(value: any, expected: any, predicate: (a, b) => boolean): boolean {
+  return value != null && expected != null && typeof value === typeof expected && predicate(value, expected);
+}
+
+const OPERATORS: Record<SubscriptionFilterOperator, (value: any, expected: any) => boolean> = {
+  eq: (value, expected) => isEqual(value === undefined ? null : value, expected),
+  ne: (value, expected) => !isEqual(value === undefined ? null : value, expected),
+  gt: (value, expected) => compare(value, expected, (a, b) => a > b),
+  ge: (value, expected) => compare(value, expected, (a, b) => a >= b),
+  lt: (value, expected) => compare(value, expected, (a, b) => a < b),
+  le: (value, expected) => compare(value, expected, (a, b) => a <= b),
+  in: (value, expected) => Array.isArray(expected) && expected.some(e => isEqual(value, e)),
+  notIn: (value, expected) => Array.isArray(expected) && !expected.some(e => isEqual(value, e)),
+  between: (value, expected) =>
+    Array.isArray(expected) && compare(value, expected[0], (a, b) => a >= b) && compare(value, expected[1], (a, b) => a <= b),
+  beginsWith: (value, expected) => typeof value === 'string' && typeof expected === 'string' && value.startsWith(expected),
+  contains: (value, expected) =>
+    Array.isArray(value) ? value.some(v => isEqual(v, expected)) : typeof value === 'string' && value.includes(expected),
+  notContains: (value, expected) =>
+    Array.isArray(value) ? !value.some(v => isEqual(v, expected)) : typeof value === 'string' && !value.includes(expected),
+};
+
+function logMismatches(message: string, payload: object, mismatches: string[]) {
+  log.warn(message);
+  mismatches.forEach(mismatch => log.warn(`  ${mismatch}`));
+  log.warn('Payload:');
+  log.warn(inspect(payload));
+}
@@ -0,0 +1,198 @@
+import { GraphQLResolveInfo, responsePathAsArray } from 'graphql';
+
+export const TRACING_HEADER = 'x-amplify-simulator-tracing';
+
+export type TraceError = {
+  message: string;
+  errorType?: string;
+};
+
+export type MappingTemplateTrace = {
+  path?: string;
+  result: any;
+  stash?: any;
+  isReturn?: boolean;
+  errors: TraceError[];
+  duration: number;
+};
+
+export type DataSourceTrace = {
+  name: string;
+  request: any;
+  result: any;
+  error?: TraceError;
+  duration: number;
+};
+
+export type CacheTrace = {
+  key: string;
+  hit: boolean;
+  ttl: number;
+};
+
+export type FunctionTrace = {
+  name: string;
+  startOffset: number;
+  duration?: number;
+  stashBefore: any;
+  stashAfter?: any;
+  requestMapping?: MappingTemplateTrace;
+  dataSource?: DataSourceTrace;
+  responseMapping?: MappingTemplateTrace;
+};
+
+export type ResolverTrace = {
+  path: (string | number)[];
+  parentType: string;
+  fieldName: string;
+  returnType: string;
+  kind: 'UNIT' | 'PIPELINE';
+  startOffset: number;
+  duration?: number;
+  cache?: CacheTrace;
+  requestMapping?: MappingTemplateTrace;
+  dataSource?: DataSourceTrace;
+  functions?: FunctionTrace[];
+  responseMapping?: MappingTemplateTrace;
+};
+
+type RenderResult = { result: any; stash?: any; errors?: any[]; isReturn?: boolean };
+
+/**
+ * Collects what happened in the resolvers of a single request, similar to the resolver logs AppSync writes to
+ * CloudWatch when field level logging is set to ALL. Timings are in nanoseconds like Apollo tracing
+ */
+export class RequestTracer {
+  private startTime: Date = new Date();
+  private startHrTime: [number, number] = process.hrtime();
+  private resolvers: ResolverTrace[] = [];
+
+  startResolver(info: GraphQLResolveInfo, kind: 'UNIT' | 'PIPELINE'): TraceRecorder {
+    const trace: ResolverTrace = {
+      path: info.path ? responsePathAsArray(info.path) : [],
+      parentType: info.parentType ? info.parentType.name : null,
+      fieldName: info.fieldName,
+      returnType: info.returnType ? info.returnType.toString() : null,
+      kind,
+      startOffset: this.now(),
+    };
+    this.resolvers.push(trace);
+    return new TraceRecorder(this, trace);
+  }
+
+  now(): number {
+    const [seconds, nanoseconds] = process.hrtime(this.startHrTime);
+    return seconds * 1e9 + nanoseconds;
+  }
+
+  toJSON() {
+    return {
+      version: 1,
+      startTime: this.startTime.toISOString(),
+      endTime: new Date().toISOString(),
+      duration: this.now(),
+      execution: {
+        resolvers: this.resolvers,
+      },
+    };
+  }
+}
+
+/**
+ * Records the stages of a resolver or a pipeline function. The duration of a stage is the time elapsed since the previous one
+ */
+export class TraceRecorder {
+  private lastMark: number;
+
+  constructor(private tracer: RequestTracer, private trace: ResolverTrace | FunctionTrace) {
+    this.lastMark = trace.startOffset;
+  }
+
+  requestMapping(path: string, renderResult: RenderResult) {
+    this.trace.requestMapping = toMappingTemplateTrace(path, renderResult, this.mark());
+  }
+
+  dataSource(name: string, request: any, result: any, error?: any) {
+    this.trace.dataSource = { name, request: copy(request), result: copy(result), error: toTraceError(error), duration: this.mark() };
+  }
+
+  responseMapping(path: string, renderResult: RenderResult) {
+    this.trace.responseMapping = toMappingTemplateTrace(path, renderResult, this.mark());
+  }
+
+  cache(key: string, hit: boolean, ttl: number) {
+    (this.trace as ResolverTrace).cache = { key, hit, ttl };
+  }
+
+  startFunction(name: string, stash: any): TraceRecorder {
+    const resolverTrace = this.trace as ResolverTrace;
+    const trace: FunctionTrace = {
+      name,
+      startOffset: this.tracer.now(),
+      stashBefore: copy(stash),
+    };
+    resolverTrace.functions = [...(resolverTrace.functions || []), trace];
+    return new TraceRecorder(this.tracer, trace);
+  }
+
+  end(stash?: any) {
+    this.trace.duration = this.tracer.now() - this.trace.startOffset;
+    if ('stashBefore' in this.trace) {
+      this.trace.stashAfter = copy(stash);
+    }
+  }
+
+  private mark(): number {
+    const now = this.tracer.now();
+    const duration = now - this.lastMark;
+    this.lastMark = now;
+    return duration;
+  }
+}
+
+// used when the request is not traced
+class NoopTraceRecorder extends TraceRecorder {
+  constructor() {
+    super(null, { startOffset: 0 } as ResolverTrace);
+  }
+  requestMapping() {}
+  dataSource() {}
+  responseMapping() {}
+  cache() {}
+  startFunction(): TraceRecorder {
+    return this;
+  }
+  end() {}
+}
+
+export const NOOP_TRACE_RECORDER: TraceRecorder = new NoopTraceRecorder();
+
+export function startResolverTrace(tracer: RequestTracer | undefined, info: GraphQLResolveInfo, kind: 'UNIT' | 'PIPELINE'): TraceRecorder {
+  return tracer ? tracer.startResolver(info, kind) : NOOP_TRACE_RECORDER;
+}
+
+function toTraceError(error): TraceError {
+  if (!error) {
+    return undefined;
+  }
+  return {
+    message: error.message,
+    errorType: error.extensions ? error.extensions.errorType : error.errorType,
+  };
+}
+
+function toMappingTemplateTrace(path: string, { result, stash, errors, isReturn }: RenderResult, duration: number): MappingTemplateTrace {
+  return {
+    path,
+    result: copy(result),
+    stash: copy(stash),
+    isReturn: !!isReturn,
+    errors: (errors || []).map(toTraceError),
+    duration,
+  };
+}
+
+// the values are snapshots, later changes to the objects must not alter the trace
+function copy(value: any): any {
+  return typeof value === 'undefined' ? undefined : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,81 @@
+import { get } from 'lodash';
+
+export type ResolverCacheStats = {
+  hits: number;
+  misses: number;
+  entries: number;
+};
+
+export type ResolverCacheKeyValues = {
+  arguments: object;
+  source: object;
+  identity: object | null;
+};
+
+type CacheEntry = {
+  value: any;
+  expiresAt: number;
+};
+
+const CONTEXT_PREFIX = /^\$(context|ctx)\./;
+
+/**
+ * In-memory counterpart of the AppSync server-side cache. Results are cached per field until their TTL expires or
+ * the cache is flushed, hits and misses are counted so the effect of the caching config can be checked
+ */
+export class ResolverCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      return entry;
+    }
+    this.entries.delete(key);
+    this.misses++;
+    return undefined;
+  }
+
+  set(key: string, value: any, ttlInSeconds: number): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlInSeconds * 1000 });
+  }
+
+  flush(): void {
+    this.entries.clear();
+  }
+
+  get stats(): ResolverCacheStats {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    });
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+  }
+}
+
+/**
+ * Builds the key of a cached field. Without caching keys (full request caching) the whole arguments, source and
+ * identity are part of the key, otherwise only the values of the caching keys
+ */
+export function getCachingKey(
+  typeName: string,
+  fieldName: string,
+  cachingKeys: string[] | undefined,
+  values: ResolverCacheKeyValues,
+): string {
+  const keyValues = cachingKeys
+    ? cachingKeys.map(cachingKey => {
+        if (!CONTEXT_PREFIX.test(cachingKey)) {
+          throw new Error(`Invalid caching key ${cachingKey}. Caching keys have to start with $context or $ctx`);
+        }
+        const value = get(values, cachingKey.replace(CONTEXT_PREFIX, ''));
+        return typeof value === 'undefined' ? null : value;
+      })
+    : [values.arguments, values.source, values.identity];
+  return `${typeName}.${fieldName}:${JSON.stringify(keyValues)}`;
+}
@@ -0,0 +1,21 @@
+import { GraphQLResolveInfo } from 'graphql';
+import { TemplateSentError } from './util';
+import { AppSyncGraphQLExecutionContext } from '../utils/graphql-runner';
+import { validateSubscriptionFilter } from '../utils/graphql-runner/subscriptions-filter';
+
+export function create(requestContext: AppSyncGraphQLExecutionContext, info: GraphQLResolveInfo) {
+  return {
+    setSubscriptionFilter(filter) {
+      if (!info || !info.operation || info.operation.operation !== 'subscription') {
+        throw new TemplateSentError('setSubscriptionFilter can only be used in subscription resolvers', 'BadRequest', null, null, info);
+      }
+      const filterJSON = filter && filter.toJSON ? filter.toJSON() : filter;
+      try {
+        validateSubscriptionFilter(filterJSON);
+      } catch (e) {
+        throw new TemplateSentError(e.message, 'BadRequest', null, null, info);
+      }
+      requestContext.subscriptionFilter = filterJSON;
+    },
+  };
+}
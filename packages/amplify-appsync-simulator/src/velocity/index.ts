@@ -5,7 +5,9 @@ import { create as createUtil, TemplateSentError } from './util';
 import { map as convertToJavaTypes, map } from './value-mapper/mapper';
 import { GraphQLResolveInfo } from 'graphql';
 import { createInfo } from './util/info';
+import { create as createExtensions } from './extensions';
 import { AppSyncGraphQLExecutionContext } from '../utils/graphql-runner';
+import { getPayloadSize, MAPPING_TEMPLATE_ERROR_TYPE, MAX_FOREACH_ITERATIONS, MAX_MAPPING_TEMPLATE_SIZE } from '../utils/appsync-limits';
 
 export type AppSyncSimulatorRequestContext = {
   jwt?: {
@@ -31,11 +33,16 @@ export class VelocityTemplate {
   private compiler: Compile;
   private template;
   constructor(template: AppSyncVTLTemplate, private simulatorContext: AmplifyAppSyncSimulator) {
+    const strictAppSyncParity = !!(simulatorContext && simulatorContext.strictAppSyncParity);
+    if (strictAppSyncParity && getPayloadSize(template.content.toString()) > MAX_MAPPING_TEMPLATE_SIZE) {
+      throw new Error(`Mapping template ${template.path || ''} exceeds the maximum size of ${MAX_MAPPING_TEMPLATE_SIZE} bytes`);
+    }
     try {
       const ast = parse(template.content.toString());
       this.compiler = new Compile(ast, {
         valueMapper: map,
         escape: false,
+        maxForeachIterations: strictAppSyncParity ? MAX_FOREACH_ITERATIONS : undefined,
       });
       this.template = template;
     } catch (e) {
@@ -46,6 +53,10 @@ export class VelocityTemplate {
       throw templateError;
     }
   }
+  get path(): string {
+    return this.template.path;
+  }
+
   render(
     ctxValues: AppSyncVTLRenderContext,
     requestContext: AppSyncGraphQLExecutionContext,
@@ -53,7 +64,15 @@ export class VelocityTemplate {
   ): { result; stash; errors; isReturn: boolean } {
     const context = this.buildRenderContext(ctxValues, requestContext, info);
 
-    const templateResult = this.compiler.render(context);
+    let templateResult;
+    try {
+      templateResult = this.compiler.render(context);
+    } catch (e) {
+      if (e.name === 'ForeachIterationLimitError') {
+        throw new TemplateSentError(e.message, MAPPING_TEMPLATE_ERROR_TYPE, null, null, info);
+      }
+      throw e;
+    }
     const isReturn = this.compiler._state.return; // If the template has #return, then set the value
     const stash = context.ctx.stash.toJSON();
     try {
@@ -65,7 +84,7 @@ export class VelocityTemplate {
         return { result: templateResult, stash, errors: context.util.errors, isReturn };
       }
       const errorMessage = `Unable to convert ${templateResult} to class com.amazonaws.deepdish.transform.model.lambda.LambdaVersionedConfig.`;
-      throw new TemplateSentError(errorMessage, 'MappingTemplate', null, null, info);
+      throw new TemplateSentError(errorMessage, MAPPING_TEMPLATE_ERROR_TYPE, null, null, info);
     }
   }
 
@@ -75,33 +94,9 @@ export class VelocityTemplate {
     info: GraphQLResolveInfo,
   ): any {
     const { source, arguments: argument, result, stash, prevResult, error } = ctxValues;
-    const { jwt } = requestContext;
-    const { iss: issuer, sub, 'cognito:username': cognitoUserName, username } = jwt || {};
-
-    const util = createUtil([], new Date(Date.now()), info);
+    const util = createUtil([], new Date(Date.now()), info, !!(this.simulatorContext && this.simulatorContext.strictAppSyncParity));
     const args = convertToJavaTypes(argument);
-    // Identity is null for API Key
-    let identity = null;
-    if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT) {
-      identity = convertToJavaTypes({
-        sub,
-        issuer,
-        claims: requestContext.jwt,
-      });
-    } else if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS) {
-      identity = convertToJavaTypes({
-        sub,
-        issuer,
-        'cognito:username': cognitoUserName,
-        username: username || cognitoUserName,
-        sourceIp: requestContext.sourceIp,
-        claims: requestContext.jwt,
-        ...(this.simulatorContext.appSyncConfig.defaultAuthenticationType.authenticationType ===
-        AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS
-          ? { defaultAuthStrategy: 'ALLOW' }
-          : {}),
-      });
-    }
+    const identity = convertToJavaTypes(getIdentity(requestContext, this.simulatorContext));
 
     const vtlContext = {
       arguments: args,
@@ -128,6 +123,7 @@ export class VelocityTemplate {
       utils: util,
       context: vtlContext,
       ctx: vtlContext,
+      extensions: createExtensions(requestContext, info),
     };
   }
 
@@ -142,3 +138,45 @@ export class VelocityTemplate {
     return ['0.0.0.0'];
   }
 }
+
+/**
+ * Builds $context.identity of the request from its authorization mode. The identity is null for API_KEY
+ */
+export function getIdentity(requestContext: AppSyncGraphQLExecutionContext, simulatorContext: AmplifyAppSyncSimulator): object | null {
+  const { jwt } = requestContext;
+  const { iss: issuer, sub, 'cognito:username': cognitoUserName, username } = jwt || {};
+
+  if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.OPENID_CONNECT) {
+    return {
+      sub,
+      issuer,
+      claims: requestContext.jwt,
+    };
+  }
+  if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_LAMBDA) {
+    return {
+      resolverContext: requestContext.resolverContext || {},
+    };
+  }
+  if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AWS_IAM && requestContext.iamIdentity) {
+    return {
+      ...requestContext.iamIdentity,
+      sourceIp: [requestContext.sourceIp],
+    };
+  }
+  if (requestContext.requestAuthorizationMode === AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS) {
+    return {
+      sub,
+      issuer,
+      'cognito:username': cognitoUserName,
+      username: username || cognitoUserName,
+      sourceIp: requestContext.sourceIp,
+      claims: requestContext.jwt,
+      ...(simulatorContext.appSyncConfig.defaultAuthenticationType.authenticationType ===
+      AmplifyAppSyncSimulatorAuthenticationType.AMAZON_COGNITO_USER_POOLS
+        ? { defaultAuthStrategy: 'ALLOW' }
+        : {}),
+    };
+  }
+  return null;
+}
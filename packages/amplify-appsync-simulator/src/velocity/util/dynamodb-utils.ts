@@ -2,6 +2,7 @@ import { Converter } from 'aws-sdk/clients/dynamodb';
 import { DynamoDBSet } from 'aws-sdk/lib/dynamodb/set';
 
 import { toJSON } from '../value-mapper/to-json';
+import { map as mapper } from '../value-mapper/mapper';
 
 export const dynamodbUtils = {
   toDynamoDB(value: any) {
@@ -81,19 +82,29 @@ export const dynamodbUtils = {
         ...sum,
         [key]: this.toDynamoDB(value),
       }),
-      {}
+      {},
     );
   },
   toMapValuesJson(values) {
     return JSON.stringify(this.toMapValues(values));
   },
-  toS3ObjectJson() {
-    throw new Error('not implemented');
-  },
-  toS3Object() {
-    throw new Error('not implemented');
-  },
-  fromS3ObjectJson() {
-    throw new Error('not implemented');
+  toS3Object(key, bucket, region, version?) {
+    const s3 = {
+      key: toJSON(key),
+      bucket: toJSON(bucket),
+      region: toJSON(region),
+      ...(version ? { version: toJSON(version) } : {}),
+    };
+    return this.toString(JSON.stringify({ s3 }));
+  },
+  toS3ObjectJson(key, bucket, region, version?) {
+    return JSON.stringify(this.toS3Object(key, bucket, region, version));
+  },
+  fromS3ObjectJson(value) {
+    const { s3 } = JSON.parse(toJSON(value).toString());
+    if (!s3 || !s3.key || !s3.bucket || !s3.region) {
+      throw new Error(`${value} is not a valid S3 object. Expected a JSON string in the {"s3": {"key", "bucket", "region"}} format`);
+    }
+    return mapper(s3);
   },
 };
@@ -4,7 +4,7 @@ import { JavaString } from '../value-mapper/string';
 import { JavaArray } from '../value-mapper/array';
 import { JavaMap } from '../value-mapper/map';
 import jsStringEscape from 'js-string-escape';
-import { GraphQLResolveInfo, FieldNode } from 'graphql';
+import { GraphQLResolveInfo, FieldNode, Kind, SelectionNode, SelectionSetNode } from 'graphql';
 export const generalUtils = {
   errors: [],
   quiet: () => '',
@@ -41,13 +41,13 @@ export const generalUtils = {
     throw err;
   },
   error(message, type = null, data = null, errorInfo = null) {
-    data = filterData(this.info, data);
+    data = this.strictAppSyncParity ? filterDataBySelectionSet(this.info, data) : filterData(this.info, data);
     const err = new TemplateSentError(message, type, data, errorInfo, this.info);
     this.errors.push(err);
     throw err;
   },
   appendError(message, type = null, data = null, errorInfo = null) {
-    data = filterData(this.info, data);
+    data = this.strictAppSyncParity ? filterDataBySelectionSet(this.info, data) : filterData(this.info, data);
     this.errors.push(new TemplateSentError(message, type, data, errorInfo, this.info));
     return '';
   },
@@ -137,3 +137,50 @@ function filterData(info: GraphQLResolveInfo, data = null): any {
   }
   return data;
 }
+
+// AppSync keeps the fields of the selection set in the data of an error, including the fields of the items of a list
+// and the fields selected through fragments, which lets templates return partial data for list fields
+function filterDataBySelectionSet(info: GraphQLResolveInfo, data = null): any {
+  const fieldNode = (info.fieldNodes || []).find(node => node.name.value === info.fieldName);
+  return fieldNode && fieldNode.selectionSet ? filterBySelectionSet(data, fieldNode.selectionSet, info.fragments || {}) : data;
+}
+
+function filterBySelectionSet(data: any, selectionSet: SelectionSetNode, fragments: GraphQLResolveInfo['fragments']): any {
+  if (data instanceof JavaArray) {
+    return Array.from(data, item => filterBySelectionSet(item, selectionSet, fragments));
+  }
+  if (data instanceof JavaMap) {
+    const fields = collectFields(selectionSet, fragments);
+    return Object.keys(fields).reduce((filteredData, fieldName) => {
+      const value = data.get(fieldName);
+      const subSelections = fields[fieldName];
+      filteredData[fieldName] = subSelections.length
+        ? filterBySelectionSet(value, { kind: Kind.SELECTION_SET, selections: subSelections }, fragments)
+        : value;
+      return filteredData;
+    }, {});
+  }
+  return data;
+}
+
+// returns the selections of the fields by field name, merging the fields selected more than once through fragments.
+// Type conditions are not checked as the data of an error does not carry its type
+function collectFields(
+  selectionSet: SelectionSetNode,
+  fragments: GraphQLResolveInfo['fragments'],
+  fields: { [fieldName: string]: SelectionNode[] } = {},
+): { [fieldName: string]: SelectionNode[] } {
+  selectionSet.selections.forEach(selection => {
+    if (selection.kind === Kind.FIELD) {
+      fields[selection.name.value] = [
+        ...(fields[selection.name.value] || []),
+        ...(selection.selectionSet ? selection.selectionSet.selections : []),
+      ];
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      collectFields(selection.selectionSet, fragments, fields);
+    } else if (fragments[selection.name.value]) {
+      collectFields(fragments[selection.name.value].selectionSet, fragments, fields);
+    }
+  });
+  return fields;
+}
@@ -4,19 +4,26 @@ import { dynamodbUtils } from './dynamodb-utils';
 import { listUtils } from './list-utils';
 import { mapUtils } from './map-utils';
 import { transformUtils } from './transform';
+import { rdsUtils } from './rds-utils';
+import { strUtils } from './str-utils';
+import { mathUtils } from './math-utils';
 import { time } from './time';
 import { GraphQLResolveInfo } from 'graphql';
 
-export function create(errors = [], now: Date = new Date(), info: GraphQLResolveInfo) {
+export function create(errors = [], now: Date = new Date(), info: GraphQLResolveInfo, strictAppSyncParity: boolean = false) {
   return {
     ...generalUtils,
     dynamodb: dynamodbUtils,
     list: listUtils,
     map: mapUtils,
     transform: transformUtils,
+    rds: rdsUtils,
+    str: strUtils,
+    math: mathUtils,
     now,
     errors,
     info,
+    strictAppSyncParity,
     time: time(),
   };
 }
@@ -0,0 +1,20 @@
+export const mathUtils = {
+  roundNum(value: number): number {
+    return Math.round(value);
+  },
+  minVal(value1: number, value2: number): number {
+    return Math.min(value1, value2);
+  },
+  maxVal(value1: number, value2: number): number {
+    return Math.max(value1, value2);
+  },
+  randomDouble(): number {
+    return Math.random();
+  },
+  // both bounds are inclusive
+  randomWithinRange(start: number, end: number): number {
+    const min = Math.ceil(Math.min(start, end));
+    const max = Math.floor(Math.max(start, end));
+    return Math.floor(Math.random() * (max - min + 1)) + min;
+  },
+};
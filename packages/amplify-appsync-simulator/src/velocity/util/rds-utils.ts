@@ -0,0 +1,49 @@
+import { map as mapper } from '../value-mapper/mapper';
+import { JavaArray } from '../value-mapper/array';
+
+type DataAPIField = {
+  isNull?: boolean;
+  booleanValue?: boolean;
+  longValue?: number;
+  doubleValue?: number;
+  stringValue?: string;
+  blobValue?: string;
+};
+
+type DataAPIStatementResult = {
+  records?: DataAPIField[][];
+  columnMetadata?: { name: string; label?: string }[];
+};
+
+function fromField(field: DataAPIField): any {
+  if (!field || field.isNull) {
+    return null;
+  }
+  const valueType = ['stringValue', 'longValue', 'doubleValue', 'booleanValue', 'blobValue'].find(key => key in field);
+  return valueType ? field[valueType] : null;
+}
+
+function toRows(serializedSQLResult: any): object[][] {
+  const result = typeof serializedSQLResult === 'string' ? JSON.parse(serializedSQLResult) : JSON.parse(serializedSQLResult.toString());
+  const statementResults: DataAPIStatementResult[] = result.sqlStatementResults || [];
+  return statementResults.map(({ records = [], columnMetadata = [] }) =>
+    records.map(record =>
+      columnMetadata.reduce(
+        (row, column, index) => ({
+          ...row,
+          [column.label || column.name]: fromField(record[index]),
+        }),
+        {},
+      ),
+    ),
+  );
+}
+
+export const rdsUtils = {
+  toJsonString(serializedSQLResult: any): string {
+    return JSON.stringify(toRows(serializedSQLResult));
+  },
+  toJsonObject(serializedSQLResult: any): JavaArray {
+    return mapper(toRows(serializedSQLResult));
+  },
+};
@@ -0,0 +1,23 @@
+const NORMALIZATION_FORMS = ['nfc', 'nfd', 'nfkc', 'nfkd'];
+
+export const strUtils = {
+  toUpper(value: string): string {
+    return value.toString().toUpperCase();
+  },
+  toLower(value: string): string {
+    return value.toString().toLowerCase();
+  },
+  toReplace(value: string, target: string, replacement: string): string {
+    return value
+      .toString()
+      .split(target.toString())
+      .join(replacement.toString());
+  },
+  normalize(value: string, form: string): string {
+    const normalizationForm = form.toString().toLowerCase();
+    if (!NORMALIZATION_FORMS.includes(normalizationForm)) {
+      throw new Error(`Unsupported normalization form ${form}. Use one of ${NORMALIZATION_FORMS.join(', ')}`);
+    }
+    return value.toString().normalize(normalizationForm.toUpperCase());
+  },
+};
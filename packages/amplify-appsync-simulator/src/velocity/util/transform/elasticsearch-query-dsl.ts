@@ -0,0 +1,58 @@
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+/**
+ * Converts a @searchable filter input into an Elasticsearch query DSL object, following
+ * $util.transform.toElasticsearchQueryDSL in AppSync
+ */
+export function generateElasticsearchQueryDSL(filter: object): object {
+  const queries = Object.entries(filter || {}).map(([name, value]: [string, any]) => {
+    switch (name) {
+      case 'and':
+        return { bool: { must: toArray(value).map(f => generateElasticsearchQueryDSL(f)) } };
+      case 'or':
+        return { bool: { should: toArray(value).map(f => generateElasticsearchQueryDSL(f)) } };
+      case 'not':
+        return { bool: { must_not: generateElasticsearchQueryDSL(value) } };
+      default:
+        return generateFieldQuery(name, value);
+    }
+  });
+  return { bool: { must: queries } };
+}
+
+function generateFieldQuery(fieldName: string, conditions: object): object {
+  const queries = Object.entries(conditions || {}).map(([operator, value]: [string, any]) => {
+    switch (operator) {
+      case 'eq':
+        return { term: { [fieldName]: value } };
+      case 'ne':
+        return { bool: { must_not: { term: { [fieldName]: value } } } };
+      case 'match':
+        return { match: { [fieldName]: value } };
+      case 'matchPhrase':
+        return { match_phrase: { [fieldName]: value } };
+      case 'matchPhrasePrefix':
+        return { match_phrase_prefix: { [fieldName]: value } };
+      case 'multiMatch':
+        return { multi_match: { query: value, fields: [fieldName] } };
+      case 'wildcard':
+        return { wildcard: { [fieldName]: value } };
+      case 'regexp':
+        return { regexp: { [fieldName]: value } };
+      case 'exists':
+        return value ? { exists: { field: fieldName } } : { bool: { must_not: { exists: { field: fieldName } } } };
+      case 'range':
+        return { range: { [fieldName]: { gte: value[0], lte: value[1] } } };
+      default:
+        if (RANGE_OPERATORS.includes(operator)) {
+          return { range: { [fieldName]: { [operator]: value } } };
+        }
+        throw new Error(`Unsupported filter operator ${operator} in toElasticsearchQueryDSL`);
+    }
+  });
+  return { bool: { must: queries } };
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
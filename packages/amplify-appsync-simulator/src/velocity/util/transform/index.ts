@@ -1,4 +1,8 @@
 import { generateFilterExpression } from './dynamodb-filter';
+import { generateElasticsearchQueryDSL } from './elasticsearch-query-dsl';
+import { generateSubscriptionFilter } from './subscription-filter';
+import { map as mapper } from '../../value-mapper/mapper';
+import { toJSON } from '../../value-mapper/to-json';
 export const transformUtils = {
   toDynamoDBFilterExpression: filter => {
     const result = generateFilterExpression(filter.toJSON());
@@ -8,4 +12,10 @@ export const transformUtils = {
       expressionValues: result.expressionValues,
     });
   },
+  toElasticsearchQueryDSL: filter => {
+    return JSON.stringify(generateElasticsearchQueryDSL(filter.toJSON()));
+  },
+  toSubscriptionFilter: (filter, ignoredFields = [], rules = {}) => {
+    return mapper(generateSubscriptionFilter(toJSON(filter), toJSON(ignoredFields), toJSON(rules)));
+  },
 };
@@ -0,0 +1,47 @@
+import { SubscriptionFilter, SubscriptionFilterRule, validateSubscriptionFilter } from '../../../utils/graphql-runner/subscriptions-filter';
+
+type FilterRules = SubscriptionFilterRule[];
+
+/**
+ * Converts a filter object like { rating: { ge: 3 }, or: [{ status: { eq: 'DRAFT' } }] } to the filter groups accepted by
+ * $extensions.setSubscriptionFilter. Every "or" adds filter groups while fields and "and" add filters to each group
+ */
+export function generateSubscriptionFilter(filter: object, ignoredFields: string[] = [], rules: object = {}): SubscriptionFilter {
+  const groups = combine(toFilterGroups(filter, ignoredFields), toFilterGroups(rules, []));
+  const subscriptionFilter = {
+    filterGroup: groups.filter(filters => filters.length).map(filters => ({ filters })),
+  };
+  validateSubscriptionFilter(subscriptionFilter);
+  return subscriptionFilter;
+}
+
+function toFilterGroups(filter: object, ignoredFields: string[]): FilterRules[] {
+  return Object.entries(filter || {}).reduce(
+    (groups: FilterRules[], [key, value]) => {
+      if (ignoredFields.includes(key)) {
+        return groups;
+      }
+      if (key === 'and') {
+        return [].concat(value).reduce((acc, subFilter) => combine(acc, toFilterGroups(subFilter, ignoredFields)), groups);
+      }
+      if (key === 'or') {
+        const orGroups = [].concat(...[].concat(value).map(subFilter => toFilterGroups(subFilter, ignoredFields)));
+        return combine(groups, orGroups);
+      }
+      const fieldRules = Object.entries(value || {}).map(([operator, operand]) => ({
+        fieldName: key,
+        operator,
+        value: operand,
+      })) as FilterRules;
+      return combine(groups, [fieldRules]);
+    },
+    [[]],
+  );
+}
+
+function combine(groups: FilterRules[], otherGroups: FilterRules[]): FilterRules[] {
+  if (!otherGroups.length) {
+    return groups;
+  }
+  return [].concat(...groups.map(group => otherGroups.map(otherGroup => [...group, ...otherGroup])));
+}
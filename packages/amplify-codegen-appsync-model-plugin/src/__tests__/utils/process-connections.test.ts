@@ -6,7 +6,10 @@ import {
   CodeGenFieldConnectionBelongsTo,
   CodeGenFieldConnectionHasOne,
   getConnectedField,
+  processManyToManyConnections,
+  getManyToManyJoinModelNames,
 } from '../../utils/process-connections';
+import { parse } from 'graphql';
 import { CodeGenModelMap, CodeGenModel } from '../../visitors/appsync-visitor';
 
 describe('process connection', () => {
@@ -462,4 +465,97 @@ describe('process connection', () => {
       expect(getConnectedField(subordinateField, employeeModel, employeeModel)).toEqual(supervisorField);
     });
   });
+
+  describe('Many to Many connection (relationName)', () => {
+    let modelMap: CodeGenModelMap;
+    const schema = /* GraphQL */ `
+      type Post @model {
+        id: ID!
+        tags: [Tag] @connection(relationName: "PostTags")
+      }
+
+      type Tag @model {
+        id: ID!
+        posts: [Post] @connection(relationName: "PostTags")
+      }
+    `;
+    beforeEach(() => {
+      modelMap = {
+        Post: {
+          name: 'Post',
+          type: 'model',
+          directives: [],
+          fields: [
+            { type: 'ID', isNullable: false, isList: false, name: 'id', directives: [] },
+            {
+              type: 'Tag',
+              isNullable: true,
+              isList: true,
+              name: 'tags',
+              directives: [{ name: 'connection', arguments: { relationName: 'PostTags' } }],
+            },
+          ],
+        },
+        Tag: {
+          name: 'Tag',
+          type: 'model',
+          directives: [],
+          fields: [
+            { type: 'ID', isNullable: false, isList: false, name: 'id', directives: [] },
+            {
+              type: 'Post',
+              isNullable: true,
+              isList: true,
+              name: 'posts',
+              directives: [{ name: 'connection', arguments: { relationName: 'PostTags' } }],
+            },
+          ],
+        },
+      };
+      processManyToManyConnections(modelMap);
+    });
+
+    it('should add the join model', () => {
+      const joinModel = modelMap.PostTags;
+      expect(joinModel).toBeDefined();
+      expect(joinModel.fields.map(f => [f.name, f.type])).toEqual([
+        ['id', 'ID'],
+        ['postID', 'ID'],
+        ['tagID', 'ID'],
+        ['post', 'Post'],
+        ['tag', 'Tag'],
+      ]);
+      expect(joinModel.directives).toContainEqual({ name: 'key', arguments: { name: 'byPost', fields: ['postID', 'tagID'] } });
+      expect(joinModel.directives).toContainEqual({ name: 'key', arguments: { name: 'byTag', fields: ['tagID', 'postID'] } });
+    });
+
+    it('should return HAS_MANY to the join model for Post.tags', () => {
+      const tagsField = modelMap.Post.fields[1];
+      const connectionInfo = (processConnections(tagsField, modelMap.Post, modelMap) as any) as CodeGenFieldConnectionHasMany;
+      expect(tagsField.type).toEqual('PostTags');
+      expect(connectionInfo.kind).toEqual(CodeGenConnectionType.HAS_MANY);
+      expect(connectionInfo.connectedModel).toEqual(modelMap.PostTags);
+      expect(connectionInfo.associatedWith).toEqual(modelMap.PostTags.fields[3]);
+      expect(connectionInfo.isConnectingFieldAutoCreated).toEqual(false);
+    });
+
+    it('should return BELONGS_TO for the fields of the join model', () => {
+      const tagField = modelMap.PostTags.fields[4];
+      const connectionInfo = (processConnections(tagField, modelMap.PostTags, modelMap) as any) as CodeGenFieldConnectionBelongsTo;
+      expect(connectionInfo.kind).toEqual(CodeGenConnectionType.BELONGS_TO);
+      expect(connectionInfo.connectedModel).toEqual(modelMap.Tag);
+      expect(connectionInfo.targetName).toEqual('tagID');
+    });
+
+    it('should throw error when a relation has only one side', () => {
+      delete modelMap.PostTags;
+      modelMap.Tag.fields[1].directives = [];
+      modelMap.Post.fields[1] = { ...modelMap.Post.fields[1], directives: [{ name: 'connection', arguments: { relationName: 'Tags' } }] };
+      expect(() => processManyToManyConnections(modelMap)).toThrowError('Many to Many connection Tags should connect two different models');
+    });
+
+    it('should return the names of the join models', () => {
+      expect(getManyToManyJoinModelNames(parse(schema).definitions)).toEqual(['PostTags']);
+    });
+  });
 });
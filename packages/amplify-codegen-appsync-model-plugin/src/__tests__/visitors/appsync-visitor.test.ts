@@ -213,6 +213,48 @@ describe('AppSyncModelVisitor', () => {
     });
   });
 
+  describe('many to many connection', () => {
+    const schema = /* GraphQL */ `
+      type Post @model {
+        title: String!
+        tags: [Tag] @connection(relationName: "PostTags")
+      }
+
+      type Tag @model {
+        label: String!
+        posts: [Post] @connection(relationName: "PostTags")
+      }
+    `;
+
+    it('should generate the join model and connect both sides to it', () => {
+      const ast = parse(schema);
+      const builtSchema = buildSchemaWithDirectives(schema);
+      const visitor = new AppSyncModelVisitor(builtSchema, { directives, target: 'android', generate: CodeGenGenerateEnum.code }, {});
+      visit(ast, { leave: visitor });
+      visitor.generate();
+
+      const joinModel = visitor.models.PostTags;
+      expect(joinModel).toBeDefined();
+      expect(joinModel.fields.map(f => f.name)).toEqual(['id', 'post', 'tag']);
+      const postField = joinModel.fields.find(f => f.name === 'post');
+      expect((postField!.connectionInfo as any) as CodeGenFieldConnectionBelongsTo).toMatchObject({
+        kind: CodeGenConnectionType.BELONGS_TO,
+        targetName: 'postID',
+        connectedModel: visitor.models.Post,
+      });
+
+      const tagsField = visitor.models.Post.fields.find(f => f.name === 'tags');
+      expect((tagsField!.connectionInfo as any) as CodeGenFieldConnectionHasMany).toMatchObject({
+        kind: CodeGenConnectionType.HAS_MANY,
+        associatedWith: postField,
+        connectedModel: joinModel,
+      });
+      const postsField = visitor.models.Tag.fields.find(f => f.name === 'posts');
+      expect(postsField!.type).toEqual('PostTags');
+      expect(postsField!.connectionInfo!.kind).toEqual(CodeGenConnectionType.HAS_MANY);
+    });
+  });
+
   describe('one way connection', () => {
     it('should not include a comments in Post when comments field does not have connection directive', () => {
       const schema = /* GraphQL */ `
@@ -312,6 +354,31 @@ describe('AppSyncModelVisitor', () => {
       expect(groupRule.operations).toEqual(['create', 'update', 'delete', 'read']);
     });
   });
+  describe('default directive', () => {
+    it('should make fields with a default value optional', () => {
+      const schema = /* GraphQL */ `
+        enum PostStatus {
+          DRAFT
+          PUBLISHED
+        }
+
+        type Post @model {
+          title: String!
+          status: PostStatus! @default(value: "DRAFT")
+          author: String! @default(generated: identitySub)
+        }
+      `;
+      const ast = parse(schema);
+      const builtSchema = buildSchemaWithDirectives(schema);
+      const visitor = new AppSyncModelVisitor(builtSchema, { directives, target: 'android', generate: CodeGenGenerateEnum.code }, {});
+      visit(ast, { leave: visitor });
+      visitor.generate();
+      const postFields = visitor.models.Post.fields;
+      expect(postFields.find(f => f.name === 'title')!.isNullable).toEqual(false);
+      expect(postFields.find(f => f.name === 'status')!.isNullable).toEqual(true);
+      expect(postFields.find(f => f.name === 'author')!.isNullable).toEqual(true);
+    });
+  });
   describe('model less type', () => {
     let visitor;
     beforeEach(() => {
@@ -3,6 +3,7 @@ import { Kind, TypeDefinitionNode } from 'graphql';
 import { join } from 'path';
 import { JAVA_SCALAR_MAP, SWIFT_SCALAR_MAP, TYPESCRIPT_SCALAR_MAP } from './scalars';
 import { LOADER_CLASS_NAME, GENERATED_PACKAGE_NAME } from './configs/java-config';
+import { getManyToManyJoinModelNames } from './utils/process-connections';
 
 const APPSYNC_DATA_STORE_CODEGEN_TARGETS = ['java', 'android', 'swift', 'ios', 'javascript', 'typescript'];
 
@@ -194,6 +195,10 @@ export const preset: Types.OutputPreset<AppSyncModelCodeGenPresetConfig> = {
     const models: TypeDefinitionNode[] = options.schema.definitions.filter(
       t => t.kind === 'ObjectTypeDefinition' || (t.kind === 'EnumTypeDefinition' && !t.name.value.startsWith('__')),
     ) as any;
+    // the join models of many to many connections are not part of the schema but get generated like the other models
+    getManyToManyJoinModelNames(options.schema.definitions).forEach(name => {
+      models.push({ kind: Kind.OBJECT_TYPE_DEFINITION, name: { kind: Kind.NAME, value: name } });
+    });
 
     switch (codeGenTarget) {
       case 'java':
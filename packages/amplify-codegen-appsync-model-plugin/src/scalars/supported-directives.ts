@@ -28,6 +28,33 @@ export const directives = /* GraphQL */ `
   # Key directive
   directive @key(name: String, fields: [String!]!, queryField: String) repeatable on OBJECT
 
+  # Default directive
+  directive @default(value: String, generated: DefaultGeneratedValue) on FIELD_DEFINITION
+  enum DefaultGeneratedValue {
+    autoId
+    now
+    identitySub
+  }
+
+  # Unique directive
+  directive @unique on FIELD_DEFINITION
+
+  # Validate directive
+  directive @validate(
+    pattern: String
+    min: Float
+    max: Float
+    minLength: Int
+    maxLength: Int
+    oneOf: [String!]
+    format: ValidationFormat
+  ) on FIELD_DEFINITION
+  enum ValidationFormat {
+    EMAIL
+    URL
+    PHONE
+  }
+
   # Connection directive
   directive @connection(
     name: String
@@ -36,8 +63,16 @@ export const directives = /* GraphQL */ `
     keyName: String
     limit: Int
     fields: [String!]
+    relationName: String
+    onDelete: ConnectionDeleteAction
   ) on FIELD_DEFINITION
 
+  enum ConnectionDeleteAction {
+    CASCADE
+    RESTRICT
+    SET_NULL
+  }
+
   directive @auth(rules: [AuthRule!]!) on OBJECT | FIELD_DEFINITION
 
   input AuthRule {
@@ -1,5 +1,6 @@
 import { CodeGenModel, CodeGenModelMap, CodeGenField, CodeGenDirective } from '../visitors/appsync-visitor';
 import { camelCase } from 'change-case';
+import { DefinitionNode, Kind } from 'graphql';
 
 export enum CodeGenConnectionType {
   HAS_ONE = 'HAS_ONE',
@@ -40,6 +41,117 @@ export function makeConnectionAttributeName(type: string, field?: string) {
   return field ? camelCase([type, field, 'id'].join('_')) : camelCase([type, 'id'].join('_'));
 }
 
+function makeManyToManyJoinFieldName(type: string) {
+  // The same logic is used graphql-connection-transformer package to generate the join model
+  // Make sure the logic gets update in that package
+  return type.charAt(0).toLowerCase() + type.slice(1);
+}
+
+/**
+ * Names of the join models graphql-connection-transformer creates for the @connection fields with a relationName
+ */
+export function getManyToManyJoinModelNames(definitions: readonly DefinitionNode[]): string[] {
+  const relationNames = definitions.reduce((acc, def) => {
+    if (def.kind !== Kind.OBJECT_TYPE_DEFINITION) {
+      return acc;
+    }
+    (def.fields || []).forEach(field => {
+      const connectionDirective = (field.directives || []).find(d => d.name.value === 'connection');
+      const relationName = connectionDirective && (connectionDirective.arguments || []).find(arg => arg.name.value === 'relationName');
+      if (relationName && relationName.value.kind === Kind.STRING) {
+        acc.add(relationName.value.value);
+      }
+    });
+    return acc;
+  }, new Set<string>());
+  return [...relationNames];
+}
+
+/**
+ * Adds the join model of each Many to Many connection to the model map and connects both sides of the relation to it,
+ * the same way graphql-connection-transformer does. The connections are then processed like the ones of a join model
+ * declared in the schema:
+ *
+ * type PostTags @model @key(name: "byPost", fields: ["postID", "tagID"]) @key(name: "byTag", fields: ["tagID", "postID"]) {
+ *   id: ID!
+ *   postID: ID!
+ *   tagID: ID!
+ *   post: Post! @connection(fields: ["postID"])
+ *   tag: Tag! @connection(fields: ["tagID"])
+ * }
+ * type Post @model {
+ *   tags: [PostTags] @connection(keyName: "byPost", fields: ["id"])
+ * }
+ */
+export function processManyToManyConnections(modelMap: CodeGenModelMap): void {
+  const relations: Record<string, { model: CodeGenModel; field: CodeGenField }[]> = {};
+  Object.values(modelMap).forEach(model => {
+    model.fields.forEach(field => {
+      const connectionDirective = getDirective(field)('connection');
+      const relationName = connectionDirective && connectionDirective.arguments.relationName;
+      if (relationName) {
+        relations[relationName] = [...(relations[relationName] || []), { model, field }];
+      }
+    });
+  });
+
+  Object.entries(relations).forEach(([relationName, sides]) => {
+    if (sides.length !== 2 || sides[0].model === sides[1].model) {
+      throw new Error(`Many to Many connection ${relationName} should connect two different models`);
+    }
+    const joinSides = sides.map(({ model, field }) => {
+      const joinFieldName = makeManyToManyJoinFieldName(model.name);
+      const primaryKeyDirective = model.directives.find(d => d.name === 'key' && typeof d.arguments.name === 'undefined');
+      const keyFieldName = primaryKeyDirective ? primaryKeyDirective.arguments.fields[0] : DEFAULT_HASH_KEY_FIELD;
+      const keyField = model.fields.find(f => f.name === keyFieldName);
+      return {
+        model,
+        field,
+        keyFieldName,
+        keyFieldType: keyField ? keyField.type : 'ID',
+        joinFieldName,
+        joinKeyFieldName: `${joinFieldName}ID`,
+        indexName: `by${model.name}`,
+      };
+    });
+
+    const [left, right] = joinSides;
+    modelMap[relationName] = {
+      name: relationName,
+      type: 'model',
+      directives: [
+        { name: 'model', arguments: {} },
+        { name: 'key', arguments: { name: left.indexName, fields: [left.joinKeyFieldName, right.joinKeyFieldName] } },
+        { name: 'key', arguments: { name: right.indexName, fields: [right.joinKeyFieldName, left.joinKeyFieldName] } },
+      ],
+      fields: [
+        { name: 'id', type: 'ID', isNullable: false, isList: false, directives: [] },
+        ...joinSides.map(side => ({
+          name: side.joinKeyFieldName,
+          type: side.keyFieldType,
+          isNullable: false,
+          isList: false,
+          directives: [],
+        })),
+        ...joinSides.map(side => ({
+          name: side.joinFieldName,
+          type: side.model.name,
+          isNullable: false,
+          isList: false,
+          directives: [{ name: 'connection', arguments: { fields: [side.joinKeyFieldName] } }],
+        })),
+      ],
+    };
+
+    joinSides.forEach(side => {
+      side.field.type = relationName;
+      side.field.directives = side.field.directives.map(d =>
+        d.name === 'connection' ? { name: 'connection', arguments: { keyName: side.indexName, fields: [side.keyFieldName] } } : d,
+      );
+    });
+  });
+}
+
 export function getConnectedField(field: CodeGenField, model: CodeGenModel, connectedModel: CodeGenModel): CodeGenField {
   const connectionInfo = getDirective(field)('connection');
   if (!connectionInfo) {
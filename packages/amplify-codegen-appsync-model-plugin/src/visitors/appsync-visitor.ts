@@ -23,7 +23,12 @@ import {
 } from 'graphql';
 import { addFieldToModel, removeFieldFromModel } from '../utils/fieldUtils';
 import { getTypeInfo } from '../utils/get-type-info';
-import { CodeGenConnectionType, CodeGenFieldConnection, processConnections } from '../utils/process-connections';
+import {
+  CodeGenConnectionType,
+  CodeGenFieldConnection,
+  processConnections,
+  processManyToManyConnections,
+} from '../utils/process-connections';
 import { sortFields } from '../utils/sort';
 import { printWarning } from '../utils/warn';
 import { processAuthDirective, AuthStrategy } from '../utils/process-auth';
@@ -241,6 +246,7 @@ export class AppSyncModelVisitor<
   processDirectives() {
     this.processConnectionDirective();
     this.processAuthDirectives();
+    this.processDefaultDirectives();
   }
   generate(): string {
     this.processDirectives();
@@ -444,6 +450,7 @@ export class AppSyncModelVisitor<
   }
 
   protected processConnectionDirective(): void {
+    processManyToManyConnections(this.modelMap);
     Object.values(this.modelMap).forEach(model => {
       model.fields.forEach(field => {
         const connectionInfo = processConnections(field, model, this.modelMap);
@@ -496,6 +503,17 @@ export class AppSyncModelVisitor<
     });
   }
 
+  protected processDefaultDirectives(): void {
+    // The service sets fields with a @default value when they are not provided, so clients do not need to.
+    Object.values(this.modelMap).forEach(model => {
+      model.fields.forEach(field => {
+        if (field.directives.find(d => d.name === 'default')) {
+          field.isNullable = true;
+        }
+      });
+    });
+  }
+
   protected pluralizeModelName(model: CodeGenModel): string {
     return plural(model.name);
   }
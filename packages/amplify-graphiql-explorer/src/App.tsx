@@ -6,6 +6,7 @@ import React, { Component } from 'react';
 import 'semantic-ui-css/semantic.min.css';
 import './App.css';
 import { AuthModal, AUTH_MODE } from './AuthModal';
+import { RequestTracing, TracingModal } from './TracingModal';
 import { refreshToken } from './utils/jwt';
 
 const DEFAULT_COGNITO_JWT_TOKEN = `eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiI3ZDhjYTUyOC00OTMxLTQyNTQtOTI3My1lYTVlZTg1M2YyNzEiLCJlbWFpbF92ZXJpZmllZCI6dHJ1ZSwiaXNzIjoiaHR0cHM6Ly9jb2duaXRvLWlkcC51cy1lYXN0LTEuYW1hem9uYXdzLmNvbS91cy1lYXN0LTFfZmFrZSIsInBob25lX251bWJlcl92ZXJpZmllZCI6dHJ1ZSwiY29nbml0bzp1c2VybmFtZSI6InVzZXIxIiwiYXVkIjoiMmhpZmEwOTZiM2EyNG12bTNwaHNrdWFxaTMiLCJldmVudF9pZCI6ImIxMmEzZTJmLTdhMzYtNDkzYy04NWIzLTIwZDgxOGJkNzhhMSIsInRva2VuX3VzZSI6ImlkIiwiYXV0aF90aW1lIjoxOTc0MjY0NDEyLCJwaG9uZV9udW1iZXIiOiIrMTIwNjIwNjIwMTYiLCJleHAiOjE1NjQyNjgwMTIsImlhdCI6MTU2NDI2NDQxMywiZW1haWwiOiJ1c2VyQGRvbWFpbi5jb20ifQ.wHKY2KIhvWn4zpJ4TZ1vS3zRE9mGWsLY4NCV2Cof17Q`;
@@ -47,10 +48,14 @@ function getAPIInfo() {
   return fetch('/api-config').then(response => response.json());
 }
 
+// asks the simulator to include the resolver trace in the extensions of the response
+const TRACING_HEADER = 'x-amplify-simulator-tracing';
+
 function fetcher(params: Object, additionalHeaders): Promise<any> {
   const headers = {
     Accept: 'application/json',
     'Content-Type': 'application/json',
+    [TRACING_HEADER]: 'true',
     ...additionalHeaders,
   };
   return fetch('/graphql', {
@@ -79,6 +84,8 @@ type State = {
   query: string;
   explorerIsOpen: boolean;
   authModalVisible: boolean;
+  tracingModalVisible: boolean;
+  tracing?: RequestTracing;
   jwtToken?: string;
   apiKey?: string;
   apiInfo: AmplifyAppSyncSimulatorApiInfo;
@@ -98,6 +105,7 @@ class App extends Component<{}, State> {
     query: DEFAULT_QUERY,
     explorerIsOpen: true,
     authModalVisible: false,
+    tracingModalVisible: false,
     apiInfo: DEFAULT_API_INFO,
     currentAuthMode: AUTH_MODE.API_KEY,
     credentials: {
@@ -135,6 +143,11 @@ class App extends Component<{}, State> {
       authModalVisible: !prevState.authModalVisible,
     }));
 
+  toggleTracingModal = () =>
+    this.setState(prevState => ({
+      tracingModalVisible: !prevState.tracingModalVisible,
+    }));
+
   switchAuthMode = val => {
     this.setState({ currentAuthMode: val });
   };
@@ -203,7 +216,19 @@ class App extends Component<{}, State> {
     } else if (this.state.currentAuthMode === AUTH_MODE.AWS_IAM) {
       headers['Authorization'] = this.state.credentials.iam;
     }
-    return fetcher(params, headers);
+    return fetcher(params, headers).then(result => {
+      if (!result || !result.extensions || !result.extensions.tracing) {
+        return result;
+      }
+      // the trace is shown in its own view instead of the result pane
+      const { tracing, ...extensions } = result.extensions;
+      this.setState({ tracing });
+      const response = { ...result, extensions };
+      if (!Object.keys(extensions).length) {
+        delete response.extensions;
+      }
+      return response;
+    });
   }
 
   storeCredentials(credentials) {
@@ -276,7 +301,7 @@ class App extends Component<{}, State> {
   }
 
   render() {
-    const { query, schema, authModalVisible, apiInfo } = this.state;
+    const { query, schema, authModalVisible, tracingModalVisible, tracing, apiInfo } = this.state;
     const authModes = [
       AUTH_MODE[apiInfo.defaultAuthenticationType.authenticationType],
       ...apiInfo.additionalAuthenticationProviders.map(auth => AUTH_MODE[auth.authenticationType]),
@@ -294,9 +319,11 @@ class App extends Component<{}, State> {
         }}
       />
     ) : null;
+    const tracingModal = tracingModalVisible ? <TracingModal tracing={tracing} onClose={this.toggleTracingModal} /> : null;
     return (
       <>
         {authModal}
+        {tracingModal}
         <div className='graphiql-container'>
           <GraphiQLExplorer
             schema={schema}
@@ -322,6 +349,7 @@ class App extends Component<{}, State> {
               <GraphiQL.Button onClick={() => this._graphiql.handleToggleHistory()} label='History' title='Show History' />
               <GraphiQL.Button onClick={this._handleToggleExplorer} label='Explorer' title='Toggle Explorer' />
               <GraphiQL.Button onClick={this.toggleAuthModal} label='Update Auth' title='Auth Setting' />
+              <GraphiQL.Button onClick={this.toggleTracingModal} label='Trace' title='Show the resolver trace of the last operation' />
               <GraphiQL.Select label='Auth' onSelect={this.switchAuthMode}>
                 {authModes.map(mode => (
                   <GraphiQL.SelectOption
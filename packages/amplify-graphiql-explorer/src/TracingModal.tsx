@@ -0,0 +1,181 @@
+import React, { Component } from 'react';
+import { Accordion, Button, Header, Label, Message, Modal, Segment } from 'semantic-ui-react';
+
+type TraceError = {
+  message: string;
+  errorType?: string;
+};
+
+type MappingTemplateTrace = {
+  path?: string;
+  result: any;
+  stash?: any;
+  isReturn?: boolean;
+  errors: TraceError[];
+  duration: number;
+};
+
+type DataSourceTrace = {
+  name: string;
+  request: any;
+  result: any;
+  error?: TraceError;
+  duration: number;
+};
+
+type FunctionTrace = {
+  name: string;
+  startOffset: number;
+  duration?: number;
+  stashBefore: any;
+  stashAfter?: any;
+  requestMapping?: MappingTemplateTrace;
+  dataSource?: DataSourceTrace;
+  responseMapping?: MappingTemplateTrace;
+};
+
+type ResolverTrace = {
+  path: (string | number)[];
+  parentType: string;
+  fieldName: string;
+  returnType: string;
+  kind: 'UNIT' | 'PIPELINE';
+  duration?: number;
+  requestMapping?: MappingTemplateTrace;
+  dataSource?: DataSourceTrace;
+  functions?: FunctionTrace[];
+  responseMapping?: MappingTemplateTrace;
+};
+
+export type RequestTracing = {
+  version: number;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  execution: {
+    resolvers: ResolverTrace[];
+  };
+};
+
+type Props = {
+  tracing?: RequestTracing;
+  onClose: Function;
+};
+
+type State = {
+  activeIndex: number;
+};
+
+function formatDuration(duration: number = 0): string {
+  return `${(duration / 1e6).toFixed(2)} ms`;
+}
+
+function JSONBlock({ value }: { value: any }) {
+  return <pre className='tracing-json'>{typeof value === 'undefined' ? 'undefined' : JSON.stringify(value, null, 2)}</pre>;
+}
+
+function MappingTemplateSection({ title, trace }: { title: string; trace?: MappingTemplateTrace }) {
+  if (!trace) {
+    return null;
+  }
+  return (
+    <Segment>
+      <Header as='h5'>
+        {title}
+        <Label size='mini'>{formatDuration(trace.duration)}</Label>
+        {trace.isReturn ? <Label size='mini'>#return</Label> : null}
+      </Header>
+      {trace.path ? <div className='tracing-template-path'>{trace.path}</div> : null}
+      <JSONBlock value={trace.result} />
+      {trace.errors.map(error => (
+        <Message negative size='tiny' key={`${error.errorType}:${error.message}`} header={error.errorType} content={error.message} />
+      ))}
+    </Segment>
+  );
+}
+
+function DataSourceSection({ trace }: { trace?: DataSourceTrace }) {
+  if (!trace) {
+    return null;
+  }
+  return (
+    <Segment>
+      <Header as='h5'>
+        {`Data source ${trace.name}`}
+        <Label size='mini'>{formatDuration(trace.duration)}</Label>
+      </Header>
+      <JSONBlock value={trace.result} />
+      {trace.error ? <Message negative size='tiny' header={trace.error.errorType} content={trace.error.message} /> : null}
+    </Segment>
+  );
+}
+
+function FunctionSection({ trace }: { trace: FunctionTrace }) {
+  return (
+    <Segment>
+      <Header as='h4'>
+        {`Function ${trace.name}`}
+        <Label size='mini'>{formatDuration(trace.duration)}</Label>
+      </Header>
+      <Header as='h5'>$ctx.stash before</Header>
+      <JSONBlock value={trace.stashBefore} />
+      <MappingTemplateSection title='Request mapping template' trace={trace.requestMapping} />
+      <DataSourceSection trace={trace.dataSource} />
+      <MappingTemplateSection title='Response mapping template' trace={trace.responseMapping} />
+      <Header as='h5'>$ctx.stash after</Header>
+      <JSONBlock value={trace.stashAfter} />
+    </Segment>
+  );
+}
+
+export class TracingModal extends Component<Props, State> {
+  state: State = {
+    activeIndex: -1,
+  };
+
+  toggleResolver = (index: number) => {
+    this.setState(prevState => ({ activeIndex: prevState.activeIndex === index ? -1 : index }));
+  };
+
+  render() {
+    const { tracing, onClose } = this.props;
+    const resolvers = tracing ? tracing.execution.resolvers : [];
+    return (
+      <Modal open onClose={() => onClose()} size='large'>
+        <Modal.Header>
+          Resolver trace
+          {tracing ? <Label size='small'>{formatDuration(tracing.duration)}</Label> : null}
+        </Modal.Header>
+        <Modal.Content scrolling>
+          {resolvers.length ? (
+            <Accordion styled fluid>
+              {resolvers.map((resolver, index) => (
+                <React.Fragment key={resolver.path.join('.')}>
+                  <Accordion.Title active={this.state.activeIndex === index} index={index} onClick={() => this.toggleResolver(index)}>
+                    {resolver.path.join('.')}
+                    <Label size='mini'>{`${resolver.parentType}.${resolver.fieldName}: ${resolver.returnType}`}</Label>
+                    <Label size='mini'>{resolver.kind}</Label>
+                    <Label size='mini'>{formatDuration(resolver.duration)}</Label>
+                  </Accordion.Title>
+                  <Accordion.Content active={this.state.activeIndex === index}>
+                    <MappingTemplateSection title='Request mapping template' trace={resolver.requestMapping} />
+                    <DataSourceSection trace={resolver.dataSource} />
+                    {(resolver.functions || []).map(fn => (
+                      <FunctionSection trace={fn} key={`${fn.name}:${fn.startOffset}`} />
+                    ))}
+                    <MappingTemplateSection title='Response mapping template' trace={resolver.responseMapping} />
+                  </Accordion.Content>
+                </React.Fragment>
+              ))}
+            </Accordion>
+          ) : (
+            <Message info content='Run a query or mutation to see the trace of its resolvers' />
+          )}
+        </Modal.Content>
+        <Modal.Actions>
+          <Button onClick={() => onClose()}>Close</Button>
+        </Modal.Actions>
+      </Modal>
+    );
+  }
+}
@@ -4,7 +4,7 @@ const chalk = require('chalk');
 const inquirer = require('inquirer');
 const importGlobal = require('import-global');
 const importFrom = require('import-from');
-const { DynamoDBModelTransformer } = require('graphql-dynamodb-transformer');
+const { DynamoDBModelTransformer, DefaultValueTransformer } = require('graphql-dynamodb-transformer');
 const { ModelAuthTransformer } = require('graphql-auth-transformer');
 const { ModelConnectionTransformer } = require('graphql-connection-transformer');
 const { SearchableModelTransformer } = require('graphql-elasticsearch-transformer');
@@ -13,6 +13,8 @@ const { FunctionTransformer } = require('graphql-function-transformer');
 const { HttpTransformer } = require('graphql-http-transformer');
 const { PredictionsTransformer } = require('graphql-predictions-transformer');
 const { KeyTransformer } = require('graphql-key-transformer');
+const { UniqueTransformer } = require('graphql-unique-transformer');
+const { ValidateTransformer } = require('graphql-validate-transformer');
 const providerName = require('./constants').ProviderName;
 const TransformPackage = require('graphql-transformer-core');
 const { print } = require('graphql');
@@ -51,10 +53,13 @@ function getTransformerFactory(context, resourceDir, authConfig) {
     const transformerList = [
       // TODO: Removing until further discussion. `getTransformerOptions(project, '@model')`
       new DynamoDBModelTransformer(),
+      new DefaultValueTransformer(),
       new VersionedModelTransformer(),
       new FunctionTransformer(),
       new HttpTransformer(),
       new KeyTransformer(),
+      new UniqueTransformer(),
+      new ValidateTransformer(),
       new ModelConnectionTransformer(),
       new PredictionsTransformer(storageConfig),
     ];
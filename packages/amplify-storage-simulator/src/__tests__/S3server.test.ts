@@ -3,6 +3,13 @@ import * as AWS from 'aws-sdk';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as request from 'request';
+import { createHash } from 'crypto';
+
+// the reads and deletes of the objects can be made to fail
+jest.mock('fs-extra', () => {
+  const fs = jest.requireActual('fs-extra');
+  return { ...fs, readFile: jest.fn(fs.readFile), unlink: jest.fn(fs.unlink) };
+});
 
 let port = 20005; // for testing
 let route = '/mock-testing';
@@ -39,6 +46,7 @@ afterAll(async () => {
   if (simulator) {
     await simulator.stop();
   }
+  fs.removeSync(path.join(localDirS3, '.amplify-storage-metadata'));
 });
 
 /**
@@ -119,6 +127,677 @@ describe('Test list api', () => {
   });
 });
 
+describe('Test list objects v2', () => {
+  // keys in the order S3 lists them, '+' sorts before '/'
+  const keys = ['list/a.txt', 'list/b+c/e.txt', 'list/b/c.txt', 'list/b/d.txt', 'list/photos 2020/f.jpg', 'list/z.txt'];
+
+  beforeAll(() => {
+    keys.forEach(key => fs.outputFileSync(path.join(localDirS3, key), key));
+  });
+
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'list'));
+  });
+
+  const getKeys = response => response.Contents.map(content => content.Key);
+  const getPrefixes = response => response.CommonPrefixes.map(commonPrefix => commonPrefix.Prefix);
+
+  test('lists the keys in lexicographic order', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/' }).promise();
+    expect(getKeys(response)).toEqual(keys);
+    expect(response).toMatchObject({ Name: bucket, Prefix: 'list/', KeyCount: 6, MaxKeys: 1000, IsTruncated: false });
+    expect(response.NextContinuationToken).toBeUndefined();
+  });
+
+  test('lists the whole bucket without a prefix', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket }).promise();
+    expect(getKeys(response)).toEqual(expect.arrayContaining(['2.png', 'normal/2.png', ...keys]));
+    expect(getKeys(response).some(key => key.startsWith('.amplify-storage-metadata'))).toBeFalsy();
+  });
+
+  test('pages with continuation tokens', async () => {
+    const listed = [];
+    let response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/', MaxKeys: 4 }).promise();
+    expect(response).toMatchObject({ KeyCount: 4, IsTruncated: true });
+    listed.push(...getKeys(response));
+    response = await s3client
+      .listObjectsV2({ Bucket: bucket, Prefix: 'list/', MaxKeys: 4, ContinuationToken: response.NextContinuationToken })
+      .promise();
+    expect(response).toMatchObject({ KeyCount: 2, IsTruncated: false });
+    expect(response.ContinuationToken).toBeDefined();
+    listed.push(...getKeys(response));
+    expect(listed).toEqual(keys);
+  });
+
+  test('starts after the given key', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/', StartAfter: 'list/b/c.txt' }).promise();
+    expect(getKeys(response)).toEqual(['list/b/d.txt', 'list/photos 2020/f.jpg', 'list/z.txt']);
+    expect(response.StartAfter).toEqual('list/b/c.txt');
+  });
+
+  test('rolls up the keys containing the delimiter into common prefixes', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/', Delimiter: '/' }).promise();
+    expect(getKeys(response)).toEqual(['list/a.txt', 'list/z.txt']);
+    expect(getPrefixes(response)).toEqual(['list/b+c/', 'list/b/', 'list/photos 2020/']);
+    expect(response).toMatchObject({ Delimiter: '/', KeyCount: 5 });
+  });
+
+  test('counts the common prefixes in the pages', async () => {
+    const pages = [];
+    let response;
+    do {
+      response = await s3client
+        .listObjectsV2({
+          Bucket: bucket,
+          Prefix: 'list/',
+          Delimiter: '/',
+          MaxKeys: 2,
+          ContinuationToken: response ? response.NextContinuationToken : undefined,
+        })
+        .promise();
+      pages.push([...getKeys(response), ...getPrefixes(response)]);
+    } while (response.IsTruncated);
+    expect(pages).toEqual([['list/a.txt', 'list/b+c/'], ['list/b/', 'list/photos 2020/'], ['list/z.txt']]);
+  });
+
+  test('supports delimiters other than a slash', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/b', Delimiter: 'c' }).promise();
+    expect(getKeys(response)).toEqual(['list/b/d.txt']);
+    expect(getPrefixes(response)).toEqual(['list/b+c', 'list/b/c']);
+  });
+
+  test('url encodes the keys', async () => {
+    const response = await s3client.listObjectsV2({ Bucket: bucket, Prefix: 'list/', Delimiter: '/', EncodingType: 'url' }).promise();
+    expect(response.EncodingType).toEqual('url');
+    expect(getPrefixes(response)).toEqual(['list/b%2Bc/', 'list/b/', 'list/photos+2020/']);
+  });
+
+  test('pages list objects v1 with markers', async () => {
+    const response = await s3client
+      .listObjects({ Bucket: bucket, Prefix: 'list/', Delimiter: '/', Marker: 'list/b/', MaxKeys: 1 })
+      .promise();
+    expect(getKeys(response)).toEqual([]);
+    expect(getPrefixes(response)).toEqual(['list/photos 2020/']);
+    expect(response).toMatchObject({ Marker: 'list/b/', IsTruncated: true, NextMarker: 'list/photos 2020/' });
+  });
+});
+
+describe('Test object metadata', () => {
+  const key = 'metadata/abc.txt';
+  const body = 'Helloworld1234';
+  const eTag = `"${createHash('md5')
+    .update(body)
+    .digest('hex')}"`;
+
+  beforeAll(async () => {
+    await s3client
+      .putObject({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: 'text/plain',
+        CacheControl: 'max-age=60',
+        Metadata: { owner: 'test-user' },
+        Tagging: 'project=mock&env=test',
+      })
+      .promise();
+  });
+
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'metadata'));
+  });
+
+  test('head object returns the metadata', async () => {
+    const data = await s3client.headObject({ Bucket: bucket, Key: key }).promise();
+    expect(data.ContentType).toEqual('text/plain');
+    expect(data.CacheControl).toEqual('max-age=60');
+    expect(data.ContentLength).toEqual(body.length);
+    expect(data.Metadata).toEqual({ owner: 'test-user' });
+    expect(data.ETag).toEqual(eTag);
+    expect(data.LastModified).toBeInstanceOf(Date);
+  });
+
+  test('get object returns the metadata', async () => {
+    const data = await s3client.getObject({ Bucket: bucket, Key: key }).promise();
+    expect(data.Body.toString()).toEqual(body);
+    expect(data.ContentType).toEqual('text/plain');
+    expect(data.Metadata).toEqual({ owner: 'test-user' });
+    expect(data.TagCount).toEqual(2);
+    expect(data.ETag).toEqual(eTag);
+  });
+
+  test('list objects returns the ETag', async () => {
+    const response = await s3client.listObjects({ Bucket: bucket, Prefix: 'metadata' }).promise();
+    expect(response.Contents.map(content => content.Key)).toEqual([key]);
+    expect(response.Contents[0].ETag).toEqual(eTag);
+  });
+
+  test('conditional get', async () => {
+    await expect(s3client.getObject({ Bucket: bucket, Key: key, IfNoneMatch: eTag }).promise()).rejects.toMatchObject({
+      statusCode: 304,
+    });
+    await expect(s3client.getObject({ Bucket: bucket, Key: key, IfMatch: '"other"' }).promise()).rejects.toMatchObject({
+      code: 'PreconditionFailed',
+    });
+    await expect(
+      s3client.getObject({ Bucket: bucket, Key: key, IfModifiedSince: new Date(Date.now() + 60 * 1000) }).promise(),
+    ).rejects.toMatchObject({ statusCode: 304 });
+    const data = await s3client.getObject({ Bucket: bucket, Key: key, IfMatch: eTag, IfModifiedSince: new Date(0) }).promise();
+    expect(data.Body.toString()).toEqual(body);
+  });
+
+  test('head object of a missing key', async () => {
+    await expect(s3client.headObject({ Bucket: bucket, Key: 'metadata/missing.txt' }).promise()).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe('Test range requests', () => {
+  test('get a byte range', async () => {
+    const data = await s3client.getObject({ Bucket: bucket, Key: 'abc.txt', Range: 'bytes=0-4' }).promise();
+    expect(data.Body.toString()).toEqual('Hello');
+    expect(data.ContentRange).toEqual('bytes 0-4/14');
+    expect(data.ContentLength).toEqual(5);
+  });
+
+  test('get the last bytes', async () => {
+    const data = await s3client.getObject({ Bucket: bucket, Key: 'abc.txt', Range: 'bytes=-4' }).promise();
+    expect(data.Body.toString()).toEqual('1234');
+  });
+
+  test('range outside of the object', async () => {
+    await expect(s3client.getObject({ Bucket: bucket, Key: 'abc.txt', Range: 'bytes=100-' }).promise()).rejects.toMatchObject({
+      code: 'InvalidRange',
+      statusCode: 416,
+    });
+  });
+});
+
+describe('Test copy api', () => {
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'copy'));
+  });
+
+  test('copy object with its metadata', async () => {
+    const data = await s3client.copyObject({ Bucket: bucket, Key: 'copy/abc.txt', CopySource: `${bucket}/abc.txt` }).promise();
+    expect(data.CopyObjectResult.ETag).toBeDefined();
+    const copy = await s3client.getObject({ Bucket: bucket, Key: 'copy/abc.txt' }).promise();
+    expect(copy.Body.toString()).toEqual('Helloworld1234');
+    expect(copy.ETag).toEqual(data.CopyObjectResult.ETag);
+  });
+
+  test('copy object replacing its metadata', async () => {
+    await s3client
+      .copyObject({
+        Bucket: bucket,
+        Key: 'copy/replaced.txt',
+        CopySource: `/${bucket}/abc.txt`,
+        MetadataDirective: 'REPLACE',
+        ContentType: 'text/plain',
+        Metadata: { copied: 'true' },
+      })
+      .promise();
+    const data = await s3client.headObject({ Bucket: bucket, Key: 'copy/replaced.txt' }).promise();
+    expect(data.ContentType).toEqual('text/plain');
+    expect(data.Metadata).toEqual({ copied: 'true' });
+  });
+
+  test('copy a missing object', async () => {
+    await expect(
+      s3client.copyObject({ Bucket: bucket, Key: 'copy/missing.txt', CopySource: `${bucket}/missing.txt` }).promise(),
+    ).rejects.toMatchObject({ code: 'NoSuchKey' });
+  });
+
+  test('copy an object outside of the bucket', async () => {
+    await expect(
+      s3client.copyObject({ Bucket: bucket, Key: 'copy/outside.txt', CopySource: `${bucket}/../S3server.test.ts` }).promise(),
+    ).rejects.toMatchObject({ code: 'InvalidArgument', statusCode: 400 });
+    expect(fs.existsSync(path.join(localDirS3, 'copy/outside.txt'))).toBeFalsy();
+  });
+});
+
+describe('Test delete objects api', () => {
+  const dirPath = path.join(localDirS3, 'deleteMany');
+  beforeEach(() => {
+    fs.copySync(path.join(localDirS3, 'normal'), dirPath);
+    fs.copySync(path.join(localDirS3, 'abc.txt'), path.join(dirPath, 'abc.txt'));
+  });
+  afterEach(() => {
+    fs.removeSync(dirPath);
+  });
+
+  test('delete multiple objects', async () => {
+    const data = await s3client
+      .deleteObjects({ Bucket: bucket, Delete: { Objects: [{ Key: 'deleteMany/2.png' }, { Key: 'deleteMany/abc.txt' }] } })
+      .promise();
+    expect(data.Deleted.map(deleted => deleted.Key)).toEqual(['deleteMany/2.png', 'deleteMany/abc.txt']);
+    expect(fs.readdirSync(dirPath)).toEqual([]);
+  });
+
+  test('delete multiple objects in quiet mode', async () => {
+    const data = await s3client
+      .deleteObjects({ Bucket: bucket, Delete: { Objects: [{ Key: 'deleteMany/2.png' }], Quiet: true } })
+      .promise();
+    expect(data.Deleted).toEqual([]);
+    expect(fs.readdirSync(dirPath)).toEqual(['abc.txt']);
+  });
+
+  test('report the keys outside of the bucket', async () => {
+    const outsidePath = path.join(localDirS3, '../outside.txt');
+    fs.writeFileSync(outsidePath, 'outside');
+    try {
+      const data = await s3client
+        .deleteObjects({ Bucket: bucket, Delete: { Objects: [{ Key: '../outside.txt' }, { Key: 'deleteMany/../deleteMany/abc.txt' }] } })
+        .promise();
+      expect(data.Deleted.map(deleted => deleted.Key)).toEqual(['deleteMany/../deleteMany/abc.txt']);
+      expect(data.Errors).toEqual([{ Key: '../outside.txt', Code: 'InvalidArgument', Message: 'Invalid key' }]);
+      expect(fs.existsSync(outsidePath)).toBeTruthy();
+      expect(fs.readdirSync(dirPath)).toEqual(['2.png']);
+    } finally {
+      fs.removeSync(outsidePath);
+    }
+  });
+
+  test('reject objects without a key', async () => {
+    const response: any = await new Promise((resolve, reject) =>
+      request.post({ url: `http://localhost:${port}${route}?delete`, body: '<Delete><Object/></Delete>' }, (err, res) =>
+        err ? reject(err) : resolve(res),
+      ),
+    );
+    expect(response.statusCode).toEqual(400);
+    expect(response.body).toContain('<Code>MalformedXML</Code>');
+    expect(fs.readdirSync(dirPath)).toEqual(['2.png', 'abc.txt']);
+  });
+});
+
+describe('Test multipart upload api', () => {
+  const key = 'multipart/abc.txt';
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'multipart'));
+  });
+
+  test('list parts and abort the upload', async () => {
+    const { UploadId } = await s3client.createMultipartUpload({ Bucket: bucket, Key: key }).promise();
+    const part1 = await s3client.uploadPart({ Bucket: bucket, Key: key, UploadId, PartNumber: 1, Body: 'Hello' }).promise();
+    await s3client.uploadPart({ Bucket: bucket, Key: key, UploadId, PartNumber: 2, Body: 'world1234' }).promise();
+
+    const data = await s3client.listParts({ Bucket: bucket, Key: key, UploadId }).promise();
+    expect(data.UploadId).toEqual(UploadId);
+    expect(data.Parts.map(part => [part.PartNumber, part.Size])).toEqual([
+      [1, 5],
+      [2, 9],
+    ]);
+    expect(data.Parts[0].ETag).toEqual(part1.ETag);
+
+    const page = await s3client.listParts({ Bucket: bucket, Key: key, UploadId, MaxParts: 1 }).promise();
+    expect(page.IsTruncated).toEqual(true);
+    expect(page.NextPartNumberMarker).toEqual(1);
+
+    await s3client.abortMultipartUpload({ Bucket: bucket, Key: key, UploadId }).promise();
+    await expect(s3client.listParts({ Bucket: bucket, Key: key, UploadId }).promise()).rejects.toMatchObject({ code: 'NoSuchUpload' });
+    expect(fs.existsSync(path.join(localDirS3, key))).toEqual(false);
+  });
+});
+
+describe('Test access levels', () => {
+  const authPort = 20006;
+  const bucketArn = `arn:aws:s3:::${bucket}`;
+  // the policies amplify-category-storage creates for the auth and guest roles
+  const rolePolicies = [
+    {
+      roles: ['authRole'],
+      policyDocument: {
+        Statement: [
+          {
+            Effect: 'Allow' as const,
+            Action: ['s3:PutObject', 's3:GetObject', 's3:DeleteObject'],
+            Resource: [
+              `${bucketArn}/public/*`,
+              `${bucketArn}/protected/\${cognito-identity.amazonaws.com:sub}/*`,
+              `${bucketArn}/private/\${cognito-identity.amazonaws.com:sub}/*`,
+            ],
+          },
+          { Effect: 'Allow' as const, Action: ['s3:GetObject'], Resource: [`${bucketArn}/protected/*`] },
+          {
+            Effect: 'Allow' as const,
+            Action: ['s3:ListBucket'],
+            Resource: [bucketArn],
+            Condition: {
+              StringLike: {
+                's3:prefix': [
+                  'public/',
+                  'public/*',
+                  'protected/',
+                  'protected/*',
+                  'private/${cognito-identity.amazonaws.com:sub}/',
+                  'private/${cognito-identity.amazonaws.com:sub}/*',
+                ],
+              },
+            },
+          },
+        ],
+      },
+    },
+    {
+      roles: ['unAuthRole'],
+      policyDocument: {
+        Statement: [{ Effect: 'Allow' as const, Action: ['s3:GetObject'], Resource: [`${bucketArn}/public/*`] }],
+      },
+    },
+  ];
+  const credentials = [
+    { accessKeyId: 'AKIDUSER1', secretAccessKey: 'user1-secret', cognitoIdentityId: 'us-east-1:user1' },
+    { accessKeyId: 'AKIDUSER2', secretAccessKey: 'user2-secret', cognitoIdentityId: 'us-east-1:user2' },
+    { accessKeyId: 'AKIDGUEST', secretAccessKey: 'guest-secret', identityType: 'unauthenticated' as const },
+  ];
+  let authSimulator;
+
+  const getClient = (accessKeyId: string, secretAccessKey: string, options: AWS.S3.ClientConfiguration = {}) =>
+    new AWS.S3({
+      apiVersion: '2006-03-01',
+      endpoint: `http://localhost:${authPort}`,
+      s3BucketEndpoint: true,
+      sslEnabled: false,
+      s3ForcePathStyle: true,
+      signatureVersion: 'v4',
+      accessKeyId,
+      secretAccessKey,
+      ...options,
+    });
+  const requestUrl = (method: 'GET' | 'PUT', url: string, body?: string): Promise<any> =>
+    new Promise((resolve, reject) => request[method.toLowerCase()]({ url, body }, (err, res) => (err ? reject(err) : resolve(res))));
+  const user1 = getClient('AKIDUSER1', 'user1-secret');
+  const user2 = getClient('AKIDUSER2', 'user2-secret');
+  const guest = getClient('AKIDGUEST', 'guest-secret');
+
+  beforeAll(async () => {
+    authSimulator = new AmplifyStorageSimulator({ port: authPort, route, localDirS3, auth: { credentials, rolePolicies } });
+    await authSimulator.start();
+  });
+
+  afterAll(async () => {
+    await authSimulator.stop();
+    ['public', 'protected', 'private'].forEach(directory => fs.removeSync(path.join(localDirS3, directory)));
+  });
+
+  test('rejects unsigned requests', async () => {
+    const response: any = await new Promise((resolve, reject) =>
+      request.get(`http://localhost:${authPort}${route}/public/abc.txt`, (err, res) => (err ? reject(err) : resolve(res))),
+    );
+    expect(response.statusCode).toEqual(403);
+    expect(response.body).toContain('<Code>AccessDenied</Code>');
+  });
+
+  test('rejects unknown credentials and invalid signatures', async () => {
+    await expect(
+      getClient('AKIDOTHER', 'user1-secret')
+        .getObject({ Bucket: bucket, Key: 'public/abc.txt' })
+        .promise(),
+    ).rejects.toMatchObject({
+      code: 'InvalidAccessKeyId',
+    });
+    await expect(
+      getClient('AKIDUSER1', 'other-secret')
+        .getObject({ Bucket: bucket, Key: 'public/abc.txt' })
+        .promise(),
+    ).rejects.toMatchObject({
+      code: 'SignatureDoesNotMatch',
+    });
+  });
+
+  test('allows users to access their own private and protected objects', async () => {
+    await user1.putObject({ Bucket: bucket, Key: 'private/us-east-1:user1/abc.txt', Body: 'private' }).promise();
+    await user1.putObject({ Bucket: bucket, Key: 'protected/us-east-1:user1/abc.txt', Body: 'protected' }).promise();
+    const data = await user1.getObject({ Bucket: bucket, Key: 'private/us-east-1:user1/abc.txt' }).promise();
+    expect(data.Body.toString()).toEqual('private');
+    const list = await user1.listObjectsV2({ Bucket: bucket, Prefix: 'private/us-east-1:user1/' }).promise();
+    expect(list.Contents.map(content => content.Key)).toEqual(['private/us-east-1:user1/abc.txt']);
+  });
+
+  test('denies access to the private objects of other users', async () => {
+    await expect(user2.getObject({ Bucket: bucket, Key: 'private/us-east-1:user1/abc.txt' }).promise()).rejects.toMatchObject({
+      code: 'AccessDenied',
+      statusCode: 403,
+    });
+    await expect(user2.listObjectsV2({ Bucket: bucket, Prefix: 'private/' }).promise()).rejects.toMatchObject({ code: 'AccessDenied' });
+    const data = await user2.getObject({ Bucket: bucket, Key: 'protected/us-east-1:user1/abc.txt' }).promise();
+    expect(data.Body.toString()).toEqual('protected');
+    await expect(
+      user2.putObject({ Bucket: bucket, Key: 'protected/us-east-1:user1/abc.txt', Body: 'overwritten' }).promise(),
+    ).rejects.toMatchObject({ code: 'AccessDenied' });
+  });
+
+  test('allows guests to read public objects only', async () => {
+    await user1.putObject({ Bucket: bucket, Key: 'public/abc.txt', Body: 'public' }).promise();
+    const data = await guest.getObject({ Bucket: bucket, Key: 'public/abc.txt' }).promise();
+    expect(data.Body.toString()).toEqual('public');
+    await expect(guest.putObject({ Bucket: bucket, Key: 'public/guest.txt', Body: 'guest' }).promise()).rejects.toMatchObject({
+      code: 'AccessDenied',
+    });
+    await expect(guest.getObject({ Bucket: bucket, Key: 'protected/us-east-1:user1/abc.txt' }).promise()).rejects.toMatchObject({
+      code: 'AccessDenied',
+    });
+  });
+
+  test('reports the keys that can not be deleted', async () => {
+    const data = await user2
+      .deleteObjects({
+        Bucket: bucket,
+        Delete: { Objects: [{ Key: 'public/abc.txt' }, { Key: 'private/us-east-1:user1/abc.txt' }] },
+      })
+      .promise();
+    expect(data.Deleted.map(deleted => deleted.Key)).toEqual(['public/abc.txt']);
+    expect(data.Errors).toEqual([{ Key: 'private/us-east-1:user1/abc.txt', Code: 'AccessDenied', Message: 'Access Denied' }]);
+    expect(fs.existsSync(path.join(localDirS3, 'private/us-east-1:user1/abc.txt'))).toBeTruthy();
+  });
+
+  test('authorizes the normalized keys', async () => {
+    await expect(
+      user2
+        .copyObject({ Bucket: bucket, Key: 'public/copy.txt', CopySource: `${bucket}/public/../private/us-east-1:user1/abc.txt` })
+        .promise(),
+    ).rejects.toMatchObject({ code: 'AccessDenied' });
+    const data = await user2
+      .deleteObjects({ Bucket: bucket, Delete: { Objects: [{ Key: 'public/../private/us-east-1:user1/abc.txt' }] } })
+      .promise();
+    expect(data.Errors).toEqual([{ Key: 'public/../private/us-east-1:user1/abc.txt', Code: 'AccessDenied', Message: 'Access Denied' }]);
+    for (const Key of ['public/../private/us-east-1:user1/abc.txt', 'protected/us-east-1:user2/../../private/us-east-1:user1/abc.txt']) {
+      await expect(user2.getObject({ Bucket: bucket, Key }).promise()).rejects.toMatchObject({ code: 'AccessDenied' });
+      await expect(user2.putObject({ Bucket: bucket, Key, Body: 'overwritten' }).promise()).rejects.toMatchObject({ code: 'AccessDenied' });
+      await expect(user2.deleteObject({ Bucket: bucket, Key }).promise()).rejects.toMatchObject({ code: 'AccessDenied' });
+    }
+    expect(fs.readFileSync(path.join(localDirS3, 'private/us-east-1:user1/abc.txt')).toString()).toEqual('private');
+  });
+
+  test('accepts presigned urls for get and put', async () => {
+    const putUrl = user1.getSignedUrl('putObject', { Bucket: bucket, Key: 'protected/us-east-1:user1/shared.txt', Expires: 60 });
+    expect((await requestUrl('PUT', putUrl, 'shared')).statusCode).toEqual(200);
+    const getUrl = user1.getSignedUrl('getObject', { Bucket: bucket, Key: 'protected/us-east-1:user1/shared.txt', Expires: 60 });
+    const response = await requestUrl('GET', getUrl);
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toEqual('shared');
+  });
+
+  test('applies the policies of the signer to presigned urls', async () => {
+    const url = user2.getSignedUrl('getObject', { Bucket: bucket, Key: 'private/us-east-1:user1/abc.txt', Expires: 60 });
+    const response = await requestUrl('GET', url);
+    expect(response.statusCode).toEqual(403);
+    expect(response.body).toContain('<Code>AccessDenied</Code>');
+  });
+
+  test('rejects tampered presigned urls', async () => {
+    const url = user1.getSignedUrl('getObject', { Bucket: bucket, Key: 'protected/us-east-1:user1/shared.txt', Expires: 60 });
+    const tamperedKey = await requestUrl('GET', url.replace('shared.txt', 'abc.txt'));
+    expect(tamperedKey.statusCode).toEqual(403);
+    expect(tamperedKey.body).toContain('<Code>SignatureDoesNotMatch</Code>');
+    const tamperedExpiry = await requestUrl('GET', url.replace('X-Amz-Expires=60', 'X-Amz-Expires=3600'));
+    expect(tamperedExpiry.body).toContain('<Code>SignatureDoesNotMatch</Code>');
+    const missingSignature = await requestUrl('GET', url.replace(/&X-Amz-Signature=[0-9a-f]+/, ''));
+    expect(missingSignature.statusCode).toEqual(400);
+    expect(missingSignature.body).toContain('<Code>AuthorizationQueryParametersError</Code>');
+  });
+
+  test('rejects expired presigned urls', async () => {
+    const client = getClient('AKIDUSER1', 'user1-secret', { systemClockOffset: -2 * 60 * 60 * 1000 });
+    const url = client.getSignedUrl('getObject', { Bucket: bucket, Key: 'protected/us-east-1:user1/shared.txt', Expires: 3600 });
+    const response = await requestUrl('GET', url);
+    expect(response.statusCode).toEqual(403);
+    expect(response.body).toContain('<Code>AccessDenied</Code>');
+    expect(response.body).toContain('<Message>Request has expired</Message>');
+  });
+
+  test('rejects urls with malformed percent-encoding', async () => {
+    const response = await requestUrl('GET', `http://localhost:${authPort}${route}/public/abc.txt?X-Amz-Algorithm=%E0%A4%A`);
+    expect(response.statusCode).toEqual(400);
+    expect(response.body).toContain('<Code>InvalidURI</Code>');
+  });
+});
+
+describe('Test presigned urls without credentials', () => {
+  const getClient = (options: AWS.S3.ClientConfiguration = {}) =>
+    new AWS.S3({
+      apiVersion: '2006-03-01',
+      endpoint: `http://localhost:${port}`,
+      s3BucketEndpoint: true,
+      sslEnabled: false,
+      s3ForcePathStyle: true,
+      signatureVersion: 'v4',
+      ...options,
+    });
+  const get = (url: string): Promise<any> =>
+    new Promise((resolve, reject) => request.get(url, (err, res) => (err ? reject(err) : resolve(res))));
+
+  beforeAll(async () => {
+    await s3client.putObject({ Bucket: bucket, Key: 'presigned/abc.txt', Body: 'presigned' }).promise();
+  });
+
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'presigned'));
+  });
+
+  test('serves presigned urls that have not expired', async () => {
+    const response = await get(getClient().getSignedUrl('getObject', { Bucket: bucket, Key: 'presigned/abc.txt', Expires: 60 }));
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toEqual('presigned');
+  });
+
+  test('rejects expired presigned urls', async () => {
+    const client = getClient({ systemClockOffset: -2 * 60 * 60 * 1000 });
+    const response = await get(client.getSignedUrl('getObject', { Bucket: bucket, Key: 'presigned/abc.txt', Expires: 3600 }));
+    expect(response.statusCode).toEqual(403);
+    expect(response.body).toContain('<Message>Request has expired</Message>');
+  });
+
+  test('rejects presigned urls valid for more than a week', async () => {
+    const url = getClient().getSignedUrl('getObject', { Bucket: bucket, Key: 'presigned/abc.txt', Expires: 60 });
+    const response = await get(url.replace('X-Amz-Expires=60', 'X-Amz-Expires=604801'));
+    expect(response.statusCode).toEqual(400);
+    expect(response.body).toContain('<Code>AuthorizationQueryParametersError</Code>');
+  });
+
+  test('rejects presigned urls with malformed percent-encoding', async () => {
+    const response = await get(`http://localhost:${port}${route}/presigned/abc.txt?X-Amz-Algorithm=%E0%A4%A`);
+    expect(response.statusCode).toEqual(400);
+    expect(response.body).toContain('<Code>InvalidURI</Code>');
+  });
+});
+
+describe('Test event notifications', () => {
+  let events = [];
+  const listener = event => events.push(...event.Records);
+
+  beforeAll(() => {
+    simulator.getServer.on('event', listener);
+  });
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  afterAll(() => {
+    simulator.getServer.removeListener('event', listener);
+    fs.removeSync(path.join(localDirS3, 'events'));
+  });
+
+  test('put emits an ObjectCreated:Put event with the size and ETag of the object', async () => {
+    const { ETag } = await s3client.putObject({ Bucket: bucket, Key: 'events/my file.txt', Body: 'Helloworld1234' }).promise();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventVersion: '2.1',
+      eventSource: 'aws:s3',
+      eventName: 'ObjectCreated:Put',
+      userIdentity: { principalId: 'Anonymous' },
+      s3: {
+        bucket: { name: bucket, arn: `arn:aws:s3:::${bucket}` },
+        object: { key: 'events/my+file.txt', size: 14, eTag: ETag.replace(/"/g, '') },
+      },
+    });
+  });
+
+  test('copy emits an ObjectCreated:Copy event', async () => {
+    await s3client.putObject({ Bucket: bucket, Key: 'events/source.txt', Body: 'source' }).promise();
+    await s3client.copyObject({ Bucket: bucket, Key: 'events/copy.txt', CopySource: `${bucket}/events/source.txt` }).promise();
+    expect(events.map(event => event.eventName)).toEqual(['ObjectCreated:Put', 'ObjectCreated:Copy']);
+    expect(events[1].s3.object.key).toEqual('events/copy.txt');
+  });
+
+  test('multipart uploads emit a single ObjectCreated:CompleteMultipartUpload event', async () => {
+    await s3client
+      .upload({ Bucket: bucket, Key: 'events/large.bin', Body: Buffer.alloc(6 * 1024 * 1024) }, { partSize: 5 * 1024 * 1024 })
+      .promise();
+    expect(events.map(event => event.eventName)).toEqual(['ObjectCreated:CompleteMultipartUpload']);
+    expect(events[0].s3.object.size).toEqual(6 * 1024 * 1024);
+    expect(events[0].s3.object.eTag).toMatch(/-2$/);
+  });
+
+  test('delete emits an ObjectRemoved:Delete event without size and ETag', async () => {
+    await s3client.putObject({ Bucket: bucket, Key: 'events/deleted.txt', Body: 'deleted' }).promise();
+    await s3client.deleteObject({ Bucket: bucket, Key: 'events/deleted.txt' }).promise();
+    await s3client.deleteObject({ Bucket: bucket, Key: 'events/missing.txt' }).promise();
+    expect(events.map(event => event.eventName)).toEqual(['ObjectCreated:Put', 'ObjectRemoved:Delete']);
+    expect(events[1].s3.object).toEqual({ key: 'events/deleted.txt', sequencer: expect.any(String) });
+    expect(events[1].s3.object.sequencer > events[0].s3.object.sequencer).toBeTruthy();
+  });
+});
+
+describe('Test I/O errors', () => {
+  const ioError = Object.assign(new Error('EIO: i/o error'), { code: 'EIO' });
+  const actualFs = jest.requireActual('fs-extra');
+
+  beforeAll(async () => {
+    await s3client.putObject({ Bucket: bucket, Key: 'io/abc.txt', Body: 'Helloworld1234', ContentType: 'text/plain' }).promise();
+  });
+
+  afterEach(() => {
+    ((fs.readFile as unknown) as jest.Mock).mockImplementation(actualFs.readFile);
+    ((fs.unlink as unknown) as jest.Mock).mockImplementation(actualFs.unlink);
+  });
+
+  afterAll(() => {
+    fs.removeSync(path.join(localDirS3, 'io'));
+  });
+
+  test('get answers read errors with an InternalError', async () => {
+    ((fs.readFile as unknown) as jest.Mock).mockImplementation((file, callback) => callback(ioError));
+    await expect(s3client.getObject({ Bucket: bucket, Key: 'io/abc.txt' }).promise()).rejects.toMatchObject({
+      code: 'InternalError',
+      statusCode: 500,
+    });
+  });
+
+  test('delete answers unlink errors with an InternalError', async () => {
+    ((fs.unlink as unknown) as jest.Mock).mockImplementation((file, callback) => callback(ioError));
+    await expect(s3client.deleteObject({ Bucket: bucket, Key: 'io/abc.txt' }).promise()).rejects.toMatchObject({
+      code: 'InternalError',
+      statusCode: 500,
+    });
+    expect(fs.existsSync(path.join(localDirS3, 'io/abc.txt'))).toBeTruthy();
+    // the object keeps its metadata
+    expect((await s3client.headObject({ Bucket: bucket, Key: 'io/abc.txt' }).promise()).ContentType).toEqual('text/plain');
+  });
+});
+
 describe('Test delete api', () => {
   const dirPathOne = __dirname + '/test-data/deleteOne';
   beforeEach(() => {
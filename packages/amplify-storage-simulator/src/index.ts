@@ -1,14 +1,59 @@
 import { StorageServer } from './server/S3server';
 
+export { AUTH_ROLE_NAME, UNAUTH_ROLE_NAME } from './server/auth';
+export { S3Event, S3EventName, S3EventRecord } from './server/events';
+
 export interface StorageSimulatorDataSourceBaseConfig {
   name: string;
   type: string;
 }
 
+export type StorageSimulatorIAMCredentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  // identities of signed in users assume the auth role, guests the unauth role
+  identityType?: 'authenticated' | 'unauthenticated';
+  // defaults to authRole or unAuthRole based on the identityType
+  roleName?: string;
+  cognitoIdentityId?: string;
+  cognitoIdentityPoolId?: string;
+};
+
+export type StorageSimulatorIAMPolicyStatement = {
+  Sid?: string;
+  Effect: 'Allow' | 'Deny';
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  NotResource?: string | string[];
+  // condition operator, i.e. StringLike, to the values of the condition keys
+  Condition?: Record<string, Record<string, string | string[]>>;
+};
+
+export type StorageSimulatorIAMPolicyDocument = {
+  Version?: string;
+  Statement: StorageSimulatorIAMPolicyStatement | StorageSimulatorIAMPolicyStatement[];
+};
+
+export type StorageSimulatorRolePolicy = {
+  roles: string[];
+  policyDocument: StorageSimulatorIAMPolicyDocument;
+};
+
+export type StorageSimulatorAuthConfig = {
+  // verify the Signature Version 4 of the requests against these credentials and evaluate the policies of their role
+  credentials: StorageSimulatorIAMCredentials[];
+  rolePolicies: StorageSimulatorRolePolicy[];
+};
+
 export type StorageSimulatorServerConfig = {
   port: number;
   route: string;
   localDirS3: string;
+  // region of the event notifications
+  region?: string;
+  // every request is allowed without an auth config
+  auth?: StorageSimulatorAuthConfig;
 };
 
 export class AmplifyStorageSimulator {
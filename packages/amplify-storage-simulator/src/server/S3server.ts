@@ -10,20 +10,66 @@ import serveStatic from 'serve-static';
 import * as glob from 'glob';
 import o2x from 'object-to-xml';
 import uuid from 'uuid';
-import etag from 'etag';
 import { EventEmitter } from 'events';
 
 import { StorageSimulatorServerConfig } from '../index';
 
 import * as util from './utils';
+import { authenticateRequest, authorizeRequest, checkPresignedUrl, RequestAuthorization, StorageAuthError } from './auth';
+import { createEventRecord, S3EventName } from './events';
+import {
+  checkConditionalHeaders,
+  deleteMetadata,
+  getETag,
+  getMetadataFromHeaders,
+  getMultipartETag,
+  getObjectHeaders,
+  ObjectInfo,
+  ObjectMetadata,
+  readObjectInfo,
+  writeMetadata,
+} from './metadata';
 
 const LIST_CONTENT = 'Contents';
 const LIST_COMMOM_PREFIXES = 'CommonPrefixes';
 const EVENT_RECORDS = 'Records';
+const DEFAULT_REGION = 'local';
+const ANONYMOUS_PRINCIPAL_ID = 'Anonymous';
+const MAX_PARTS = 1000;
+const MAX_KEYS = 1000;
+
+type MultipartUploadInfo = {
+  key: string;
+  // metadata sent when the upload is created
+  metadata: ObjectMetadata;
+  parts: {
+    [partNumber: string]: {
+      eTag: string;
+      size: number;
+      lastModified: Date;
+    };
+  };
+};
 
 var corsOptions = {
   maxAge: 20000,
-  exposedHeaders: ['x-amz-server-side-encryption', 'x-amz-request-id', 'x-amz-id-2', 'ETag'],
+  exposedHeaders: [
+    'x-amz-server-side-encryption',
+    'x-amz-request-id',
+    'x-amz-id-2',
+    'ETag',
+    'Content-Length',
+    'Content-Type',
+    'Last-Modified',
+    'Cache-Control',
+    'Content-Disposition',
+    'Content-Encoding',
+    'Content-Language',
+    'Expires',
+    'x-amz-tagging-count',
+    'Accept-Ranges',
+    'Content-Range',
+  ],
 };
 export class StorageServer extends EventEmitter {
   private app;
@@ -37,6 +83,9 @@ export class StorageServer extends EventEmitter {
       [key: string]: Buffer;
     };
   }; // object to store parts of a big file
+  private upload_infoMap: {
+    [key: string]: MultipartUploadInfo;
+  }; // key, metadata and parts of the multipart uploads
 
   private localDirectoryPath: string;
 
@@ -45,12 +94,19 @@ export class StorageServer extends EventEmitter {
     this.localDirectoryPath = config.localDirS3;
     this.app = express();
     this.app.use(cors(corsOptions));
-    this.app.use(bodyParser.raw({ limit: '100mb', type: '*/*' }));
-    this.app.use(serveStatic(this.localDirectoryPath), this.handleRequestAll.bind(this));
+    // uploads to presigned urls don't necessarily send a content type
+    this.app.use(bodyParser.raw({ limit: '100mb', type: () => true }));
+    if (config.auth) {
+      // objects can't be served as static files when the requests have to be authorized
+      this.app.use(this.handleRequestAll.bind(this));
+    } else {
+      this.app.use(this.handlePresignedUrl.bind(this), serveStatic(this.localDirectoryPath), this.handleRequestAll.bind(this));
+    }
 
     this.server = null;
     this.route = config.route;
     this.upload_bufferMap = {};
+    this.upload_infoMap = {};
   }
 
   start() {
@@ -74,47 +130,144 @@ export class StorageServer extends EventEmitter {
       this.connection = null;
       this.uploadIds = null;
       this.upload_bufferMap = null;
+      this.upload_infoMap = null;
     }
   }
 
+  // without credentials the signature of presigned URLs can't be verified, but expired ones are still rejected
+  private handlePresignedUrl(request, response, next) {
+    try {
+      checkPresignedUrl(request);
+    } catch (e) {
+      this.sendRequestError(response, e);
+      return;
+    }
+    next();
+  }
+
   private async handleRequestAll(request, response) {
+    // the signature is verified against the url as it was sent, before it is parsed
+    let authorization: RequestAuthorization;
+    if (this.config.auth) {
+      try {
+        authorization = authenticateRequest(request, this.bucketName, this.config.auth);
+      } catch (e) {
+        this.sendRequestError(response, e);
+        return;
+      }
+    }
+
+    try {
+      await this.routeRequest(request, response, authorization);
+    } catch (e) {
+      if (!response.headersSent) {
+        this.sendRequestError(response, e);
+      }
+    }
+  }
+
+  private async routeRequest(request, response, authorization: RequestAuthorization | undefined) {
     // parsing the path and the request parameters
     util.parseUrl(request, this.route);
+    if (request.method !== 'LIST' && request.params.path) {
+      // the request is authorized and handled with the key its path resolves to in the bucket directory
+      const key = util.resolveKey(this.localDirectoryPath, request.params.path);
+      if (key === undefined) {
+        this.sendError(response, 400, 'InvalidURI', "Couldn't parse the specified URI.");
+        return;
+      }
+      request.params.path = request.params.path.endsWith(path.sep) ? `${key}/` : key;
+    }
+
+    if (authorization) {
+      try {
+        authorizeRequest(request, authorization);
+      } catch (e) {
+        this.sendRequestError(response, e);
+        return;
+      }
+      request.authorization = authorization;
+    }
 
     // create eventObj for thr trigger
 
     if (request.method === 'PUT') {
-      this.handleRequestPut(request, response);
+      if (request.headers['x-amz-copy-source'] !== undefined) {
+        await this.handleRequestCopy(request, response);
+      } else {
+        await this.handleRequestPut(request, response);
+      }
     }
 
     if (request.method === 'POST') {
-      this.handleRequestPost(request, response);
+      if (request.query.delete !== undefined) {
+        await this.handleRequestDeleteObjects(request, response);
+      } else {
+        await this.handleRequestPost(request, response);
+      }
     }
 
     if (request.method === 'GET') {
-      this.handleRequestGet(request, response);
+      if (request.query.uploadId !== undefined) {
+        await this.handleRequestListParts(request, response);
+      } else {
+        await this.handleRequestGet(request, response);
+      }
+    }
+
+    if (request.method === 'HEAD') {
+      await this.handleRequestHead(request, response);
     }
 
     if (request.method === 'LIST') {
-      this.handleRequestList(request, response);
+      await this.handleRequestList(request, response);
     }
 
     if (request.method === 'DELETE') {
-      // emit event for delete
-      let eventObj = this.createEvent(request);
-      this.emit('event', eventObj);
-      this.handleRequestDelete(request, response);
+      if (request.query.uploadId !== undefined) {
+        await this.handleRequestAbortMultipartUpload(request, response);
+      } else {
+        await this.handleRequestDelete(request, response);
+      }
     }
   }
 
   private async handleRequestGet(request, response) {
     const filePath = path.normalize(path.join(this.localDirectoryPath, request.params.path));
     if (fs.existsSync(filePath) && !fs.statSync(filePath).isDirectory()) {
+      const objectInfo = readObjectInfo(this.localDirectoryPath, request.params.path);
+      const status = checkConditionalHeaders(request.headers, objectInfo);
+      if (status === 412) {
+        this.sendError(response, 412, 'PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+        return;
+      }
+      if (status === 304) {
+        this.sendNotModified(response, objectInfo);
+        return;
+      }
+      const range = util.parseRange(request.headers.range, objectInfo.size);
+      if (range === null) {
+        response.set('Content-Range', `bytes */${objectInfo.size}`);
+        this.sendError(response, 416, 'InvalidRange', 'The requested range is not satisfiable', {
+          RangeRequested: request.headers.range,
+          ActualObjectSize: objectInfo.size,
+        });
+        return;
+      }
       fs.readFile(filePath, (err, data) => {
         if (err) {
-          console.log('error');
+          this.sendRequestError(response, err);
+          return;
+        }
+        this.setObjectHeaders(response, objectInfo);
+        if (range) {
+          response.status(206);
+          response.set('Content-Range', `bytes ${range.start}-${range.end}/${objectInfo.size}`);
+          response.set('Content-Length', String(range.end - range.start + 1));
+          response.send(data.slice(range.start, range.end + 1));
+        } else {
+          response.send(data);
         }
-        response.send(data);
       });
     } else {
       // fixup the keyname for proper error message since it is normalized for the given platform
@@ -123,84 +276,115 @@ export class StorageServer extends EventEmitter {
       if (keyName.startsWith('/')) {
         keyName = keyName.slice(1);
       }
-      response.set('Content-Type', 'text/xml');
-      response.status(404);
-      response.send(
-        o2x({
-          '?xml version="1.0" encoding="utf-8"?': null,
-          Error: {
-            Code: 'NoSuchKey',
-            Message: 'The specified key does not exist.',
-            Key: keyName,
-            RequestId: '',
-            HostId: '',
-          },
-        }),
-      );
+      this.sendError(response, 404, 'NoSuchKey', 'The specified key does not exist.', { Key: keyName });
     }
   }
 
-  private async handleRequestList(request, response) {
-    let ListBucketResult = {};
-    ListBucketResult[LIST_CONTENT] = [];
-    ListBucketResult[LIST_COMMOM_PREFIXES] = [];
-
-    let maxKeys;
-    let prefix = request.query.prefix || '';
-    if (request.query.maxKeys !== undefined) {
-      maxKeys = Math.min(request.query.maxKeys, 1000);
+  // HEAD responses have the headers of the GET response without the body
+  private async handleRequestHead(request, response) {
+    const filePath = path.normalize(path.join(this.localDirectoryPath, request.params.path));
+    if (!request.params.path) {
+      // HeadBucket
+      response.status(200).end();
+    } else if (fs.existsSync(filePath) && !fs.statSync(filePath).isDirectory()) {
+      const objectInfo = readObjectInfo(this.localDirectoryPath, request.params.path);
+      const status = checkConditionalHeaders(request.headers, objectInfo);
+      if (status === 304) {
+        this.sendNotModified(response, objectInfo);
+        return;
+      }
+      if (status === 200) {
+        this.setObjectHeaders(response, objectInfo);
+      }
+      response.status(status).end();
     } else {
-      maxKeys = 1000;
+      response.status(404).end();
     }
-    let delimiter = request.query.delimiter || '';
-    let startAfter = request.query.startAfter || '';
-    let keyCount = 0;
-    // getting folders recursively
-    const dirPath = path.normalize(path.join(this.localDirectoryPath, request.params.path));
+  }
 
-    const files = glob.sync('**/*', {
-      cwd: dirPath,
-      absolute: true,
-    });
-    for (const file of files) {
-      // We have to normalize glob returned filenames to make sure deriving the keyname will work under every OS.
-      const normalizedFile = path.normalize(file);
-      // Remove directory portion, cut starting slash, replace backslash with slash.
-      let keyName = normalizedFile.replace(dirPath, '').replace(/\\/g, '/');
-      if (keyName.startsWith('/')) {
-        keyName = keyName.slice(1);
-      }
+  // ListObjects (V1) pages with marker, ListObjectsV2 (list-type=2) with continuation-token and start-after
+  private async handleRequestList(request, response) {
+    const isV2 = request.query['list-type'] === '2';
+    const prefix = request.query.prefix || '';
+    const delimiter = request.query.delimiter || '';
+    const encodingType = request.query['encoding-type'];
+    const encodeValue = encodingType === 'url' ? util.encodeKey : (value: string) => value;
+    const continuationToken = request.query['continuation-token'];
+    const startAfter = request.query['start-after'];
 
-      if (delimiter !== '' && util.checkfile(file, prefix, delimiter)) {
-        ListBucketResult[LIST_COMMOM_PREFIXES].push({
-          prefix: request.params.path + keyName,
+    let maxKeys = MAX_KEYS;
+    if (request.query['max-keys'] !== undefined) {
+      maxKeys = Number(request.query['max-keys']);
+      if (!Number.isInteger(maxKeys) || maxKeys < 0) {
+        this.sendError(response, 400, 'InvalidArgument', 'Provided max-keys not an integer or within integer range', {
+          ArgumentName: 'max-keys',
+          ArgumentValue: request.query['max-keys'],
         });
+        return;
       }
-      if (!fs.statSync(file).isDirectory()) {
-        if (keyCount === maxKeys) {
-          break;
-        }
+      maxKeys = Math.min(maxKeys, MAX_KEYS);
+    }
 
-        ListBucketResult[LIST_CONTENT].push({
-          Key: request.params.path + keyName,
-          LastModified: new Date(fs.statSync(file).mtime).toISOString(),
-          Size: fs.statSync(file).size,
-          ETag: etag(file),
-          StorageClass: 'STANDARD',
-        });
-        keyCount = keyCount + 1;
+    // the continuation token is the last key or common prefix of the previous page
+    let marker: string;
+    if (isV2) {
+      marker = continuationToken !== undefined ? Buffer.from(continuationToken, 'base64').toString() : startAfter || '';
+    } else {
+      marker = request.query.marker || '';
+    }
+
+    // the metadata directory is skipped as glob ignores dot files
+    const keys = glob.sync('**/*', { cwd: this.localDirectoryPath, nodir: true });
+    const entries = util.getListEntries(keys, prefix, delimiter).filter(entry => util.compareKeys(entry.key, marker) > 0);
+    const page = entries.slice(0, maxKeys);
+    const isTruncated = page.length < entries.length;
+
+    const ListBucketResult = {
+      Name: this.bucketName,
+      Prefix: encodeValue(prefix),
+    };
+    if (isV2) {
+      if (continuationToken !== undefined) {
+        ListBucketResult['ContinuationToken'] = continuationToken;
       }
+      if (startAfter !== undefined) {
+        ListBucketResult['StartAfter'] = encodeValue(startAfter);
+      }
+      ListBucketResult['KeyCount'] = page.length;
+    } else {
+      ListBucketResult['Marker'] = encodeValue(marker);
     }
-    ListBucketResult['Name'] = this.route.split('/')[1];
-    ListBucketResult['Prefix'] = request.query.prefix || '';
-    ListBucketResult['KeyCount'] = keyCount;
     ListBucketResult['MaxKeys'] = maxKeys;
-    ListBucketResult['Delimiter'] = delimiter;
-    if (keyCount === maxKeys) {
-      ListBucketResult['IsTruncated'] = true;
-    } else {
-      ListBucketResult['IsTruncated'] = false;
+    if (delimiter) {
+      ListBucketResult['Delimiter'] = encodeValue(delimiter);
+    }
+    if (encodingType !== undefined) {
+      ListBucketResult['EncodingType'] = encodingType;
+    }
+    ListBucketResult['IsTruncated'] = isTruncated;
+    if (isTruncated) {
+      const lastKey = page[page.length - 1].key;
+      if (isV2) {
+        ListBucketResult['NextContinuationToken'] = Buffer.from(lastKey).toString('base64');
+      } else {
+        // S3 only sends NextMarker with a delimiter, clients use the last key otherwise, which is the same value
+        ListBucketResult['NextMarker'] = encodeValue(lastKey);
+      }
     }
+    ListBucketResult[LIST_CONTENT] = page
+      .filter(entry => !entry.isCommonPrefix)
+      .map(entry => {
+        const objectInfo = readObjectInfo(this.localDirectoryPath, entry.key);
+        return {
+          Key: encodeValue(entry.key),
+          LastModified: objectInfo.lastModified.toISOString(),
+          Size: objectInfo.size,
+          ETag: objectInfo.eTag,
+          StorageClass: 'STANDARD',
+        };
+      });
+    ListBucketResult[LIST_COMMOM_PREFIXES] = page.filter(entry => entry.isCommonPrefix).map(entry => ({ Prefix: encodeValue(entry.key) }));
+
     response.set('Content-Type', 'text/xml');
     response.send(
       o2x({
@@ -212,30 +396,47 @@ export class StorageServer extends EventEmitter {
 
   private async handleRequestDelete(request, response) {
     const filePath = path.join(this.localDirectoryPath, request.params.path);
-    if (fs.existsSync(filePath)) {
+    if (fs.existsSync(filePath) && !fs.statSync(filePath).isDirectory()) {
       fs.unlink(filePath, err => {
-        if (err) throw err;
+        if (err) {
+          this.sendRequestError(response, err);
+          return;
+        }
+        deleteMetadata(this.localDirectoryPath, request.params.path);
+        this.emitEvent(request, 'ObjectRemoved:Delete');
         response.set('Content-Type', 'text/xml');
         response.send(xml(convert.json2xml(JSON.stringify(request.params.id + 'was deleted'))));
       });
     } else {
+      deleteMetadata(this.localDirectoryPath, request.params.path);
       response.sendStatus(204);
     }
   }
 
   private async handleRequestPut(request, response) {
     const directoryPath = path.normalize(path.join(String(this.localDirectoryPath), String(request.params.path)));
-    fs.ensureFileSync(directoryPath);
     // strip signature in android , returns same buffer for other clients
     var new_data = util.stripChunkSignature(request.body);
     // loading data in map for each part
     if (request.query.partNumber !== undefined) {
+      const uploadInfo = this.upload_infoMap[request.query.uploadId];
+      if (!uploadInfo) {
+        this.sendNoSuchUpload(request, response);
+        return;
+      }
+      const eTag = getETag(request.body);
       this.upload_bufferMap[request.query.uploadId][request.query.partNumber] = request.body;
+      uploadInfo.parts[request.query.partNumber] = { eTag, size: request.body.length, lastModified: new Date() };
+      response.set('ETag', eTag);
     } else {
+      const eTag = getETag(new_data);
+      // parts are kept in memory until the upload completes, only the object itself is written
+      fs.ensureFileSync(directoryPath);
       fs.writeFileSync(directoryPath, new_data);
-      // event trigger  to differentitiate between multipart and normal put
-      let eventObj = this.createEvent(request);
-      this.emit('event', eventObj);
+      writeMetadata(this.localDirectoryPath, request.params.path, getMetadataFromHeaders(request.headers, eTag));
+      response.set('ETag', eTag);
+      // parts of multipart uploads trigger the event once the upload completes
+      this.emitEvent(request, 'ObjectCreated:Put');
     }
     response.set('Content-Type', 'text/xml');
     response.send(xml(convert.json2xml(JSON.stringify('upload success'))));
@@ -247,6 +448,7 @@ export class StorageServer extends EventEmitter {
       let id = uuid();
       this.uploadIds.push(id);
       this.upload_bufferMap[id] = {};
+      this.upload_infoMap[id] = { key: request.params.path, metadata: getMetadataFromHeaders(request.headers, undefined), parts: {} };
       response.set('Content-Type', 'text/xml');
       response.send(
         o2x({
@@ -260,11 +462,18 @@ export class StorageServer extends EventEmitter {
       );
     } else if (this.uploadIds.includes(request.query.uploadId)) {
       let arr: Buffer[] = Object.values(this.upload_bufferMap[request.query.uploadId]); // store all the buffers  in an array
+      const objectMetadata = this.upload_infoMap[request.query.uploadId].metadata;
       delete this.upload_bufferMap[request.query.uploadId]; // clear the map with current requestID
+      delete this.upload_infoMap[request.query.uploadId];
 
       // remove the current upload ID
       this.uploadIds.splice(this.uploadIds.indexOf(request.query.uploadId), 1);
 
+      const eTag = getMultipartETag(arr);
+      fs.ensureFileSync(directoryPath);
+      fs.writeFileSync(directoryPath, Buffer.concat(arr));
+      writeMetadata(this.localDirectoryPath, request.params.path, { ...objectMetadata, eTag });
+
       response.set('Content-Type', 'text/xml');
       response.send(
         o2x({
@@ -273,23 +482,19 @@ export class StorageServer extends EventEmitter {
             Location: request.url,
             Bucket: this.route,
             Key: request.params.path,
-            Etag: etag(directoryPath),
+            Etag: eTag,
           },
         }),
       );
-      let buf = Buffer.concat(arr);
-      fs.writeFileSync(directoryPath, buf);
-      // event trigger for multipart post
-      let eventObj = this.createEvent(request);
-      this.emit('event', eventObj);
+      this.emitEvent(request, 'ObjectCreated:CompleteMultipartUpload');
     } else {
       const directoryPath = path.normalize(path.join(String(this.localDirectoryPath), String(request.params.path)));
       fs.ensureFileSync(directoryPath);
       var new_data = util.stripChunkSignature(request.body);
+      const eTag = getETag(new_data);
       fs.writeFileSync(directoryPath, new_data);
-      // event trigger for normal post
-      let eventObj = this.createEvent(request);
-      this.emit('event', eventObj);
+      writeMetadata(this.localDirectoryPath, request.params.path, getMetadataFromHeaders(request.headers, eTag));
+      this.emitEvent(request, 'ObjectCreated:Post');
       response.set('Content-Type', 'text/xml');
       response.send(
         o2x({
@@ -298,47 +503,263 @@ export class StorageServer extends EventEmitter {
             Location: request.url,
             Bucket: this.route,
             Key: request.params.path,
-            Etag: etag(directoryPath),
+            Etag: eTag,
           },
         }),
       );
     }
   }
-  // build eevent obj for s3 trigger
-  private createEvent(request) {
-    const filePath = path.normalize(path.join(this.localDirectoryPath, request.params.path));
-    let eventObj = {};
-    eventObj[EVENT_RECORDS] = [];
-
-    let event = {
-      eventVersion: '2.0',
-      eventSource: 'aws:s3',
-      awsRegion: 'local',
-      eventTime: new Date().toISOString(),
-      eventName: `ObjectCreated:${request.method}`,
+
+  private async handleRequestCopy(request, response) {
+    // the copy source is /bucket/key, with an optional version id
+    const copySource = decodeURIComponent(String(request.headers['x-amz-copy-source']).split('?')[0]).replace(/^\//, '');
+    const [sourceBucket, ...sourceKeyParts] = copySource.split('/');
+    if (sourceBucket !== this.bucketName) {
+      this.sendError(response, 404, 'NoSuchBucket', 'The specified bucket does not exist', { BucketName: sourceBucket });
+      return;
+    }
+    const sourceKey = util.resolveKey(this.localDirectoryPath, sourceKeyParts.join('/'));
+    if (sourceKey === undefined) {
+      this.sendError(response, 400, 'InvalidArgument', 'Copy Source must mention the source bucket and key: sourcebucket/sourcekey', {
+        ArgumentName: 'x-amz-copy-source',
+        ArgumentValue: request.headers['x-amz-copy-source'],
+      });
+      return;
+    }
+    if (request.authorization && !request.authorization.isAllowed('s3:GetObject', sourceKey)) {
+      this.sendError(response, 403, 'AccessDenied', 'Access Denied');
+      return;
+    }
+    const sourcePath = path.join(this.localDirectoryPath, sourceKey);
+    if (!fs.existsSync(sourcePath) || fs.statSync(sourcePath).isDirectory()) {
+      this.sendError(response, 404, 'NoSuchKey', 'The specified key does not exist.', { Key: sourceKey });
+      return;
+    }
+
+    const { size, lastModified, ...sourceMetadata } = readObjectInfo(this.localDirectoryPath, sourceKey);
+    // the copy source conditions have the semantics of the conditional headers of GET, but fail with 412
+    const conditionalHeaders = Object.entries(request.headers).reduce((headers, [name, value]) => {
+      return name.startsWith('x-amz-copy-source-if-') ? { ...headers, [name.replace('x-amz-copy-source-', '')]: value } : headers;
+    }, {});
+    if (checkConditionalHeaders(conditionalHeaders, { ...sourceMetadata, size, lastModified }) !== 200) {
+      this.sendError(response, 412, 'PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+      return;
+    }
+
+    const replaceMetadata = request.headers['x-amz-metadata-directive'] === 'REPLACE';
+    const replaceTagging = request.headers['x-amz-tagging-directive'] === 'REPLACE';
+    if (sourceKey === request.params.path.replace(/\\/g, '/') && !replaceMetadata) {
+      this.sendError(
+        response,
+        400,
+        'InvalidRequest',
+        "This copy request is illegal because it is trying to copy an object to itself without changing the object's metadata, storage class, website redirect location or encryption attributes.",
+      );
+      return;
+    }
+    const requestMetadata = getMetadataFromHeaders(request.headers, sourceMetadata.eTag);
+    const objectMetadata: ObjectMetadata = {
+      ...(replaceMetadata ? requestMetadata : sourceMetadata),
+      tagging: replaceTagging ? requestMetadata.tagging : sourceMetadata.tagging,
     };
 
-    let s3 = {
-      s3SchemaVersion: '1.0',
-      configurationId: 'testConfigRule',
-      bucket: {
-        name: String(this.route).substring(1),
-        ownerIdentity: {
-          principalId: 'A3NL1KOZZKExample',
+    const destinationPath = path.normalize(path.join(this.localDirectoryPath, request.params.path));
+    fs.copySync(sourcePath, destinationPath);
+    writeMetadata(this.localDirectoryPath, request.params.path, objectMetadata);
+    this.emitEvent(request, 'ObjectCreated:Copy');
+
+    response.set('Content-Type', 'text/xml');
+    response.send(
+      o2x({
+        '?xml version="1.0" encoding="utf-8"?': null,
+        CopyObjectResult: {
+          LastModified: fs.statSync(destinationPath).mtime.toISOString(),
+          ETag: objectMetadata.eTag,
         },
-        arn: `arn:aws:s3:::${String(this.route).substring(1)}`,
-      },
-      object: {
-        key: request.params.path,
-        size: fs.statSync(filePath).size,
-        eTag: etag(filePath),
-        versionId: '096fKKXTRTtl3on89fVO.nfljtsv6qko',
-      },
-    };
-    eventObj[EVENT_RECORDS].push({
-      event,
-      s3,
+      }),
+    );
+  }
+
+  private async handleRequestDeleteObjects(request, response) {
+    let deleteRequest;
+    try {
+      deleteRequest = (convert.xml2js(request.body.toString(), { compact: true }) as any).Delete;
+    } catch (e) {
+      deleteRequest = undefined;
+    }
+    const objects = deleteRequest ? [].concat(deleteRequest.Object || []) : [];
+    if (!deleteRequest || objects.some(object => !object.Key || typeof object.Key._text !== 'string')) {
+      this.sendError(
+        response,
+        400,
+        'MalformedXML',
+        'The XML you provided was not well-formed or did not validate against our published schema',
+      );
+      return;
+    }
+    const quiet = deleteRequest.Quiet !== undefined && deleteRequest.Quiet._text === 'true';
+
+    // keys outside of the bucket and keys the identity is not allowed to delete are reported as errors
+    const errors: { Key: string; Code: string; Message: string }[] = [];
+    const deletedKeys: string[] = [];
+    objects.forEach(object => {
+      const requestedKey: string = object.Key._text;
+      const key = util.resolveKey(this.localDirectoryPath, requestedKey);
+      if (key === undefined) {
+        errors.push({ Key: requestedKey, Code: 'InvalidArgument', Message: 'Invalid key' });
+        return;
+      }
+      if (request.authorization && !request.authorization.isAllowed('s3:DeleteObject', key)) {
+        errors.push({ Key: requestedKey, Code: 'AccessDenied', Message: 'Access Denied' });
+        return;
+      }
+      const filePath = path.join(this.localDirectoryPath, key);
+      if (fs.existsSync(filePath) && !fs.statSync(filePath).isDirectory()) {
+        fs.unlinkSync(filePath);
+        this.emitEvent(request, 'ObjectRemoved:Delete', key);
+      }
+      deleteMetadata(this.localDirectoryPath, key);
+      deletedKeys.push(requestedKey);
+    });
+
+    // like S3, keys that do not exist are reported as deleted
+    response.set('Content-Type', 'text/xml');
+    response.send(
+      o2x({
+        '?xml version="1.0" encoding="utf-8"?': null,
+        DeleteResult: {
+          Deleted: quiet ? [] : deletedKeys.map(key => ({ Key: key })),
+          Error: errors,
+        },
+      }),
+    );
+  }
+
+  private async handleRequestAbortMultipartUpload(request, response) {
+    const uploadId = request.query.uploadId;
+    if (!this.upload_infoMap[uploadId]) {
+      this.sendNoSuchUpload(request, response);
+      return;
+    }
+    delete this.upload_bufferMap[uploadId];
+    delete this.upload_infoMap[uploadId];
+    this.uploadIds.splice(this.uploadIds.indexOf(uploadId), 1);
+    response.sendStatus(204);
+  }
+
+  private async handleRequestListParts(request, response) {
+    const uploadId = request.query.uploadId;
+    const uploadInfo = this.upload_infoMap[uploadId];
+    if (!uploadInfo) {
+      this.sendNoSuchUpload(request, response);
+      return;
+    }
+    const partNumberMarker = parseInt(request.query['part-number-marker'] || '0', 10);
+    const maxParts = Math.min(parseInt(request.query['max-parts'] || String(MAX_PARTS), 10), MAX_PARTS);
+    const partNumbers = Object.keys(uploadInfo.parts)
+      .map(partNumber => parseInt(partNumber, 10))
+      .filter(partNumber => partNumber > partNumberMarker)
+      .sort((a, b) => a - b);
+    const listedPartNumbers = partNumbers.slice(0, maxParts);
+    const isTruncated = partNumbers.length > maxParts;
+
+    response.set('Content-Type', 'text/xml');
+    response.send(
+      o2x({
+        '?xml version="1.0" encoding="utf-8"?': null,
+        ListPartsResult: {
+          Bucket: this.bucketName,
+          Key: uploadInfo.key,
+          UploadId: uploadId,
+          StorageClass: 'STANDARD',
+          PartNumberMarker: partNumberMarker,
+          ...(isTruncated ? { NextPartNumberMarker: listedPartNumbers[listedPartNumbers.length - 1] } : {}),
+          MaxParts: maxParts,
+          IsTruncated: isTruncated,
+          Part: listedPartNumbers.map(partNumber => {
+            const part = uploadInfo.parts[partNumber];
+            return {
+              PartNumber: partNumber,
+              LastModified: part.lastModified.toISOString(),
+              ETag: part.eTag,
+              Size: part.size,
+            };
+          }),
+        },
+      }),
+    );
+  }
+
+  private get bucketName(): string {
+    return this.route.split('/')[1];
+  }
+
+  private setObjectHeaders(response, objectInfo: ObjectInfo) {
+    const headers = getObjectHeaders(objectInfo);
+    // setHeader keeps the content type as it was stored, response.set would add a charset to it
+    Object.entries(headers).forEach(([name, value]) => response.setHeader(name, value));
+    const userMetadataHeaders = Object.keys(headers).filter(name => name.startsWith('x-amz-meta-'));
+    if (userMetadataHeaders.length) {
+      response.append('Access-Control-Expose-Headers', userMetadataHeaders.join(','));
+    }
+  }
+
+  private sendNotModified(response, objectInfo: ObjectInfo) {
+    response.set('ETag', objectInfo.eTag);
+    response.set('Last-Modified', objectInfo.lastModified.toUTCString());
+    response.status(304).end();
+  }
+
+  private sendNoSuchUpload(request, response) {
+    this.sendError(
+      response,
+      404,
+      'NoSuchUpload',
+      'The specified upload does not exist. The upload ID may be invalid, or the upload may have been aborted or completed.',
+      { UploadId: request.query.uploadId },
+    );
+  }
+
+  // errors of the authentication are sent as they are, urls with malformed percent-encoding can't be parsed
+  private sendRequestError(response, error: Error) {
+    if (error instanceof StorageAuthError) {
+      this.sendError(response, error.statusCode, error.code, error.message);
+    } else if (error instanceof URIError) {
+      this.sendError(response, 400, 'InvalidURI', "Couldn't parse the specified URI.");
+    } else {
+      this.sendError(response, 500, 'InternalError', 'We encountered an internal error. Please try again.');
+    }
+  }
+
+  private sendError(response, status: number, code: string, message: string, details: object = {}) {
+    response.set('Content-Type', 'text/xml');
+    response.status(status);
+    response.send(
+      o2x({
+        '?xml version="1.0" encoding="utf-8"?': null,
+        Error: {
+          Code: code,
+          Message: message,
+          ...details,
+          RequestId: '',
+          HostId: '',
+        },
+      }),
+    );
+  }
+
+  // the listeners of the event invoke the triggers configured for the bucket
+  private emitEvent(request, eventName: S3EventName, key: string = request.params.path) {
+    const objectKey = key.replace(/\\/g, '/');
+    const record = createEventRecord({
+      eventName,
+      region: this.config.region || DEFAULT_REGION,
+      bucketName: this.bucketName,
+      key: objectKey,
+      principalId: request.authorization ? request.authorization.principalId : ANONYMOUS_PRINCIPAL_ID,
+      sourceIPAddress: request.ip,
+      objectInfo: eventName.startsWith('ObjectCreated') ? readObjectInfo(this.localDirectoryPath, key) : undefined,
     });
-    return eventObj;
+    this.emit('event', { [EVENT_RECORDS]: [record] });
   }
 }
@@ -0,0 +1,11 @@
+// error of a request that failed authentication or authorization, sent back as S3 error XML
+export class StorageAuthError extends Error {
+  constructor(readonly statusCode: number, readonly code: string, message: string) {
+    super(message);
+    this.name = 'StorageAuthError';
+  }
+}
+
+export function accessDenied(): StorageAuthError {
+  return new StorageAuthError(403, 'AccessDenied', 'Access Denied');
+}
@@ -0,0 +1,93 @@
+import { IAMPolicyContext, isAllowedByPolicies } from 'amplify-appsync-simulator';
+import { StorageSimulatorAuthConfig, StorageSimulatorIAMPolicyDocument } from '../../index';
+import { accessDenied } from './auth-error';
+import { isPresignedUrl, verifyPresignedUrl, verifySignatureV4 } from './signature-v4';
+
+export { StorageAuthError } from './auth-error';
+
+export const AUTH_ROLE_NAME = 'authRole';
+export const UNAUTH_ROLE_NAME = 'unAuthRole';
+const MOCK_IDENTITY_POOL_ID = 'us-east-1:00000000-0000-0000-0000-000000000000';
+
+/**
+ * Identity of an authenticated request along with the policies of the role it assumed
+ */
+export class RequestAuthorization {
+  constructor(private bucketName: string, private policies: StorageSimulatorIAMPolicyDocument[], private context: IAMPolicyContext) {}
+
+  // principal of the identity in the event notifications
+  get principalId(): string {
+    return `AWS:${this.context['aws:userid']}`;
+  }
+
+  // key is omitted for the actions on the bucket itself
+  isAllowed(action: string, key?: string, conditionContext: IAMPolicyContext = {}): boolean {
+    const resource = key === undefined ? `arn:aws:s3:::${this.bucketName}` : `arn:aws:s3:::${this.bucketName}/${key}`;
+    return isAllowedByPolicies(this.policies, action, resource, { ...this.context, ...conditionContext });
+  }
+}
+
+/**
+ * Verifies the signature of the request and maps the credentials it was signed with to the Cognito identity pool
+ * role they belong to. Requests are signed with the Authorization header or are presigned URLs. Has to be called
+ * before the url of the request is parsed
+ */
+export function authenticateRequest(request, bucketName: string, auth: StorageSimulatorAuthConfig): RequestAuthorization {
+  if (!request.headers.authorization && !isPresignedUrl(request.originalUrl)) {
+    throw accessDenied();
+  }
+  const credentials = verifySignatureV4(
+    {
+      method: request.method,
+      url: request.originalUrl,
+      headers: request.headers,
+      body: Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0),
+    },
+    auth.credentials,
+  );
+
+  const authType = credentials.identityType || 'authenticated';
+  const roleName = credentials.roleName || (authType === 'authenticated' ? AUTH_ROLE_NAME : UNAUTH_ROLE_NAME);
+  const policies = auth.rolePolicies.filter(policy => policy.roles.includes(roleName)).map(policy => policy.policyDocument);
+  return new RequestAuthorization(bucketName, policies, {
+    'cognito-identity.amazonaws.com:sub': credentials.cognitoIdentityId || `us-east-1:${credentials.accessKeyId}`,
+    'cognito-identity.amazonaws.com:aud': credentials.cognitoIdentityPoolId || MOCK_IDENTITY_POOL_ID,
+    'cognito-identity.amazonaws.com:amr': authType,
+    'aws:userid': `${credentials.accessKeyId}:CognitoIdentityCredentials`,
+  });
+}
+
+/**
+ * Rejects expired and malformed presigned URLs when no credentials are configured to verify their signature with
+ */
+export function checkPresignedUrl(request): void {
+  if (isPresignedUrl(request.originalUrl)) {
+    verifyPresignedUrl(request.originalUrl);
+  }
+}
+
+/**
+ * Checks the permission of the S3 action of the parsed request. Multi-object delete and copy check the permissions
+ * on the keys they touch themselves
+ */
+export function authorizeRequest(request, authorization: RequestAuthorization): void {
+  const key = request.params.path.replace(/\\/g, '/');
+  const { method, query } = request;
+  let allowed: boolean;
+  if (method === 'LIST' || (method === 'HEAD' && !key)) {
+    allowed = authorization.isAllowed('s3:ListBucket', undefined, { 's3:prefix': query.prefix || '' });
+  } else if (method === 'GET' || method === 'HEAD') {
+    allowed = authorization.isAllowed(query.uploadId !== undefined ? 's3:ListMultipartUploadParts' : 's3:GetObject', key);
+  } else if (method === 'PUT') {
+    allowed = authorization.isAllowed('s3:PutObject', key);
+  } else if (method === 'POST') {
+    allowed = query.delete !== undefined || authorization.isAllowed('s3:PutObject', key);
+  } else if (method === 'DELETE') {
+    allowed = authorization.isAllowed(query.uploadId !== undefined ? 's3:AbortMultipartUpload' : 's3:DeleteObject', key);
+  } else {
+    allowed = false;
+  }
+  if (!allowed) {
+    throw accessDenied();
+  }
+}
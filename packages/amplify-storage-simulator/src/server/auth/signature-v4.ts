@@ -0,0 +1,193 @@
+import {
+  calculateSignatureV4,
+  encodeRFC3986,
+  isSameSignature,
+  parseAmzDate,
+  parseSignatureV4Authorization,
+  sha256,
+  SIGNATURE_V4_ALGORITHM,
+  SignatureV4Authorization as SignatureV4HeaderAuthorization,
+} from 'amplify-appsync-simulator';
+import { StorageSimulatorIAMCredentials } from '../../index';
+import { StorageAuthError } from './auth-error';
+
+// S3 allows a clock skew of 15 minutes
+const MAX_CLOCK_SKEW_IN_MS = 15 * 60 * 1000;
+const CONTENT_SHA256_HEADER = 'x-amz-content-sha256';
+
+export type SignedRequest = {
+  method: string;
+  // path and query string as they were sent, S3 does not normalize or encode them again
+  url: string;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+};
+
+type SignatureV4Authorization = SignatureV4HeaderAuthorization & {
+  amzDate: string;
+  payloadHash: string;
+};
+
+// presigned URLs carry the authorization in these query parameters instead of the Authorization header
+const PRESIGNED_URL_PARAMETERS = [
+  'X-Amz-Algorithm',
+  'X-Amz-Credential',
+  'X-Amz-Date',
+  'X-Amz-Expires',
+  'X-Amz-SignedHeaders',
+  'X-Amz-Signature',
+];
+const MAX_PRESIGNED_URL_EXPIRY_IN_SECONDS = 7 * 24 * 60 * 60;
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+export function isPresignedUrl(url: string): boolean {
+  return parseQueryString(url).some(([name]) => name === 'X-Amz-Algorithm');
+}
+
+/**
+ * Verifies the Signature Version 4 of the request against the configured credentials the same way S3 does and returns
+ * the credentials the request was signed with. Requests are signed either with the Authorization header or with the
+ * query parameters of a presigned URL
+ */
+export function verifySignatureV4(request: SignedRequest, credentials: StorageSimulatorIAMCredentials[]): StorageSimulatorIAMCredentials {
+  const authorization = isPresignedUrl(request.url) ? parsePresignedUrl(request.url) : parseAuthorizationHeader(request);
+  const signingCredentials = credentials.find(c => c.accessKeyId === authorization.accessKeyId);
+  if (!signingCredentials) {
+    throw new StorageAuthError(403, 'InvalidAccessKeyId', 'The AWS Access Key Id you provided does not exist in our records.');
+  }
+
+  const canonicalRequest = getCanonicalRequest(request, authorization.signedHeaders, authorization.payloadHash);
+  const signature = calculateSignatureV4(signingCredentials.secretAccessKey, authorization, authorization.amzDate, canonicalRequest);
+
+  if (!isSameSignature(signature, authorization.signature)) {
+    throw new StorageAuthError(
+      403,
+      'SignatureDoesNotMatch',
+      'The request signature we calculated does not match the signature you provided. Check your key and signing method.',
+    );
+  }
+  return signingCredentials;
+}
+
+/**
+ * Checks the parameters and the expiry of a presigned URL without verifying its signature
+ */
+export function verifyPresignedUrl(url: string): void {
+  parsePresignedUrl(url);
+}
+
+function parseAuthorizationHeader(request: SignedRequest): SignatureV4Authorization {
+  const authorization = parseSignatureV4Authorization(getHeader(request.headers, 'authorization'));
+  if (!authorization) {
+    throw new StorageAuthError(400, 'AuthorizationHeaderMalformed', 'The authorization header you provided is invalid.');
+  }
+  const amzDate = getHeader(request.headers, 'x-amz-date') || '';
+  const signedAt = parseAmzDate(amzDate);
+  if (isNaN(signedAt) || !amzDate.startsWith(authorization.date)) {
+    throw new StorageAuthError(403, 'AccessDenied', 'AWS authentication requires a valid Date or x-amz-date header');
+  }
+  if (Math.abs(Date.now() - signedAt) > MAX_CLOCK_SKEW_IN_MS) {
+    throw new StorageAuthError(403, 'RequestTimeTooSkewed', 'The difference between the request time and the current time is too large.');
+  }
+
+  // the payload hash is sent along with the request, unless the payload is unsigned or streamed in signed chunks
+  const payloadHash = getHeader(request.headers, CONTENT_SHA256_HEADER) || sha256(request.body);
+  if (/^[0-9a-f]{64}$/.test(payloadHash) && payloadHash !== sha256(request.body)) {
+    throw new StorageAuthError(
+      400,
+      'XAmzContentSHA256Mismatch',
+      "The provided 'x-amz-content-sha256' header does not match what was computed.",
+    );
+  }
+  return { ...authorization, amzDate, payloadHash };
+}
+
+// the payload of presigned URLs is not signed, the URL is valid from X-Amz-Date for X-Amz-Expires seconds
+function parsePresignedUrl(url: string): SignatureV4Authorization {
+  const parameters = parseQueryString(url).reduce((acc, [name, value]) => ({ ...acc, [name]: value }), {} as Record<string, string>);
+  if (PRESIGNED_URL_PARAMETERS.some(name => !parameters[name])) {
+    throw new StorageAuthError(
+      400,
+      'AuthorizationQueryParametersError',
+      'Query-string authentication version 4 requires the X-Amz-Algorithm, X-Amz-Credential, X-Amz-Signature, X-Amz-Date, ' +
+        'X-Amz-SignedHeaders, and X-Amz-Expires parameters.',
+    );
+  }
+  const [accessKeyId, date, region, service] = parameters['X-Amz-Credential'].split('/');
+  const amzDate = parameters['X-Amz-Date'];
+  const signedAt = parseAmzDate(amzDate);
+  const expires = Number(parameters['X-Amz-Expires']);
+  if (parameters['X-Amz-Algorithm'] !== SIGNATURE_V4_ALGORITHM || !accessKeyId || !date || !region || !service || isNaN(signedAt)) {
+    throw new StorageAuthError(400, 'AuthorizationQueryParametersError', 'Error parsing the X-Amz-Credential parameter.');
+  }
+  if (!Number.isInteger(expires) || expires < 0 || expires > MAX_PRESIGNED_URL_EXPIRY_IN_SECONDS) {
+    throw new StorageAuthError(
+      400,
+      'AuthorizationQueryParametersError',
+      `X-Amz-Expires must be less than a week (in seconds) that is ${MAX_PRESIGNED_URL_EXPIRY_IN_SECONDS}`,
+    );
+  }
+  if (signedAt - Date.now() > MAX_CLOCK_SKEW_IN_MS) {
+    throw new StorageAuthError(403, 'AccessDenied', 'Request is not valid yet');
+  }
+  if (Date.now() > signedAt + expires * 1000) {
+    throw new StorageAuthError(403, 'AccessDenied', 'Request has expired');
+  }
+  return {
+    accessKeyId,
+    date,
+    region,
+    service,
+    signedHeaders: parameters['X-Amz-SignedHeaders'].split(';'),
+    signature: parameters['X-Amz-Signature'],
+    amzDate,
+    payloadHash: UNSIGNED_PAYLOAD,
+  };
+}
+
+function getCanonicalRequest(request: SignedRequest, signedHeaders: string[], payloadHash: string): string {
+  const [pathname] = request.url.split('?');
+  const canonicalHeaders = signedHeaders.map(name => {
+    const value = getHeader(request.headers, name) || '';
+    return `${name}:${value.trim().replace(/\s+/g, ' ')}\n`;
+  });
+  return [
+    request.method.toUpperCase(),
+    pathname,
+    getCanonicalQueryString(request.url),
+    canonicalHeaders.join(''),
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+}
+
+// parameters are sorted by name and value, both encoded the same way. The signature of presigned URLs is not signed
+function getCanonicalQueryString(url: string): string {
+  return parseQueryString(url)
+    .filter(([name]) => name !== 'X-Amz-Signature')
+    .map(([name, value]) => [encodeRFC3986(name), encodeRFC3986(value)])
+    .sort(([nameA, valueA], [nameB, valueB]) => (nameA === nameB ? compare(valueA, valueB) : compare(nameA, nameB)))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+// decoded names and values of the query parameters, in the order they were sent
+function parseQueryString(url: string): [string, string][] {
+  const [, queryString = ''] = url.split(/\?(.*)/);
+  return queryString
+    .split('&')
+    .filter(parameter => parameter)
+    .map(parameter => {
+      const [name, ...value] = parameter.split('=');
+      return [decodeURIComponent(name), decodeURIComponent(value.join('='))] as [string, string];
+    });
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function getHeader(headers: Record<string, string | string[]>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return value === undefined ? undefined : [].concat(value).join(',');
+}
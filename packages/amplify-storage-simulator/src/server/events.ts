@@ -0,0 +1,109 @@
+import { randomBytes } from 'crypto';
+import { encodeKey } from './utils';
+
+export type S3EventName =
+  | 'ObjectCreated:Put'
+  | 'ObjectCreated:Post'
+  | 'ObjectCreated:Copy'
+  | 'ObjectCreated:CompleteMultipartUpload'
+  | 'ObjectRemoved:Delete';
+
+// shape of the records S3 sends to Lambda functions
+export type S3EventRecord = {
+  eventVersion: string;
+  eventSource: 'aws:s3';
+  awsRegion: string;
+  eventTime: string;
+  eventName: S3EventName;
+  userIdentity: {
+    principalId: string;
+  };
+  requestParameters: {
+    sourceIPAddress: string;
+  };
+  responseElements: {
+    'x-amz-request-id': string;
+    'x-amz-id-2': string;
+  };
+  s3: {
+    s3SchemaVersion: string;
+    // id of the notification configuration, set when the event is sent to a target
+    configurationId: string;
+    bucket: {
+      name: string;
+      ownerIdentity: {
+        principalId: string;
+      };
+      arn: string;
+    };
+    object: {
+      key: string;
+      size?: number;
+      eTag?: string;
+      sequencer: string;
+    };
+  };
+};
+
+export type S3Event = {
+  Records: S3EventRecord[];
+};
+
+type EventRecordOptions = {
+  eventName: S3EventName;
+  region: string;
+  bucketName: string;
+  key: string;
+  principalId: string;
+  sourceIPAddress: string;
+  // size and ETag of the created object, removed objects only have a key
+  objectInfo?: { size: number; eTag: string };
+};
+
+const BUCKET_OWNER_PRINCIPAL_ID = 'A3NL1KOZZKExample';
+let sequence = 0;
+
+export function createEventRecord(options: EventRecordOptions): S3EventRecord {
+  const { eventName, region, bucketName, key, principalId, sourceIPAddress, objectInfo } = options;
+  return {
+    eventVersion: '2.1',
+    eventSource: 'aws:s3',
+    awsRegion: region,
+    eventTime: new Date().toISOString(),
+    eventName,
+    userIdentity: { principalId },
+    requestParameters: { sourceIPAddress },
+    responseElements: {
+      'x-amz-request-id': randomBytes(8)
+        .toString('hex')
+        .toUpperCase(),
+      'x-amz-id-2': randomBytes(48).toString('base64'),
+    },
+    s3: {
+      s3SchemaVersion: '1.0',
+      configurationId: '',
+      bucket: {
+        name: bucketName,
+        ownerIdentity: { principalId: BUCKET_OWNER_PRINCIPAL_ID },
+        arn: `arn:aws:s3:::${bucketName}`,
+      },
+      object: {
+        key: encodeKey(key),
+        ...(objectInfo ? { size: objectInfo.size, eTag: objectInfo.eTag.replace(/"/g, '') } : {}),
+        sequencer: getSequencer(),
+      },
+    },
+  };
+}
+
+// sequencers order the events of the same key, later events have greater values
+function getSequencer(): string {
+  sequence = (sequence + 1) % 0x1000000;
+  return `${Date.now()
+    .toString(16)
+    .toUpperCase()
+    .padStart(12, '0')}${sequence
+    .toString(16)
+    .toUpperCase()
+    .padStart(6, '0')}`;
+}
@@ -0,0 +1,171 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { createHash } from 'crypto';
+
+// metadata of the objects is stored next to them in a dot directory, which is skipped when listing the objects
+export const METADATA_DIRECTORY = '.amplify-storage-metadata';
+const DEFAULT_CONTENT_TYPE = 'binary/octet-stream';
+const USER_METADATA_PREFIX = 'x-amz-meta-';
+const TAGGING_HEADER = 'x-amz-tagging';
+
+// system metadata S3 stores from the request headers and returns as response headers
+const SYSTEM_METADATA_HEADERS = {
+  contentType: 'Content-Type',
+  cacheControl: 'Cache-Control',
+  contentDisposition: 'Content-Disposition',
+  contentEncoding: 'Content-Encoding',
+  contentLanguage: 'Content-Language',
+  expires: 'Expires',
+};
+
+export type ObjectMetadata = {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  contentLanguage?: string;
+  expires?: string;
+  // user defined metadata, sent as x-amz-meta-* headers
+  metadata: Record<string, string>;
+  // URL encoded tag set of the x-amz-tagging header
+  tagging?: string;
+  eTag: string;
+};
+
+export type ObjectInfo = ObjectMetadata & {
+  size: number;
+  lastModified: Date;
+};
+
+export function getMetadataFromHeaders(headers: Record<string, string | string[]>, eTag: string): ObjectMetadata {
+  const objectMetadata: ObjectMetadata = { metadata: {}, eTag };
+  Object.entries(SYSTEM_METADATA_HEADERS).forEach(([name, header]) => {
+    const value = headers[header.toLowerCase()];
+    if (value !== undefined) {
+      objectMetadata[name] = String(value);
+    }
+  });
+  Object.entries(headers).forEach(([header, value]) => {
+    if (header.startsWith(USER_METADATA_PREFIX)) {
+      objectMetadata.metadata[header.substring(USER_METADATA_PREFIX.length)] = String(value);
+    }
+  });
+  if (headers[TAGGING_HEADER] !== undefined) {
+    objectMetadata.tagging = String(headers[TAGGING_HEADER]);
+  }
+  return objectMetadata;
+}
+
+export function writeMetadata(localDirectoryPath: string, key: string, objectMetadata: ObjectMetadata) {
+  fs.outputJsonSync(getMetadataPath(localDirectoryPath, key), objectMetadata);
+}
+
+export function deleteMetadata(localDirectoryPath: string, key: string) {
+  fs.removeSync(getMetadataPath(localDirectoryPath, key));
+}
+
+// objects copied to the local directory by hand have no metadata, their ETag is calculated from the content
+export function readObjectInfo(localDirectoryPath: string, key: string): ObjectInfo {
+  const filePath = path.normalize(path.join(localDirectoryPath, key));
+  const stat = fs.statSync(filePath);
+  const metadataPath = getMetadataPath(localDirectoryPath, key);
+  const objectMetadata: ObjectMetadata = fs.existsSync(metadataPath)
+    ? fs.readJsonSync(metadataPath)
+    : { metadata: {}, eTag: getETag(fs.readFileSync(filePath)) };
+  return {
+    ...objectMetadata,
+    size: stat.size,
+    lastModified: stat.mtime,
+  };
+}
+
+export function getObjectHeaders(objectInfo: ObjectInfo): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': objectInfo.contentType || DEFAULT_CONTENT_TYPE,
+    'Content-Length': String(objectInfo.size),
+    ETag: objectInfo.eTag,
+    'Last-Modified': objectInfo.lastModified.toUTCString(),
+    'Accept-Ranges': 'bytes',
+  };
+  Object.entries(SYSTEM_METADATA_HEADERS).forEach(([name, header]) => {
+    if (name !== 'contentType' && objectInfo[name] !== undefined) {
+      headers[header] = objectInfo[name];
+    }
+  });
+  Object.entries(objectInfo.metadata).forEach(([name, value]) => {
+    headers[`${USER_METADATA_PREFIX}${name}`] = value;
+  });
+  const tagCount = objectInfo.tagging ? objectInfo.tagging.split('&').filter(tag => tag).length : 0;
+  if (tagCount) {
+    headers['x-amz-tagging-count'] = String(tagCount);
+  }
+  return headers;
+}
+
+// S3 ETags are the quoted MD5 of the content
+export function getETag(content: Buffer): string {
+  return `"${createHash('md5')
+    .update(content)
+    .digest('hex')}"`;
+}
+
+// the ETag of multipart uploads is the MD5 of the concatenated MD5s of the parts, followed by the number of parts
+export function getMultipartETag(parts: Buffer[]): string {
+  const partHashes = parts.map(part =>
+    createHash('md5')
+      .update(part)
+      .digest(),
+  );
+  return `"${createHash('md5')
+    .update(Buffer.concat(partHashes))
+    .digest('hex')}-${parts.length}"`;
+}
+
+/**
+ * Evaluates the conditional request headers against the object the same way S3 does and returns the status code of
+ * the response: 412 when If-Match or If-Unmodified-Since fail, 304 when If-None-Match or If-Modified-Since fail
+ */
+export function checkConditionalHeaders(headers: Record<string, string | string[]>, objectInfo: ObjectInfo): 200 | 304 | 412 {
+  const ifMatch = headers['if-match'];
+  const ifNoneMatch = headers['if-none-match'];
+  const ifModifiedSince = parseHttpDate(headers['if-modified-since']);
+  const ifUnmodifiedSince = parseHttpDate(headers['if-unmodified-since']);
+  // HTTP dates have a precision of seconds
+  const lastModified = Math.floor(objectInfo.lastModified.getTime() / 1000) * 1000;
+
+  if (ifMatch !== undefined) {
+    if (!matchesETag(ifMatch, objectInfo.eTag)) {
+      return 412;
+    }
+  } else if (ifUnmodifiedSince !== undefined && lastModified > ifUnmodifiedSince) {
+    return 412;
+  }
+
+  if (ifNoneMatch !== undefined) {
+    if (matchesETag(ifNoneMatch, objectInfo.eTag)) {
+      return 304;
+    }
+  } else if (ifModifiedSince !== undefined && lastModified <= ifModifiedSince) {
+    return 304;
+  }
+  return 200;
+}
+
+function getMetadataPath(localDirectoryPath: string, key: string): string {
+  return path.normalize(path.join(localDirectoryPath, METADATA_DIRECTORY, `${key}.json`));
+}
+
+function matchesETag(header: string | string[], eTag: string): boolean {
+  return String(header)
+    .split(',')
+    .map(value => value.trim())
+    .some(value => value === '*' || value === eTag || `"${value}"` === eTag);
+}
+
+function parseHttpDate(header: string | string[]): number | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? undefined : date;
+}
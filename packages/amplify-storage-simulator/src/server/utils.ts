@@ -28,24 +28,67 @@ export function parseUrl(request, route: String) {
   }
 
   if (request.method === 'GET') {
-    if (request.query.prefix !== undefined || (temp[1] === '' && temp[0] === '') || (temp[1] === '/' && temp[0] === '')) {
+    // requests to the bucket itself list the objects, whatever list parameters they have
+    const keyName = (temp[1] !== undefined ? temp[1] : temp[0]).split('?')[0];
+    if (request.query.prefix !== undefined || keyName === '' || keyName === '/') {
       request.method = 'LIST';
     }
   }
 }
 
-// check for the delimiter in the file for list object request
-export function checkfile(file: String, prefix: String, delimiter: String) {
-  if (delimiter === '') {
-    return true;
-  } else {
-    const temp = file.split(String(prefix))[1].split(String(delimiter));
-    if (temp[1] === undefined) {
-      return false;
-    } else {
-      return true;
-    }
+// resolve a key against the directory of the bucket. Returns the key without '.' and '..' segments and with '/' as
+// separator, or undefined when the key points outside of the directory
+export function resolveKey(localDirectoryPath: string, key: string): string | undefined {
+  const rootPath = path.resolve(localDirectoryPath);
+  const filePath = path.resolve(path.join(rootPath, key));
+  if (!filePath.startsWith(rootPath + path.sep)) {
+    return undefined;
   }
+  return path
+    .relative(rootPath, filePath)
+    .split(path.sep)
+    .join('/');
+}
+
+export type ListEntry = {
+  key: string;
+  isCommonPrefix: boolean;
+};
+
+// S3 lists the keys in the UTF-8 binary order of their names
+export function compareKeys(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+// get the sorted entries of a list objects request. Keys containing the delimiter after the prefix are rolled up into
+// a single common prefix entry, which takes the place of its first key in the order
+export function getListEntries(keys: string[], prefix: string, delimiter: string): ListEntry[] {
+  const entries: ListEntry[] = [];
+  keys
+    .filter(key => key.startsWith(prefix))
+    .sort(compareKeys)
+    .forEach(key => {
+      const delimiterIndex = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+      if (delimiterIndex === -1) {
+        entries.push({ key, isCommonPrefix: false });
+        return;
+      }
+      // keys of the same common prefix are next to each other once sorted
+      const commonPrefix = key.substring(0, delimiterIndex + delimiter.length);
+      const lastEntry = entries[entries.length - 1];
+      if (!lastEntry || !lastEntry.isCommonPrefix || lastEntry.key !== commonPrefix) {
+        entries.push({ key: commonPrefix, isCommonPrefix: true });
+      }
+    });
+  return entries;
+}
+
+// url encode keys the way S3 does in list responses with encoding-type=url and in event notifications, as form
+// values keeping the slashes
+export function encodeKey(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/%2F/g, '/')
+    .replace(/%20/g, '+');
 }
 
 // removing chunk siognature from request payload if present
@@ -79,3 +122,28 @@ export function stripChunkSignature(buf: Buffer) {
   }
   return Buffer.concat(arr);
 }
+
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+// parse the Range header of a GET request. Like S3 only a single byte range is supported, other ranges are ignored
+// and the whole object is returned. Returns null when the range starts after the end of the object
+export function parseRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(String(header || '').trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+  if (match[1] === '') {
+    // suffix range with the last bytes of the object
+    const suffixLength = parseInt(match[2], 10);
+    return suffixLength === 0 || size === 0 ? null : { start: Math.max(size - suffixLength, 0), end: size - 1 };
+  }
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  if (match[2] !== '' && parseInt(match[2], 10) < start) {
+    return undefined;
+  }
+  return start >= size ? null : { start, end };
+}
@@ -1,6 +1,11 @@
 import { AmplifyAppSyncSimulatorAuthenticationType, AmplifyAppSyncSimulatorConfig } from 'amplify-appsync-simulator';
 import { registerAppSyncResourceProcessor, registerIAMResourceProcessor, registerLambdaResourceProcessor } from './resource-processors';
-import { AppSyncAPIKeyProcessedResource, AppSyncAPIProcessedResource } from './resource-processors/appsync';
+import {
+  AppSyncAPICacheProcessedResource,
+  AppSyncAPIKeyProcessedResource,
+  AppSyncAPIProcessedResource,
+} from './resource-processors/appsync';
+import { IAMManagedPolicyProcessedResource } from './resource-processors/iam';
 import { processCloudFormationStack } from './stack/index';
 import { CloudFormationTemplateFetcher, CloudFormationTemplate } from './stack/types';
 
@@ -58,9 +63,18 @@ export function processApiResources(
       case 'AWS::AppSync::GraphQLApi':
         const resource = result as AppSyncAPIProcessedResource;
         appSyncConfig.appSync.name = resource.name;
+        appSyncConfig.appSync.arn = resource.Arn;
         appSyncConfig.appSync.defaultAuthenticationType = resource.defaultAuthenticationType;
         appSyncConfig.appSync.additionalAuthenticationProviders = resource.additionalAuthenticationProviders || [];
         break;
+      case 'AWS::IAM::ManagedPolicy':
+        const { roles, policyDocument } = result as IAMManagedPolicyProcessedResource;
+        appSyncConfig.rolePolicies.push({ roles, policyDocument });
+        break;
+      case 'AWS::AppSync::ApiCache':
+        const { type, ttl } = result as AppSyncAPICacheProcessedResource;
+        appSyncConfig.appSync.apiCaching = { type, ttl };
+        break;
       case 'AWS::AppSync::ApiKey':
         appSyncConfig.appSync.apiKey = (result as AppSyncAPIKeyProcessedResource).ApiKey;
         break;
@@ -88,6 +102,7 @@ export function processCloudFormationResults(resources, transformResult) {
       apiKey: null,
       additionalAuthenticationProviders: [],
     },
+    rolePolicies: [],
   };
 
   processApiResources(resources, transformResult, processedResources);
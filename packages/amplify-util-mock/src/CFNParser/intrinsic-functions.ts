@@ -47,11 +47,12 @@ export function cfnSub(valNode, { params, conditions, resources, exports }: Clou
     const regExp = new RegExp(`\\$\\{${entry[0]}\\}`, 'g');
     return template.replace(regExp, entry[1]);
   }, strTemplate);
-  return result;
+  // variables without a substitution resolve to the template parameters and pseudo parameters
+  return templateReplace(result, params);
 }
 
 function templateReplace(template: string, args: any = {}) {
-  return template.replace(/\${(\w+)}/g, (a, v) => {
+  return template.replace(/\${([\w:]+)}/g, (a, v) => {
     if (v in args) return args[v];
     return a;
   });
@@ -22,6 +22,13 @@ export function dynamoDBResourceHandler(resourceName, resource, cfnContext: Clou
     },
   };
 
+  if (resource.Properties.StreamSpecification) {
+    processedResource.Properties.StreamSpecification = {
+      StreamEnabled: true,
+      StreamViewType: resource.Properties.StreamSpecification.StreamViewType,
+    };
+  }
+
   if (resource.Properties.LocalSecondaryIndexes) {
     processedResource.Properties.LocalSecondaryIndexes = resource.Properties.LocalSecondaryIndexes;
   }
@@ -34,10 +41,12 @@ export function dynamoDBResourceHandler(resourceName, resource, cfnContext: Clou
 
 export type AppSyncDataSourceProcessedResource = CloudFormationProcessedResourceResult & {
   name: string;
-  type: 'AMAZON_DYNAMODB' | 'AWS_LAMBDA' | 'NONE';
+  type: 'AMAZON_DYNAMODB' | 'AWS_LAMBDA' | 'HTTP' | 'AMAZON_ELASTICSEARCH' | 'RELATIONAL_DATABASE' | 'NONE';
   LambdaFunctionArn?: string;
   config?: {
-    tableName: string;
+    tableName?: string;
+    endpoint?: string;
+    databaseName?: string;
   };
 };
 export function appSyncDataSourceHandler(
@@ -79,6 +88,37 @@ export function appSyncDataSourceHandler(
     };
   }
 
+  if (typeName === 'HTTP') {
+    return {
+      ...commonProps,
+      type: 'HTTP',
+      name: resource.Properties.Name,
+      config: {
+        endpoint: parseValue(resource.Properties.HttpConfig.Endpoint, cfnContext),
+      },
+    };
+  }
+
+  if (typeName === 'AMAZON_ELASTICSEARCH') {
+    return {
+      ...commonProps,
+      type: 'AMAZON_ELASTICSEARCH',
+      name: resource.Properties.Name,
+    };
+  }
+
+  if (typeName === 'RELATIONAL_DATABASE') {
+    const { RdsHttpEndpointConfig = {} } = resource.Properties.RelationalDatabaseConfig || {};
+    return {
+      ...commonProps,
+      type: 'RELATIONAL_DATABASE',
+      name: resource.Properties.Name,
+      config: {
+        databaseName: RdsHttpEndpointConfig.DatabaseName ? parseValue(RdsHttpEndpointConfig.DatabaseName, cfnContext) : undefined,
+      },
+    };
+  }
+
   console.log(`Data source of type ${typeName} is not supported by local mocking. A NONE data source will be used.`);
   return {
     ...commonProps,
@@ -96,8 +136,17 @@ export type AppSyncAPIProcessedResource = CloudFormationProcessedResourceResult
   GraphQLUrl: string;
   additionalAuthenticationProviders: any;
 };
+function parseLambdaAuthorizerConfig(config, cfnContext: CloudFormationParseContext) {
+  return {
+    ...config,
+    AuthorizerUri: parseValue(config.AuthorizerUri, cfnContext),
+  };
+}
+
 export function appSyncAPIResourceHandler(resourceName, resource, cfnContext: CloudFormationParseContext): AppSyncAPIProcessedResource {
   const apiId = 'amplify-test-api-id';
+  // IAM policies of the API roles are scoped to the ARN, so it has to use the same region and account as the policies
+  const arn = `arn:aws:appsync:${cfnContext.params['AWS::Region']}:${cfnContext.params['AWS::AccountId']}:apis/${apiId}`;
   const processedResource = {
     cfnExposedAttributes: { ApiId: 'ApiId', Arn: 'Arn', GraphQLUrl: 'GraphQLUrl' },
     name: cfnContext.params.AppSyncApiName || 'AppSyncTransformer',
@@ -105,9 +154,12 @@ export function appSyncAPIResourceHandler(resourceName, resource, cfnContext: Cl
       authenticationType: resource.Properties.AuthenticationType,
       ...(resource.Properties.OpenIDConnectConfig ? { openIDConnectConfig: resource.Properties.OpenIDConnectConfig } : {}),
       ...(resource.Properties.UserPoolConfig ? { cognitoUserPoolConfig: resource.Properties.UserPoolConfig } : {}),
+      ...(resource.Properties.LambdaAuthorizerConfig
+        ? { lambdaAuthorizerConfig: parseLambdaAuthorizerConfig(resource.Properties.LambdaAuthorizerConfig, cfnContext) }
+        : {}),
     },
-    Ref: `arn:aws:appsync:us-east-1:123456789012:apis/${apiId}`,
-    Arn: `arn:aws:appsync:us-east-1:123456789012:apis/${apiId}`,
+    Ref: arn,
+    Arn: arn,
     ApiId: apiId,
     GraphQLUrl: 'http://localhost:20002/',
     ...(resource.Properties.AdditionalAuthenticationProviders
@@ -117,6 +169,9 @@ export function appSyncAPIResourceHandler(resourceName, resource, cfnContext: Cl
               authenticationType: p.AuthenticationType,
               ...(p.OpenIDConnectConfig ? { openIDConnectConfig: p.OpenIDConnectConfig } : {}),
               ...(p.CognitoUserPoolConfig ? { cognitoUserPoolConfig: p.CognitoUserPoolConfig } : {}),
+              ...(p.LambdaAuthorizerConfig
+                ? { lambdaAuthorizerConfig: parseLambdaAuthorizerConfig(p.LambdaAuthorizerConfig, cfnContext) }
+                : {}),
             };
           }),
         }
@@ -147,6 +202,22 @@ export function appSyncAPIKeyResourceHandler(
   return processedResource;
 }
 
+export type AppSyncAPICacheProcessedResource = CloudFormationProcessedResourceResult & {
+  type: 'FULL_REQUEST_CACHING' | 'PER_RESOLVER_CACHING';
+  ttl: number;
+};
+export function appSyncAPICacheResourceHandler(
+  resourceName,
+  resource,
+  cfnContext: CloudFormationParseContext,
+): AppSyncAPICacheProcessedResource {
+  return {
+    cfnExposedAttributes: {},
+    type: parseValue(resource.Properties.ApiCachingBehavior, cfnContext),
+    ttl: Number(parseValue(resource.Properties.Ttl, cfnContext)),
+  };
+}
+
 export type AppSyncSchemaProcessedResource = CloudFormationProcessedResourceResult & {
   definitionS3Location?: string;
   definition?: string;
@@ -176,6 +247,10 @@ export type AppSyncResolverProcessedResource = CloudFormationProcessedResourceRe
   responseMappingTemplate?: string;
   ResolverArn: string;
   kind: 'UNIT' | 'PIPELINE';
+  cachingConfig?: {
+    ttl: number;
+    cachingKeys?: string[];
+  };
 };
 
 export function appSyncResolverHandler(resourceName, resource, cfnContext: CloudFormationParseContext): AppSyncResolverProcessedResource {
@@ -214,6 +289,14 @@ export function appSyncResolverHandler(resourceName, resource, cfnContext: Cloud
     requestMappingTemplate,
     responseMappingTemplate,
     kind: properties.Kind || 'UNIT',
+    ...(properties.CachingConfig
+      ? {
+          cachingConfig: {
+            ttl: Number(parseValue(properties.CachingConfig.Ttl, cfnContext)),
+            cachingKeys: properties.CachingConfig.CachingKeys,
+          },
+        }
+      : {}),
     ResolverArn: `arn:aws:appsync:us-east-1:123456789012:apis/graphqlapiid/types/${properties.TypeName}/resolvers/${properties.FieldName}`,
   };
 }
@@ -1,3 +1,6 @@
+import { isPlainObject } from 'lodash';
+import { parseValue } from '../field-parser';
+import { CloudFormationProcessedResourceResult } from '../stack/types';
 import { CloudFormationParseContext } from '../types';
 
 export function iamPolicyResourceHandler(resourceName, resource, cfnContext: CloudFormationParseContext) {
@@ -17,3 +20,37 @@ export function iamRoleResourceHandler(resourceName, resource, cfnContext: Cloud
   };
   return processedResource;
 }
+
+export type IAMManagedPolicyProcessedResource = CloudFormationProcessedResourceResult & {
+  roles: string[];
+  policyDocument: any;
+};
+export function iamManagedPolicyResourceHandler(
+  resourceName,
+  resource,
+  cfnContext: CloudFormationParseContext,
+): IAMManagedPolicyProcessedResource {
+  const { Roles: roles = [], PolicyDocument: policyDocument } = resource.Properties;
+  return {
+    cfnExposedAttributes: {},
+    ref: `arn:aws:iam::${cfnContext.params['AWS::AccountId']}:policy/${resourceName}`,
+    roles: roles.map(role => parseValue(role, cfnContext)),
+    policyDocument: parsePolicyDocument(policyDocument, cfnContext),
+  };
+}
+
+// actions and resources of the statements can be built with intrinsic functions, i.e. Fn::Split of a parameter
+export function parsePolicyDocument(policyDocument, cfnContext: CloudFormationParseContext) {
+  const parseStatementValues = values =>
+    isPlainObject(values)
+      ? [].concat(parseValue(values, cfnContext))
+      : [].concat(values).reduce((acc, value) => [...acc, ...[].concat(parseValue(value, cfnContext))], []);
+  return {
+    ...policyDocument,
+    Statement: [].concat(policyDocument.Statement).map(statement => ({
+      ...statement,
+      ...(statement.Action ? { Action: parseStatementValues(statement.Action) } : {}),
+      ...(statement.Resource ? { Resource: parseStatementValues(statement.Resource) } : {}),
+    })),
+  };
+}
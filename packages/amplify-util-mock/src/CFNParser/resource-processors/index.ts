@@ -2,6 +2,7 @@ import { lambdaFunctionHandler } from '../lambda-resource-processor';
 import { CloudFormationResource } from '../stack/types';
 import { CloudFormationParseContext } from '../types';
 import {
+  appSyncAPICacheResourceHandler,
   appSyncAPIKeyResourceHandler,
   appSyncAPIResourceHandler,
   appSyncDataSourceHandler,
@@ -10,7 +11,7 @@ import {
   appSyncSchemaHandler,
   dynamoDBResourceHandler,
 } from './appsync';
-import { iamPolicyResourceHandler, iamRoleResourceHandler } from './iam';
+import { iamManagedPolicyResourceHandler, iamPolicyResourceHandler, iamRoleResourceHandler } from './iam';
 
 export type CloudFormationResourceProcessorFn = (
   resourceName: string,
@@ -33,6 +34,7 @@ export function registerResourceProcessors(resourceType: string, resourceProcess
 export function registerAppSyncResourceProcessor(): void {
   registerResourceProcessors('AWS::AppSync::GraphQLApi', appSyncAPIResourceHandler);
   registerResourceProcessors('AWS::AppSync::ApiKey', appSyncAPIKeyResourceHandler);
+  registerResourceProcessors('AWS::AppSync::ApiCache', appSyncAPICacheResourceHandler);
   registerResourceProcessors('AWS::AppSync::GraphQLSchema', appSyncSchemaHandler);
   registerResourceProcessors('AWS::DynamoDB::Table', dynamoDBResourceHandler);
   registerResourceProcessors('AWS::AppSync::Resolver', appSyncResolverHandler);
@@ -43,6 +45,7 @@ export function registerAppSyncResourceProcessor(): void {
 export function registerIAMResourceProcessor(): void {
   registerResourceProcessors('AWS::IAM::Policy', iamPolicyResourceHandler);
   registerResourceProcessors('AWS::IAM::Role', iamRoleResourceHandler);
+  registerResourceProcessors('AWS::IAM::ManagedPolicy', iamManagedPolicyResourceHandler);
 }
 
 export function registerLambdaResourceProcessor(): void {
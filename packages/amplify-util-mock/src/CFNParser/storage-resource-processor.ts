@@ -0,0 +1,124 @@
+import { AUTH_ROLE_NAME, StorageSimulatorRolePolicy, UNAUTH_ROLE_NAME } from 'amplify-storage-simulator';
+import { pick } from 'lodash';
+import { parseValue } from './field-parser';
+import { parsePolicyDocument } from './resource-processors/iam';
+import { CFN_PSEUDO_PARAMS, filterResourcesBasedOnConditions, mergeParameters, processConditions } from './stack/index';
+import { CloudFormationResources, CloudFormationTemplate } from './stack/types';
+import { CloudFormationParseContext } from './types';
+
+export type StorageNotificationConfiguration = {
+  id: string;
+  // i.e. s3:ObjectCreated:*
+  event: string;
+  filterRules: { name: string; value: string }[];
+  functionName: string;
+};
+
+/**
+ * Gets the policies the storage stack attaches to the auth and unauth roles of the identity pool, for the conditions
+ * the permissions selected in the storage walkthrough resolve to
+ */
+export function processStorageRolePolicies(
+  template: CloudFormationTemplate,
+  parameters: Record<string, any>,
+  bucketName: string,
+): StorageSimulatorRolePolicy[] {
+  const { cfnContext, resources } = getStorageStackContext(template, parameters, bucketName);
+  const rolePolicies: StorageSimulatorRolePolicy[] = [];
+  Object.values(resources)
+    .filter(resource => resource.Type === 'AWS::IAM::Policy')
+    .forEach(resource => {
+      // policies of the user pool group and trigger roles don't apply to the identity pool roles
+      const roles = []
+        .concat(resource.Properties.Roles || [])
+        .map(role => parseValue(role, cfnContext))
+        .filter(role => role === AUTH_ROLE_NAME || role === UNAUTH_ROLE_NAME);
+      if (roles.length) {
+        rolePolicies.push({ roles, policyDocument: parsePolicyDocument(resource.Properties.PolicyDocument, cfnContext) });
+      }
+    });
+  return rolePolicies;
+}
+
+/**
+ * Gets the Lambda notification configurations of the bucket, with the filter rules resolved for the region
+ */
+export function processStorageNotifications(
+  template: CloudFormationTemplate,
+  parameters: Record<string, any>,
+  bucketName: string,
+): StorageNotificationConfiguration[] {
+  const { cfnContext, resources } = getStorageStackContext(template, parameters, bucketName);
+  const bucket = Object.values(resources).find(resource => resource.Type === 'AWS::S3::Bucket');
+  const notificationConfiguration: any = (bucket && bucket.Properties.NotificationConfiguration) || {};
+  const notifications: StorageNotificationConfiguration[] = [];
+  [].concat(notificationConfiguration.LambdaConfigurations || []).forEach((lambdaConfiguration, index) => {
+    // functions of the project are passed to the stack as function<name>Arn parameters
+    const functionRef = lambdaConfiguration.Function && lambdaConfiguration.Function.Ref;
+    const [, functionName] = /^function(.+)Arn$/.exec(String(functionRef)) || [];
+    if (!functionName) {
+      console.warn(
+        `Mock storage can only invoke the functions of the project. Skipping the notification of ${JSON.stringify(
+          lambdaConfiguration.Function,
+        )}.`,
+      );
+      return;
+    }
+    const rules = (lambdaConfiguration.Filter && lambdaConfiguration.Filter.S3Key && lambdaConfiguration.Filter.S3Key.Rules) || [];
+    notifications.push({
+      id: lambdaConfiguration.Id || `LambdaConfiguration${index}`,
+      event: parseValue(lambdaConfiguration.Event, cfnContext),
+      filterRules: [].concat(rules).map(rule => ({ name: parseValue(rule.Name, cfnContext), value: parseValue(rule.Value, cfnContext) })),
+      functionName,
+    });
+  });
+  return notifications;
+}
+
+/**
+ * Checks whether the event of the key has to be sent to the target of the notification, the same way S3 matches the
+ * event type and the prefix and suffix filters
+ */
+export function matchesStorageNotification(notification: StorageNotificationConfiguration, eventName: string, key: string): boolean {
+  const [, eventType, eventPattern] = notification.event.split(':');
+  const [type, name] = eventName.split(':');
+  if (eventType !== type || (eventPattern !== '*' && eventPattern !== name)) {
+    return false;
+  }
+  return notification.filterRules.every(rule => {
+    const ruleName = rule.name.toLowerCase();
+    return ruleName === 'prefix' ? key.startsWith(rule.value) : ruleName === 'suffix' ? key.endsWith(rule.value) : false;
+  });
+}
+
+function getStorageStackContext(
+  template: CloudFormationTemplate,
+  parameters: Record<string, any>,
+  bucketName: string,
+): { cfnContext: CloudFormationParseContext; resources: CloudFormationResources } {
+  // parameters passed by the root stack are not known locally
+  const templateParameters = template.Parameters || {};
+  const placeholders = Object.entries(templateParameters)
+    .filter(([, parameter]) => typeof parameter.Default === 'undefined')
+    .reduce((acc, [parameterName]) => ({ ...acc, [parameterName]: `\${${parameterName}}` }), {});
+  const mergedParameters = {
+    ...mergeParameters(templateParameters, {
+      ...placeholders,
+      ...parameters,
+      authRoleName: AUTH_ROLE_NAME,
+      unauthRoleName: UNAUTH_ROLE_NAME,
+    }),
+    // i.e. the region of the project, used in the filters of the notifications
+    ...pick(parameters, Object.keys(CFN_PSEUDO_PARAMS)),
+  };
+  const conditions = processConditions(template.Conditions || {}, mergedParameters);
+  return {
+    cfnContext: {
+      params: mergedParameters,
+      conditions,
+      resources: { S3Bucket: { Type: 'AWS::S3::Bucket', result: { ref: bucketName } } },
+      exports: {},
+    },
+    resources: filterResourcesBasedOnConditions(template.Resources, conditions),
+  };
+}
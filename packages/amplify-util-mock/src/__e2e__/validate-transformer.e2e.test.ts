@@ -0,0 +1,150 @@
+import { DynamoDBModelTransformer } from 'graphql-dynamodb-transformer';
+import { GraphQLTransform } from 'graphql-transformer-core';
+import { ValidateTransformer } from 'graphql-validate-transformer';
+import { GraphQLClient } from './utils/graphql-client';
+import { deploy, launchDDBLocal, terminateDDB, logDebug } from './utils/index';
+
+jest.setTimeout(20000);
+
+let GRAPHQL_CLIENT = undefined;
+let ddbEmulator = null;
+let dbPath = null;
+let server;
+
+beforeAll(async () => {
+  const validSchema = `
+    enum Plan {
+      FREE
+      PRO
+      ENTERPRISE
+    }
+
+    type Member @model {
+      id: ID!
+      email: String! @validate(format: EMAIL, maxLength: 30)
+      handle: String @validate(pattern: "[a-z0-9_]+", minLength: 3)
+      age: Int @validate(min: 18)
+      plan: Plan @validate(oneOf: ["FREE", "PRO"])
+    }
+    `;
+
+  try {
+    const transformer = new GraphQLTransform({
+      transformers: [new DynamoDBModelTransformer(), new ValidateTransformer()],
+    });
+    const out = transformer.transform(validSchema);
+
+    let ddbClient;
+    ({ dbPath, emulator: ddbEmulator, client: ddbClient } = await launchDDBLocal());
+
+    const result = await deploy(out, ddbClient);
+    server = result.simulator;
+
+    const endpoint = server.url + '/graphql';
+    logDebug(`Using graphql url: ${endpoint}`);
+
+    const apiKey = result.config.appSync.apiKey;
+    expect(apiKey).toBeDefined();
+    expect(endpoint).toBeDefined();
+    GRAPHQL_CLIENT = new GraphQLClient(endpoint, { 'x-api-key': apiKey });
+  } catch (e) {
+    console.error(e);
+    expect(true).toEqual(false);
+  }
+});
+
+afterAll(async () => {
+  try {
+    if (server) {
+      await server.stop();
+    }
+    await terminateDDB(ddbEmulator, dbPath);
+  } catch (e) {
+    console.error(e);
+    expect(true).toEqual(false);
+  }
+});
+
+/**
+ * Test queries below
+ */
+test('Test createMember with valid input', async () => {
+  const response = await GRAPHQL_CLIENT.query(
+    `mutation {
+        createMember(input: { email: "jane@example.com", handle: "jane_doe", age: 30, plan: PRO }) {
+            id
+            email
+            plan
+        }
+    }`,
+    {},
+  );
+  expect(response.errors).toBeUndefined();
+  expect(response.data.createMember.id).toBeDefined();
+  expect(response.data.createMember.plan).toEqual('PRO');
+});
+
+test('Test createMember with invalid input', async () => {
+  const invalidInputs = [
+    ['email: "jane.example.com"', 'input.email', 'input.email must be a valid email address.'],
+    ['email: "jane.doe.with.a.long.name@example.com"', 'input.email', 'input.email must be at most 30 characters long.'],
+    ['email: "jane@example.com", handle: "Jane Doe"', 'input.handle', 'input.handle must match the pattern [a-z0-9_]+.'],
+    ['email: "jane@example.com", handle: "jd"', 'input.handle', 'input.handle must be at least 3 characters long.'],
+    ['email: "jane@example.com", age: 17', 'input.age', 'input.age must be at least 18.'],
+    ['email: "jane@example.com", plan: ENTERPRISE', 'input.plan', 'input.plan must be one of FREE, PRO.'],
+  ];
+  for (const [input, field, message] of invalidInputs) {
+    const response = await GRAPHQL_CLIENT.query(
+      `mutation {
+          createMember(input: { ${input} }) {
+              id
+          }
+      }`,
+      {},
+    );
+    expect(response.data.createMember).toBeNull();
+    expect(response.errors.length).toEqual(1);
+    expect(response.errors[0].message).toEqual(message);
+    expect((response.errors[0] as any).errorType).toEqual('ValidationError');
+    expect((response.errors[0] as any).errorInfo).toEqual({ field });
+  }
+});
+
+test('Test updateMember validates the fields in the input', async () => {
+  const createResponse = await GRAPHQL_CLIENT.query(
+    `mutation {
+        createMember(input: { email: "john@example.com", age: 40 }) {
+            id
+        }
+    }`,
+    {},
+  );
+  const id = createResponse.data.createMember.id;
+
+  const invalidUpdateResponse = await GRAPHQL_CLIENT.query(
+    `mutation {
+        updateMember(input: { id: "${id}", age: 12 }) {
+            id
+        }
+    }`,
+    {},
+  );
+  expect(invalidUpdateResponse.data.updateMember).toBeNull();
+  expect(invalidUpdateResponse.errors[0].message).toEqual('input.age must be at least 18.');
+  expect((invalidUpdateResponse.errors[0] as any).errorType).toEqual('ValidationError');
+
+  // fields missing from the input or set to null are not validated
+  const updateResponse = await GRAPHQL_CLIENT.query(
+    `mutation {
+        updateMember(input: { id: "${id}", handle: null, plan: FREE }) {
+            id
+            email
+            age
+            plan
+        }
+    }`,
+    {},
+  );
+  expect(updateResponse.errors).toBeUndefined();
+  expect(updateResponse.data.updateMember).toEqual({ id, email: 'john@example.com', age: 40, plan: 'FREE' });
+});
@@ -61,6 +61,12 @@ describe('intrinsic-functions', () => {
       expect(parseValue).toHaveBeenCalledTimes(2);
     });
 
+    it('should substitute parameters and pseudo parameters that are not in the variable map', () => {
+      const context = { ...cfnContext, params: { 'AWS::Region': 'us-east-1-fake', env: 'dev' } };
+      const expr = ['arn:aws:appsync:${AWS::Region}:apis/${apiId}-${env}', { apiId: 'api-id' }];
+      expect(cfnSub(expr, context, val => val)).toEqual('arn:aws:appsync:us-east-1-fake:apis/api-id-dev');
+    });
+
     it('should throw error if there are no substitute variable', () => {
       const expr = ['My name is ${name}. I am ${age} years old'];
       expect(() => cfnSub(expr, cfnContext, val => val)).toThrow();
@@ -0,0 +1,190 @@
+import {
+  matchesStorageNotification,
+  processStorageNotifications,
+  processStorageRolePolicies,
+} from '../../CFNParser/storage-resource-processor';
+
+describe('processStorageRolePolicies', () => {
+  const bucketArn = {
+    'Fn::Join': ['', ['arn:aws:s3:::', { Ref: 'S3Bucket' }]],
+  };
+  const objectArn = (path: string) => ({
+    'Fn::Join': ['', ['arn:aws:s3:::', { Ref: 'S3Bucket' }, path]],
+  });
+  const permissionCondition = (parameterName: string) => ({
+    'Fn::Not': [{ 'Fn::Equals': [{ Ref: parameterName }, 'DISALLOW'] }],
+  });
+  // trimmed down version of the template amplify-category-storage generates
+  const template: any = {
+    Parameters: {
+      bucketName: { Type: 'String' },
+      authRoleName: { Type: 'String' },
+      unauthRoleName: { Type: 'String' },
+      env: { Type: 'String' },
+      s3PermissionsAuthenticatedPrivate: { Type: 'String', Default: 'DISALLOW' },
+      s3PermissionsGuestPublic: { Type: 'String', Default: 'DISALLOW' },
+      AuthenticatedAllowList: { Type: 'String', Default: 'DISALLOW' },
+      functionS3TriggerLambdaExecutionRole: { Type: 'String', Default: 'functionS3TriggerLambdaExecutionRole' },
+    },
+    Conditions: {
+      CreateAuthPrivate: permissionCondition('s3PermissionsAuthenticatedPrivate'),
+      CreateGuestPublic: permissionCondition('s3PermissionsGuestPublic'),
+      AuthReadAndList: permissionCondition('AuthenticatedAllowList'),
+    },
+    Resources: {
+      S3Bucket: { Type: 'AWS::S3::Bucket', Properties: {} },
+      S3AuthPrivatePolicy: {
+        Type: 'AWS::IAM::Policy',
+        Condition: 'CreateAuthPrivate',
+        Properties: {
+          Roles: [{ Ref: 'authRoleName' }],
+          PolicyDocument: {
+            Statement: [
+              {
+                Effect: 'Allow',
+                Action: { 'Fn::Split': [',', { Ref: 's3PermissionsAuthenticatedPrivate' }] },
+                Resource: [objectArn('/private/${cognito-identity.amazonaws.com:sub}/*')],
+              },
+            ],
+          },
+        },
+      },
+      S3GuestPublicPolicy: {
+        Type: 'AWS::IAM::Policy',
+        Condition: 'CreateGuestPublic',
+        Properties: {
+          Roles: [{ Ref: 'unauthRoleName' }],
+          PolicyDocument: {
+            Statement: [
+              { Effect: 'Allow', Action: { 'Fn::Split': [',', { Ref: 's3PermissionsGuestPublic' }] }, Resource: [objectArn('/public/*')] },
+            ],
+          },
+        },
+      },
+      S3AuthReadPolicy: {
+        Type: 'AWS::IAM::Policy',
+        Condition: 'AuthReadAndList',
+        Properties: {
+          Roles: [{ Ref: 'authRoleName' }],
+          PolicyDocument: {
+            Statement: [
+              {
+                Effect: 'Allow',
+                Action: ['s3:ListBucket'],
+                Resource: [bucketArn],
+                Condition: { StringLike: { 's3:prefix': ['public/', 'public/*'] } },
+              },
+            ],
+          },
+        },
+      },
+      S3TriggerBucketPolicy: {
+        Type: 'AWS::IAM::Policy',
+        Properties: {
+          Roles: [{ Ref: 'functionS3TriggerLambdaExecutionRole' }],
+          PolicyDocument: { Statement: [{ Effect: 'Allow', Action: ['s3:*'], Resource: [objectArn('/*')] }] },
+        },
+      },
+    },
+  };
+  const parameters = {
+    bucketName: 'mybucket',
+    authRoleName: { Ref: 'AuthRoleName' },
+    unauthRoleName: { Ref: 'UnauthRoleName' },
+    s3PermissionsAuthenticatedPrivate: 's3:PutObject,s3:GetObject,s3:DeleteObject',
+    AuthenticatedAllowList: 'ALLOW',
+    env: 'dev',
+  };
+
+  it('should return the policies of the auth and unauth roles for the selected permissions', () => {
+    expect(processStorageRolePolicies(template, parameters, 'mybucket-dev')).toEqual([
+      {
+        roles: ['authRole'],
+        policyDocument: {
+          Statement: [
+            {
+              Effect: 'Allow',
+              Action: ['s3:PutObject', 's3:GetObject', 's3:DeleteObject'],
+              Resource: ['arn:aws:s3:::mybucket-dev/private/${cognito-identity.amazonaws.com:sub}/*'],
+            },
+          ],
+        },
+      },
+      {
+        roles: ['authRole'],
+        policyDocument: {
+          Statement: [
+            {
+              Effect: 'Allow',
+              Action: ['s3:ListBucket'],
+              Resource: ['arn:aws:s3:::mybucket-dev'],
+              Condition: { StringLike: { 's3:prefix': ['public/', 'public/*'] } },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+});
+
+describe('processStorageNotifications', () => {
+  const template: any = {
+    Parameters: {
+      env: { Type: 'String' },
+      functionS3TriggerArn: { Type: 'String', Default: 'functionS3TriggerArn' },
+      functionResizeArn: { Type: 'String', Default: 'functionResizeArn' },
+    },
+    Resources: {
+      S3Bucket: {
+        Type: 'AWS::S3::Bucket',
+        Properties: {
+          NotificationConfiguration: {
+            LambdaConfigurations: [
+              { Event: 's3:ObjectCreated:*', Function: { Ref: 'functionS3TriggerArn' } },
+              { Event: 's3:ObjectRemoved:*', Function: { Ref: 'functionS3TriggerArn' } },
+              {
+                Id: 'resize',
+                Event: 's3:ObjectCreated:Put',
+                Filter: {
+                  S3Key: {
+                    Rules: [
+                      { Name: 'prefix', Value: { 'Fn::Join': ['', ['protected/', { Ref: 'AWS::Region' }, ':']] } },
+                      { Name: 'suffix', Value: '.jpg' },
+                    ],
+                  },
+                },
+                Function: { Ref: 'functionResizeArn' },
+              },
+            ],
+          },
+        },
+      },
+    },
+  };
+  const notifications = processStorageNotifications(template, { env: 'dev', 'AWS::Region': 'us-west-2' }, 'mybucket-dev');
+
+  it('should resolve the targets and filters of the notifications', () => {
+    expect(notifications).toEqual([
+      { id: 'LambdaConfiguration0', event: 's3:ObjectCreated:*', filterRules: [], functionName: 'S3Trigger' },
+      { id: 'LambdaConfiguration1', event: 's3:ObjectRemoved:*', filterRules: [], functionName: 'S3Trigger' },
+      {
+        id: 'resize',
+        event: 's3:ObjectCreated:Put',
+        filterRules: [
+          { name: 'prefix', value: 'protected/us-west-2:' },
+          { name: 'suffix', value: '.jpg' },
+        ],
+        functionName: 'Resize',
+      },
+    ]);
+  });
+
+  it('should match the event types and the key filters', () => {
+    const getTargets = (eventName: string, key: string) =>
+      notifications.filter(notification => matchesStorageNotification(notification, eventName, key)).map(notification => notification.id);
+    expect(getTargets('ObjectCreated:Put', 'protected/us-west-2:user1/photo.jpg')).toEqual(['LambdaConfiguration0', 'resize']);
+    expect(getTargets('ObjectCreated:CompleteMultipartUpload', 'protected/us-west-2:user1/photo.jpg')).toEqual(['LambdaConfiguration0']);
+    expect(getTargets('ObjectCreated:Put', 'protected/us-west-2:user1/photo.png')).toEqual(['LambdaConfiguration0']);
+    expect(getTargets('ObjectRemoved:Delete', 'public/photo.jpg')).toEqual(['LambdaConfiguration1']);
+  });
+});
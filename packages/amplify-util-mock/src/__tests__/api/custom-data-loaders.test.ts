@@ -0,0 +1,83 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { addDataLoader, removeDataLoader } from 'amplify-appsync-simulator';
+import { CustomDataLoaders } from '../../api/custom-data-loaders';
+
+jest.mock('amplify-appsync-simulator', () => ({
+  addDataLoader: jest.fn(),
+  removeDataLoader: jest.fn(),
+}));
+
+describe('CustomDataLoaders', () => {
+  const config = {
+    dataSources: [
+      { name: 'PostTable', type: 'AMAZON_DYNAMODB', config: { tableName: 'PostTable' } },
+      { name: 'EventBus', type: 'NONE' },
+      { name: 'Audit', type: 'NONE' },
+    ],
+  };
+  let projectRoot: string;
+
+  const writeLoader = (fileName: string, result: string) => {
+    fs.outputFileSync(
+      path.join(projectRoot, 'mock-loaders', fileName),
+      `module.exports = class { constructor(config) { this.config = config; } async load() { return ${result}; } };`,
+    );
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-data-loaders-'));
+    writeLoader('event-bus.js', "{ source: 'event-bus' }");
+    writeLoader('none.js', "{ source: 'none' }");
+  });
+
+  afterEach(() => {
+    fs.removeSync(projectRoot);
+  });
+
+  it('should register loaders mapped by data source name before the ones mapped by type', async () => {
+    const customDataLoaders = new CustomDataLoaders(projectRoot);
+    const result = customDataLoaders.configure(config, {
+      dataSources: { EventBus: 'mock-loaders/event-bus.js' },
+      types: { NONE: './mock-loaders/none.js' },
+    });
+
+    expect(result.dataSources.map(d => d.type)).toEqual(['AMAZON_DYNAMODB', 'CUSTOM:EventBus', 'CUSTOM:TYPE:NONE']);
+    expect(addDataLoader).toHaveBeenCalledTimes(2);
+    const [[, EventBusLoader], [, NoneLoader]] = (addDataLoader as jest.Mock).mock.calls;
+    expect(await new EventBusLoader({}).load()).toEqual({ source: 'event-bus' });
+    expect(await new NoneLoader({}).load()).toEqual({ source: 'none' });
+    expect(customDataLoaders.isLoaderFile(path.join(projectRoot, 'mock-loaders', 'none.js'))).toBeTruthy();
+  });
+
+  it('should load the latest version of the module on reload', async () => {
+    const customDataLoaders = new CustomDataLoaders(projectRoot);
+    customDataLoaders.configure(config, { dataSources: { EventBus: 'mock-loaders/event-bus.js' } });
+    // jest keeps its own module registry and file cache instead of require.cache, so the updated module is mocked
+    jest.resetModules();
+    jest.doMock(
+      path.join(projectRoot, 'mock-loaders', 'event-bus.js'),
+      () =>
+        class {
+          async load() {
+            return { source: 'event-bus-v2' };
+          }
+        },
+    );
+    customDataLoaders.reload();
+
+    expect(removeDataLoader).toHaveBeenCalledWith('CUSTOM:EventBus');
+    const ReloadedLoader = (addDataLoader as jest.Mock).mock.calls[1][1];
+    expect(await new ReloadedLoader({}).load()).toEqual({ source: 'event-bus-v2' });
+  });
+
+  it('should fail when the module does not export a data loader', () => {
+    fs.outputFileSync(path.join(projectRoot, 'mock-loaders', 'invalid.js'), 'module.exports = {};');
+    const customDataLoaders = new CustomDataLoaders(projectRoot);
+    expect(() => customDataLoaders.configure(config, { dataSources: { Audit: 'mock-loaders/invalid.js' } })).toThrow(
+      'must export a class with a load method',
+    );
+  });
+});
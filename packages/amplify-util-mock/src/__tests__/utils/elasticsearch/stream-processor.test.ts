@@ -0,0 +1,59 @@
+import { InMemoryElasticsearchDomain } from 'amplify-appsync-simulator';
+import { computeDocumentId, getIndexName, processStreamRecord } from '../../../utils/elasticsearch/stream-processor';
+
+describe('getIndexName', () => {
+  it('should use the lower cased model name as index name', () => {
+    expect(getIndexName('PostTable')).toEqual('post');
+    expect(getIndexName('Post-abcdefgh-dev')).toEqual('post');
+    expect(getIndexName('Table')).toEqual('table');
+  });
+});
+
+describe('computeDocumentId', () => {
+  it('should join the key values in lexicographic order of the key names', () => {
+    expect(computeDocumentId({ id: { S: '1' } })).toEqual('1');
+    expect(computeDocumentId({ sortKey: { N: '2' }, id: { S: '1' } })).toEqual('1|2');
+  });
+});
+
+describe('processStreamRecord', () => {
+  let domain: InMemoryElasticsearchDomain;
+  beforeEach(() => {
+    domain = new InMemoryElasticsearchDomain();
+  });
+
+  it('should index inserted and modified items', () => {
+    processStreamRecord(domain, 'PostTable', {
+      eventName: 'INSERT',
+      dynamodb: { Keys: { id: { S: '1' } }, NewImage: { id: { S: '1' }, title: { S: 'first' } } },
+    });
+    processStreamRecord(domain, 'PostTable', {
+      eventName: 'MODIFY',
+      dynamodb: { Keys: { id: { S: '1' } }, NewImage: { id: { S: '1' }, title: { S: 'updated' } } },
+    });
+    expect(domain.getDocument('post', '1')).toEqual({ _id: '1', _version: 2, _source: { id: '1', title: 'updated' } });
+  });
+
+  it('should delete removed items', () => {
+    domain.indexDocument('post', '1', { id: '1' });
+    processStreamRecord(domain, 'PostTable', {
+      eventName: 'REMOVE',
+      dynamodb: { Keys: { id: { S: '1' } }, OldImage: { id: { S: '1' } } },
+    });
+    expect(domain.getDocument('post', '1')).toBeNull();
+  });
+
+  it('should use the item version as external version and delete soft deleted items', () => {
+    processStreamRecord(domain, 'PostTable', {
+      eventName: 'INSERT',
+      dynamodb: { Keys: { id: { S: '1' } }, NewImage: { id: { S: '1' }, _version: { N: '3' }, _ttl: { N: '100' } } },
+    });
+    expect(domain.getDocument('post', '1')).toEqual({ _id: '1', _version: 3, _source: { id: '1' } });
+
+    processStreamRecord(domain, 'PostTable', {
+      eventName: 'MODIFY',
+      dynamodb: { Keys: { id: { S: '1' } }, NewImage: { id: { S: '1' }, _version: { N: '4' }, _deleted: { BOOL: true } } },
+    });
+    expect(domain.getDocument('post', '1')).toBeNull();
+  });
+});
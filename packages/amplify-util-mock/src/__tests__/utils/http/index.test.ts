@@ -0,0 +1,27 @@
+import { configureHTTPDataSource } from '../../../utils/http';
+
+describe('configureHTTPDataSource', () => {
+  const config = {
+    dataSources: [
+      { name: 'PostTable', type: 'AMAZON_DYNAMODB', config: { tableName: 'PostTable' } },
+      { name: 'ApiDataSource', type: 'HTTP', config: { endpoint: 'https://api-${env}.example.com' } },
+      { name: 'LegacyDataSource', type: 'HTTP', config: { endpoint: 'https://legacy.example.com/' } },
+    ],
+  };
+
+  it('should replace the env placeholder in the endpoint', () => {
+    const result = configureHTTPDataSource(config, 'dev');
+    expect(result.dataSources[0]).toEqual(config.dataSources[0]);
+    expect(result.dataSources[1].config.endpoint).toEqual('https://api-dev.example.com');
+    expect(result.dataSources[2].config.endpoint).toEqual('https://legacy.example.com/');
+  });
+
+  it('should point the overridden endpoints to the local server', () => {
+    const result = configureHTTPDataSource(config, 'dev', {
+      'https://legacy.example.com': 'http://localhost:3000',
+      'https://api-dev.example.com/': 'http://localhost:4000/api',
+    });
+    expect(result.dataSources[1].config.endpoint).toEqual('http://localhost:4000/api');
+    expect(result.dataSources[2].config.endpoint).toEqual('http://localhost:3000');
+  });
+});
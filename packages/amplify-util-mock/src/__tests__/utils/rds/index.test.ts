@@ -0,0 +1,27 @@
+import { configureRDSDataSource } from '../../../utils/rds';
+
+describe('configureRDSDataSource', () => {
+  const config = {
+    dataSources: [
+      { name: 'PostTable', type: 'AMAZON_DYNAMODB', config: { tableName: 'PostTable' } },
+      { name: 'BlogRDS', type: 'RELATIONAL_DATABASE', config: { databaseName: 'blog' } },
+    ],
+  };
+
+  it('should add the local connection to relational database data sources', () => {
+    const connection = { host: 'localhost', port: 3306, user: 'root', password: 'password' };
+    const result = configureRDSDataSource(config, connection);
+    expect(result.dataSources[0]).toEqual(config.dataSources[0]);
+    expect(result.dataSources[1].config).toEqual({ databaseName: 'blog', connection });
+  });
+
+  it('should use the database from the local connection when present', () => {
+    const result = configureRDSDataSource(config, { host: 'localhost', user: 'root', database: 'blog_local' });
+    expect(result.dataSources[1].config.databaseName).toEqual('blog_local');
+  });
+
+  it('should leave the connection empty when it is not configured', () => {
+    const result = configureRDSDataSource(config);
+    expect(result.dataSources[1].config).toEqual({ databaseName: 'blog', connection: undefined });
+  });
+});
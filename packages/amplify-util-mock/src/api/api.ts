@@ -1,6 +1,6 @@
 import * as fs from 'fs-extra';
 import * as dynamoEmulator from 'amplify-dynamodb-simulator';
-import { AmplifyAppSyncSimulator, AmplifyAppSyncSimulatorConfig } from 'amplify-appsync-simulator';
+import { AmplifyAppSyncSimulator, AmplifyAppSyncSimulatorConfig, InMemoryElasticsearchDomain } from 'amplify-appsync-simulator';
 import { add, generate, isCodegenConfigured, switchToSDLSchema } from 'amplify-codegen';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
@@ -10,8 +10,12 @@ import { checkJavaVersion } from '../utils/index';
 import { runTransformer } from './run-graphql-transformer';
 import { processAppSyncResources } from '../CFNParser';
 import { ResolverOverrides } from './resolver-overrides';
+import { CustomDataLoaders } from './custom-data-loaders';
 import { ConfigOverrideManager } from '../utils/config-override';
 import { configureDDBDataSource, createAndUpdateTable } from '../utils/dynamo-db';
+import { configureHTTPDataSource } from '../utils/http';
+import { configureESDataSource, SearchableSync } from '../utils/elasticsearch';
+import { configureRDSDataSource } from '../utils/rds';
 import { getMockConfig } from '../utils/mock-config-file';
 import { getAllLambdaFunctions } from '../utils/lambda/load';
 import { getInvoker } from 'amplify-category-function';
@@ -26,8 +30,11 @@ export class APITest {
   private ddbClient;
   private appSyncSimulator: AmplifyAppSyncSimulator;
   private resolverOverrideManager: ResolverOverrides;
+  private customDataLoaders: CustomDataLoaders;
   private watcher: chokidar.FSWatcher;
   private ddbEmulator;
+  private esDomain: InMemoryElasticsearchDomain;
+  private searchableSync: SearchableSync;
   private configOverrideManager: ConfigOverrideManager;
 
   private projectRoot: string;
@@ -46,10 +53,14 @@ export class APITest {
       this.ddbClient = await this.startDynamoDBLocalServer(context);
       const resolverDirectory = await this.getResolverTemplateDirectory(context);
       this.resolverOverrideManager = new ResolverOverrides(resolverDirectory);
+      this.customDataLoaders = new CustomDataLoaders(this.projectRoot);
       this.apiParameters = await this.loadAPIParameters(context);
+      const { strictAppSyncParity, auth } = getMockConfig(context);
       this.appSyncSimulator = new AmplifyAppSyncSimulator({
         port,
         wsPort,
+        strictAppSyncParity: !!strictAppSyncParity,
+        auth,
       });
       await this.appSyncSimulator.start();
       await this.resolverOverrideManager.start();
@@ -67,6 +78,9 @@ export class APITest {
   }
 
   async stop(context) {
+    if (this.searchableSync) {
+      this.searchableSync.stop();
+    }
     this.ddbClient = null;
     if (this.watcher) {
       this.watcher.close();
@@ -84,6 +98,9 @@ export class APITest {
 
     await this.appSyncSimulator.stop();
     this.resolverOverrideManager.stop();
+    if (this.customDataLoaders) {
+      this.customDataLoaders.unregister();
+    }
   }
 
   private async runTransformer(context, parameters = {}) {
@@ -91,7 +108,12 @@ export class APITest {
     let config: any = processAppSyncResources(transformerOutput, parameters);
     await this.ensureDDBTables(config);
     config = this.configureDDBDataSource(config);
-    this.transformerResult = await this.configureLambdaDataSource(context, config);
+    config = this.configureHTTPDataSource(context, config);
+    config = await this.configureESDataSource(config);
+    config = this.configureRDSDataSource(context, config);
+    config = await this.configureLambdaDataSource(context, config);
+    config = await this.configureLambdaAuthorizer(context, config);
+    this.transformerResult = this.configureCustomDataLoaders(context, config);
     const overriddenTemplates = await this.resolverOverrideManager.sync(this.transformerResult.mappingTemplates);
     return { ...this.transformerResult, mappingTemplates: overriddenTemplates };
   }
@@ -143,6 +165,18 @@ export class APITest {
             mappingTemplates,
           });
         }
+      } else if (this.customDataLoaders.isLoaderFile(filePath)) {
+        context.print.info('Custom data loader change detected. Reloading...');
+        this.customDataLoaders.reload();
+        const mappingTemplates = this.resolverOverrideManager.sync(this.transformerResult.mappingTemplates);
+        await this.appSyncSimulator.reload({
+          ...this.transformerResult,
+          mappingTemplates,
+        });
+      } else if (filePath === this.getMockConfigFilePath()) {
+        context.print.info('Mock config change detected. Reloading...');
+        const config = await this.runTransformer(context, this.apiParameters);
+        await this.appSyncSimulator.reload(config);
       } else if (filePath.includes(inputSchemaPath)) {
         context.print.info('GraphQL Schema change detected. Reloading...');
         const config: AmplifyAppSyncSimulatorConfig = await this.runTransformer(context, this.apiParameters);
@@ -220,6 +254,44 @@ export class APITest {
     };
   }
 
+  private async configureLambdaAuthorizer(context, config) {
+    const { defaultAuthenticationType, additionalAuthenticationProviders } = config.appSync;
+    const providers = [defaultAuthenticationType, ...additionalAuthenticationProviders];
+    if (!providers.some(p => p.authenticationType === 'AWS_LAMBDA')) {
+      return config;
+    }
+    const provisionedLambdas = getAllLambdaFunctions(context, path.join(this.projectRoot, 'amplify', 'backend'));
+
+    const configureProvider = async provider => {
+      if (provider.authenticationType !== 'AWS_LAMBDA') {
+        return provider;
+      }
+      const lambdaConfig = lambdaArnToConfig(provider.lambdaAuthorizerConfig.AuthorizerUri, provisionedLambdas);
+      const envVars = await this.hydrateLambdaEnvVars(context, lambdaConfig.environment, config);
+      const invoker = await getInvoker(context, {
+        resourceName: lambdaConfig.name,
+        handler: lambdaConfig.handler,
+        envVars,
+      });
+      return {
+        ...provider,
+        lambdaAuthorizerConfig: {
+          ...provider.lambdaAuthorizerConfig,
+          invoke: event => timeConstrainedInvoker(invoker({ event }), context.input.options),
+        },
+      };
+    };
+
+    return {
+      ...config,
+      appSync: {
+        ...config.appSync,
+        defaultAuthenticationType: await configureProvider(defaultAuthenticationType),
+        additionalAuthenticationProviders: await Promise.all(additionalAuthenticationProviders.map(configureProvider)),
+      },
+    };
+  }
+
   private async watch(context) {
     this.watcher = await this.registerWatcher(context);
     this.watcher
@@ -234,10 +306,48 @@ export class APITest {
       });
   }
 
+  private configureCustomDataLoaders(context, config) {
+    const { customDataLoaders } = getMockConfig(context);
+    const result = this.customDataLoaders.configure(config, customDataLoaders);
+    if (this.watcher) {
+      this.watcher.add(this.customDataLoaders.files);
+    }
+    return result;
+  }
+
   private configureDDBDataSource(config) {
     const ddbConfig = this.ddbClient.config;
     return configureDDBDataSource(config, ddbConfig);
   }
+  private async configureESDataSource(config) {
+    const hasESDataSource = config.dataSources.some(d => d.type === 'AMAZON_ELASTICSEARCH');
+    if (!hasESDataSource) {
+      if (this.searchableSync) {
+        this.searchableSync.stop();
+      }
+      return config;
+    }
+    if (!this.esDomain) {
+      this.esDomain = new InMemoryElasticsearchDomain();
+      this.searchableSync = new SearchableSync(this.ddbClient, this.esDomain);
+    }
+    // every table is synced to its own index, the search resolvers only query the indices of @searchable models
+    const tableNames = config.tables.filter(t => t.Properties.StreamSpecification).map(t => t.Properties.TableName);
+    await this.searchableSync.start(tableNames);
+    return configureESDataSource(config, this.esDomain);
+  }
+
+  private configureHTTPDataSource(context, config) {
+    const { envName } = context.amplify.getEnvInfo();
+    const { httpEndpoints = {} } = getMockConfig(context);
+    return configureHTTPDataSource(config, envName, httpEndpoints);
+  }
+
+  private configureRDSDataSource(context, config) {
+    const { relationalDatabase } = getMockConfig(context);
+    return configureRDSDataSource(config, relationalDatabase);
+  }
+
   private async getAppSyncAPI(context) {
     const currentMeta = await getAmplifyMeta(context);
     const { api: apis = {} } = currentMeta;
@@ -296,9 +406,13 @@ export class APITest {
     const apiDirectory = await this.getAPIBackendDirectory(context);
     return apiDirectory;
   }
+  private getMockConfigFilePath(): string {
+    return path.join(this.projectRoot, 'amplify', 'mock.json');
+  }
+
   private async registerWatcher(context: any): Promise<chokidar.FSWatcher> {
     const watchDir = await this.getAPIBackendDirectory(context);
-    return chokidar.watch(watchDir, {
+    return chokidar.watch([watchDir, this.getMockConfigFilePath()], {
       interval: 100,
       ignoreInitial: true,
       followSymlinks: false,
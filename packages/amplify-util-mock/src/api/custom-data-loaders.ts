@@ -0,0 +1,92 @@
+import * as path from 'path';
+import { addDataLoader, removeDataLoader } from 'amplify-appsync-simulator';
+
+export type CustomDataLoaderConfig = {
+  // data source name => path of the module implementing the loader
+  dataSources?: Record<string, string>;
+  // data source type => path of the module implementing the loader
+  types?: Record<string, string>;
+};
+
+const CUSTOM_LOADER_TYPE_PREFIX = 'CUSTOM';
+
+/**
+ * Registers the data loaders listed in customDataLoaders section of mock.json with the simulator. Loader modules
+ * are resolved relative to the project root and must export a class implementing AmplifyAppSyncSimulatorDataLoader.
+ * A loader mapped to a data source name takes precedence over a loader mapped to its type
+ */
+export class CustomDataLoaders {
+  // simulator loader type => absolute path of the module
+  private registeredLoaders: Map<string, string> = new Map();
+
+  constructor(private projectRoot: string) {}
+
+  configure(config, loaderConfig: CustomDataLoaderConfig = {}) {
+    const { dataSources: byName = {}, types: byType = {} } = loaderConfig;
+    this.unregister();
+    return {
+      ...config,
+      dataSources: config.dataSources.map(d => {
+        let loaderType: string;
+        let modulePath: string;
+        if (byName[d.name]) {
+          loaderType = `${CUSTOM_LOADER_TYPE_PREFIX}:${d.name}`;
+          modulePath = byName[d.name];
+        } else if (byType[d.type]) {
+          loaderType = `${CUSTOM_LOADER_TYPE_PREFIX}:TYPE:${d.type}`;
+          modulePath = byType[d.type];
+        } else {
+          return d;
+        }
+        if (!this.registeredLoaders.has(loaderType)) {
+          this.register(loaderType, path.resolve(this.projectRoot, modulePath));
+        }
+        return { ...d, type: loaderType };
+      }),
+    };
+  }
+
+  get files(): string[] {
+    return [...new Set(this.registeredLoaders.values())];
+  }
+
+  isLoaderFile(filePath: string): boolean {
+    return this.files.includes(path.resolve(filePath));
+  }
+
+  /**
+   * Loads the loader modules again so the simulator picks up the changes on the next reload
+   */
+  reload() {
+    [...this.registeredLoaders.entries()].forEach(([loaderType, modulePath]) => {
+      removeDataLoader(loaderType);
+      this.register(loaderType, modulePath);
+    });
+  }
+
+  unregister() {
+    [...this.registeredLoaders.keys()].forEach(loaderType => removeDataLoader(loaderType));
+    this.registeredLoaders.clear();
+  }
+
+  private register(loaderType: string, modulePath: string) {
+    addDataLoader(loaderType, loadDataLoaderModule(modulePath));
+    this.registeredLoaders.set(loaderType, modulePath);
+  }
+}
+
+function loadDataLoaderModule(modulePath: string) {
+  let loaderModule;
+  try {
+    delete require.cache[require.resolve(modulePath)];
+    loaderModule = require(modulePath);
+  } catch (e) {
+    e.message = `Failed to load custom data loader ${modulePath}\n${e.message}`;
+    throw e;
+  }
+  const loader = (loaderModule && loaderModule.default) || loaderModule;
+  if (typeof loader !== 'function' || !loader.prototype || typeof loader.prototype.load !== 'function') {
+    throw new Error(`Custom data loader ${modulePath} must export a class with a load method`);
+  }
+  return loader;
+}
@@ -1,10 +1,16 @@
-import { AmplifyStorageSimulator } from 'amplify-storage-simulator';
+import { AmplifyStorageSimulator, S3Event, StorageSimulatorServerConfig } from 'amplify-storage-simulator';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { getAmplifyMeta, addCleanupTask, getMockDataDirectory } from '../utils';
 import { ConfigOverrideManager } from '../utils/config-override';
 import { getInvoker } from 'amplify-category-function';
 import { loadMinimalLambdaConfig } from '../utils/lambda/loadMinimal';
+import { getMockConfig } from '../utils/mock-config-file';
+import {
+  matchesStorageNotification,
+  processStorageNotifications,
+  processStorageRolePolicies,
+} from '../CFNParser/storage-resource-processor';
 
 const port = 20005; // port for S3
 
@@ -14,6 +20,8 @@ export class StorageTest {
   private configOverrideManager: ConfigOverrideManager;
   private storageRegion: string;
   private bucketName: string;
+  private resourceName: string;
+  private envName: string;
 
   async start(context) {
     // loading s3 resource config form parameters.json
@@ -24,11 +32,12 @@ export class StorageTest {
       return context.print.warning('Storage has not yet been added to this project.');
     }
     let backendPath = context.amplify.pathManager.getBackendDirPath();
-    const resourceName = Object.keys(existingStorage)[0];
-    const parametersFilePath = path.join(backendPath, 'storage', resourceName, 'parameters.json');
+    this.resourceName = Object.keys(existingStorage)[0];
+    const parametersFilePath = path.join(backendPath, 'storage', this.resourceName, 'parameters.json');
 
     const localEnvFilePath = context.amplify.pathManager.getLocalEnvFilePath();
     const localEnvInfo = context.amplify.readJsonFile(localEnvFilePath);
+    this.envName = localEnvInfo.envName;
     const storageParams = context.amplify.readJsonFile(parametersFilePath);
     this.bucketName = `${storageParams.bucketName}-${localEnvInfo.envName}`;
     const route = path.join('/', this.bucketName);
@@ -41,7 +50,15 @@ export class StorageTest {
       });
       this.configOverrideManager = ConfigOverrideManager.getInstance(context);
       this.storageName = await this.getStorage(context);
-      const storageConfig = { port, route, localDirS3 };
+      const storageConfig: StorageSimulatorServerConfig = { port, route, localDirS3, region: this.storageRegion };
+      // requests are authorized like S3 does once the identities of the mock are configured
+      const { auth = {} } = getMockConfig(context);
+      if (auth.iamCredentials) {
+        storageConfig.auth = {
+          credentials: auth.iamCredentials,
+          rolePolicies: this.getRolePolicies(context),
+        };
+      }
       this.storageSimulator = new AmplifyStorageSimulator(storageConfig);
       await this.storageSimulator.start();
       console.log('Mock Storage endpoint is running at', this.storageSimulator.url);
@@ -57,64 +74,26 @@ export class StorageTest {
 
   // to fire s3 triggers attached on the bucket
   async trigger(context) {
-    let region = this.storageRegion;
-    this.storageSimulator.getServer.on('event', async (eventObj: any) => {
-      const meta = context.amplify.getProjectDetails().amplifyMeta;
-      const existingStorage = meta.storage;
-      let backendPath = context.amplify.pathManager.getBackendDirPath();
-      const resourceName = Object.keys(existingStorage)[0];
-      const CFNFilePath = path.join(backendPath, 'storage', resourceName, 's3-cloudformation-template.json');
-      const storageParams = context.amplify.readJsonFile(CFNFilePath);
-      const lambdaConfig =
-        storageParams.Resources.S3Bucket.Properties.NotificationConfiguration &&
-        storageParams.Resources.S3Bucket.Properties.NotificationConfiguration.LambdaConfigurations;
-      //no trigger case
-      if (lambdaConfig === undefined) {
-        return;
-      }
-
-      // loop over lambda config to check for trigger based on prefix
-
-      let triggerName;
-      for (let obj of lambdaConfig) {
-        let prefix_arr = obj.Filter;
-        if (prefix_arr === undefined) {
-          let eventName = String(eventObj.Records[0].event.eventName).split(':')[0];
-          if (eventName === 'ObjectRemoved' || eventName === 'ObjectCreated') {
-            triggerName = String(obj.Function.Ref)
-              .split('function')[1]
-              .split('Arn')[0];
-            break;
-          }
-        } else {
-          let keyName = String(eventObj.Records[0].s3.object.key);
-          prefix_arr = obj.Filter.S3Key.Rules;
-          for (let rules of prefix_arr) {
-            let node;
-            if (typeof rules.Value === 'object') {
-              node = String(Object.values(rules.Value)[0][1][0] + String(region) + ':');
-            }
-
-            if (typeof rules.Value === 'string') {
-              node = String(rules.Value);
-            }
-            // check prefix given  is the prefix of keyname in the event object
-            if (keyName.indexOf(node) === 0) {
-              triggerName = String(obj.Function.Ref)
-                .split('function')[1]
-                .split('Arn')[0];
-              break;
-            }
-          }
-        }
-        if (triggerName !== undefined) {
-          break;
+    this.storageSimulator.getServer.on('event', async (event: S3Event) => {
+      const [record] = event.Records;
+      // keys are url encoded in the events, the filters apply to the keys themselves
+      const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+      const { template, parameters } = this.readStorageStack(context);
+      const notifications = processStorageNotifications(template, parameters, this.bucketName).filter(notification =>
+        matchesStorageNotification(notification, record.eventName, key),
+      );
+
+      // like S3, every matching notification is sent to its target, even when they target the same function
+      for (const notification of notifications) {
+        try {
+          const config = loadMinimalLambdaConfig(context, notification.functionName);
+          const invoker = await getInvoker(context, { handler: config.handler, resourceName: notification.functionName });
+          await invoker({ event: { Records: [{ ...record, s3: { ...record.s3, configurationId: notification.id } }] } });
+        } catch (e) {
+          context.print.error(`Failed to invoke the storage trigger ${notification.functionName}`);
+          console.log(e);
         }
       }
-
-      const config = loadMinimalLambdaConfig(context, triggerName);
-      const invoker = await getInvoker(context, { handler: config.handler, resourceName: triggerName });
-      await invoker({ event: eventObj });
     });
   }
 
@@ -168,6 +147,26 @@ export class StorageTest {
     return name;
   }
 
+  // policies of the auth and unauth roles generated for the access levels selected for the storage
+  private getRolePolicies(context) {
+    const { template, parameters } = this.readStorageStack(context);
+    return processStorageRolePolicies(template, parameters, this.bucketName);
+  }
+
+  // CloudFormation template of the storage and the parameters it is deployed with
+  private readStorageStack(context): { template: any; parameters: Record<string, any> } {
+    const backendPath = context.amplify.pathManager.getBackendDirPath();
+    const resourceDirectory = path.join(backendPath, 'storage', this.resourceName);
+    return {
+      template: context.amplify.readJsonFile(path.join(resourceDirectory, 's3-cloudformation-template.json')),
+      parameters: {
+        ...context.amplify.readJsonFile(path.join(resourceDirectory, 'parameters.json')),
+        env: this.envName,
+        'AWS::Region': this.storageRegion,
+      },
+    };
+  }
+
   // create local storage for S3 on disk which is fixes as the test folder
   private createLocalStorage(context, resourceName: string) {
     const directoryPath = path.join(getMockDataDirectory(context), 'S3'); // get bucket through parameters remove afterwards
@@ -0,0 +1,21 @@
+import { InMemoryElasticsearchDomain } from 'amplify-appsync-simulator';
+
+export { SearchableSync } from './searchable-sync';
+
+export function configureESDataSource(config, domain: InMemoryElasticsearchDomain) {
+  return {
+    ...config,
+    dataSources: config.dataSources.map(d => {
+      if (d.type !== 'AMAZON_ELASTICSEARCH') {
+        return d;
+      }
+      return {
+        ...d,
+        config: {
+          ...d.config,
+          domain,
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,135 @@
+import { InMemoryElasticsearchDomain } from 'amplify-appsync-simulator';
+import { DynamoDB, DynamoDBStreams } from 'aws-sdk';
+import { waitTillTableStateIsActive } from '../dynamo-db/helpers';
+import { indexItem, processStreamRecord } from './stream-processor';
+
+const POLL_INTERVAL = 1000;
+
+type ShardReader = {
+  tableName: string;
+  streamArn: string;
+  shardId: string;
+  iterator: string;
+};
+
+/**
+ * Keeps the local Elasticsearch domain in sync with DynamoDB Local. The existing items are indexed when the sync starts and
+ * the table streams are polled afterwards, similar to the streaming Lambda the searchable transformer adds in the cloud
+ */
+export class SearchableSync {
+  private streamsClient: DynamoDBStreams;
+  private shardReaders: ShardReader[] = [];
+  private pollTimer: NodeJS.Timer = null;
+  private running: boolean = false;
+
+  constructor(private ddbClient: DynamoDB, private domain: InMemoryElasticsearchDomain) {
+    const { endpoint, region, accessKeyId, secretAccessKey } = ddbClient.config;
+    this.streamsClient = new DynamoDBStreams({ endpoint: endpoint as string, region, accessKeyId, secretAccessKey });
+  }
+
+  async start(tableNames: string[]): Promise<void> {
+    this.stop();
+    this.domain.clear();
+    this.running = true;
+    for (const tableName of tableNames) {
+      const streamArn = await this.ensureStream(tableName);
+      // read the stream from its current position before indexing the existing items so no writes are missed
+      const shards = await this.getOpenShards(streamArn);
+      for (const shardId of shards) {
+        const iterator = await this.getShardIterator(streamArn, shardId, 'LATEST');
+        this.shardReaders.push({ tableName, streamArn, shardId, iterator });
+      }
+      await this.indexExistingItems(tableName);
+    }
+    this.schedulePoll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.shardReaders = [];
+  }
+
+  private async ensureStream(tableName: string): Promise<string> {
+    const { Table: table } = await this.ddbClient.describeTable({ TableName: tableName }).promise();
+    if (table.StreamSpecification && table.StreamSpecification.StreamEnabled) {
+      return table.LatestStreamArn;
+    }
+    // tables created by older versions of mock do not have streams enabled
+    await this.ddbClient
+      .updateTable({ TableName: tableName, StreamSpecification: { StreamEnabled: true, StreamViewType: 'NEW_AND_OLD_IMAGES' } })
+      .promise();
+    await waitTillTableStateIsActive(this.ddbClient, tableName);
+    const { Table: updatedTable } = await this.ddbClient.describeTable({ TableName: tableName }).promise();
+    return updatedTable.LatestStreamArn;
+  }
+
+  private async getOpenShards(streamArn: string, parentShardId?: string): Promise<string[]> {
+    const { StreamDescription: description } = await this.streamsClient.describeStream({ StreamArn: streamArn }).promise();
+    return (description.Shards || [])
+      .filter(shard => (parentShardId ? shard.ParentShardId === parentShardId : !shard.SequenceNumberRange.EndingSequenceNumber))
+      .map(shard => shard.ShardId);
+  }
+
+  private async getShardIterator(streamArn: string, shardId: string, iteratorType: 'LATEST' | 'TRIM_HORIZON'): Promise<string> {
+    const { ShardIterator: iterator } = await this.streamsClient
+      .getShardIterator({ StreamArn: streamArn, ShardId: shardId, ShardIteratorType: iteratorType })
+      .promise();
+    return iterator;
+  }
+
+  private async indexExistingItems(tableName: string): Promise<void> {
+    const { Table: table } = await this.ddbClient.describeTable({ TableName: tableName }).promise();
+    const keyNames = table.KeySchema.map(key => key.AttributeName);
+    let lastEvaluatedKey;
+    do {
+      const result = await this.ddbClient.scan({ TableName: tableName, ExclusiveStartKey: lastEvaluatedKey }).promise();
+      result.Items.forEach(item => {
+        const keys = keyNames.reduce((acc, keyName) => ({ ...acc, [keyName]: item[keyName] }), {});
+        indexItem(this.domain, tableName, keys, item);
+      });
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+  }
+
+  private schedulePoll(): void {
+    if (!this.running) {
+      return;
+    }
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (e) {
+        console.log(`Failed to sync DynamoDB stream records to the local Elasticsearch domain\n${e.message}`);
+      }
+      this.schedulePoll();
+    }, POLL_INTERVAL);
+  }
+
+  private async poll(): Promise<void> {
+    const readers = [...this.shardReaders];
+    for (const reader of readers) {
+      const { Records: records = [], NextShardIterator: nextIterator } = await this.streamsClient
+        .getRecords({ ShardIterator: reader.iterator })
+        .promise();
+      if (!this.running) {
+        return;
+      }
+      records.forEach(record => processStreamRecord(this.domain, reader.tableName, record));
+      if (nextIterator) {
+        reader.iterator = nextIterator;
+        continue;
+      }
+      // the shard got closed, continue reading from its child shards
+      this.shardReaders = this.shardReaders.filter(r => r !== reader);
+      const childShards = await this.getOpenShards(reader.streamArn, reader.shardId);
+      for (const shardId of childShards) {
+        const iterator = await this.getShardIterator(reader.streamArn, shardId, 'TRIM_HORIZON');
+        this.shardReaders.push({ tableName: reader.tableName, streamArn: reader.streamArn, shardId, iterator });
+      }
+    }
+  }
+}
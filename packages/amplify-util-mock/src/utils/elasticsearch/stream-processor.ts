@@ -0,0 +1,71 @@
+import { InMemoryElasticsearchDomain } from 'amplify-appsync-simulator';
+import { DynamoDB, DynamoDBStreams } from 'aws-sdk';
+
+const MOCK_TABLE_NAME_SUFFIX = 'table';
+
+/**
+ * Computes the index name for a DynamoDB table the same way the searchable streaming Lambda does.
+ * Mocked tables are named after the logical id of the table ({TypeName}Table) instead of {TypeName}-{apiId}-{env},
+ * so the table suffix is dropped as well to match the index used by the search resolvers
+ */
+export function getIndexName(tableName: string): string {
+  const [indexName] = tableName.toLowerCase().split('-');
+  if (indexName.length > MOCK_TABLE_NAME_SUFFIX.length && indexName.endsWith(MOCK_TABLE_NAME_SUFFIX)) {
+    return indexName.substr(0, indexName.length - MOCK_TABLE_NAME_SUFFIX.length);
+  }
+  return indexName;
+}
+
+/**
+ * Compound document id computed from the key(s) of the item in lexicographic order of the key names
+ */
+export function computeDocumentId(keys: DynamoDB.Key): string {
+  const unmarshalledKeys = DynamoDB.Converter.unmarshall(keys);
+  return Object.keys(unmarshalledKeys)
+    .sort()
+    .map(key => unmarshalledKeys[key])
+    .join('|');
+}
+
+export function indexItem(domain: InMemoryElasticsearchDomain, tableName: string, keys: DynamoDB.Key, item: DynamoDB.AttributeMap): void {
+  const fields = DynamoDB.Converter.unmarshall(item);
+  const indexName = getIndexName(tableName);
+  const id = computeDocumentId(keys);
+  const version = fields._version;
+  if (typeof version === 'undefined') {
+    domain.indexDocument(indexName, id, fields);
+    return;
+  }
+  // conflict detection enabled APIs use the _version of the item as external version
+  delete fields._version;
+  delete fields._ttl;
+  try {
+    domain.indexDocument(indexName, id, fields, version);
+  } catch (e) {
+    console.log(`Skipped indexing stale version ${version} of ${id} in ${indexName}`);
+  }
+}
+
+/**
+ * Applies a DynamoDB stream record to the local Elasticsearch domain the way the searchable streaming Lambda
+ * applies it to the Elasticsearch domain in the cloud
+ */
+export function processStreamRecord(domain: InMemoryElasticsearchDomain, tableName: string, record: DynamoDBStreams.Record): void {
+  const { eventName, dynamodb: streamRecord } = record;
+  if (!streamRecord || !streamRecord.Keys) {
+    return;
+  }
+  const indexName = getIndexName(tableName);
+  const id = computeDocumentId(streamRecord.Keys);
+  if (eventName === 'INSERT' || eventName === 'MODIFY') {
+    const newImage = DynamoDB.Converter.unmarshall(streamRecord.NewImage || {});
+    // Sync enabled APIs do soft delete, the document is removed from the index when the _deleted flag is set
+    if (eventName === 'MODIFY' && newImage._deleted) {
+      domain.deleteDocument(indexName, id);
+      return;
+    }
+    indexItem(domain, tableName, streamRecord.Keys, streamRecord.NewImage);
+  } else if (eventName === 'REMOVE') {
+    domain.deleteDocument(indexName, id);
+  }
+}
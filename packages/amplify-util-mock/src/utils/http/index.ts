@@ -0,0 +1,26 @@
+export type MockHTTPEndpointOverrides = Record<string, string>;
+
+/**
+ * Resolves the endpoint of HTTP data sources for local mocking. The ${env} placeholder left by the CFN parser is replaced with the
+ * current environment name and endpoints listed in httpEndpoints section of mock.json are pointed to their local stand-in servers
+ */
+export function configureHTTPDataSource(config, envName: string, endpointOverrides: MockHTTPEndpointOverrides = {}) {
+  return {
+    ...config,
+    dataSources: config.dataSources.map(d => {
+      if (d.type !== 'HTTP') {
+        return d;
+      }
+      const endpoint = d.config.endpoint.replace(/\$\{env\}/g, envName);
+      const normalizedEndpoint = endpoint.replace(/\/$/, '');
+      const override = Object.entries(endpointOverrides).find(([url]) => url.replace(/\/$/, '') === normalizedEndpoint);
+      return {
+        ...d,
+        config: {
+          ...d.config,
+          endpoint: override ? override[1] : endpoint,
+        },
+      };
+    }),
+  };
+}
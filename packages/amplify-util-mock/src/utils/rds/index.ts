@@ -0,0 +1,24 @@
+import { RDSConnectionConfig } from 'amplify-appsync-simulator';
+
+/**
+ * Points the relational database data sources to the local MySQL compatible server configured in
+ * relationalDatabase section of mock.json. The database name of the data source is used unless the config overrides it
+ */
+export function configureRDSDataSource(config, connection?: RDSConnectionConfig) {
+  return {
+    ...config,
+    dataSources: config.dataSources.map(d => {
+      if (d.type !== 'RELATIONAL_DATABASE') {
+        return d;
+      }
+      return {
+        ...d,
+        config: {
+          ...d.config,
+          databaseName: (connection && connection.database) || d.config.databaseName,
+          connection,
+        },
+      };
+    }),
+  };
+}
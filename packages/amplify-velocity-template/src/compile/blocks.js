@@ -194,6 +194,14 @@ module.exports = function(Velocity, utils) {
         return '';
       }
 
+      var maxIterations = this.config.maxForeachIterations;
+      var size = utils.isArray(_from) ? _from.length : utils.keys(_from).length;
+      if (maxIterations && size > maxIterations) {
+        var error = new Error('#foreach can iterate over at most ' + maxIterations + ' items, received ' + size);
+        error.name = 'ForeachIterationLimitError';
+        throw error;
+      }
+
       if (utils.isArray(_from)) {
         var len = _from.length;
         utils.forEach(
@@ -136,4 +136,18 @@ describe('Loops', function() {
     const ret = render(vm, context);
     ret.replace(/\s+/g, '').should.equal('matched:"[2]"');
   });
+
+  it('#foreach with maxForeachIterations', function() {
+    var vm = '#foreach($i in $items)$i#end';
+    var compile = function(items) {
+      return new Velocity.Compile(Velocity.parse(vm), { maxForeachIterations: 2 }).render({ items: items });
+    };
+    assert.equal('12', compile([1, 2]));
+    assert.throws(function() {
+      compile([1, 2, 3]);
+    }, /ForeachIterationLimitError/);
+    assert.throws(function() {
+      compile({ a: 1, b: 2, c: 3 });
+    }, /at most 2 items/);
+  });
 });
@@ -1,5 +1,5 @@
-export type AuthStrategy = 'owner' | 'groups' | 'public' | 'private';
-export type AuthProvider = 'apiKey' | 'iam' | 'oidc' | 'userPools';
+export type AuthStrategy = 'owner' | 'groups' | 'public' | 'private' | 'custom';
+export type AuthProvider = 'apiKey' | 'iam' | 'oidc' | 'userPools' | 'function';
 export type ModelQuery = 'get' | 'list';
 export type ModelMutation = 'create' | 'update' | 'delete';
 export type ModelOperation = 'create' | 'update' | 'delete' | 'read';
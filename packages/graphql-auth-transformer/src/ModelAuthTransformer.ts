@@ -41,7 +41,13 @@ import {
 import { Expression, print, raw, iff, forEach, set, ref, list, compoundExpression, newline, comment, not } from 'graphql-mapping-template';
 import { ModelDirectiveConfiguration, ModelDirectiveOperationType, ModelSubscriptionLevel } from './ModelDirectiveConfiguration';
 
-import { OWNER_AUTH_STRATEGY, GROUPS_AUTH_STRATEGY, DEFAULT_OWNER_FIELD, AUTH_NON_MODEL_TYPES } from './constants';
+import {
+  OWNER_AUTH_STRATEGY,
+  GROUPS_AUTH_STRATEGY,
+  DEFAULT_OWNER_FIELD,
+  AUTH_NON_MODEL_TYPES,
+  LAMBDA_AUTHORIZER_PERMISSION_LOGICAL_ID,
+} from './constants';
 
 /**
  * Implements the ModelAuthTransformer.
@@ -84,7 +90,7 @@ import { OWNER_AUTH_STRATEGY, GROUPS_AUTH_STRATEGY, DEFAULT_OWNER_FIELD, AUTH_NO
  * attributes of the records using conditional expressions. This will likely
  * be via a new argument such as "groupsField".
  */
-export type AppSyncAuthMode = 'API_KEY' | 'AMAZON_COGNITO_USER_POOLS' | 'AWS_IAM' | 'OPENID_CONNECT';
+export type AppSyncAuthMode = 'API_KEY' | 'AMAZON_COGNITO_USER_POOLS' | 'AWS_IAM' | 'OPENID_CONNECT' | 'AWS_LAMBDA';
 export type AppSyncAuthConfiguration = {
   defaultAuthentication: AppSyncAuthConfigurationEntry;
   additionalAuthenticationProviders: Array<AppSyncAuthConfigurationEntry>;
@@ -94,6 +100,7 @@ export type AppSyncAuthConfigurationEntry = {
   apiKeyConfig?: ApiKeyConfig;
   userPoolConfig?: UserPoolConfig;
   openIDConnectConfig?: OpenIDConnectConfig;
+  lambdaAuthorizerConfig?: LambdaAuthorizerConfig;
 };
 export type ApiKeyConfig = {
   description?: string;
@@ -109,6 +116,10 @@ export type OpenIDConnectConfig = {
   iatTTL?: number;
   authTTL?: number;
 };
+export type LambdaAuthorizerConfig = {
+  lambdaFunction: string;
+  ttlSeconds?: number;
+};
 
 const validateAuthModes = (authConfig: AppSyncAuthConfiguration) => {
   let additionalAuthModes = [];
@@ -122,7 +133,13 @@ const validateAuthModes = (authConfig: AppSyncAuthConfiguration) => {
   for (let i = 0; i < authModes.length; i++) {
     const mode = authModes[i];
 
-    if (mode !== 'API_KEY' && mode !== 'AMAZON_COGNITO_USER_POOLS' && mode !== 'AWS_IAM' && mode !== 'OPENID_CONNECT') {
+    if (
+      mode !== 'API_KEY' &&
+      mode !== 'AMAZON_COGNITO_USER_POOLS' &&
+      mode !== 'AWS_IAM' &&
+      mode !== 'OPENID_CONNECT' &&
+      mode !== 'AWS_LAMBDA'
+    ) {
       throw new Error(`Invalid auth mode ${mode}`);
     }
   }
@@ -139,6 +156,7 @@ export type ConfiguredAuthProviders = {
   hasUserPools: boolean;
   hasOIDC: boolean;
   hasIAM: boolean;
+  hasLambda: boolean;
 };
 
 export class ModelAuthTransformer extends Transformer {
@@ -156,7 +174,7 @@ export class ModelAuthTransformer extends Transformer {
       gql`
         directive @auth(rules: [AuthRule!]!) on OBJECT | FIELD_DEFINITION
         input AuthRule {
-          # Specifies the auth rule's strategy. Allowed values are 'owner', 'groups', 'public', 'private'.
+          # Specifies the auth rule's strategy. Allowed values are 'owner', 'groups', 'public', 'private', 'custom'.
           allow: AuthStrategy!
 
           # Legacy name for identityClaim
@@ -205,12 +223,14 @@ export class ModelAuthTransformer extends Transformer {
           groups
           private
           public
+          custom
         }
         enum AuthProvider {
           apiKey
           iam
           oidc
           userPools
+          function
         }
         enum ModelOperation {
           create
@@ -255,6 +275,17 @@ export class ModelAuthTransformer extends Transformer {
     const updated = this.resources.updateGraphQLAPIWithAuth(apiRecord, this.config.authConfig);
     ctx.setResource(ResourceConstants.RESOURCES.GraphQLAPILogicalID, updated);
 
+    const lambdaAuthProvider = [
+      this.config.authConfig.defaultAuthentication,
+      ...this.config.authConfig.additionalAuthenticationProviders,
+    ].find(provider => provider.authenticationType === 'AWS_LAMBDA');
+    if (lambdaAuthProvider) {
+      ctx.setResource(
+        LAMBDA_AUTHORIZER_PERMISSION_LOGICAL_ID,
+        this.resources.makeLambdaAuthorizerPermission(lambdaAuthProvider.lambdaAuthorizerConfig),
+      );
+    }
+
     // Check if we need to create an API key resource or not.
   };
 
@@ -404,6 +435,7 @@ export class ModelAuthTransformer extends Transformer {
       modelConfiguration,
     );
     this.protectConnections(ctx, def, operationRules.read, modelConfiguration);
+    this.protectConnectionDeletes(ctx, def, operationRules.delete, operationRules.update);
     this.protectQueries(ctx, def, operationRules.read, modelConfiguration);
 
     // protect search query if @searchable is enabled
@@ -1677,6 +1709,57 @@ operations will be generated by the CLI.`,
     }
   }
 
+  /**
+   * Connections with an onDelete action delete or update the items of this model when the parent is deleted.
+   * The related items are authorized like a delete (CASCADE) or update (SET_NULL) mutation would and the
+   * whole delete fails if any of them is filtered out.
+   */
+  private protectConnectionDeletes(
+    ctx: TransformerContext,
+    def: ObjectTypeDefinitionNode,
+    deleteRules: AuthRule[],
+    updateRules: AuthRule[],
+  ) {
+    const thisModelName = def.name.value;
+    for (const inputDef of ctx.inputDocument.definitions) {
+      if (inputDef.kind === Kind.OBJECT_TYPE_DEFINITION) {
+        for (const field of inputDef.fields) {
+          const connection = field.directives.find(d => d.name.value === 'connection');
+          if (!connection || getBaseType(field.type) !== thisModelName) {
+            continue;
+          }
+          // Many-to-many connections delete the items of the generated join model which has no @auth of its own.
+          const { onDelete, relationName } = getDirectiveArguments(connection);
+          const rules = onDelete === 'CASCADE' ? deleteRules : onDelete === 'SET_NULL' ? updateRules : null;
+          const functionResourceId = ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID(inputDef.name.value, field.name.value);
+          const queryFunction = ctx.getResource(functionResourceId);
+          if (!rules || rules.length === 0 || relationName || !queryFunction) {
+            continue;
+          }
+
+          const authExpression = this.authorizationExpressionForListResult(rules);
+          if (authExpression) {
+            const templateParts = [
+              print(
+                iff(
+                  raw('!$ctx.error'),
+                  compoundExpression([
+                    set(ref('relatedItemCount'), ref('ctx.result.items.size()')),
+                    authExpression,
+                    iff(raw('$ctx.result.items.size() != $relatedItemCount'), raw('$util.unauthorized()')),
+                  ]),
+                ),
+              ),
+              queryFunction.Properties.ResponseMappingTemplate,
+            ];
+            queryFunction.Properties.ResponseMappingTemplate = templateParts.join('\n\n');
+            ctx.setResource(functionResourceId, queryFunction);
+          }
+        }
+      }
+    }
+  }
+
   /**
    * When read operations are protected via @auth, all secondary @key query resolvers will be protected.
    * Find the directives & update their resolvers with auth logic
@@ -2026,6 +2109,7 @@ operations will be generated by the CLI.`,
       ['iam', 'aws_iam'],
       ['oidc', 'aws_oidc'],
       ['userPools', 'aws_cognito_user_pools'],
+      ['function', 'aws_lambda'],
     ]);
 
     for (const entry of authProviderDirectiveMap.entries()) {
@@ -2074,6 +2158,9 @@ operations will be generated by the CLI.`,
           case 'public':
             rule.provider = 'apiKey';
             break;
+          case 'custom':
+            rule.provider = 'function';
+            break;
           default:
             rule.provider = null;
             break;
@@ -2083,6 +2170,10 @@ operations will be generated by the CLI.`,
   }
 
   private validateRuleAuthStrategy(rule: AuthRule) {
+    if (rule.provider === 'function' && rule.allow !== 'custom') {
+      throw new InvalidDirectiveError(`@auth directive with 'function' provider is only supported with the 'custom' strategy.`);
+    }
+
     //
     // Groups
     //
@@ -2132,6 +2223,16 @@ found '${rule.provider}' assigned.`,
       }
     }
 
+    //
+    // Custom
+    //
+
+    if (rule.allow === 'custom' && rule.provider !== null && rule.provider !== 'function') {
+      throw new InvalidDirectiveError(
+        `@auth directive with 'custom' strategy only supports 'function' (default) provider, but found '${rule.provider}' assigned.`,
+      );
+    }
+
     //
     // Validate provider values against project configuration.
     //
@@ -2152,6 +2253,10 @@ found '${rule.provider}' assigned.`,
       throw new InvalidDirectiveError(
         `@auth directive with 'iam' provider found, but the project has no IAM authentication provider configured.`,
       );
+    } else if (rule.provider === 'function' && this.configuredAuthProviders.hasLambda === false) {
+      throw new InvalidDirectiveError(
+        `@auth directive with 'function' provider found, but the project has no AWS_LAMBDA authentication provider configured.`,
+      );
     }
   }
 
@@ -2171,6 +2276,8 @@ found '${rule.provider}' assigned.`,
           return 'iam';
         case 'OPENID_CONNECT':
           return 'oidc';
+        case 'AWS_LAMBDA':
+          return 'function';
       }
     };
 
@@ -2181,6 +2288,7 @@ found '${rule.provider}' assigned.`,
       hasUserPools: providers.find(p => p === 'AMAZON_COGNITO_USER_POOLS') ? true : false,
       hasOIDC: providers.find(p => p === 'OPENID_CONNECT') ? true : false,
       hasIAM: providers.find(p => p === 'AWS_IAM') ? true : false,
+      hasLambda: providers.find(p => p === 'AWS_LAMBDA') ? true : false,
     };
   }
 
@@ -60,6 +60,7 @@ const apiKeyDirectiveName = 'aws_api_key';
 const userPoolsDirectiveName = 'aws_cognito_user_pools';
 const iamDirectiveName = 'aws_iam';
 const openIdDirectiveName = 'aws_oidc';
+const lambdaDirectiveName = 'aws_lambda';
 
 const multiAuthDirective =
   '@auth(rules: [{allow: private}, {allow: public}, {allow: private, provider: iam }, {allow: owner, provider: oidc }])';
@@ -79,6 +80,9 @@ const publicUserPoolsAuthDirective = '@auth(rules: [{allow: public, provider: us
 const privateAndPublicDirective = '@auth(rules: [{allow: private}, {allow: public}])';
 const privateAndPrivateIAMDirective = '@auth(rules: [{allow: private}, {allow: private, provider: iam}])';
 const privateIAMDirective = '@auth(rules: [{allow: private, provider: iam}])';
+const customAuthDirective = '@auth(rules: [{allow: custom}])';
+const customWithUserPoolsAuthDirective = '@auth(rules: [{allow: custom, provider: userPools}])';
+const privateWithFunctionAuthDirective = '@auth(rules: [{allow: private, provider: function}])';
 
 const getSchema = (authDirective: string) => {
   return `
@@ -284,6 +288,31 @@ found 'userPools' assigned.`,
 found 'apiKey' assigned.`,
     );
   });
+
+  test('AWS_LAMBDA not configured for project', () => {
+    validationTest(
+      customAuthDirective,
+      userPoolsDefaultConfig,
+      `@auth directive with 'function' provider found, but the project has no AWS_LAMBDA \
+authentication provider configured.`,
+    );
+  });
+
+  test(`'custom' has invalid 'userPools' provider`, () => {
+    validationTest(
+      customWithUserPoolsAuthDirective,
+      userPoolsDefaultConfig,
+      `@auth directive with 'custom' strategy only supports 'function' (default) provider, but found 'userPools' assigned.`,
+    );
+  });
+
+  test(`'function' provider is only supported with 'custom'`, () => {
+    validationTest(
+      privateWithFunctionAuthDirective,
+      userPoolsDefaultConfig,
+      `@auth directive with 'function' provider is only supported with the 'custom' strategy.`,
+    );
+  });
 });
 
 describe('Type directive transformation tests', () => {
@@ -333,6 +362,30 @@ describe('Type directive transformation tests', () => {
     transformTest(multiAuthDirective, authConfig, [userPoolsDirectiveName, iamDirectiveName, openIdDirectiveName, apiKeyDirectiveName]);
   });
 
+  test(`'custom' rule adds the Lambda directive and configures the authorizer`, () => {
+    const authConfig = withAuthModes(userPoolsDefaultConfig, ['AWS_LAMBDA']);
+    authConfig.additionalAuthenticationProviders[0].lambdaAuthorizerConfig = {
+      lambdaFunction: 'myAuthorizer-${env}',
+      ttlSeconds: 600,
+    };
+
+    transformTest(`@auth(rules: [{allow: owner}, {allow: custom}])`, authConfig, [userPoolsDirectiveName, lambdaDirectiveName]);
+
+    const out = getTransformer(authConfig).transform(getSchema(customAuthDirective));
+    const api = out.rootStack.Resources.GraphQLAPI;
+    expect(api.Properties.AdditionalAuthenticationProviders).toEqual([
+      {
+        AuthenticationType: 'AWS_LAMBDA',
+        LambdaAuthorizerConfig: {
+          AuthorizerUri: expect.anything(),
+          AuthorizerResultTtlInSeconds: 600,
+        },
+      },
+    ]);
+    expect(out.rootStack.Resources.LambdaAuthorizerPermission).toBeDefined();
+    expect(out.rootStack.Resources.LambdaAuthorizerPermission.Properties.Principal).toEqual('appsync.amazonaws.com');
+  });
+
   test(`Operation fields are getting the directive added, when type has the @auth for all operations`, () => {
     const schema = getSchema(ownerAuthDirective);
     const transformer = getTransformer(withAuthModes(apiKeyDefaultConfig, ['AMAZON_COGNITO_USER_POOLS']));
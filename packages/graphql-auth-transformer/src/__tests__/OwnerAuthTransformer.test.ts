@@ -10,6 +10,8 @@ import {
 import { GraphQLTransform } from 'graphql-transformer-core';
 import { ResourceConstants } from 'graphql-transformer-common';
 import { DynamoDBModelTransformer } from 'graphql-dynamodb-transformer';
+import { ModelConnectionTransformer } from 'graphql-connection-transformer';
+import { KeyTransformer } from 'graphql-key-transformer';
 import { ModelAuthTransformer } from '../ModelAuthTransformer';
 
 test('Test ModelAuthTransformer validation happy case', () => {
@@ -84,3 +86,84 @@ test('Test OwnerField with Subscriptions', () => {
     '#set( $allowedOwners0 = $util.defaultIfNull($ctx.args.postOwner, null) )'
   );
 });
+
+test('Test owner rules protect the related items of onDelete connections', () => {
+  const validSchema = `
+    type Post @model @auth(rules: [{ allow: owner }]) {
+      id: ID!
+      comments: [Comment] @connection(name: "PostComments", onDelete: CASCADE)
+      likes: [Like] @connection(name: "PostLikes", onDelete: SET_NULL)
+    }
+    type Comment @model @auth(rules: [{ allow: owner, operations: [create, delete] }]) {
+      id: ID!
+      post: Post @connection(name: "PostComments")
+    }
+    type Like @model @auth(rules: [{ allow: owner, operations: [create, delete] }]) {
+      id: ID!
+      post: Post @connection(name: "PostLikes")
+    }`;
+  const transformer = new GraphQLTransform({
+    transformers: [
+      new DynamoDBModelTransformer(),
+      new ModelConnectionTransformer(),
+      new ModelAuthTransformer({
+        authConfig: {
+          defaultAuthentication: {
+            authenticationType: 'AMAZON_COGNITO_USER_POOLS',
+          },
+          additionalAuthenticationProviders: [],
+        },
+      }),
+    ],
+  });
+  const out = transformer.transform(validSchema);
+  expect(out).toBeDefined();
+
+  // deleting a post fails when any of its comments can not be deleted by the caller
+  const commentsQuery = out.pipelineFunctions['PostcommentsOnDeleteQueryFunction.res.vtl'];
+  expect(commentsQuery).toContain('#set( $relatedItemCount = $ctx.result.items.size() )');
+  expect(commentsQuery).toContain('#set( $isLocalOwnerAuthorized = false )');
+  expect(commentsQuery).toContain('$util.unauthorized()');
+  // anyone may update likes so they are not filtered
+  expect(out.pipelineFunctions['PostlikesOnDeleteQueryFunction.res.vtl']).not.toContain('$util.unauthorized()');
+  // the delete function of the post keeps its own owner check
+  expect(out.pipelineFunctions['DeletePostFunction.req.vtl']).toContain('$util.qr($ownerAuthExpressions.add("#owner0 = :identity0"))');
+});
+
+test('Test the join model of a many to many connection takes over the rules of both sides', () => {
+  const validSchema = `
+    type Post @model @auth(rules: [{ allow: owner }, { allow: groups, groups: ["Admin"] }]) {
+      id: ID!
+      tags: [Tag] @connection(relationName: "PostTags")
+    }
+    type Tag @model @auth(rules: [{ allow: groups, groups: ["Admin"] }, { allow: private, operations: [read] }]) {
+      id: ID!
+      posts: [Post] @connection(relationName: "PostTags")
+    }`;
+  const transformer = new GraphQLTransform({
+    transformers: [
+      new DynamoDBModelTransformer(),
+      new KeyTransformer(),
+      new ModelConnectionTransformer(),
+      new ModelAuthTransformer({
+        authConfig: {
+          defaultAuthentication: {
+            authenticationType: 'AMAZON_COGNITO_USER_POOLS',
+          },
+          additionalAuthenticationProviders: [],
+        },
+      }),
+    ],
+  });
+  const out = transformer.transform(validSchema);
+  // the Admin rule of both sides is only checked once
+  const createJoinItem = out.resolvers['Mutation.createPostTags.req.vtl'];
+  expect(createJoinItem.match(/## Authorization rule: { allow: groups, groups: \["Admin"\]/g)).toHaveLength(1);
+  expect(createJoinItem).toContain('$util.qr($ctx.args.input.put("owner", $identityValue))');
+  expect(out.resolvers['Query.getPostTags.res.vtl']).not.toContain('$util.unauthorized()');
+
+  const dynamicGroupSchema = validSchema.replace('{ allow: owner }', '{ allow: groups, groupsField: "editors" }');
+  expect(() => transformer.transform(dynamicGroupSchema)).toThrowError(
+    'Invalid Connection (PostTags): the dynamic group rules of @auth on Post can not be applied to the join model.',
+  );
+});
@@ -8,3 +8,4 @@ export const ON_CREATE_FIELD = 'onCreate';
 export const ON_UPDATE_FIELD = 'onUpdate';
 export const ON_DELETE_FIELD = 'onDelete';
 export const AUTH_NON_MODEL_TYPES = 'authNonModelTypes';
+export const LAMBDA_AUTHORIZER_PERMISSION_LOGICAL_ID = 'LambdaAuthorizerPermission';
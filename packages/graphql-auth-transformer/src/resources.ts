@@ -1,5 +1,5 @@
 import Template from 'cloudform-types/types/template';
-import { AppSync, Fn, StringParameter, Refs, NumberParameter, IAM, Value } from 'cloudform-types';
+import { AppSync, Fn, StringParameter, Refs, NumberParameter, IAM, Lambda, Value } from 'cloudform-types';
 import { AuthRule, AuthProvider } from './AuthRule';
 import {
   str,
@@ -42,6 +42,13 @@ import { FieldDefinitionNode } from 'graphql';
 import { DEFAULT_OWNER_FIELD, DEFAULT_IDENTITY_FIELD, DEFAULT_GROUPS_FIELD, DEFAULT_GROUP_CLAIM } from './constants';
 import ManagedPolicy from 'cloudform-types/types/iam/managedPolicy';
 
+// cloudform-types does not know the LambdaAuthorizerConfig of AWS::AppSync::GraphQLApi yet
+type LambdaAuthorizerConfigProperties = {
+  AuthorizerUri: Value<string>;
+  AuthorizerResultTtlInSeconds?: Value<number>;
+  IdentityValidationExpression?: Value<string>;
+};
+
 function replaceIfUsername(identityClaim: string): string {
   return identityClaim === 'username' ? 'cognito:username' : identityClaim;
 }
@@ -139,7 +146,7 @@ export class ResourceFactory {
   }
 
   public updateGraphQLAPIWithAuth(apiRecord: GraphQLApi, authConfig: Transformer.AppSyncAuthConfiguration) {
-    let properties: GraphQLApiProperties = {
+    let properties: GraphQLApiProperties & { LambdaAuthorizerConfig?: LambdaAuthorizerConfigProperties } = {
       ...apiRecord.Properties,
       Name: apiRecord.Properties.Name,
       AuthenticationType: authConfig.defaultAuthentication.authenticationType,
@@ -162,6 +169,13 @@ export class ResourceFactory {
 
         properties.OpenIDConnectConfig = this.assignOpenIDConnectConfig(authConfig.defaultAuthentication.openIDConnectConfig);
         break;
+      case 'AWS_LAMBDA':
+        if (!authConfig.defaultAuthentication.lambdaAuthorizerConfig) {
+          throw new Error('lambdaAuthorizerConfig is not configured for defaultAuthentication');
+        }
+
+        properties.LambdaAuthorizerConfig = this.assignLambdaAuthorizerConfig(authConfig.defaultAuthentication.lambdaAuthorizerConfig);
+        break;
     }
 
     // Configure additional authentication providers
@@ -169,7 +183,7 @@ export class ResourceFactory {
       const additionalAuthenticationProviders = new Array<AdditionalAuthenticationProvider>();
 
       for (const sourceProvider of authConfig.additionalAuthenticationProviders) {
-        let provider: AdditionalAuthenticationProvider;
+        let provider: AdditionalAuthenticationProvider & { LambdaAuthorizerConfig?: LambdaAuthorizerConfigProperties };
 
         switch (sourceProvider.authenticationType) {
           case 'AMAZON_COGNITO_USER_POOLS':
@@ -201,6 +215,16 @@ export class ResourceFactory {
               OpenIDConnectConfig: this.assignOpenIDConnectConfig(sourceProvider.openIDConnectConfig),
             };
             break;
+          case 'AWS_LAMBDA':
+            if (!sourceProvider.lambdaAuthorizerConfig) {
+              throw new Error('lambdaAuthorizerConfig is not configured for provider');
+            }
+
+            provider = {
+              AuthenticationType: 'AWS_LAMBDA',
+              LambdaAuthorizerConfig: this.assignLambdaAuthorizerConfig(sourceProvider.lambdaAuthorizerConfig),
+            };
+            break;
         }
 
         additionalAuthenticationProviders.push(provider);
@@ -221,6 +245,35 @@ export class ResourceFactory {
     });
   }
 
+  private assignLambdaAuthorizerConfig(config: Transformer.LambdaAuthorizerConfig): LambdaAuthorizerConfigProperties {
+    return {
+      AuthorizerUri: this.lambdaAuthorizerArn(config.lambdaFunction),
+      AuthorizerResultTtlInSeconds: config.ttlSeconds,
+    };
+  }
+
+  /**
+   * AppSync needs the permission to invoke the Lambda authorizer of the API
+   */
+  public makeLambdaAuthorizerPermission(config: Transformer.LambdaAuthorizerConfig) {
+    return new Lambda.Permission({
+      Action: 'lambda:InvokeFunction',
+      FunctionName: this.lambdaAuthorizerArn(config.lambdaFunction),
+      Principal: 'appsync.amazonaws.com',
+      SourceArn: Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'Arn'),
+    });
+  }
+
+  // the function name can reference the environment like the functions of the @function directive
+  private lambdaAuthorizerArn(name: string) {
+    const arn = (functionName: string) => `arn:aws:lambda:\${AWS::Region}:\${AWS::AccountId}:function:${functionName}`;
+    return Fn.If(
+      ResourceConstants.CONDITIONS.HasEnvironmentParameter,
+      Fn.Sub(arn(name), name.includes('${env}') ? { env: Fn.Ref(ResourceConstants.PARAMETERS.Env) } : {}),
+      Fn.Sub(arn(name.replace('-${env}', '')), {}),
+    );
+  }
+
   public blankResolver(type: string, field: string) {
     return new AppSync.Resolver({
       ApiId: Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'ApiId'),
@@ -7,8 +7,10 @@ import {
   InterfaceTypeDefinitionNode,
   InputObjectTypeDefinitionNode,
   EnumTypeDefinitionNode,
+  ValueNode,
+  print,
 } from 'graphql';
-import { ResourceFactory } from './resources';
+import { ResourceFactory, ConnectionDeleteAction, ConnectionDeleteRelation } from './resources';
 import {
   makeModelConnectionType,
   makeModelConnectionField,
@@ -19,7 +21,10 @@ import {
   CONDITIONS_MINIMUM_VERSION,
   makeAttributeTypeEnum,
   makeEnumFilterInputObjects,
+  DynamoDBModelTransformer,
+  getUpdatedAtFieldName,
 } from 'graphql-dynamodb-transformer';
+import { KeyTransformer } from 'graphql-key-transformer';
 import {
   getBaseType,
   isListType,
@@ -33,10 +38,20 @@ import {
   attributeTypeFromScalar,
   makeScalarKeyConditionForType,
   makeNamedType,
+  makeListType,
+  makeDirective,
+  makeArgument,
+  makeValueNode,
 } from 'graphql-transformer-common';
 import { ResolverResourceIDs, ModelResourceIDs } from 'graphql-transformer-common';
-import { updateCreateInputWithConnectionField, updateUpdateInputWithConnectionField } from './definitions';
+import {
+  updateCreateInputWithConnectionField,
+  updateUpdateInputWithConnectionField,
+  makeManyToManyJoinType,
+  ManyToManyRelationSide,
+} from './definitions';
 import Table, { KeySchema, GlobalSecondaryIndex, LocalSecondaryIndex } from 'cloudform-types/types/dynamoDb/table';
+import Resolver from 'cloudform-types/types/appSync/resolver';
 
 const CONNECTION_STACK_NAME = 'ConnectionStack';
 
@@ -52,6 +67,20 @@ function makeConnectionAttributeName(type: string, field?: string) {
   return field ? toCamelCase([type, field, 'id']) : toCamelCase([type, 'id']);
 }
 
+function makeManyToManyRelationSide(type: string, field: string, keyFieldType: string): ManyToManyRelationSide {
+  // The same logic is used in amplify-codegen-appsync-model-plugin package to generate the join model
+  // Make sure the logic gets update in that package
+  const joinFieldName = toCamelCase([type]);
+  return {
+    typeName: type,
+    fieldName: field,
+    joinFieldName,
+    joinKeyFieldName: `${joinFieldName}ID`,
+    keyFieldType,
+    indexName: `by${type}`,
+  };
+}
+
 function validateKeyField(field: FieldDefinitionNode): void {
   if (!field) {
     return;
@@ -163,6 +192,8 @@ function checkFieldsAgainstIndex(
  */
 export class ModelConnectionTransformer extends Transformer {
   resources: ResourceFactory;
+  manyToManyRelations: { [relationName: string]: ManyToManyRelationSide[] };
+  deleteRelations: { [typeName: string]: ConnectionDeleteRelation[] };
 
   constructor() {
     super(
@@ -175,7 +206,14 @@ export class ModelConnectionTransformer extends Transformer {
           keyName: String
           limit: Int
           fields: [String!]
+          relationName: String
+          onDelete: ConnectionDeleteAction
         ) on FIELD_DEFINITION
+        enum ConnectionDeleteAction {
+          CASCADE
+          RESTRICT
+          SET_NULL
+        }
       `,
     );
     this.resources = new ResourceFactory();
@@ -186,6 +224,44 @@ export class ModelConnectionTransformer extends Transformer {
     ctx.mergeResources(template.Resources);
     ctx.mergeParameters(template.Parameters);
     ctx.mergeOutputs(template.Outputs);
+
+    this.manyToManyRelations = this.getManyToManyRelations(ctx);
+    for (const [relationName, sides] of Object.entries(this.manyToManyRelations)) {
+      this.addManyToManyJoinModel(ctx, relationName, sides);
+    }
+    this.deleteRelations = {};
+  };
+
+  /**
+   * Turns the delete resolvers of the types with onDelete connections into pipeline resolvers. This has to happen
+   * after the other transformers are done with the delete resolvers, e.g. @auth adds its checks to them.
+   *
+   * The delete is not atomic. The related items of each connection are written in their own transaction after the item
+   * is deleted, a failing transaction leaves them in place. Deletes with more related items than fit in a transaction
+   * are rejected before anything is written.
+   */
+  public after = (ctx: TransformerContext): void => {
+    this.validateDeleteRelations();
+
+    for (const [typeName, relations] of Object.entries(this.deleteRelations)) {
+      const resolverId = ResolverResourceIDs.DynamoDBDeleteResolverResourceID(typeName);
+      const resolver = ctx.getResource(resolverId) as Resolver;
+      const deleteFunctionId = ResolverResourceIDs.DynamoDBDeleteFunctionResourceID(typeName);
+      ctx.setResource(deleteFunctionId, this.resources.makeDeleteFunction(typeName, resolver));
+      ctx.mapResourceToStack(typeName, deleteFunctionId);
+
+      // The related items are looked up before the item is deleted and deleted or updated after it.
+      const writeRelations = relations.filter(relation => relation.action !== 'RESTRICT');
+      const functionIds = [
+        ...relations.map(relation => ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID(typeName, relation.fieldName)),
+        deleteFunctionId,
+        ...writeRelations.map(relation => ResolverResourceIDs.ConnectionOnDeleteFunctionResourceID(typeName, relation.fieldName)),
+      ];
+      const relatedTypeNames = writeRelations
+        .map(relation => relation.relatedTypeName)
+        .filter((relatedTypeName, i, relatedTypeNames) => relatedTypeNames.indexOf(relatedTypeName) === i);
+      ctx.setResource(resolverId, this.resources.makeOnDeletePipelineResolver(resolver, functionIds, relatedTypeNames));
+    }
   };
 
   /**
@@ -220,6 +296,16 @@ export class ModelConnectionTransformer extends Transformer {
       throw new InvalidDirectiveError(`Object type ${relatedTypeName} must be annotated with @model.`);
     }
 
+    if (getDirectiveArgument(directive, 'onDelete') && !isListType(field.type)) {
+      throw new InvalidDirectiveError(`onDelete on ${parentTypeName}.${fieldName} is only supported on connections to a list of items.`);
+    }
+
+    // Many to many connections are resolved through the join model created for the relation.
+    if (getDirectiveArgument(directive, 'relationName')) {
+      this.manyToManyConnection(parent, field, directive, ctx);
+      return;
+    }
+
     // Checks if "fields" argument is provided which indicates use of the new parameterization
     // hence dive straight to new logic and return.
     if (getDirectiveArgument(directive, 'fields')) {
@@ -296,9 +382,10 @@ export class ModelConnectionTransformer extends Transformer {
     // 4. [] to ?
     // 5. {} to ?
     if (leftConnectionIsList && rightConnectionIsList) {
-      // 1. TODO.
-      // Use an intermediary table or other strategy like embedded string sets for many to many.
-      throw new InvalidDirectiveError(`Invalid Connection (${connectionName}): Many to Many connections are not yet supported.`);
+      // 1. Many to many connections use a join model, which is created for connections with a relationName.
+      throw new InvalidDirectiveError(
+        `Invalid Connection (${connectionName}): Many to Many connections are only supported with the relationName argument.`,
+      );
     } else if (leftConnectionIsList && rightConnectionIsList === false) {
       // 2. [] to {} when the association exists. Note: false and undefined are not equal.
       // Store a foreign key on the related table and wire up a Query resolver.
@@ -327,6 +414,16 @@ export class ModelConnectionTransformer extends Transformer {
       ctx.setResource(ResolverResourceIDs.ResolverResourceID(parentTypeName, fieldName), queryResolver);
 
       this.extendTypeWithConnection(ctx, parent, field, relatedType, sortKeyInfo);
+      this.addDeleteRelation(
+        ctx,
+        parent,
+        field,
+        directive,
+        relatedType,
+        [new KeySchema({ AttributeName: connectionAttributeName, KeyType: 'HASH' })],
+        `gsi-${connectionName}`,
+        [idFieldName],
+      );
     } else if (!leftConnectionIsList && rightConnectionIsList) {
       // 3. {} to [] when the association exists.
       // Store foreign key on this table and wire up a GetItem resolver.
@@ -411,6 +508,16 @@ export class ModelConnectionTransformer extends Transformer {
       ctx.setResource(ResolverResourceIDs.ResolverResourceID(parentTypeName, fieldName), queryResolver);
 
       this.extendTypeWithConnection(ctx, parent, field, relatedType, sortKeyInfo);
+      this.addDeleteRelation(
+        ctx,
+        parent,
+        field,
+        directive,
+        relatedType,
+        [new KeySchema({ AttributeName: connectionAttributeName, KeyType: 'HASH' })],
+        `gsi-${connectionName}`,
+        [idFieldName],
+      );
 
       // Update the create & update input objects for the related type
       const createInputName = ModelResourceIDs.ModelCreateInputObjectName(relatedTypeName);
@@ -653,9 +760,305 @@ export class ModelConnectionTransformer extends Transformer {
       }
 
       this.extendTypeWithConnection(ctx, parent, field, relatedType, sortKeyInfo);
+      this.addDeleteRelation(
+        ctx,
+        parent,
+        field,
+        directive,
+        relatedType,
+        keySchema,
+        index ? String(index.IndexName) : undefined,
+        args.fields,
+      );
     }
   };
 
+  /**
+   * The @connection parameterization with "relationName" connects two model types through a join model named
+   * after the relation. Both sides of the relation must be list fields with the same relationName:
+   *
+   * type Post @model { tags: [Tag] @connection(relationName: "PostTags") }
+   * type Tag @model { posts: [Post] @connection(relationName: "PostTags") }
+   *
+   * The join model PostTags has a postID and a tagID field with a @key on each of them, and the connection fields
+   * on Post and Tag return the PostTags items they are part of.
+   */
+  public manyToManyConnection = (
+    parent: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode,
+    field: FieldDefinitionNode,
+    directive: DirectiveNode,
+    ctx: TransformerContext,
+  ): void => {
+    const relationName = getDirectiveArgument(directive, 'relationName');
+    const limit = getDirectiveArgument(directive, 'limit');
+    const onDelete = getDirectiveArgument(directive, 'onDelete');
+    const side = this.manyToManyRelations[relationName].find(s => s.typeName === parent.name.value);
+
+    // The connection is a query on the index of the join model, the parent type in the context has the generated id field.
+    const joinField = { ...field, type: makeListType(makeNamedType(relationName)) };
+    const joinDirective = makeDirective('connection', [
+      makeArgument('keyName', makeValueNode(side.indexName)),
+      makeArgument('fields', makeValueNode([this.getManyToManyKeyFieldName(ctx, parent)])),
+      ...(limit ? [makeArgument('limit', makeValueNode(limit))] : []),
+      ...(onDelete ? [makeArgument('onDelete', makeValueNode(onDelete))] : []),
+    ]);
+    this.connectionWithKey(ctx.getObject(parent.name.value), joinField, joinDirective, ctx);
+  };
+
+  /**
+   * Collects the fields with a relationName by relation and validates that each relation connects two model types.
+   */
+  private getManyToManyRelations(ctx: TransformerContext): { [relationName: string]: ManyToManyRelationSide[] } {
+    const fieldsByRelation: { [relationName: string]: [ObjectTypeDefinitionNode, FieldDefinitionNode][] } = {};
+    const objectTypes = ctx.inputDocument.definitions.filter(d => d.kind === Kind.OBJECT_TYPE_DEFINITION) as ObjectTypeDefinitionNode[];
+    for (const type of objectTypes) {
+      for (const field of type.fields) {
+        const directive = field.directives.find(d => d.name.value === 'connection');
+        const relationName = directive && getDirectiveArgument(directive, 'relationName');
+        if (!relationName) {
+          continue;
+        }
+        if (['name', 'keyField', 'sortField', 'keyName', 'fields'].some(arg => getDirectiveArgument(directive, arg) !== undefined)) {
+          throw new InvalidDirectiveError(
+            `@connection on ${type.name.value}.${field.name.value} can not combine relationName with other connection arguments.`,
+          );
+        }
+        if (!isListType(field.type)) {
+          throw new InvalidDirectiveError(
+            `Invalid Connection (${relationName}): ${type.name.value}.${field.name.value} must be a list to be part of a Many to Many connection.`,
+          );
+        }
+        fieldsByRelation[relationName] = [...(fieldsByRelation[relationName] || []), [type, field]];
+      }
+    }
+
+    return Object.entries(fieldsByRelation).reduce((acc, [relationName, fields]) => {
+      const [[type, field], related] = fields;
+      if (fields.length > 2) {
+        throw new InvalidDirectiveError(`Invalid Connection (${relationName}): found more than two fields with the same relationName.`);
+      }
+      if (!related) {
+        throw new InvalidDirectiveError(
+          `Found one half of connection "${relationName}" at ${type.name.value}.${field.name.value} ` +
+            `but no related field on type ${getBaseType(field.type)}`,
+        );
+      }
+      const [relatedType, relatedField] = related;
+      if (getBaseType(field.type) !== relatedType.name.value || getBaseType(relatedField.type) !== type.name.value) {
+        throw new InvalidDirectiveError(
+          `Invalid Connection (${relationName}): ${type.name.value}.${field.name.value} and ` +
+            `${relatedType.name.value}.${relatedField.name.value} must return each other's types.`,
+        );
+      }
+      if (type === relatedType) {
+        throw new InvalidDirectiveError(`Invalid Connection (${relationName}): a type can not have a Many to Many connection to itself.`);
+      }
+      if (this.typeExist(relationName, ctx)) {
+        throw new InvalidDirectiveError(`Invalid Connection (${relationName}): a type named ${relationName} already exists.`);
+      }
+      for (const t of [type, relatedType]) {
+        if (!t.directives.find(d => d.name.value === 'model')) {
+          throw new InvalidDirectiveError(`@connection must be on an @model object type field.`);
+        }
+      }
+      return {
+        ...acc,
+        [relationName]: fields.map(([t, f]) => {
+          const keyField = ctx.getObject(t.name.value).fields.find(kf => kf.name.value === this.getManyToManyKeyFieldName(ctx, t));
+          return makeManyToManyRelationSide(t.name.value, f.name.value, getBaseType(keyField.type));
+        }),
+      };
+    }, {});
+  }
+
+  /**
+   * Adds the join model of a Many to Many connection to the input document and creates its table, indexes, queries and
+   * mutations the same way @model and @key do for the types declared in the schema.
+   */
+  private addManyToManyJoinModel(ctx: TransformerContext, relationName: string, sides: ManyToManyRelationSide[]): void {
+    const joinType = makeManyToManyJoinType(relationName, sides, this.getManyToManyJoinAuthRules(ctx, relationName, sides));
+    ctx.addObject(joinType);
+    ctx.inputDocument = { ...ctx.inputDocument, definitions: [...ctx.inputDocument.definitions, joinType] };
+
+    // @model and @key have already transformed the input document
+    const modelDirective = joinType.directives.find(d => d.name.value === 'model');
+    new DynamoDBModelTransformer().object(joinType, modelDirective, ctx);
+    const keyTransformer = new KeyTransformer();
+    for (const keyDirective of joinType.directives.filter(d => d.name.value === 'key')) {
+      keyTransformer.object(joinType, keyDirective, ctx);
+    }
+
+    // Each join item belongs to one item of both sides.
+    for (const side of sides) {
+      const table = ctx.getResource(ModelResourceIDs.ModelTableResourceID(side.typeName)) as Table;
+      const getResolver = this.resources.makeGetItemConnectionWithKeyResolver(
+        relationName,
+        side.joinFieldName,
+        side.typeName,
+        [side.joinKeyFieldName],
+        <KeySchema[]>table.Properties.KeySchema,
+      );
+      const resolverId = ResolverResourceIDs.ResolverResourceID(relationName, side.joinFieldName);
+      ctx.setResource(resolverId, getResolver);
+      ctx.mapResourceToStack(CONNECTION_STACK_NAME, resolverId);
+    }
+  }
+
+  /**
+   * The join model takes over the @auth rules of both sides, whoever may access the items of one side may link them
+   * to the items of the other one. Dynamic group rules refer to a field of their type, which the join model does not have.
+   */
+  private getManyToManyJoinAuthRules(ctx: TransformerContext, relationName: string, sides: ManyToManyRelationSide[]): ValueNode[] {
+    const rules: ValueNode[] = [];
+    for (const side of sides) {
+      const authDirective = ctx.getObject(side.typeName).directives.find(d => d.name.value === 'auth');
+      const rulesArgument = authDirective && authDirective.arguments.find(arg => arg.name.value === 'rules');
+      if (!rulesArgument) {
+        continue;
+      }
+      const sideRules = rulesArgument.value.kind === Kind.LIST ? rulesArgument.value.values : [rulesArgument.value];
+      for (const rule of sideRules) {
+        if (rule.kind === Kind.OBJECT && rule.fields.find(f => f.name.value === 'groupsField')) {
+          throw new InvalidDirectiveError(
+            `Invalid Connection (${relationName}): the dynamic group rules of @auth on ${side.typeName} can not be applied to the join model.`,
+          );
+        }
+        if (!rules.find(r => print(r) === print(rule))) {
+          rules.push(rule);
+        }
+      }
+    }
+    return rules;
+  }
+
+  // The join model references the hash key of the primary key of both sides.
+  private getManyToManyKeyFieldName(ctx: TransformerContext, type: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode): string {
+    const primaryKey = type.directives.find(d => d.name.value === 'key' && getDirectiveArgument(d, 'name') === undefined);
+    if (primaryKey && getDirectiveArgument(primaryKey, 'fields').length > 1) {
+      throw new InvalidDirectiveError(
+        `Many to Many connections are not supported on ${type.name.value}, which has a composite primary key.`,
+      );
+    }
+    const primaryKeyField = this.getPrimaryKeyField(ctx, type);
+    return primaryKeyField ? primaryKeyField.name.value : 'id';
+  }
+
+  /**
+   * Records the onDelete action of a list connection and creates the pipeline functions that look up the related items
+   * and delete or update them when an item of the parent type gets deleted.
+   * @param keySchema The key schema of the index the connection queries.
+   * @param indexName The index the connection queries, undefined for the table itself.
+   * @param connectionFields The fields of the parent type the index is queried by.
+   */
+  private addDeleteRelation(
+    ctx: TransformerContext,
+    parent: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode,
+    field: FieldDefinitionNode,
+    directive: DirectiveNode,
+    relatedType: ObjectTypeDefinitionNode,
+    keySchema: KeySchema[],
+    indexName: string | undefined,
+    connectionFields: string[],
+  ): void {
+    const action: ConnectionDeleteAction = getDirectiveArgument(directive, 'onDelete');
+    if (!action) {
+      return;
+    }
+    const parentTypeName = parent.name.value;
+    const fieldName = field.name.value;
+    const relatedTypeName = relatedType.name.value;
+
+    // Deletes are soft deletes when conflict detection is enabled.
+    if (ctx.isProjectUsingDataStore()) {
+      throw new InvalidDirectiveError(`onDelete on ${parentTypeName}.${fieldName} is not supported when conflict detection is enabled.`);
+    }
+    if (!ctx.getResource(ResolverResourceIDs.DynamoDBDeleteResolverResourceID(parentTypeName))) {
+      throw new InvalidDirectiveError(`onDelete on ${parentTypeName}.${fieldName} requires the delete mutation of ${parentTypeName}.`);
+    }
+    // The related items are queried with the input of the delete mutation.
+    const primaryKeyFields = this.getPrimaryKeyFieldNames(parent);
+    if (connectionFields.some(connectionField => !primaryKeyFields.includes(connectionField))) {
+      throw new InvalidDirectiveError(
+        `onDelete on ${parentTypeName}.${fieldName} requires the connection fields to be part of the primary key of ${parentTypeName}.`,
+      );
+    }
+
+    const relatedTable = ctx.getResource(ModelResourceIDs.ModelTableResourceID(relatedTypeName)) as Table;
+    const relatedKeySchema = <KeySchema[]>relatedTable.Properties.KeySchema;
+    if (action === 'SET_NULL') {
+      const connectionAttribute = String(keySchema[0].AttributeName);
+      const connectionAttributeField = relatedType.fields.find(f => f.name.value === connectionAttribute);
+      if (
+        relatedKeySchema.some(key => key.AttributeName === connectionAttribute) ||
+        (connectionAttributeField && isNonNullType(connectionAttributeField.type))
+      ) {
+        throw new InvalidDirectiveError(
+          `onDelete: SET_NULL on ${parentTypeName}.${fieldName} requires ${relatedTypeName}.${connectionAttribute} ` +
+            `to be a nullable field that is not part of the primary key.`,
+        );
+      }
+    }
+
+    const relatedModelDirective = relatedType.directives.find(d => d.name.value === 'model');
+    const relation: ConnectionDeleteRelation = {
+      fieldName,
+      relatedTypeName,
+      action,
+      connectionFields,
+      keySchema,
+      indexName,
+      relatedKeySchema,
+      relatedUpdatedAtField: getUpdatedAtFieldName(relatedModelDirective),
+    };
+    this.deleteRelations[parentTypeName] = [...(this.deleteRelations[parentTypeName] || []), relation];
+
+    // The functions live in the stack of the parent type along with its delete resolver.
+    const queryFunctionId = ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID(parentTypeName, fieldName);
+    ctx.setResource(queryFunctionId, this.resources.makeOnDeleteQueryFunction(parentTypeName, relation));
+    ctx.mapResourceToStack(parentTypeName, queryFunctionId);
+    if (action !== 'RESTRICT') {
+      const functionId = ResolverResourceIDs.ConnectionOnDeleteFunctionResourceID(parentTypeName, fieldName);
+      ctx.setResource(functionId, this.resources.makeOnDeleteFunction(parentTypeName, relation));
+      ctx.mapResourceToStack(parentTypeName, functionId);
+    }
+  }
+
+  /**
+   * Cascading deletes only delete the related items themselves, so they can't delete items that have onDelete
+   * connections of their own. The stack of a type references the tables of its related types, which can't
+   * reference the stack of the type in turn.
+   */
+  private validateDeleteRelations(): void {
+    for (const [typeName, relations] of Object.entries(this.deleteRelations)) {
+      for (const relation of relations) {
+        if (relation.action === 'CASCADE' && this.deleteRelations[relation.relatedTypeName]) {
+          throw new InvalidDirectiveError(
+            `onDelete: CASCADE on ${typeName}.${relation.fieldName} can not delete ${relation.relatedTypeName} items, ` +
+              `which have onDelete connections themselves.`,
+          );
+        }
+      }
+    }
+
+    const visit = (typeName: string, path: string[]) => {
+      if (path.includes(typeName)) {
+        const cycle = [...path.slice(path.indexOf(typeName)), typeName];
+        throw new InvalidDirectiveError(`onDelete connections can not form a cycle between types: ${cycle.join(' -> ')}.`);
+      }
+      for (const relation of this.deleteRelations[typeName] || []) {
+        if (relation.relatedTypeName !== typeName) {
+          visit(relation.relatedTypeName, [...path, typeName]);
+        }
+      }
+    };
+    Object.keys(this.deleteRelations).forEach(typeName => visit(typeName, []));
+  }
+
+  private getPrimaryKeyFieldNames(type: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode): string[] {
+    const primaryKey = type.directives.find(d => d.name.value === 'key' && getDirectiveArgument(d, 'name') === undefined);
+    return primaryKey ? getDirectiveArgument(primaryKey, 'fields') : ['id'];
+  }
+
   private typeExist(type: string, ctx: TransformerContext): boolean {
     return Boolean(type in ctx.nodeMap);
   }
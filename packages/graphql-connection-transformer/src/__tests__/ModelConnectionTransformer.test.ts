@@ -707,6 +707,30 @@ test('Connection on models with no codegen includes custom enum filters', () =>
   expect(out.schema).toMatchSnapshot();
 });
 
+test('Test ModelConnectionTransformer with onDelete clears the connection of related items', () => {
+  const validSchema = `
+    type Post @model {
+        id: ID!
+        title: String!
+        comments: [Comment] @connection(name: "PostComments", onDelete: SET_NULL)
+    }
+    type Comment @model {
+        id: ID!
+        content: String
+        post: Post @connection(name: "PostComments")
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  expect(out).toBeDefined();
+  const deleteResolver = out.stacks.Post.Resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('Post')];
+  expect(deleteResolver.Properties.Kind).toEqual('PIPELINE');
+  expect(out.pipelineFunctions['PostcommentsOnDeleteQueryFunction.req.vtl']).toContain('"index": "gsi-PostComments"');
+  expect(out.pipelineFunctions['PostcommentsOnDeleteFunction.req.vtl']).toContain('"#connectionAttribute": "commentPostId"');
+});
+
 function expectFields(type: ObjectTypeDefinitionNode, fields: string[]) {
   for (const fieldName of fields) {
     const foundField = type.fields.find((f: FieldDefinitionNode) => f.name.value === fieldName);
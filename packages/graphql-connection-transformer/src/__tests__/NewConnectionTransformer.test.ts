@@ -635,6 +635,349 @@ test('Many-to-many with conflict resolution generates correct schema', () => {
   expect(out.schema).toMatchSnapshot();
 });
 
+test('Many-to-many with relationName creates the join model and connects both sides through it', () => {
+  const validSchema = `
+    type Post @model {
+      title: String!
+      tags: [Tag] @connection(relationName: "PostTags")
+    }
+
+    type Tag @model {
+      id: ID!
+      label: String!
+      posts: [Post] @connection(relationName: "PostTags", limit: 50)
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  expect(out).toBeDefined();
+  const schemaDoc = parse(out.schema);
+
+  const joinType = getObjectType(schemaDoc, 'PostTags');
+  expectFields(joinType, ['id', 'postID', 'tagID', 'post', 'tag']);
+  expectFields(getInputType(schemaDoc, 'CreatePostTagsInput') as any, ['postID', 'tagID']);
+  expectFields(getObjectType(schemaDoc, 'Mutation'), ['createPostTags', 'updatePostTags', 'deletePostTags']);
+
+  const tagsField = getObjectType(schemaDoc, 'Post').fields.find(f => f.name.value === 'tags');
+  expect((tagsField.type as any).name.value).toEqual('ModelPostTagsConnection');
+  expectArguments(tagsField, ['tagID', 'filter', 'sortDirection', 'limit', 'nextToken']);
+  const postsField = getObjectType(schemaDoc, 'Tag').fields.find(f => f.name.value === 'posts');
+  expect((postsField.type as any).name.value).toEqual('ModelPostTagsConnection');
+
+  const joinTable = out.stacks.PostTags.Resources.PostTagsTable;
+  expect(joinTable.Properties.GlobalSecondaryIndexes.map(gsi => [gsi.IndexName, gsi.KeySchema.map(k => k.AttributeName)])).toEqual([
+    ['byPost', ['postID', 'tagID']],
+    ['byTag', ['tagID', 'postID']],
+  ]);
+
+  const tagsResolver = out.resolvers['Post.tags.req.vtl'];
+  expect(tagsResolver).toContain('"index": "byPost"');
+  expect(tagsResolver).toContain('$context.source.id');
+  expect(out.resolvers['Tag.posts.req.vtl']).toContain('$util.defaultIfNull($context.args.limit, 50)');
+  expect(out.stacks.ConnectionStack.Resources[ResolverResourceIDs.ResolverResourceID('PostTags', 'post')]).toBeDefined();
+  expect(out.resolvers['PostTags.tag.req.vtl']).toContain('$ctx.source.tagID');
+});
+
+test('Many-to-many with relationName uses the primary key of the connected types', () => {
+  const validSchema = `
+    type Book @model @key(fields: ["isbn"]) {
+      isbn: String!
+      authors: [Author] @connection(relationName: "BookAuthors")
+    }
+
+    type Author @model {
+      id: ID!
+      books: [Book] @connection(relationName: "BookAuthors")
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const joinType = getObjectType(parse(out.schema), 'BookAuthors');
+  const bookID = joinType.fields.find(f => f.name.value === 'bookID');
+  expect((bookID.type as any).type.name.value).toEqual('String');
+  expect(out.resolvers['Book.authors.req.vtl']).toContain('$context.source.isbn');
+});
+
+test('Many-to-many with relationName should fail if the other half of the relation is missing.', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      tags: [Tag] @connection(relationName: "PostTags")
+    }
+
+    type Tag @model {
+      id: ID!
+      posts: [Post]
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'Found one half of connection "PostTags" at Post.tags but no related field on type Tag',
+  );
+});
+
+test('Many-to-many with relationName should fail if a side of the relation is not a list.', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      tags: [Tag] @connection(relationName: "PostTags")
+    }
+
+    type Tag @model {
+      id: ID!
+      post: Post @connection(relationName: "PostTags")
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'Invalid Connection (PostTags): Tag.post must be a list to be part of a Many to Many connection.',
+  );
+});
+
+test('Many-to-many with relationName should fail if the join model name is already used.', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      tags: [Tag] @connection(relationName: "Tag")
+    }
+
+    type Tag @model {
+      id: ID!
+      posts: [Post] @connection(relationName: "Tag")
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError('Invalid Connection (Tag): a type named Tag already exists.');
+});
+
+test('onDelete turns the delete resolver of the parent into a pipeline resolver', () => {
+  const validSchema = `
+    type Post @model {
+      id: ID!
+      title: String!
+      comments: [Comment] @connection(keyName: "byPost", fields: ["id"], onDelete: CASCADE)
+      likes: [Like] @connection(keyName: "byPost", fields: ["id"], onDelete: RESTRICT)
+      drafts: [Draft] @connection(keyName: "byPost", fields: ["id"], onDelete: SET_NULL)
+    }
+
+    type Comment @model @key(name: "byPost", fields: ["postID", "content"]) {
+      id: ID!
+      postID: ID!
+      content: String!
+    }
+
+    type Like @model @key(name: "byPost", fields: ["postID"]) {
+      id: ID!
+      postID: ID!
+    }
+
+    type Draft @model @key(name: "byPost", fields: ["postID"]) {
+      id: ID!
+      postID: ID
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const resources = out.stacks.Post.Resources;
+
+  const deleteResolver = resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('Post')];
+  expect(deleteResolver.Properties.Kind).toEqual('PIPELINE');
+  expect(deleteResolver.Properties.PipelineConfig.Functions.map(f => f['Fn::GetAtt'][0])).toEqual([
+    ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID('Post', 'comments'),
+    ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID('Post', 'likes'),
+    ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID('Post', 'drafts'),
+    ResolverResourceIDs.DynamoDBDeleteFunctionResourceID('Post'),
+    ResolverResourceIDs.ConnectionOnDeleteFunctionResourceID('Post', 'comments'),
+    ResolverResourceIDs.ConnectionOnDeleteFunctionResourceID('Post', 'drafts'),
+  ]);
+  // the related table names are stashed for the transactions
+  const stashedTables = JSON.parse(JSON.stringify(deleteResolver.Properties.RequestMappingTemplate))['Fn::Join'][1].slice(0, -1);
+  expect(stashedTables.map(sub => sub['Fn::Sub'][1].tableName)).toEqual([
+    { 'Fn::ImportValue': { 'Fn::Join': [':', [{ Ref: 'AppSyncApiId' }, 'Ref', 'CommentTable']] } },
+    { 'Fn::ImportValue': { 'Fn::Join': [':', [{ Ref: 'AppSyncApiId' }, 'Ref', 'DraftTable']] } },
+  ]);
+  expect(out.pipelineFunctions['DeletePostFunction.req.vtl']).toContain('"operation": "DeleteItem"');
+
+  const commentsQuery = out.pipelineFunctions['PostcommentsOnDeleteQueryFunction.req.vtl'];
+  expect(commentsQuery).toContain('"index": "byPost"');
+  expect(commentsQuery).toContain('"S": "$ctx.args.input.id"');
+  expect(commentsQuery).toContain(`"limit": 26`);
+  expect(out.pipelineFunctions['PostcommentsOnDeleteQueryFunction.res.vtl']).toContain('"RelatedItemLimitExceeded"');
+  expect(out.pipelineFunctions['PostlikesOnDeleteQueryFunction.req.vtl']).toContain(`"limit": 1`);
+  expect(out.pipelineFunctions['PostlikesOnDeleteQueryFunction.res.vtl']).toContain('"DeleteRestricted"');
+  expect(out.pipelineFunctions['PostlikesOnDeleteFunction.req.vtl']).toBeUndefined();
+
+  const deleteComments = out.pipelineFunctions['PostcommentsOnDeleteFunction.req.vtl'];
+  expect(deleteComments).toContain('"operation": "TransactWriteItems"');
+  expect(deleteComments).toContain('"operation": "DeleteItem"');
+  expect(deleteComments).toContain('"id": $util.dynamodb.toDynamoDB($item.get("id"))');
+  const updateDrafts = out.pipelineFunctions['PostdraftsOnDeleteFunction.req.vtl'];
+  expect(updateDrafts).toContain('"operation": "UpdateItem"');
+  expect(updateDrafts).toContain('"expression": "REMOVE #connectionAttribute SET #updatedAt = :updatedAt"');
+  expect(updateDrafts).toContain('"#connectionAttribute": "postID"');
+  // the post stays deleted when the transaction fails, so it is returned along with the error
+  expect(out.pipelineFunctions['PostcommentsOnDeleteFunction.res.vtl']).toContain(
+    '$util.appendError("Post was deleted, but its related items in comments could not be deleted: $ctx.error.message", $ctx.error.type)',
+  );
+  expect(out.pipelineFunctions['PostdraftsOnDeleteFunction.res.vtl']).toContain('could not be updated');
+  expect(out.pipelineFunctions['PostdraftsOnDeleteFunction.res.vtl']).toContain('$util.toJson($ctx.prev.result)');
+});
+
+test('onDelete with CASCADE deletes the join items of a many-to-many connection', () => {
+  const validSchema = `
+    type Post @model {
+      id: ID!
+      tags: [Tag] @connection(relationName: "PostTags", onDelete: CASCADE)
+    }
+
+    type Tag @model {
+      id: ID!
+      posts: [Post] @connection(relationName: "PostTags")
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  expect(out.stacks.Post.Resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('Post')].Properties.Kind).toEqual('PIPELINE');
+  expect(out.stacks.Tag.Resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('Tag')].Properties.Kind).toBeUndefined();
+  expect(out.pipelineFunctions['PosttagsOnDeleteQueryFunction.req.vtl']).toContain('"index": "byPost"');
+  expect(out.pipelineFunctions['PosttagsOnDeleteFunction.req.vtl']).toContain('$ctx.stash.get("PostTagsTable")');
+});
+
+test('onDelete should fail on a connection to a single item', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      authorID: ID!
+      author: Author @connection(fields: ["authorID"], onDelete: CASCADE)
+    }
+
+    type Author @model {
+      id: ID!
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'onDelete on Post.author is only supported on connections to a list of items.',
+  );
+});
+
+test('onDelete should fail if the connection fields are not part of the primary key', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      title: String!
+      comments: [Comment] @connection(keyName: "byTitle", fields: ["title"], onDelete: CASCADE)
+    }
+
+    type Comment @model @key(name: "byTitle", fields: ["postTitle"]) {
+      id: ID!
+      postTitle: String!
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'onDelete on Post.comments requires the connection fields to be part of the primary key of Post.',
+  );
+});
+
+test('onDelete with SET_NULL should fail if the connection field is required', () => {
+  const invalidSchema = `
+    type Post @model {
+      id: ID!
+      comments: [Comment] @connection(keyName: "byPost", fields: ["id"], onDelete: SET_NULL)
+    }
+
+    type Comment @model @key(name: "byPost", fields: ["postID"]) {
+      id: ID!
+      postID: ID!
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'onDelete: SET_NULL on Post.comments requires Comment.postID to be a nullable field that is not part of the primary key.',
+  );
+});
+
+test('onDelete with CASCADE should fail if the related type has onDelete connections', () => {
+  const invalidSchema = `
+    type Blog @model {
+      id: ID!
+      posts: [Post] @connection(keyName: "byBlog", fields: ["id"], onDelete: CASCADE)
+    }
+
+    type Post @model @key(name: "byBlog", fields: ["blogID"]) {
+      id: ID!
+      blogID: ID!
+      comments: [Comment] @connection(keyName: "byPost", fields: ["id"], onDelete: RESTRICT)
+    }
+
+    type Comment @model @key(name: "byPost", fields: ["postID"]) {
+      id: ID!
+      postID: ID!
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'onDelete: CASCADE on Blog.posts can not delete Post items, which have onDelete connections themselves.',
+  );
+});
+
+test('onDelete should fail if the connections form a cycle between types', () => {
+  const invalidSchema = `
+    type Team @model @key(name: "byLead", fields: ["leadID"]) {
+      id: ID!
+      leadID: ID
+      members: [Member] @connection(keyName: "byTeam", fields: ["id"], onDelete: SET_NULL)
+    }
+
+    type Member @model @key(name: "byTeam", fields: ["teamID"]) {
+      id: ID!
+      teamID: ID
+      ledTeams: [Team] @connection(keyName: "byLead", fields: ["id"], onDelete: RESTRICT)
+    }
+    `;
+
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ModelConnectionTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError(
+    'onDelete connections can not form a cycle between types: Team -> Member -> Team.',
+  );
+});
+
 function getInputType(doc: DocumentNode, type: string): InputObjectTypeDefinitionNode | undefined {
   return doc.definitions.find((def: DefinitionNode) => def.kind === Kind.INPUT_OBJECT_TYPE_DEFINITION && def.name.value === type) as
     | InputObjectTypeDefinitionNode
@@ -1,5 +1,29 @@
-import { InputObjectTypeDefinitionNode } from 'graphql';
-import { makeInputValueDefinition, makeNonNullType, makeNamedType } from 'graphql-transformer-common';
+import { InputObjectTypeDefinitionNode, Kind, ObjectTypeDefinitionNode, ValueNode } from 'graphql';
+import {
+  makeInputValueDefinition,
+  makeNonNullType,
+  makeNamedType,
+  makeObjectDefinition,
+  makeField,
+  makeDirective,
+  makeArgument,
+  makeValueNode,
+} from 'graphql-transformer-common';
+
+/**
+ * One of the two model types connected by a Many to Many connection and how the join model refers to it.
+ */
+export interface ManyToManyRelationSide {
+  typeName: string;
+  // the connection field of the type
+  fieldName: string;
+  // the fields of the join model holding the connected item and its key
+  joinFieldName: string;
+  joinKeyFieldName: string;
+  keyFieldType: string;
+  // the index of the join model to query the items of the type by
+  indexName: string;
+}
 
 export function updateCreateInputWithConnectionField(
   input: InputObjectTypeDefinitionNode,
@@ -38,3 +62,45 @@ export function updateUpdateInputWithConnectionField(
     fields: updatedFields,
   };
 }
+
+/**
+ * Creates the join model of a Many to Many connection, i.e. for the relation PostTags between Post and Tag:
+ *
+ * type PostTags @model @key(name: "byPost", fields: ["postID", "tagID"]) @key(name: "byTag", fields: ["tagID", "postID"]) {
+ *   id: ID!
+ *   postID: ID!
+ *   tagID: ID!
+ *   post: Post!
+ *   tag: Tag!
+ * }
+ *
+ * @param authRules The @auth rules of the join model, it has no @auth without rules.
+ */
+export function makeManyToManyJoinType(
+  relationName: string,
+  sides: ManyToManyRelationSide[],
+  authRules: ValueNode[] = [],
+): ObjectTypeDefinitionNode {
+  const [left, right] = sides;
+  const joinType = makeObjectDefinition(relationName, [
+    makeField('id', [], makeNonNullType(makeNamedType('ID'))),
+    ...sides.map(side => makeField(side.joinKeyFieldName, [], makeNonNullType(makeNamedType(side.keyFieldType)))),
+    ...sides.map(side => makeField(side.joinFieldName, [], makeNonNullType(makeNamedType(side.typeName)))),
+  ]);
+  return {
+    ...joinType,
+    directives: [
+      makeDirective('model', []),
+      ...[
+        [left, right],
+        [right, left],
+      ].map(([side, other]) =>
+        makeDirective('key', [
+          makeArgument('name', makeValueNode(side.indexName)),
+          makeArgument('fields', makeValueNode([side.joinKeyFieldName, other.joinKeyFieldName])),
+        ]),
+      ),
+      ...(authRules.length ? [makeDirective('auth', [makeArgument('rules', { kind: Kind.LIST, values: authRules })])] : []),
+    ],
+  };
+}
@@ -1,5 +1,6 @@
 import Table, { GlobalSecondaryIndex, KeySchema, Projection, AttributeDefinition } from 'cloudform-types/types/dynamoDb/table';
 import Resolver from 'cloudform-types/types/appSync/resolver';
+import FunctionConfiguration from 'cloudform-types/types/appSync/functionConfiguration';
 import Template from 'cloudform-types/types/template';
 import { Fn, Refs } from 'cloudform-types';
 import { ObjectTypeDefinitionNode, InterfaceTypeDefinitionNode } from 'graphql';
@@ -19,10 +20,17 @@ import {
   iff,
   raw,
   Expression,
+  int,
+  qref,
+  ret,
+  forEach,
+  toJson,
+  list,
 } from 'graphql-mapping-template';
 import {
   ResourceConstants,
   ModelResourceIDs,
+  ResolverResourceIDs,
   DEFAULT_SCALARS,
   NONE_VALUE,
   NONE_INT_VALUE,
@@ -33,6 +41,28 @@ import {
 } from 'graphql-transformer-common';
 import { InvalidDirectiveError } from 'graphql-transformer-core';
 
+// TransactWriteItems writes at most 25 items
+export const ON_DELETE_RELATED_ITEM_LIMIT = 25;
+
+export type ConnectionDeleteAction = 'CASCADE' | 'RESTRICT' | 'SET_NULL';
+
+/**
+ * A list connection with an onDelete action. The related items are the items of the index of the related model
+ * whose key matches the connection fields of the deleted item.
+ */
+export interface ConnectionDeleteRelation {
+  fieldName: string;
+  relatedTypeName: string;
+  action: ConnectionDeleteAction;
+  // the fields of the parent type to query the related items by
+  connectionFields: string[];
+  keySchema: KeySchema[];
+  indexName?: string;
+  // the primary key of the related table, the related items are deleted or updated by it
+  relatedKeySchema: KeySchema[];
+  relatedUpdatedAtField?: string;
+}
+
 export class ResourceFactory {
   public makeParams() {
     return {};
@@ -371,18 +401,209 @@ export class ResourceFactory {
     }).dependsOn(ResourceConstants.RESOURCES.GraphQLSchemaLogicalID);
   }
 
+  // Resources for the onDelete actions of list connections
+
+  /**
+   * Create the pipeline function that looks up the related items of a connection before the parent item is deleted.
+   * RESTRICT rejects the delete when there are related items, CASCADE and SET_NULL stash the related items for the
+   * function that runs after the delete. They reject the delete before anything is written when the related items
+   * do not fit in one transaction.
+   * @param type The parent type name.
+   * @param relation The connection and its onDelete action.
+   */
+  public makeOnDeleteQueryFunction(type: string, relation: ConnectionDeleteRelation): FunctionConfiguration {
+    const isRestrict = relation.action === 'RESTRICT';
+    const queryObj = DynamoDBMappingTemplate.query({
+      query: raw('$util.toJson($query)'),
+      scanIndexForward: bool(true),
+      filter: nul(),
+      // one more than the limit to tell whether there are too many related items
+      limit: int(isRestrict ? 1 : ON_DELETE_RELATED_ITEM_LIMIT + 1),
+      index: relation.indexName ? str(relation.indexName) : undefined,
+    });
+    const checkRelatedItems = isRestrict
+      ? iff(
+          raw('!$ctx.result.items.isEmpty()'),
+          ref(`util.error("${type} can not be deleted while it has related items in ${relation.fieldName}.", "DeleteRestricted")`),
+        )
+      : compoundExpression([
+          iff(
+            raw(`$ctx.result.items.size() > ${ON_DELETE_RELATED_ITEM_LIMIT}`),
+            ref(
+              `util.error("${type} can not be deleted because it has more than ${ON_DELETE_RELATED_ITEM_LIMIT} related items in ` +
+                `${relation.fieldName}.", "RelatedItemLimitExceeded")`,
+            ),
+          ),
+          qref(`$ctx.stash.put("${this.makeRelatedItemsStashKey(relation)}", $ctx.result.items)`),
+        ]);
+    const functionName = ResolverResourceIDs.ConnectionOnDeleteQueryFunctionResourceID(type, relation.fieldName);
+
+    return new FunctionConfiguration({
+      ApiId: Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'ApiId'),
+      Name: functionName,
+      DataSourceName: Fn.GetAtt(ModelResourceIDs.ModelTableDataSourceID(relation.relatedTypeName), 'Name'),
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: print(
+        compoundExpression([
+          set(ref('query'), this.makeExpression(relation.keySchema, relation.connectionFields, 'ctx.args.input')),
+          queryObj,
+        ]),
+      ),
+      ResponseMappingTemplate: print(
+        DynamoDBMappingTemplate.dynamoDBResponse(false, compoundExpression([checkRelatedItems, toJson(ref('ctx.result'))])),
+      ),
+    });
+  }
+
+  /**
+   * Create the pipeline function that deletes (CASCADE) or disconnects (SET_NULL) the related items stashed by the
+   * query function once the parent item is deleted. The related items are written in one transaction, their own
+   * connections are left untouched.
+   *
+   * The parent item can't be part of the transaction: the data source of the related table can only write that table
+   * and a transaction does not return the deleted item. When the transaction fails the parent item stays deleted, so
+   * the mutation returns it along with the error.
+   * @param type The parent type name.
+   * @param relation The connection and its onDelete action.
+   */
+  public makeOnDeleteFunction(type: string, relation: ConnectionDeleteRelation): FunctionConfiguration {
+    const key = obj(
+      relation.relatedKeySchema.reduce(
+        (acc, { AttributeName }) => ({ ...acc, [String(AttributeName)]: ref(`util.dynamodb.toDynamoDB($item.get("${AttributeName}"))`) }),
+        {},
+      ),
+    );
+    const transactItem =
+      relation.action === 'CASCADE'
+        ? obj({
+            table: ref(`ctx.stash.get("${ModelResourceIDs.ModelTableResourceID(relation.relatedTypeName)}")`),
+            operation: str('DeleteItem'),
+            key,
+          })
+        : this.makeSetNullTransactItem(relation, key);
+    const functionName = ResolverResourceIDs.ConnectionOnDeleteFunctionResourceID(type, relation.fieldName);
+
+    return new FunctionConfiguration({
+      ApiId: Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'ApiId'),
+      Name: functionName,
+      DataSourceName: Fn.GetAtt(ModelResourceIDs.ModelTableDataSourceID(relation.relatedTypeName), 'Name'),
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: print(
+        compoundExpression([
+          set(ref('relatedItems'), ref(`ctx.stash.get("${this.makeRelatedItemsStashKey(relation)}")`)),
+          iff(raw('$relatedItems.isEmpty()'), ret(ref('ctx.prev.result'))),
+          set(ref('transactItems'), list([])),
+          forEach(ref('item'), ref('relatedItems'), [set(ref('transactItem'), transactItem), qref('$transactItems.add($transactItem)')]),
+          obj({
+            version: str('2018-05-29'),
+            operation: str('TransactWriteItems'),
+            transactItems: ref('util.toJson($transactItems)'),
+          }),
+        ]),
+      ),
+      // the deleted parent item is the result of the pipeline
+      ResponseMappingTemplate: print(
+        compoundExpression([
+          iff(
+            ref('ctx.error'),
+            ref(
+              `util.appendError("${type} was deleted, but its related items in ${relation.fieldName} could not be ` +
+                `${relation.action === 'CASCADE' ? 'deleted' : 'updated'}: $ctx.error.message", $ctx.error.type)`,
+            ),
+          ),
+          toJson(ref('ctx.prev.result')),
+        ]),
+      ),
+    });
+  }
+
+  /**
+   * Move the templates of the delete resolver of a model into a pipeline function.
+   * @param type The model type name.
+   * @param resolver The delete resolver.
+   */
+  public makeDeleteFunction(type: string, resolver: Resolver): FunctionConfiguration {
+    return new FunctionConfiguration({
+      ApiId: resolver.Properties.ApiId,
+      Name: ResolverResourceIDs.DynamoDBDeleteFunctionResourceID(type),
+      DataSourceName: resolver.Properties.DataSourceName,
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: resolver.Properties.RequestMappingTemplate,
+      ResponseMappingTemplate: resolver.Properties.ResponseMappingTemplate,
+    });
+  }
+
+  /**
+   * Turn the delete resolver of a model into a pipeline resolver. The resolver stashes the names of the related
+   * tables, which are only known once the stack is deployed, for the transactions of the onDelete functions.
+   * @param resolver The delete resolver.
+   * @param functionIds The logical ids of the functions of the pipeline.
+   * @param relatedTypeNames The related types whose table names are stashed.
+   */
+  public makeOnDeletePipelineResolver(resolver: Resolver, functionIds: string[], relatedTypeNames: string[]): Resolver {
+    const stashTableNames = relatedTypeNames.map(relatedTypeName => {
+      const tableId = ModelResourceIDs.ModelTableResourceID(relatedTypeName);
+      return Fn.Sub(`$util.qr($ctx.stash.put("${tableId}", "\${tableName}"))`, { tableName: Fn.Ref(tableId) });
+    });
+
+    return new Resolver({
+      ApiId: resolver.Properties.ApiId,
+      TypeName: resolver.Properties.TypeName,
+      FieldName: resolver.Properties.FieldName,
+      Kind: 'PIPELINE',
+      PipelineConfig: {
+        Functions: functionIds.map(functionId => Fn.GetAtt(functionId, 'FunctionId')),
+      },
+      RequestMappingTemplate: Fn.Join('\n', [...stashTableNames, print(obj({}))]),
+      ResponseMappingTemplate: print(toJson(ref('ctx.prev.result'))),
+    });
+  }
+
+  // SET_NULL removes the connection attribute of the related items that still belong to the deleted item
+  private makeSetNullTransactItem(relation: ConnectionDeleteRelation, key: ObjectNode): ObjectNode {
+    const connectionAttribute = String(relation.keySchema[0].AttributeName);
+    const updatedAt = relation.relatedUpdatedAtField;
+    return obj({
+      table: ref(`ctx.stash.get("${ModelResourceIDs.ModelTableResourceID(relation.relatedTypeName)}")`),
+      operation: str('UpdateItem'),
+      key,
+      update: obj({
+        expression: str(updatedAt ? 'REMOVE #connectionAttribute SET #updatedAt = :updatedAt' : 'REMOVE #connectionAttribute'),
+        expressionNames: obj({
+          '#connectionAttribute': str(connectionAttribute),
+          ...(updatedAt ? { '#updatedAt': str(updatedAt) } : {}),
+        }),
+        ...(updatedAt ? { expressionValues: obj({ ':updatedAt': ref('util.dynamodb.toDynamoDB($util.time.nowISO8601())') }) } : {}),
+      }),
+      condition: obj({
+        expression: str('#connectionAttribute = :connectionAttribute'),
+        expressionNames: obj({
+          '#connectionAttribute': str(connectionAttribute),
+        }),
+        expressionValues: obj({
+          ':connectionAttribute': ref(`util.dynamodb.toDynamoDB($item.get("${connectionAttribute}"))`),
+        }),
+      }),
+    });
+  }
+
+  private makeRelatedItemsStashKey(relation: ConnectionDeleteRelation): string {
+    return `${relation.fieldName}RelatedItems`;
+  }
+
   /**
    * Makes the query expression based on whether there is a sort key to be used for the query
    * or not.
    * @param keySchema The key schema for the table or index being queried.
    * @param connectionAttributes The names of the underlying attributes containing the fields to query by.
+   * @param source The object holding the values of the connection attributes.
    */
-  public makeExpression(keySchema: KeySchema[], connectionAttributes: string[]): ObjectNode {
+  public makeExpression(keySchema: KeySchema[], connectionAttributes: string[], source: string = 'context.source'): ObjectNode {
     if (keySchema[1] && connectionAttributes[1]) {
       let condensedSortKeyValue: string = undefined;
       if (connectionAttributes.length > 2) {
         const rangeKeyFields = connectionAttributes.slice(1);
-        condensedSortKeyValue = this.condenseRangeKey(rangeKeyFields.map(keyField => `\${context.source.${keyField}}`));
+        condensedSortKeyValue = this.condenseRangeKey(rangeKeyFields.map(keyField => `\${${source}.${keyField}}`));
       }
 
       return obj({
@@ -393,10 +614,10 @@ export class ResourceFactory {
         }),
         expressionValues: obj({
           ':partitionKey': obj({
-            S: str(`$context.source.${connectionAttributes[0]}`),
+            S: str(`$${source}.${connectionAttributes[0]}`),
           }),
           ':sortKey': obj({
-            S: str(condensedSortKeyValue || `$context.source.${connectionAttributes[1]}`),
+            S: str(condensedSortKeyValue || `$${source}.${connectionAttributes[1]}`),
           }),
         }),
       });
@@ -409,7 +630,7 @@ export class ResourceFactory {
       }),
       expressionValues: obj({
         ':partitionKey': obj({
-          S: str(`$context.source.${connectionAttributes[0]}`),
+          S: str(`$${source}.${connectionAttributes[0]}`),
         }),
       }),
     });
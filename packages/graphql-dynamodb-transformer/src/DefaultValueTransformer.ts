@@ -0,0 +1,155 @@
+import {
+  DirectiveNode,
+  EnumTypeDefinitionNode,
+  FieldDefinitionNode,
+  InterfaceTypeDefinitionNode,
+  Kind,
+  ObjectTypeDefinitionNode,
+} from 'graphql';
+import { getDirectiveArguments, gql, InvalidDirectiveError, Transformer, TransformerContext } from 'graphql-transformer-core';
+import { DEFAULT_SCALARS, getBaseType, isListType } from 'graphql-transformer-common';
+
+type GeneratedValue = 'autoId' | 'now' | 'identitySub';
+
+interface DefaultValueDirectiveArgs {
+  value?: string;
+  generated?: GeneratedValue;
+}
+
+const GENERATED_VALUES: { [generated in GeneratedValue]: { [type: string]: string } } = {
+  autoId: {
+    ID: '$util.autoId()',
+    String: '$util.autoId()',
+  },
+  now: {
+    AWSDateTime: '$util.time.nowISO8601()',
+    String: '$util.time.nowISO8601()',
+    AWSDate: '$util.time.nowFormatted("yyyy-MM-dd", "UTC")',
+    AWSTimestamp: '$util.time.nowEpochSeconds()',
+  },
+  identitySub: {
+    ID: '$ctx.identity.sub',
+    String: '$ctx.identity.sub',
+  },
+};
+
+export class DefaultValueTransformer extends Transformer {
+  constructor() {
+    super(
+      'DefaultValueTransformer',
+      gql`
+        directive @default(value: String, generated: DefaultGeneratedValue) on FIELD_DEFINITION
+        enum DefaultGeneratedValue {
+          autoId
+          now
+          identitySub
+        }
+      `,
+    );
+  }
+
+  /**
+   * Usage:
+   *
+   * type Post @model {
+   *   id: ID!
+   *   status: PostStatus! @default(value: "DRAFT")
+   *   author: String! @default(generated: identitySub)
+   * }
+   *
+   * The DynamoDBModelTransformer sets the defaults in the create mutation and makes the fields optional in its input,
+   * this only validates the directive.
+   */
+  public field = (
+    parent: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode,
+    field: FieldDefinitionNode,
+    directive: DirectiveNode,
+    ctx: TransformerContext,
+  ): void => {
+    if (parent.kind === Kind.INTERFACE_TYPE_DEFINITION || !parent.directives.find(d => d.name.value === 'model')) {
+      throw new InvalidDirectiveError(`@default on ${parent.name.value}.${field.name.value} is only supported on fields of a @model type.`);
+    }
+    getDefaultValueExpression(parent, field, directive, ctx);
+  };
+}
+
+/**
+ * Returns the template expressions of the @default values of a @model type by field name.
+ */
+export function getDefaultValueExpressions(obj: ObjectTypeDefinitionNode, ctx: TransformerContext): { [fieldName: string]: string } {
+  return obj.fields.reduce((acc, field) => {
+    const directive = field.directives.find(d => d.name.value === 'default');
+    return directive ? { ...acc, [field.name.value]: getDefaultValueExpression(obj, field, directive, ctx) } : acc;
+  }, {});
+}
+
+function getDefaultValueExpression(
+  obj: ObjectTypeDefinitionNode,
+  field: FieldDefinitionNode,
+  directive: DirectiveNode,
+  ctx: TransformerContext,
+): string {
+  const fieldPath = `${obj.name.value}.${field.name.value}`;
+  const { value, generated }: DefaultValueDirectiveArgs = getDirectiveArguments(directive);
+  const baseType = getBaseType(field.type);
+  const enumType = ctx.getType(baseType) as EnumTypeDefinitionNode;
+  const isEnum = Boolean(enumType && enumType.kind === Kind.ENUM_TYPE_DEFINITION);
+
+  if (isListType(field.type) || !(DEFAULT_SCALARS[baseType] || isEnum)) {
+    throw new InvalidDirectiveError(`@default on ${fieldPath} is only supported on scalar and enum fields.`);
+  }
+  if ((value === undefined || value === null) === (generated === undefined || generated === null)) {
+    throw new InvalidDirectiveError(`@default on ${fieldPath} needs either a value or a generated value.`);
+  }
+
+  if (generated) {
+    const expression = GENERATED_VALUES[generated][baseType];
+    if (!expression) {
+      const types = Object.keys(GENERATED_VALUES[generated]).join(', ');
+      throw new InvalidDirectiveError(`@default on ${fieldPath} can only generate ${generated} for fields of type ${types}.`);
+    }
+    return expression;
+  }
+
+  const invalidValue = new InvalidDirectiveError(`@default on ${fieldPath} has a value that is not a valid ${baseType}.`);
+  if (isEnum) {
+    if (!enumType.values.find(v => v.name.value === value)) {
+      throw invalidValue;
+    }
+    return quote(fieldPath, value);
+  }
+  switch (DEFAULT_SCALARS[baseType]) {
+    case 'Int':
+      if (!/^-?\d+$/.test(value)) {
+        throw invalidValue;
+      }
+      return `${Number(value)}`;
+    case 'Float':
+      if (value.trim() === '' || !Number.isFinite(Number(value))) {
+        throw invalidValue;
+      }
+      return `${Number(value)}`;
+    case 'Boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw invalidValue;
+      }
+      return value;
+    default:
+      if (baseType === 'AWSJSON') {
+        try {
+          JSON.parse(value);
+        } catch (e) {
+          throw invalidValue;
+        }
+      }
+      return quote(fieldPath, value);
+  }
+}
+
+function quote(fieldPath: string, value: string): string {
+  // Single quoted template strings are not interpolated, but they have no escape for a single quote either.
+  if (value.includes(`'`)) {
+    throw new InvalidDirectiveError(`@default on ${fieldPath} can not use single quotes in its value.`);
+  }
+  return `'${value}'`;
+}
@@ -30,6 +30,7 @@ import {
 } from './definitions';
 import { ModelDirectiveArgs, getCreatedAtFieldName, getUpdatedAtFieldName } from './ModelDirectiveArgs';
 import { ResourceFactory } from './resources';
+import { getDefaultValueExpressions } from './DefaultValueTransformer';
 
 const METADATA_KEY = 'DynamoDBTransformerMetadata';
 
@@ -343,10 +344,11 @@ export class DynamoDBModelTransformer extends Transformer {
         syncConfig: this.opts.SyncConfig,
       });
       const resourceId = ResolverResourceIDs.DynamoDBCreateResolverResourceID(typeName);
+      const defaultValues = getDefaultValueExpressions(def, ctx);
       this.addInitalizationMetadata(ctx, resourceId, () => {
         const inputObj = ctx.getType(createInput.name.value) as InputObjectTypeDefinitionNode;
         if (inputObj) {
-          return this.resources.initalizeDefaultInputForCreateMutation(inputObj, timestampFields);
+          return this.resources.initalizeDefaultInputForCreateMutation(inputObj, timestampFields, defaultValues);
         }
       });
 
@@ -752,4 +754,19 @@ export class DynamoDBModelTransformer extends Transformer {
     };
     ctx.metadata.set(METADATA_KEY, ddbMetadata);
   }
+
+  /**
+   * Hoists the initalization code of a resolver to another resource instead, e.g. when a transformer turns the resolver
+   * into a pipeline whose function writes the item. Transformers calling this have to run before this transformer's after.
+   * @param fromResourceId The id of the resolver the code is moved from, the one it was hoisted to so far.
+   * @param toResourceId The id of the resolver or function configuration to hoist the code to.
+   */
+  public static moveInitalizationMetadata(ctx: TransformerContext, fromResourceId: string, toResourceId: string): void {
+    const ddbMetadata = ctx.metadata.get(METADATA_KEY);
+    const initCodeGenerator = ddbMetadata?.hoistedRequestMappingContent?.[fromResourceId];
+    if (initCodeGenerator) {
+      delete ddbMetadata.hoistedRequestMappingContent[fromResourceId];
+      ddbMetadata.hoistedRequestMappingContent[toResourceId] = initCodeGenerator;
+    }
+  }
 }
@@ -0,0 +1,115 @@
+import { InputObjectTypeDefinitionNode, Kind, parse } from 'graphql';
+import { GraphQLTransform } from 'graphql-transformer-core';
+import { DynamoDBModelTransformer } from '../DynamoDBModelTransformer';
+import { DefaultValueTransformer } from '../DefaultValueTransformer';
+
+const getInputType = (schema: string, name: string): InputObjectTypeDefinitionNode =>
+  parse(schema).definitions.find(
+    d => d.kind === Kind.INPUT_OBJECT_TYPE_DEFINITION && d.name.value === name,
+  ) as InputObjectTypeDefinitionNode;
+
+test('@default sets the values in the create mutation', () => {
+  const validSchema = `
+    enum PostStatus {
+      DRAFT
+      PUBLISHED
+    }
+
+    type Post @model {
+      id: ID!
+      title: String! @default(value: "Untitled")
+      status: PostStatus! @default(value: "DRAFT")
+      rating: Float @default(value: "2.5")
+      views: Int! @default(value: "0")
+      featured: Boolean! @default(value: "false")
+      slug: String! @default(generated: autoId)
+      publishedOn: AWSDate @default(generated: now)
+      author: ID @default(generated: identitySub)
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new DefaultValueTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const template = out.resolvers['Mutation.createPost.req.vtl'];
+  expect(template).toContain(`$util.qr($context.args.input.put("title", $util.defaultIfNull($ctx.args.input.title, 'Untitled')))`);
+  expect(template).toContain(`$util.qr($context.args.input.put("status", $util.defaultIfNull($ctx.args.input.status, 'DRAFT')))`);
+  expect(template).toContain(`$util.qr($context.args.input.put("rating", $util.defaultIfNull($ctx.args.input.rating, 2.5)))`);
+  expect(template).toContain(`$util.qr($context.args.input.put("views", $util.defaultIfNull($ctx.args.input.views, 0)))`);
+  expect(template).toContain(`$util.qr($context.args.input.put("featured", $util.defaultIfNull($ctx.args.input.featured, false)))`);
+  expect(template).toContain(`$util.qr($context.args.input.put("slug", $util.defaultIfNull($ctx.args.input.slug, $util.autoId())))`);
+  expect(template).toContain(
+    `$util.qr($context.args.input.put("publishedOn", $util.defaultIfNull($ctx.args.input.publishedOn, $util.time.nowFormatted("yyyy-MM-dd", "UTC"))))`,
+  );
+  expect(template).toContain(`$util.qr($context.args.input.put("author", $util.defaultIfNull($ctx.args.input.author, $ctx.identity.sub)))`);
+  expect(out.resolvers['Mutation.updatePost.req.vtl']).not.toContain('Untitled');
+
+  // fields with defaults are optional when creating, but keep their type otherwise
+  const createInput = getInputType(out.schema, 'CreatePostInput');
+  for (const fieldName of ['title', 'status', 'views', 'featured', 'slug']) {
+    expect(createInput.fields.find(f => f.name.value === fieldName).type.kind).toEqual(Kind.NAMED_TYPE);
+  }
+  const updateInput = getInputType(out.schema, 'UpdatePostInput');
+  expect(updateInput.fields.find(f => f.name.value === 'status').type.kind).toEqual(Kind.NAMED_TYPE);
+  expect(out.schema).toContain('status: PostStatus!');
+});
+
+test('@default should fail on a field of a type without @model', () => {
+  const invalidSchema = `
+    type Post {
+      id: ID!
+      title: String @default(value: "Untitled")
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new DefaultValueTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError('@default on Post.title is only supported on fields of a @model type.');
+});
+
+test('@default should fail on invalid values', () => {
+  const schemaWithField = (field: string) => `
+    enum PostStatus {
+      DRAFT
+      PUBLISHED
+    }
+
+    type Post @model {
+      id: ID!
+      ${field}
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new DefaultValueTransformer()],
+  });
+  expect(() => transformer.transform(schemaWithField('tags: [String] @default(value: "news")'))).toThrowError(
+    '@default on Post.tags is only supported on scalar and enum fields.',
+  );
+  expect(() => transformer.transform(schemaWithField('title: String @default'))).toThrowError(
+    '@default on Post.title needs either a value or a generated value.',
+  );
+  expect(() => transformer.transform(schemaWithField('title: String @default(value: "a", generated: autoId)'))).toThrowError(
+    '@default on Post.title needs either a value or a generated value.',
+  );
+  expect(() => transformer.transform(schemaWithField('views: Int @default(value: "1.5")'))).toThrowError(
+    '@default on Post.views has a value that is not a valid Int.',
+  );
+  expect(() => transformer.transform(schemaWithField('rating: Float @default(value: "high")'))).toThrowError(
+    '@default on Post.rating has a value that is not a valid Float.',
+  );
+  expect(() => transformer.transform(schemaWithField('featured: Boolean @default(value: "yes")'))).toThrowError(
+    '@default on Post.featured has a value that is not a valid Boolean.',
+  );
+  expect(() => transformer.transform(schemaWithField('status: PostStatus @default(value: "ARCHIVED")'))).toThrowError(
+    '@default on Post.status has a value that is not a valid PostStatus.',
+  );
+  expect(() => transformer.transform(schemaWithField('meta: AWSJSON @default(value: "{")'))).toThrowError(
+    '@default on Post.meta has a value that is not a valid AWSJSON.',
+  );
+  expect(() => transformer.transform(schemaWithField(`title: String @default(value: "Don't")`))).toThrowError(
+    '@default on Post.title can not use single quotes in its value.',
+  );
+  expect(() => transformer.transform(schemaWithField('views: Int @default(generated: autoId)'))).toThrowError(
+    '@default on Post.views can only generate autoId for fields of type ID, String.',
+  );
+});
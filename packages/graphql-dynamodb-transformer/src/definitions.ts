@@ -165,6 +165,9 @@ export function makeCreateInputObject(
         // ids are always optional. when provided the value is used.
         // when not provided the value is not used.
         type = unwrapNonNull(field.type);
+      } else if (field.directives.find(d => d.name.value === 'default')) {
+        // fields with a @default value are set by the resolver when not provided.
+        type = unwrapNonNull(field.type);
       } else {
         type = nonModelTypes.find(e => e.name.value === getBaseType(field.type))
           ? withNamedNodeNamed(field.type, ModelResourceIDs.NonModelInputObjectName(getBaseType(field.type)))
@@ -1,3 +1,4 @@
 export * from './DynamoDBModelTransformer';
+export * from './DefaultValueTransformer';
 export * from './definitions';
 export * from './ModelDirectiveArgs';
@@ -447,11 +447,18 @@ export class ResourceFactory {
     });
   }
 
-  public initalizeDefaultInputForCreateMutation(input: InputObjectTypeDefinitionNode, timestamps): string {
+  public initalizeDefaultInputForCreateMutation(
+    input: InputObjectTypeDefinitionNode,
+    timestamps,
+    defaultValues: { [fieldName: string]: string } = {},
+  ): string {
     const hasDefaultIdField = input.fields?.find(field => field.name.value === 'id' && ['ID', 'String'].includes(getBaseType(field.type)));
     return printBlock('Set default values')(
       compoundExpression([
         ...(hasDefaultIdField ? [qref(`$context.args.input.put("id", $util.defaultIfNull($ctx.args.input.id, $util.autoId()))`)] : []),
+        ...Object.entries(defaultValues).map(([fieldName, value]) =>
+          qref(`$context.args.input.put("${fieldName}", $util.defaultIfNull($ctx.args.input.${fieldName}, ${value}))`),
+        ),
         ...(timestamps && (timestamps.createdAtField || timestamps.updatedAtField)
           ? [set(ref('createdAt'), ref('util.time.nowISO8601()'))]
           : []),
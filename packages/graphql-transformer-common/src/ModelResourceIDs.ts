@@ -14,6 +14,12 @@ export class ModelResourceIDs {
   static ModelTableIAMRoleID(typeName: string): string {
     return `${typeName}IAMRole`;
   }
+  static ModelUniqueTableResourceID(typeName: string): string {
+    return `${typeName}UniqueTable`;
+  }
+  static ModelUniqueTableIAMPolicyID(typeName: string): string {
+    return `${typeName}UniqueTablePolicy`;
+  }
   static ModelFilterInputTypeName(name: string): string {
     const nameOverride = DEFAULT_SCALARS[name];
     if (nameOverride) {
@@ -1,4 +1,4 @@
-import { resourceName } from './util';
+import { resourceName, toUpper } from './util';
 
 export class ResolverResourceIDs {
   static DynamoDBCreateResolverResourceID(typeName: string): string {
@@ -25,4 +25,25 @@ export class ResolverResourceIDs {
   static ResolverResourceID(typeName: string, fieldName: string): string {
     return `${resourceName(`${typeName}${fieldName}`)}Resolver`;
   }
+  static DynamoDBCreateFunctionResourceID(typeName: string): string {
+    return `Create${resourceName(typeName)}Function`;
+  }
+  static DynamoDBUpdateFunctionResourceID(typeName: string): string {
+    return `Update${resourceName(typeName)}Function`;
+  }
+  static DynamoDBDeleteFunctionResourceID(typeName: string): string {
+    return `Delete${resourceName(typeName)}Function`;
+  }
+  static DynamoDBExistingItemFunctionResourceID(typeName: string, operation: string): string {
+    return `${toUpper(operation)}${resourceName(typeName)}ExistingItemFunction`;
+  }
+  static DynamoDBResultFunctionResourceID(typeName: string, operation: string): string {
+    return `${toUpper(operation)}${resourceName(typeName)}ResultFunction`;
+  }
+  static ConnectionOnDeleteQueryFunctionResourceID(typeName: string, fieldName: string): string {
+    return `${resourceName(`${typeName}${fieldName}`)}OnDeleteQueryFunction`;
+  }
+  static ConnectionOnDeleteFunctionResourceID(typeName: string, fieldName: string): string {
+    return `${resourceName(`${typeName}${fieldName}`)}OnDeleteFunction`;
+  }
 }
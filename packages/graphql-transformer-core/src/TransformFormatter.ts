@@ -96,7 +96,7 @@ export class TransformFormatter {
         kind: 'Document',
         definitions: Object.keys(ctx.nodeMap).map((k: string) => ctx.getType(k)),
       },
-      ['aws_subscribe', 'aws_auth', 'aws_api_key', 'aws_iam', 'aws_oidc', 'aws_cognito_user_pools', 'deprecated']
+      ['aws_subscribe', 'aws_auth', 'aws_api_key', 'aws_iam', 'aws_oidc', 'aws_lambda', 'aws_cognito_user_pools', 'deprecated']
     );
     const SDL = print(astSansDirectives);
     return SDL;
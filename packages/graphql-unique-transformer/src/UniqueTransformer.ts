@@ -0,0 +1,207 @@
+import {
+  Transformer,
+  TransformerContext,
+  InvalidDirectiveError,
+  TransformerContractError,
+  gql,
+  getDirectiveArguments,
+} from 'graphql-transformer-core';
+import { ObjectTypeDefinitionNode, FieldDefinitionNode, DirectiveNode, InterfaceTypeDefinitionNode, Kind } from 'graphql';
+import { ModelResourceIDs, ResolverResourceIDs, getBaseType, isListType, isScalar } from 'graphql-transformer-common';
+import Resolver from 'cloudform-types/types/appSync/resolver';
+import FunctionConfiguration from 'cloudform-types/types/appSync/functionConfiguration';
+import { Fn } from 'cloudform-types';
+import { DynamoDBModelTransformer } from 'graphql-dynamodb-transformer';
+import { ResourceFactory, UniqueMutation } from './resources';
+
+/**
+ * An update writes the item, deletes the lookup item of the old value and puts the one of the new value of every
+ * unique field, which has to fit into the 25 items of a transaction.
+ */
+const MAX_UNIQUE_FIELDS = 12;
+
+export class UniqueTransformer extends Transformer {
+  resources: ResourceFactory;
+  uniqueFields: { [typeName: string]: string[] };
+
+  constructor() {
+    super(
+      'UniqueTransformer',
+      gql`
+        directive @unique on FIELD_DEFINITION
+      `,
+    );
+    this.resources = new ResourceFactory();
+  }
+
+  public before = (ctx: TransformerContext): void => {
+    this.uniqueFields = {};
+  };
+
+  /**
+   * Usage:
+   *
+   * type User @model {
+   *   id: ID!
+   *   email: AWSEmail! @unique
+   * }
+   *
+   * DynamoDB can only enforce the uniqueness of keys, so every value of a unique field gets an item in a lookup table
+   * of the type. The create, update and delete mutations write the lookup items in the same transaction as the item.
+   */
+  public field = (
+    parent: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode,
+    field: FieldDefinitionNode,
+    directive: DirectiveNode,
+    ctx: TransformerContext,
+  ): void => {
+    const typeName = parent.name.value;
+    const fieldName = field.name.value;
+
+    if (parent.kind === Kind.INTERFACE_TYPE_DEFINITION || !parent.directives.find(d => d.name.value === 'model')) {
+      throw new InvalidDirectiveError(`@unique on ${typeName}.${fieldName} is only supported on fields of a @model type.`);
+    }
+    const baseType = ctx.getType(getBaseType(field.type));
+    if (isListType(field.type) || !(isScalar(field.type) || (baseType && baseType.kind === Kind.ENUM_TYPE_DEFINITION))) {
+      throw new InvalidDirectiveError(`@unique on ${typeName}.${fieldName} is only supported on scalar and enum fields.`);
+    }
+    if (this.getPrimaryKeyFieldNames(parent).includes(fieldName)) {
+      throw new InvalidDirectiveError(`@unique on ${typeName}.${fieldName} is not needed, the fields of the primary key are unique.`);
+    }
+    // Deletes are soft deletes when conflict detection is enabled.
+    if (ctx.isProjectUsingDataStore()) {
+      throw new InvalidDirectiveError(`@unique on ${typeName}.${fieldName} is not supported when conflict detection is enabled.`);
+    }
+
+    if (!this.uniqueFields[typeName]) {
+      const tableId = ModelResourceIDs.ModelUniqueTableResourceID(typeName);
+      if (ctx.getResource(tableId)) {
+        throw new InvalidDirectiveError(
+          `@unique on ${typeName}.${fieldName} can not create the ${tableId} table, a resource with that name exists.`,
+        );
+      }
+      const policyId = ModelResourceIDs.ModelUniqueTableIAMPolicyID(typeName);
+      ctx.setResource(tableId, this.resources.makeUniqueTable(typeName));
+      ctx.mapResourceToStack(typeName, tableId);
+      ctx.setResource(policyId, this.resources.makeUniqueTablePolicy(typeName));
+      ctx.mapResourceToStack(typeName, policyId);
+    }
+    this.uniqueFields[typeName] = [...(this.uniqueFields[typeName] || []), fieldName];
+  };
+
+  /**
+   * Turns the mutations of the types with unique fields into pipelines. This has to happen after the other transformers
+   * are done with the mutation resolvers, e.g. @key and @auth add their snippets to the request templates.
+   */
+  public after = (ctx: TransformerContext): void => {
+    for (const [typeName, uniqueFields] of Object.entries(this.uniqueFields)) {
+      if (uniqueFields.length > MAX_UNIQUE_FIELDS) {
+        throw new InvalidDirectiveError(`@unique is supported on at most ${MAX_UNIQUE_FIELDS} fields of ${typeName}.`);
+      }
+      this.makeUniqueMutation(ctx, typeName, uniqueFields, 'create');
+      this.makeUniqueMutation(ctx, typeName, uniqueFields, 'update');
+      this.makeUniqueMutation(ctx, typeName, uniqueFields, 'delete');
+    }
+  };
+
+  private makeUniqueMutation(ctx: TransformerContext, typeName: string, uniqueFields: string[], operation: UniqueMutation): void {
+    const resolverId = {
+      create: ResolverResourceIDs.DynamoDBCreateResolverResourceID(typeName),
+      update: ResolverResourceIDs.DynamoDBUpdateResolverResourceID(typeName),
+      delete: ResolverResourceIDs.DynamoDBDeleteResolverResourceID(typeName),
+    }[operation];
+    const functionId = {
+      create: ResolverResourceIDs.DynamoDBCreateFunctionResourceID(typeName),
+      update: ResolverResourceIDs.DynamoDBUpdateFunctionResourceID(typeName),
+      delete: ResolverResourceIDs.DynamoDBDeleteFunctionResourceID(typeName),
+    }[operation];
+    let resolver = ctx.getResource(resolverId) as Resolver;
+    if (!resolver) {
+      return;
+    }
+
+    // Other directives, e.g. onDelete of @connection, may have turned the mutation into a pipeline already.
+    let modelFunction: FunctionConfiguration;
+    if (resolver.Properties.Kind === 'PIPELINE') {
+      modelFunction = ctx.getResource(functionId) as FunctionConfiguration;
+      if (!modelFunction) {
+        throw new TransformerContractError(`@unique expects the ${resolverId} pipeline resolver to write the item in ${functionId}.`);
+      }
+    } else {
+      modelFunction = this.resources.makeModelFunction(functionId, resolver);
+      resolver = this.resources.makePipelineResolver(resolver, functionId);
+    }
+    const modelRequestTemplate = modelFunction.Properties.RequestMappingTemplate as string;
+    const modelResponseTemplate = modelFunction.Properties.ResponseMappingTemplate as string;
+
+    const functionsBefore: string[] = [];
+    const functionsAfter: string[] = [];
+    if (operation === 'create') {
+      // The default values of the input have to be set where the item is written, args do not carry over between templates.
+      DynamoDBModelTransformer.moveInitalizationMetadata(ctx, resolverId, functionId);
+      const resultFunctionId = ResolverResourceIDs.DynamoDBResultFunctionResourceID(typeName, operation);
+      this.setFunction(
+        ctx,
+        typeName,
+        resultFunctionId,
+        this.resources.makeResultFunction(resultFunctionId, modelFunction, modelResponseTemplate),
+      );
+      functionsAfter.push(resultFunctionId);
+    } else {
+      const existingItemFunctionId = ResolverResourceIDs.DynamoDBExistingItemFunctionResourceID(typeName, operation);
+      const existingItemFunction = this.resources.makeExistingItemFunction(
+        existingItemFunctionId,
+        modelFunction,
+        modelRequestTemplate,
+        operation === 'delete' ? modelResponseTemplate : undefined,
+      );
+      this.setFunction(ctx, typeName, existingItemFunctionId, existingItemFunction);
+      functionsBefore.push(existingItemFunctionId);
+      if (operation === 'update') {
+        const resultFunctionId = ResolverResourceIDs.DynamoDBResultFunctionResourceID(typeName, operation);
+        this.setFunction(
+          ctx,
+          typeName,
+          resultFunctionId,
+          this.resources.makeResultFunction(resultFunctionId, modelFunction, modelResponseTemplate),
+        );
+        functionsAfter.push(resultFunctionId);
+      }
+    }
+
+    modelFunction.Properties.RequestMappingTemplate = this.resources.makeTransactionRequestTemplate(
+      typeName,
+      uniqueFields,
+      operation,
+      operation === 'create' ? modelRequestTemplate : undefined,
+    );
+    modelFunction.Properties.ResponseMappingTemplate = this.resources.makeTransactionResponseTemplate(typeName);
+    this.setFunction(ctx, typeName, functionId, modelFunction);
+
+    const functions = resolver.Properties.PipelineConfig.Functions as any[];
+    const functionRef = JSON.stringify(Fn.GetAtt(functionId, 'FunctionId'));
+    const index = functions.findIndex(f => JSON.stringify(f) === functionRef);
+    resolver.Properties.PipelineConfig.Functions = [
+      ...functions.slice(0, index),
+      ...functionsBefore.map(id => Fn.GetAtt(id, 'FunctionId')),
+      functions[index],
+      ...functionsAfter.map(id => Fn.GetAtt(id, 'FunctionId')),
+      ...functions.slice(index + 1),
+    ];
+    resolver.Properties.RequestMappingTemplate = this.resources.makeStashTableNamesTemplate(
+      typeName,
+      resolver.Properties.RequestMappingTemplate as string,
+    );
+    ctx.setResource(resolverId, resolver);
+  }
+
+  private setFunction(ctx: TransformerContext, typeName: string, functionId: string, fn: FunctionConfiguration): void {
+    ctx.setResource(functionId, fn);
+    ctx.mapResourceToStack(typeName, functionId);
+  }
+
+  private getPrimaryKeyFieldNames(type: ObjectTypeDefinitionNode): string[] {
+    const primaryKey = type.directives.find(d => d.name.value === 'key' && !getDirectiveArguments(d).name);
+    return primaryKey ? getDirectiveArguments(primaryKey).fields : ['id'];
+  }
+}
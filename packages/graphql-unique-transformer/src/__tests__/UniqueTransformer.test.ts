@@ -0,0 +1,183 @@
+import { GraphQLTransform } from 'graphql-transformer-core';
+import { ModelResourceIDs, ResolverResourceIDs } from 'graphql-transformer-common';
+import { DynamoDBModelTransformer } from 'graphql-dynamodb-transformer';
+import { KeyTransformer } from 'graphql-key-transformer';
+import { ModelConnectionTransformer } from 'graphql-connection-transformer';
+import { UniqueTransformer } from '../UniqueTransformer';
+
+const getFunctionIds = (resolver: any): string[] =>
+  JSON.parse(JSON.stringify(resolver.Properties.PipelineConfig.Functions)).map(f => f['Fn::GetAtt'][0]);
+
+test('@unique creates a lookup table and turns the mutations into transactions', () => {
+  const validSchema = `
+    type User @model {
+      id: ID!
+      email: AWSEmail! @unique
+      nickname: String @unique
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new UniqueTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const resources = out.stacks.User.Resources;
+
+  const table = resources[ModelResourceIDs.ModelUniqueTableResourceID('User')];
+  expect(table.Type).toEqual('AWS::DynamoDB::Table');
+  expect(table.Properties.KeySchema).toEqual([{ AttributeName: 'id', KeyType: 'HASH' }]);
+  const policy = resources[ModelResourceIDs.ModelUniqueTableIAMPolicyID('User')];
+  expect(policy.Type).toEqual('AWS::IAM::Policy');
+  expect(policy.Properties.Roles).toEqual([{ Ref: ModelResourceIDs.ModelTableIAMRoleID('User') }]);
+
+  const createResolver = resources[ResolverResourceIDs.DynamoDBCreateResolverResourceID('User')];
+  expect(createResolver.Properties.Kind).toEqual('PIPELINE');
+  expect(getFunctionIds(createResolver)).toEqual(['CreateUserFunction', 'CreateUserResultFunction']);
+  expect(getFunctionIds(resources[ResolverResourceIDs.DynamoDBUpdateResolverResourceID('User')])).toEqual([
+    'UpdateUserExistingItemFunction',
+    'UpdateUserFunction',
+    'UpdateUserResultFunction',
+  ]);
+  expect(getFunctionIds(resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('User')])).toEqual([
+    'DeleteUserExistingItemFunction',
+    'DeleteUserFunction',
+  ]);
+  // the table names are stashed for the transactions
+  const stashedTables = JSON.parse(JSON.stringify(createResolver.Properties.RequestMappingTemplate))['Fn::Join'][1];
+  expect(stashedTables.slice(0, 2).map(sub => sub['Fn::Sub'][1].tableName)).toEqual([{ Ref: 'UserTable' }, { Ref: 'UserUniqueTable' }]);
+
+  const create = out.pipelineFunctions['CreateUserFunction.req.vtl'];
+  // the default values are set in the function writing the item
+  expect(create.startsWith('## [Start] Set default values. **')).toBeTruthy();
+  expect(out.resolvers['Mutation.createUser.req.vtl']).toBeUndefined();
+  expect(create).toContain('#define( $modelRequestJson )');
+  expect(create).toContain('"operation": "PutItem"');
+  expect(create).toContain('"operation": "TransactWriteItems"');
+  expect(create).toContain('"id": $util.dynamodb.toDynamoDB("email#${modelInput.email}")');
+  expect(create).toContain('"id": $util.dynamodb.toDynamoDB("nickname#${modelInput.nickname}")');
+  expect(out.pipelineFunctions['CreateUserFunction.res.vtl']).toContain(
+    '$util.error("User.$uniqueField must be unique.", "DynamoDB:ConditionalCheckFailedException")',
+  );
+  expect(out.pipelineFunctions['CreateUserResultFunction.req.vtl']).toContain('"consistentRead": true');
+
+  // updates remove the lookup item of the old value and guard against concurrent changes of it
+  expect(out.pipelineFunctions['UpdateUserExistingItemFunction.req.vtl']).toContain('"operation": "UpdateItem"');
+  const update = out.pipelineFunctions['UpdateUserFunction.req.vtl'];
+  expect(update).not.toContain('#define');
+  expect(update).toContain('#if( $modelInput.containsKey("email") && $modelInput.email != $existingItem.email )');
+  expect(update).toContain('"id": $util.dynamodb.toDynamoDB("email#${existingItem.email}")');
+  expect(update).toContain('$util.qr($uniqueConditions.add("#unique_email = :unique_email"))');
+  expect(out.pipelineFunctions['DeleteUserFunction.req.vtl']).toContain('"operation": "DeleteItem"');
+});
+
+test('@unique works with a custom primary key', () => {
+  const validSchema = `
+    type Account @model @key(fields: ["tenant", "name"]) {
+      tenant: String!
+      name: String!
+      email: String @unique
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new UniqueTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  expect(out.pipelineFunctions['DeleteAccountExistingItemFunction.req.vtl']).toContain('$modelObjectKey');
+  expect(out.pipelineFunctions['CreateAccountFunction.req.vtl']).toContain('"M": $modelItem.key');
+});
+
+test('@unique extends the delete pipeline of onDelete connections', () => {
+  const validSchema = `
+    type Post @model {
+      id: ID!
+      slug: String! @unique
+      comments: [Comment] @connection(keyName: "byPost", fields: ["id"], onDelete: CASCADE)
+    }
+
+    type Comment @model @key(name: "byPost", fields: ["postID"]) {
+      id: ID!
+      postID: ID!
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new UniqueTransformer(), new ModelConnectionTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const deleteResolver = out.stacks.Post.Resources[ResolverResourceIDs.DynamoDBDeleteResolverResourceID('Post')];
+  expect(getFunctionIds(deleteResolver)).toEqual([
+    'PostcommentsOnDeleteQueryFunction',
+    'DeletePostExistingItemFunction',
+    'DeletePostFunction',
+    'PostcommentsOnDeleteFunction',
+  ]);
+  const stashedTables = JSON.parse(JSON.stringify(deleteResolver.Properties.RequestMappingTemplate))['Fn::Join'][1];
+  expect(stashedTables[2]['Fn::Join']).toBeDefined();
+});
+
+test('@unique should fail on a field of a type without @model', () => {
+  const invalidSchema = `
+    type User {
+      id: ID!
+      email: String @unique
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new UniqueTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError('@unique on User.email is only supported on fields of a @model type.');
+});
+
+test('@unique should fail on list and object fields', () => {
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new UniqueTransformer()],
+  });
+  expect(() =>
+    transformer.transform(`
+      type User @model {
+        id: ID!
+        emails: [String] @unique
+      }
+      `),
+  ).toThrowError('@unique on User.emails is only supported on scalar and enum fields.');
+  expect(() =>
+    transformer.transform(`
+      type Address {
+        street: String
+      }
+      type User @model {
+        id: ID!
+        address: Address @unique
+      }
+      `),
+  ).toThrowError('@unique on User.address is only supported on scalar and enum fields.');
+});
+
+test('@unique should fail on a field of the primary key', () => {
+  const invalidSchema = `
+    type User @model @key(fields: ["email"]) {
+      email: String!
+      name: String @unique
+      handle: String! @unique
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new UniqueTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema.replace('handle: String! @unique', 'email2: String'))).not.toThrow();
+  expect(() => transformer.transform(invalidSchema.replace('email: String!', 'email: String! @unique'))).toThrowError(
+    '@unique on User.email is not needed, the fields of the primary key are unique.',
+  );
+});
+
+test('@unique should fail on more fields than fit into a transaction', () => {
+  const fields = [...Array(13).keys()].map(i => `field${i}: String @unique`).join('\n');
+  const invalidSchema = `
+    type User @model {
+      id: ID!
+      ${fields}
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new UniqueTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError('@unique is supported on at most 12 fields of User.');
+});
@@ -0,0 +1,384 @@
+import Table from 'cloudform-types/types/dynamoDb/table';
+import Policy from 'cloudform-types/types/iam/policy';
+import Resolver from 'cloudform-types/types/appSync/resolver';
+import FunctionConfiguration from 'cloudform-types/types/appSync/functionConfiguration';
+import { Fn, Refs } from 'cloudform-types';
+import { IntrinsicFunction } from 'cloudform-types/types/dataTypes';
+import {
+  DynamoDBMappingTemplate,
+  print,
+  printBlock,
+  compoundExpression,
+  Expression,
+  ObjectNode,
+  iff,
+  ifElse,
+  forEach,
+  set,
+  ref,
+  qref,
+  obj,
+  str,
+  raw,
+  list,
+  bool,
+  not,
+  toJson,
+} from 'graphql-mapping-template';
+import { ResourceConstants, ModelResourceIDs } from 'graphql-transformer-common';
+
+export type UniqueMutation = 'create' | 'update' | 'delete';
+
+export class ResourceFactory {
+  /**
+   * The lookup table holds one item per unique value of a type, its id is the field name and the value, e.g. "email#x@y.z".
+   */
+  public makeUniqueTable(typeName: string): Table {
+    return new Table({
+      TableName: this.uniqueTableName(typeName),
+      KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+      AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+      BillingMode: Fn.If(ResourceConstants.CONDITIONS.ShouldUsePayPerRequestBilling, 'PAY_PER_REQUEST', Refs.NoValue),
+      ProvisionedThroughput: Fn.If(ResourceConstants.CONDITIONS.ShouldUsePayPerRequestBilling, Refs.NoValue, {
+        ReadCapacityUnits: Fn.Ref(ResourceConstants.PARAMETERS.DynamoDBModelTableReadIOPS),
+        WriteCapacityUnits: Fn.Ref(ResourceConstants.PARAMETERS.DynamoDBModelTableWriteIOPS),
+      }) as any,
+      SSESpecification: {
+        SSEEnabled: Fn.If(ResourceConstants.CONDITIONS.ShouldUseServerSideEncryption, true, false),
+      },
+      PointInTimeRecoverySpecification: Fn.If(
+        ResourceConstants.CONDITIONS.ShouldUsePointInTimeRecovery,
+        {
+          PointInTimeRecoveryEnabled: true,
+        },
+        Refs.NoValue,
+      ) as any,
+    });
+  }
+
+  /**
+   * The transactions run on the data source of the model, so its role needs access to the lookup table as well.
+   */
+  public makeUniqueTablePolicy(typeName: string): Policy {
+    return new Policy({
+      PolicyName: 'UniqueTableAccess',
+      Roles: [Fn.Ref(ModelResourceIDs.ModelTableIAMRoleID(typeName))],
+      PolicyDocument: {
+        Version: '2012-10-17',
+        Statement: [
+          {
+            Effect: 'Allow',
+            Action: ['dynamodb:PutItem', 'dynamodb:DeleteItem', 'dynamodb:GetItem'],
+            Resource: [Fn.GetAtt(ModelResourceIDs.ModelUniqueTableResourceID(typeName), 'Arn')],
+          },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Moves the request and response templates of a model resolver into a function, so the resolver can become a pipeline.
+   */
+  public makeModelFunction(name: string, resolver: Resolver): FunctionConfiguration {
+    return new FunctionConfiguration({
+      ApiId: resolver.Properties.ApiId,
+      Name: name,
+      DataSourceName: resolver.Properties.DataSourceName,
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: resolver.Properties.RequestMappingTemplate,
+      ResponseMappingTemplate: resolver.Properties.ResponseMappingTemplate,
+    });
+  }
+
+  public makePipelineResolver(resolver: Resolver, functionId: string): Resolver {
+    return new Resolver({
+      ApiId: resolver.Properties.ApiId,
+      TypeName: resolver.Properties.TypeName,
+      FieldName: resolver.Properties.FieldName,
+      Kind: 'PIPELINE',
+      PipelineConfig: {
+        Functions: [Fn.GetAtt(functionId, 'FunctionId')],
+      },
+      RequestMappingTemplate: print(obj({})),
+      ResponseMappingTemplate: print(toJson(ref('ctx.prev.result'))),
+    });
+  }
+
+  /**
+   * Stashes the names of the model and lookup tables, which are only known once the stack is deployed, for the transactions.
+   * @param requestMappingTemplate The request template of the pipeline resolver.
+   */
+  public makeStashTableNamesTemplate(typeName: string, requestMappingTemplate: string | IntrinsicFunction): IntrinsicFunction {
+    const stashTableNames = [
+      ModelResourceIDs.ModelTableResourceID(typeName),
+      ModelResourceIDs.ModelUniqueTableResourceID(typeName),
+    ].map(tableId => Fn.Sub(`$util.qr($ctx.stash.put("${tableId}", "\${tableName}"))`, { tableName: Fn.Ref(tableId) }));
+    return Fn.Join('\n', [...stashTableNames, requestMappingTemplate]);
+  }
+
+  /**
+   * Reads the item an update or delete mutation is about to change, so the lookup items of its current values can be removed.
+   * @param modelRequestTemplate The original request template of the mutation, which computes the key of the item.
+   * @param modelResponseTemplate Applied to the item before a delete, as the deleted item is the result of the mutation.
+   */
+  public makeExistingItemFunction(
+    name: string,
+    modelFunction: FunctionConfiguration,
+    modelRequestTemplate: string,
+    modelResponseTemplate?: string,
+  ): FunctionConfiguration {
+    const stashExistingItem = print(
+      compoundExpression([
+        iff(ref('ctx.error'), ref('util.error($ctx.error.message, $ctx.error.type)')),
+        qref('$ctx.stash.put("existingItem", $ctx.result)'),
+      ]),
+    );
+    return new FunctionConfiguration({
+      ApiId: modelFunction.Properties.ApiId,
+      Name: name,
+      DataSourceName: modelFunction.Properties.DataSourceName,
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: [this.renderModelRequest(modelRequestTemplate), print(this.getItemByModelRequestKey())].join('\n'),
+      ResponseMappingTemplate: modelResponseTemplate
+        ? [stashExistingItem, modelResponseTemplate].join('\n\n')
+        : [stashExistingItem, print(toJson(ref('ctx.result')))].join('\n'),
+    });
+  }
+
+  /**
+   * Reads the item back once the transaction wrote it, the original response template of the mutation is applied to it.
+   */
+  public makeResultFunction(name: string, modelFunction: FunctionConfiguration, modelResponseTemplate: string): FunctionConfiguration {
+    return new FunctionConfiguration({
+      ApiId: modelFunction.Properties.ApiId,
+      Name: name,
+      DataSourceName: modelFunction.Properties.DataSourceName,
+      FunctionVersion: '2018-05-29',
+      RequestMappingTemplate: print(this.getItemByModelRequestKey()),
+      ResponseMappingTemplate: modelResponseTemplate,
+    });
+  }
+
+  /**
+   * Writes the item of the mutation together with the lookup items of its unique fields in a single transaction.
+   * @param modelRequestTemplate The original request template of a create mutation, update and delete mutations render
+   * it in the existing item function.
+   */
+  public makeTransactionRequestTemplate(
+    typeName: string,
+    uniqueFields: string[],
+    operation: UniqueMutation,
+    modelRequestTemplate?: string,
+  ): string {
+    const prepareRequest =
+      operation === 'create'
+        ? [
+            this.renderModelRequest(modelRequestTemplate),
+            print(compoundExpression([set(ref('modelInput'), ref('ctx.args.input')), set(ref('existingItem'), obj({}))])),
+          ]
+        : [
+            print(
+              compoundExpression([
+                set(ref('modelRequest'), ref('ctx.stash.modelRequest')),
+                set(ref('modelInput'), ref('ctx.stash.modelInput')),
+                set(ref('existingItem'), ref('util.defaultIfNull($ctx.stash.existingItem, {})')),
+              ]),
+            ),
+          ];
+
+    const uniqueFieldExpressions = uniqueFields.map(field => {
+      switch (operation) {
+        case 'create':
+          return iff(not(ref(`util.isNull($modelInput.${field})`)), this.putUniqueItem(typeName, field));
+        case 'update':
+          return iff(
+            raw(`$modelInput.containsKey("${field}") && $modelInput.${field} != $existingItem.${field}`),
+            compoundExpression([
+              this.conditionOnExistingValue(field),
+              iff(not(ref(`util.isNull($existingItem.${field})`)), this.deleteUniqueItem(typeName, field)),
+              iff(not(ref(`util.isNull($modelInput.${field})`)), this.putUniqueItem(typeName, field)),
+            ]),
+          );
+        case 'delete':
+          return compoundExpression([
+            this.conditionOnExistingValue(field),
+            iff(not(ref(`util.isNull($existingItem.${field})`)), this.deleteUniqueItem(typeName, field)),
+          ]);
+      }
+    });
+
+    return [
+      ...prepareRequest,
+      printBlock('Prepare DynamoDB TransactWriteItems Request')(
+        compoundExpression([
+          // The request of the mutation becomes the first item of the transaction, they share the same shape.
+          set(ref('modelItem'), ref('modelRequest')),
+          qref('$modelItem.remove("version")'),
+          qref(`$modelItem.put("table", $ctx.stash.get("${ModelResourceIDs.ModelTableResourceID(typeName)}"))`),
+          set(ref('transactItems'), list([ref('modelItem')])),
+          // The unique field of every transaction item, the cancellation reasons of the transaction are reported in the same order.
+          set(ref('uniqueFields'), list([str('')])),
+          set(ref('uniqueConditions'), list([])),
+          set(ref('uniqueConditionNames'), obj({})),
+          set(ref('uniqueConditionValues'), obj({})),
+          ...uniqueFieldExpressions,
+          this.addUniqueConditions(),
+          qref('$ctx.stash.put("uniqueFields", $uniqueFields)'),
+          obj({
+            version: str('2018-05-29'),
+            operation: str('TransactWriteItems'),
+            transactItems: toJson(ref('transactItems')),
+          }),
+        ]),
+      ),
+    ].join('\n');
+  }
+
+  /**
+   * Turns a cancelled transaction into the error of the failed condition, conflicts on the lookup table name the unique field.
+   */
+  public makeTransactionResponseTemplate(typeName: string): string {
+    return print(
+      compoundExpression([
+        iff(
+          ref('ctx.error'),
+          compoundExpression([
+            iff(
+              raw('$ctx.result && $ctx.result.cancellationReasons'),
+              forEach(ref('reason'), ref('ctx.result.cancellationReasons'), [
+                iff(
+                  raw('$reason.type == "ConditionalCheckFailed"'),
+                  compoundExpression([
+                    set(ref('uniqueField'), ref('ctx.stash.uniqueFields.get($foreach.index)')),
+                    ifElse(
+                      raw('$uniqueField == ""'),
+                      ref('util.error("The conditional request failed", "DynamoDB:ConditionalCheckFailedException")'),
+                      ref(`util.error("${typeName}.$uniqueField must be unique.", "DynamoDB:ConditionalCheckFailedException")`),
+                    ),
+                  ]),
+                ),
+              ]),
+            ),
+            ref('util.error($ctx.error.message, $ctx.error.type)'),
+          ]),
+        ),
+        toJson(ref('ctx.prev.result')),
+      ]),
+    );
+  }
+
+  // The original request template is rendered into a variable and parsed, so the snippets other directives added to it still apply.
+  private renderModelRequest(modelRequestTemplate: string): string {
+    return [
+      '#define( $modelRequestJson )',
+      modelRequestTemplate,
+      '#end',
+      print(
+        compoundExpression([
+          set(ref('modelRequest'), ref('util.parseJson("$modelRequestJson")')),
+          qref('$ctx.stash.put("modelRequest", $modelRequest)'),
+          qref('$ctx.stash.put("modelInput", $ctx.args.input)'),
+        ]),
+      ),
+    ].join('\n');
+  }
+
+  private getItemByModelRequestKey(): ObjectNode {
+    const getItem = DynamoDBMappingTemplate.getItem({ key: toJson(ref('ctx.stash.modelRequest.key')), isSyncEnabled: true });
+    getItem.attributes.push(['consistentRead', bool(true)]);
+    return getItem;
+  }
+
+  private putUniqueItem(typeName: string, field: string): Expression {
+    return compoundExpression([
+      set(
+        ref('transactItem'),
+        obj({
+          table: ref(`ctx.stash.get("${ModelResourceIDs.ModelUniqueTableResourceID(typeName)}")`),
+          operation: str('PutItem'),
+          key: obj({
+            id: ref(`util.dynamodb.toDynamoDB("${this.uniqueItemId(field, 'modelInput')}")`),
+          }),
+          attributeValues: obj({
+            itemKey: obj({ M: ref('modelItem.key') }),
+          }),
+          condition: obj({
+            expression: str('attribute_not_exists(#id)'),
+            expressionNames: obj({ '#id': str('id') }),
+          }),
+        }),
+      ),
+      qref('$transactItems.add($transactItem)'),
+      qref(`$uniqueFields.add("${field}")`),
+    ]);
+  }
+
+  private deleteUniqueItem(typeName: string, field: string): Expression {
+    return compoundExpression([
+      set(
+        ref('transactItem'),
+        obj({
+          table: ref(`ctx.stash.get("${ModelResourceIDs.ModelUniqueTableResourceID(typeName)}")`),
+          operation: str('DeleteItem'),
+          key: obj({
+            id: ref(`util.dynamodb.toDynamoDB("${this.uniqueItemId(field, 'existingItem')}")`),
+          }),
+        }),
+      ),
+      qref('$transactItems.add($transactItem)'),
+      qref('$uniqueFields.add("")'),
+    ]);
+  }
+
+  private uniqueItemId(field: string, itemVariable: string): string {
+    return [field, `\${${itemVariable}.${field}}`].join(ModelResourceIDs.ModelCompositeKeySeparator());
+  }
+
+  // The item must still have the value that was read, otherwise the lookup items of a concurrent change would be lost.
+  private conditionOnExistingValue(field: string): Expression {
+    return compoundExpression([
+      ifElse(
+        ref(`util.isNull($existingItem.${field})`),
+        qref(`$uniqueConditions.add("attribute_not_exists(#unique_${field})")`),
+        compoundExpression([
+          qref(`$uniqueConditions.add("#unique_${field} = :unique_${field}")`),
+          qref(`$uniqueConditionValues.put(":unique_${field}", $util.dynamodb.toDynamoDB($existingItem.${field}))`),
+        ]),
+      ),
+      qref(`$uniqueConditionNames.put("#unique_${field}", "${field}")`),
+    ]);
+  }
+
+  private addUniqueConditions(): Expression {
+    return iff(
+      raw('!$uniqueConditions.isEmpty()'),
+      compoundExpression([
+        set(ref('conditionExpression'), str('($modelItem.condition.expression)')),
+        forEach(ref('uniqueCondition'), ref('uniqueConditions'), [
+          set(ref('conditionExpression'), str('$conditionExpression AND $uniqueCondition')),
+        ]),
+        qref('$modelItem.condition.put("expression", $conditionExpression)'),
+        qref('$modelItem.condition.expressionNames.putAll($uniqueConditionNames)'),
+        iff(
+          raw('!$uniqueConditionValues.isEmpty()'),
+          compoundExpression([
+            qref('$modelItem.condition.put("expressionValues", $util.defaultIfNull($modelItem.condition.expressionValues, {}))'),
+            qref('$modelItem.condition.expressionValues.putAll($uniqueConditionValues)'),
+          ]),
+        ),
+      ]),
+    );
+  }
+
+  private uniqueTableName(typeName: string): IntrinsicFunction {
+    return Fn.If(
+      ResourceConstants.CONDITIONS.HasEnvironmentParameter,
+      Fn.Join('-', [
+        `${typeName}Unique`,
+        Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'ApiId'),
+        Fn.Ref(ResourceConstants.PARAMETERS.Env),
+      ]),
+      Fn.Join('-', [`${typeName}Unique`, Fn.GetAtt(ResourceConstants.RESOURCES.GraphQLAPILogicalID, 'ApiId')]),
+    );
+  }
+}
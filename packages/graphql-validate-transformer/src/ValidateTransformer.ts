@@ -0,0 +1,219 @@
+import { Transformer, TransformerContext, InvalidDirectiveError, gql, getDirectiveArguments } from 'graphql-transformer-core';
+import {
+  ObjectTypeDefinitionNode,
+  FieldDefinitionNode,
+  DirectiveNode,
+  InterfaceTypeDefinitionNode,
+  EnumTypeDefinitionNode,
+  Kind,
+} from 'graphql';
+import { printBlock, compoundExpression, iff, raw, set, ref, list, Expression } from 'graphql-mapping-template';
+import { ResolverResourceIDs, DEFAULT_SCALARS, NUMERIC_SCALARS, getBaseType, isListType } from 'graphql-transformer-common';
+
+type ValidationFormat = 'EMAIL' | 'URL' | 'PHONE';
+
+interface ValidateArguments {
+  pattern?: string;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  oneOf?: string[];
+  format?: ValidationFormat;
+}
+
+interface ValidationRule {
+  condition: string;
+  message: string;
+}
+
+const VALIDATION_ERROR_TYPE = 'ValidationError';
+
+/**
+ * The patterns are anchored, AppSync matches the whole value while the simulator matches any part of it.
+ */
+const FORMAT_PATTERNS: { [format in ValidationFormat]: { pattern: string; description: string } } = {
+  EMAIL: { pattern: '[^\\s@]+@[^\\s@]+\\.[^\\s@]+', description: 'a valid email address' },
+  URL: { pattern: '[a-zA-Z][a-zA-Z0-9+.-]*://[^\\s/?#]+[^\\s]*', description: 'a valid URL' },
+  PHONE: { pattern: '\\+[1-9][0-9]{1,14}', description: 'a phone number in E.164 format' },
+};
+
+export class ValidateTransformer extends Transformer {
+  constructor() {
+    super(
+      'ValidateTransformer',
+      gql`
+        directive @validate(
+          pattern: String
+          min: Float
+          max: Float
+          minLength: Int
+          maxLength: Int
+          oneOf: [String!]
+          format: ValidationFormat
+        ) on FIELD_DEFINITION
+        enum ValidationFormat {
+          EMAIL
+          URL
+          PHONE
+        }
+      `,
+    );
+  }
+
+  /**
+   * Usage:
+   *
+   * type User @model {
+   *   id: ID!
+   *   email: String! @validate(format: EMAIL, maxLength: 254)
+   *   age: Int @validate(min: 18)
+   * }
+   *
+   * Guards the create and update mutations of the type. A value breaking a rule fails the mutation with a ValidationError
+   * that carries the path of the field in the input, null values are left to the nullability of the field.
+   */
+  public field = (
+    parent: ObjectTypeDefinitionNode | InterfaceTypeDefinitionNode,
+    field: FieldDefinitionNode,
+    directive: DirectiveNode,
+    ctx: TransformerContext,
+  ): void => {
+    const typeName = parent.name.value;
+    const fieldName = field.name.value;
+    if (parent.kind === Kind.INTERFACE_TYPE_DEFINITION || !parent.directives.find(d => d.name.value === 'model')) {
+      throw new InvalidDirectiveError(`@validate on ${typeName}.${fieldName} is only supported on fields of a @model type.`);
+    }
+
+    const args: ValidateArguments = getDirectiveArguments(directive);
+    const rules = this.getRules(`${typeName}.${fieldName}`, `input.${fieldName}`, field, args, ctx);
+    const snippet = printBlock(`Validate input.${fieldName}`)(
+      iff(raw(`!$util.isNull($ctx.args.input.${fieldName})`), compoundExpression(rules)),
+    );
+    for (const resolverId of [
+      ResolverResourceIDs.DynamoDBCreateResolverResourceID(typeName),
+      ResolverResourceIDs.DynamoDBUpdateResolverResourceID(typeName),
+    ]) {
+      const resolver = ctx.getResource(resolverId);
+      if (resolver) {
+        resolver.Properties.RequestMappingTemplate = snippet + '\n\n' + resolver.Properties.RequestMappingTemplate;
+        ctx.setResource(resolverId, resolver);
+      }
+    }
+  };
+
+  private getRules(
+    fieldPath: string,
+    inputPath: string,
+    field: FieldDefinitionNode,
+    args: ValidateArguments,
+    ctx: TransformerContext,
+  ): Expression[] {
+    const { pattern, min, max, minLength, maxLength, oneOf, format } = args;
+    const value = `$ctx.args.${inputPath}`;
+    const baseType = getBaseType(field.type);
+    const enumType = ctx.getType(baseType) as EnumTypeDefinitionNode;
+    const isEnum = Boolean(enumType && enumType.kind === Kind.ENUM_TYPE_DEFINITION);
+    const isString = DEFAULT_SCALARS[baseType] === 'String';
+    const isNumeric = Boolean(NUMERIC_SCALARS[baseType]);
+
+    if (![pattern, min, max, minLength, maxLength, oneOf, format].some(isSet)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} needs at least one rule.`);
+    }
+    if (isListType(field.type)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} is not supported on list fields.`);
+    }
+    if (!isString && [pattern, minLength, maxLength, format].some(isSet)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} only supports pattern, minLength, maxLength and format on string fields.`);
+    }
+    if (!isNumeric && [min, max].some(isSet)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} only supports min and max on numeric fields.`);
+    }
+    if (!isString && !isEnum && isSet(oneOf)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} only supports oneOf on string and enum fields.`);
+    }
+    if (isSet(min) && isSet(max) && min > max) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} has a min greater than its max.`);
+    }
+    if ((isSet(minLength) && minLength < 0) || (isSet(maxLength) && maxLength < 0)) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} has a negative length.`);
+    }
+    if (isSet(minLength) && isSet(maxLength) && minLength > maxLength) {
+      throw new InvalidDirectiveError(`@validate on ${fieldPath} has a minLength greater than its maxLength.`);
+    }
+
+    const rules: ValidationRule[] = [];
+    if (isSet(format)) {
+      const { pattern: formatPattern, description } = FORMAT_PATTERNS[format];
+      rules.push({
+        condition: `!$util.matches(${quote(anchor(formatPattern))}, ${value})`,
+        message: `${inputPath} must be ${description}.`,
+      });
+    }
+    if (isSet(pattern)) {
+      // Template strings are single quoted so they are not interpolated, which leaves no way to escape a single quote.
+      if (pattern.includes(`'`)) {
+        throw new InvalidDirectiveError(`@validate on ${fieldPath} can not use single quotes in its pattern, use \\x27 instead.`);
+      }
+      try {
+        new RegExp(pattern);
+      } catch (e) {
+        throw new InvalidDirectiveError(`@validate on ${fieldPath} has an invalid pattern. ${e.message}`);
+      }
+      rules.push({
+        condition: `!$util.matches(${quote(anchor(pattern))}, ${value})`,
+        message: `${inputPath} must match the pattern ${pattern}.`,
+      });
+    }
+    if (isSet(minLength)) {
+      rules.push({ condition: `${value}.length() < ${minLength}`, message: `${inputPath} must be at least ${minLength} characters long.` });
+    }
+    if (isSet(maxLength)) {
+      rules.push({ condition: `${value}.length() > ${maxLength}`, message: `${inputPath} must be at most ${maxLength} characters long.` });
+    }
+    if (isSet(min)) {
+      rules.push({ condition: `${value} < ${min}`, message: `${inputPath} must be at least ${min}.` });
+    }
+    if (isSet(max)) {
+      rules.push({ condition: `${value} > ${max}`, message: `${inputPath} must be at most ${max}.` });
+    }
+
+    const oneOfExpressions: Expression[] = [];
+    if (isSet(oneOf)) {
+      if (oneOf.length === 0) {
+        throw new InvalidDirectiveError(`@validate on ${fieldPath} needs at least one value in oneOf.`);
+      }
+      if (oneOf.some(v => v.includes(`'`))) {
+        throw new InvalidDirectiveError(`@validate on ${fieldPath} can not use single quotes in oneOf.`);
+      }
+      if (isEnum) {
+        const enumValues = enumType.values.map(v => v.name.value);
+        const unknownValue = oneOf.find(v => !enumValues.includes(v));
+        if (unknownValue) {
+          throw new InvalidDirectiveError(`@validate on ${fieldPath} allows ${unknownValue}, which is not a value of ${baseType}.`);
+        }
+      }
+      oneOfExpressions.push(set(ref('validateOneOf'), list(oneOf.map(v => raw(quote(v))))));
+      rules.push({ condition: `!$validateOneOf.contains(${value})`, message: `${inputPath} must be one of ${oneOf.join(', ')}.` });
+    }
+
+    return [
+      ...oneOfExpressions,
+      ...rules.map(({ condition, message }) =>
+        iff(raw(condition), raw(`$util.error(${quote(message)}, ${quote(VALIDATION_ERROR_TYPE)}, null, { "field": "${inputPath}" })`)),
+      ),
+    ];
+  }
+}
+
+function isSet(arg: any): boolean {
+  return arg !== undefined && arg !== null;
+}
+
+function anchor(pattern: string): string {
+  return `^(?:${pattern})$`;
+}
+
+function quote(value: string): string {
+  return `'${value}'`;
+}
@@ -0,0 +1,126 @@
+import { GraphQLTransform } from 'graphql-transformer-core';
+import { DynamoDBModelTransformer } from 'graphql-dynamodb-transformer';
+import { KeyTransformer } from 'graphql-key-transformer';
+import { ValidateTransformer } from '../ValidateTransformer';
+
+test('@validate guards the create and update mutations', () => {
+  const validSchema = `
+    type User @model {
+      id: ID!
+      email: AWSEmail! @validate(format: EMAIL, maxLength: 254)
+      handle: String @validate(pattern: "[a-z0-9_]+", minLength: 3)
+      age: Int @validate(min: 18, max: 130)
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ValidateTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  for (const mutation of ['createUser', 'updateUser']) {
+    const template = out.resolvers[`Mutation.${mutation}.req.vtl`];
+    expect(template).toContain('## [Start] Validate input.email. **');
+    expect(template).toContain('#if( !$util.isNull($ctx.args.input.email) )');
+    expect(template).toContain(
+      `$util.error('input.email must be at most 254 characters long.', 'ValidationError', null, { "field": "input.email" })`,
+    );
+    expect(template).toContain(`#if( !$util.matches('^(?:[a-z0-9_]+)$', $ctx.args.input.handle) )`);
+    expect(template).toContain('#if( $ctx.args.input.handle.length() < 3 )');
+    expect(template).toContain('#if( $ctx.args.input.age < 18 )');
+    expect(template).toContain(`$util.error('input.age must be at most 130.', 'ValidationError', null, { "field": "input.age" })`);
+    // the guards run before the item is written
+    expect(template.indexOf('Validate input.email')).toBeLessThan(template.indexOf('"operation"'));
+  }
+  expect(out.resolvers['Mutation.deleteUser.req.vtl']).not.toContain('Validate');
+  expect(out.resolvers['Query.getUser.req.vtl']).not.toContain('Validate');
+});
+
+test('@validate restricts enum fields to a subset of their values', () => {
+  const validSchema = `
+    enum Status {
+      DRAFT
+      PUBLISHED
+      ARCHIVED
+    }
+
+    type Post @model @key(fields: ["slug"]) {
+      slug: String!
+      status: Status @validate(oneOf: ["DRAFT", "PUBLISHED"])
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ValidateTransformer()],
+  });
+  const out = transformer.transform(validSchema);
+  const template = out.resolvers['Mutation.createPost.req.vtl'];
+  expect(template).toContain(`#set( $validateOneOf = ['DRAFT', 'PUBLISHED'] )`);
+  expect(template).toContain('#if( !$validateOneOf.contains($ctx.args.input.status) )');
+  expect(template).toContain(`$util.error('input.status must be one of DRAFT, PUBLISHED.'`);
+
+  expect(() => transformer.transform(validSchema.replace('"PUBLISHED"]', '"PUBLISHED", "DELETED"]'))).toThrowError(
+    '@validate on Post.status allows DELETED, which is not a value of Status.',
+  );
+});
+
+test('@validate should fail on a field of a type without @model', () => {
+  const invalidSchema = `
+    type User {
+      id: ID!
+      email: String @validate(format: EMAIL)
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ValidateTransformer()],
+  });
+  expect(() => transformer.transform(invalidSchema)).toThrowError('@validate on User.email is only supported on fields of a @model type.');
+});
+
+test('@validate should fail on rules that do not apply to the type of the field', () => {
+  const schemaWithField = (field: string) => `
+    type User @model {
+      id: ID!
+      ${field}
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ValidateTransformer()],
+  });
+  expect(() => transformer.transform(schemaWithField('age: Int @validate(maxLength: 3)'))).toThrowError(
+    '@validate on User.age only supports pattern, minLength, maxLength and format on string fields.',
+  );
+  expect(() => transformer.transform(schemaWithField('name: String @validate(min: 1)'))).toThrowError(
+    '@validate on User.name only supports min and max on numeric fields.',
+  );
+  expect(() => transformer.transform(schemaWithField('active: Boolean @validate(oneOf: ["true"])'))).toThrowError(
+    '@validate on User.active only supports oneOf on string and enum fields.',
+  );
+  expect(() => transformer.transform(schemaWithField('names: [String] @validate(minLength: 1)'))).toThrowError(
+    '@validate on User.names is not supported on list fields.',
+  );
+});
+
+test('@validate should fail on invalid rules', () => {
+  const schemaWithField = (field: string) => `
+    type User @model {
+      id: ID!
+      ${field}
+    }
+    `;
+  const transformer = new GraphQLTransform({
+    transformers: [new DynamoDBModelTransformer(), new KeyTransformer(), new ValidateTransformer()],
+  });
+  expect(() => transformer.transform(schemaWithField('name: String @validate'))).toThrowError(
+    '@validate on User.name needs at least one rule.',
+  );
+  expect(() => transformer.transform(schemaWithField('age: Int @validate(min: 10, max: 1)'))).toThrowError(
+    '@validate on User.age has a min greater than its max.',
+  );
+  expect(() => transformer.transform(schemaWithField('name: String @validate(minLength: 10, maxLength: 1)'))).toThrowError(
+    '@validate on User.name has a minLength greater than its maxLength.',
+  );
+  expect(() => transformer.transform(schemaWithField(`name: String @validate(pattern: "[a-z']+")`))).toThrowError(
+    '@validate on User.name can not use single quotes in its pattern, use \\x27 instead.',
+  );
+  expect(() => transformer.transform(schemaWithField('name: String @validate(pattern: "[a-z")'))).toThrowError(
+    '@validate on User.name has an invalid pattern.',
+  );
+});